@@ -0,0 +1,71 @@
+import { useEffect, useState } from "react";
+import type { BreakoutSession } from "~/lib/breakout";
+
+interface BreakoutBannerProps {
+  session: BreakoutSession | null;
+  assignedRoom: string | null;
+  // Why moving to or from a breakout room failed, if it did
+  switchError?: string | null;
+  onRetry?: () => void;
+}
+
+/**
+ * Formats the time left as m:ss
+ */
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+/**
+ * BreakoutBanner - Tells participants which breakout room they're in and
+ * when everyone goes back to the main room
+ *
+ * @param {Object} props Component properties
+ * @param {BreakoutSession} props.session The running session, if any
+ * @param {string} props.assignedRoom The room we were sent to, or null
+ * @param {string} props.switchError Why the last move between rooms failed
+ * @param {Function} props.onRetry Tries the failed move again
+ */
+const BreakoutBanner = ({
+  session,
+  assignedRoom,
+  switchError,
+  onRetry,
+}: BreakoutBannerProps) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!session) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [session]);
+
+  if (switchError) {
+    return (
+      <div className="bg-red-50 border border-red-200 text-red-800 text-sm rounded p-3 mb-2">
+        {switchError}{" "}
+        {onRetry && (
+          <button type="button" onClick={onRetry} className="underline">
+            Try again
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (!session) return null;
+
+  const room = session.rooms.find((breakout) => breakout.name === assignedRoom);
+  const remaining = formatRemaining(new Date(session.endsAt).getTime() - now);
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 text-blue-900 text-sm rounded p-3 mb-2">
+      {room
+        ? `You're in ${room.label}. Everyone returns to the main room in ${remaining}.`
+        : `Breakout rooms are open for another ${remaining}.`}
+    </div>
+  );
+};
+
+export default BreakoutBanner;
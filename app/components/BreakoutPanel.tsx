@@ -0,0 +1,186 @@
+import { useState } from "react";
+import type { RosterParticipant } from "~/hooks/useParticipants";
+import {
+  MAX_BREAKOUT_MINUTES,
+  MAX_BREAKOUT_ROOMS,
+  assignRandomly,
+  type BreakoutSession,
+} from "~/lib/breakout";
+
+interface BreakoutPanelProps {
+  participants: RosterParticipant[];
+  session: BreakoutSession | null;
+  error: string | null;
+  onStart: (
+    roomCount: number,
+    durationMinutes: number,
+    assignments: Record<string, number>
+  ) => void;
+  onEnd: () => void;
+}
+
+/**
+ * BreakoutPanel - Lets the host split the meeting into breakout rooms,
+ * randomly or by hand, and end them early
+ *
+ * @param {Object} props Component properties
+ * @param {RosterParticipant[]} props.participants Everyone in the main room
+ * @param {BreakoutSession} props.session The running session, if any
+ * @param {string} props.error The last error from the server
+ * @param {Function} props.onStart Starts the session with the chosen assignments
+ * @param {Function} props.onEnd Brings everyone back to the main room
+ */
+const BreakoutPanel = ({
+  participants,
+  session,
+  error,
+  onStart,
+  onEnd,
+}: BreakoutPanelProps) => {
+  const [roomCount, setRoomCount] = useState(2);
+  const [durationMinutes, setDurationMinutes] = useState(10);
+  // Room index per participant id; unassigned participants stay in the main room
+  const [assignments, setAssignments] = useState<Record<string, number>>({});
+
+  const handleRoomCountChange = (count: number) => {
+    setRoomCount(count);
+    // Drop assignments to rooms that no longer exist
+    setAssignments((current) =>
+      Object.fromEntries(
+        Object.entries(current).filter(([, index]) => index < count)
+      )
+    );
+  };
+
+  const handleAssign = (participantId: string, value: string) => {
+    setAssignments((current) => {
+      const { [participantId]: _previous, ...rest } = current;
+      return value === "" ? rest : { ...rest, [participantId]: Number(value) };
+    });
+  };
+
+  return (
+    <aside className="w-64 flex-shrink-0 bg-white border-l border-gray-200 flex flex-col">
+      <h3 className="px-4 py-3 font-semibold border-b border-gray-200">
+        Breakout Rooms
+      </h3>
+
+      {session ? (
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {session.rooms.map((room) => (
+            <div key={room.name}>
+              <p className="text-sm font-medium">{room.label}</p>
+              <p className="text-xs text-gray-600">
+                {room.participants.length > 0
+                  ? room.participants.join(", ")
+                  : "Nobody"}
+              </p>
+            </div>
+          ))}
+          <button
+            onClick={onEnd}
+            className="w-full py-2 px-4 bg-red-600 text-white text-sm font-semibold rounded-md hover:bg-red-700"
+          >
+            End Breakout Rooms
+          </button>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          <div className="flex space-x-2">
+            <label className="flex-1 text-xs">
+              Rooms
+              <input
+                type="number"
+                min={1}
+                max={MAX_BREAKOUT_ROOMS}
+                value={roomCount}
+                onChange={(e) =>
+                  handleRoomCountChange(
+                    Math.min(
+                      MAX_BREAKOUT_ROOMS,
+                      Math.max(1, Number(e.target.value) || 1)
+                    )
+                  )
+                }
+                className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+              />
+            </label>
+            <label className="flex-1 text-xs">
+              Minutes
+              <input
+                type="number"
+                min={1}
+                max={MAX_BREAKOUT_MINUTES}
+                value={durationMinutes}
+                onChange={(e) =>
+                  setDurationMinutes(
+                    Math.min(
+                      MAX_BREAKOUT_MINUTES,
+                      Math.max(1, Number(e.target.value) || 1)
+                    )
+                  )
+                }
+                className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+              />
+            </label>
+          </div>
+
+          <button
+            onClick={() =>
+              setAssignments(
+                assignRandomly(
+                  participants.map((participant) => participant.id),
+                  roomCount
+                )
+              )
+            }
+            className="w-full py-1 px-4 border border-gray-300 text-sm rounded-md hover:bg-gray-100"
+          >
+            Assign Randomly
+          </button>
+
+          <ul className="space-y-2">
+            {participants.map((participant) => (
+              <li
+                key={participant.id}
+                className="flex items-center justify-between"
+              >
+                <span className="text-sm truncate mr-2">
+                  {participant.displayName}
+                  {participant.isLocal && (
+                    <span className="text-gray-500"> (You)</span>
+                  )}
+                </span>
+                <select
+                  value={assignments[participant.id] ?? ""}
+                  onChange={(e) => handleAssign(participant.id, e.target.value)}
+                  aria-label={`Room for ${participant.displayName}`}
+                  className="text-xs border border-gray-300 rounded-md"
+                >
+                  <option value="">Main</option>
+                  {Array.from({ length: roomCount }, (_, index) => (
+                    <option key={index} value={index}>
+                      Room {index + 1}
+                    </option>
+                  ))}
+                </select>
+              </li>
+            ))}
+          </ul>
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <button
+            onClick={() => onStart(roomCount, durationMinutes, assignments)}
+            disabled={Object.keys(assignments).length === 0}
+            className="w-full py-2 px-4 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Open Breakout Rooms
+          </button>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default BreakoutPanel;
@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from "react";
+import { useChat } from "~/hooks/useChat";
+import { MAX_CHAT_MESSAGE_LENGTH } from "~/lib/chat";
+
+interface ChatPanelProps {
+  roomName: string;
+  displayName: string;
+}
+
+/**
+ * ChatPanel - Room chat kept on our own server, so it survives reconnects
+ * and leaving the meeting, unlike Jitsi's built-in chat
+ *
+ * @param {Object} props Component properties
+ * @param {string} props.roomName The room whose chat to show
+ * @param {string} props.displayName The name shown next to our messages
+ */
+const ChatPanel = ({ roomName, displayName }: ChatPanelProps) => {
+  const { messages, status, error, senderId, send } = useChat(
+    roomName,
+    displayName
+  );
+  const [draft, setDraft] = useState("");
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages]);
+
+  const handleSubmit = (e) => {
+    e.preventDefault();
+    if (draft.trim() === "") return;
+    if (send(draft)) {
+      setDraft("");
+    }
+  };
+
+  return (
+    <aside className="w-72 flex-shrink-0 bg-white border-l border-gray-200 flex flex-col">
+      <div className="px-4 py-3 border-b border-gray-200 flex justify-between items-center">
+        <h3 className="font-semibold">Chat</h3>
+        <a
+          href={`/api/chat/${roomName}?format=txt`}
+          className="text-xs text-blue-600 hover:underline"
+        >
+          Export
+        </a>
+      </div>
+
+      {status !== "open" && (
+        <p className="px-4 py-2 text-xs bg-yellow-50 text-yellow-800">
+          {status === "connecting"
+            ? "Connecting to chat..."
+            : "Reconnecting..."}
+        </p>
+      )}
+
+      <ul ref={listRef} className="flex-1 overflow-y-auto p-4 space-y-3">
+        {messages.length === 0 && (
+          <li className="text-sm text-gray-500">No messages yet.</li>
+        )}
+        {messages.map((message) => (
+          <li key={message.id} className="text-sm">
+            <div className="flex justify-between text-xs text-gray-500">
+              <span className="font-medium">
+                {message.senderId === senderId ? "You" : message.senderName}
+              </span>
+              <time dateTime={message.sentAt}>
+                {new Date(message.sentAt).toLocaleTimeString(undefined, {
+                  timeStyle: "short",
+                })}
+              </time>
+            </div>
+            <p className="whitespace-pre-wrap break-words">{message.text}</p>
+          </li>
+        ))}
+      </ul>
+
+      {error && <p className="px-4 text-xs text-red-600">{error}</p>}
+
+      <form
+        onSubmit={handleSubmit}
+        className="p-2 border-t border-gray-200 flex"
+      >
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={MAX_CHAT_MESSAGE_LENGTH}
+          placeholder="Send a message"
+          aria-label="Chat message"
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm"
+        />
+        <button
+          type="submit"
+          disabled={status !== "open"}
+          className="ml-2 px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          Send
+        </button>
+      </form>
+    </aside>
+  );
+};
+
+export default ChatPanel;
@@ -0,0 +1,31 @@
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * HighlightedText - Shows text with every word of a search query marked
+ *
+ * @param {Object} props Component properties
+ * @param {string} props.text The text to show
+ * @param {string} props.query The search query whose words to mark
+ */
+const HighlightedText = ({ text, query }: HighlightedTextProps) => {
+  const words = query.split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (words.length === 0) return <>{text}</>;
+
+  // Splitting on a capturing group puts the matches at odd indexes
+  const parts = text.split(new RegExp(`(${words.join("|")})`, "gi"));
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? <mark key={index}>{part}</mark> : part
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
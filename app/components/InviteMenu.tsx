@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import {
+  getInviteMailtoUrl,
+  getInviteSchedule,
+  getRoomUrl,
+} from "~/lib/invites";
+import type { Meeting } from "~/lib/meetings";
+
+interface InviteMenuProps {
+  roomName: string;
+  title: string;
+  meeting?: Pick<
+    Meeting,
+    "description" | "scheduledStart" | "scheduledEnd"
+  > | null;
+  dialIn: string | null;
+}
+
+/**
+ * InviteMenu - "Invite" button for the conference header with options to
+ * copy the room link, download a calendar invite or send it by email
+ *
+ * @param {Object} props Component properties
+ * @param {string} props.roomName The room to invite people to
+ * @param {string} props.title The meeting title used in the invite
+ * @param {Meeting} props.meeting The registered meeting, for its schedule
+ * @param {string} props.dialIn Phone dial-in instructions, if any
+ */
+const InviteMenu = ({ roomName, title, meeting, dialIn }: InviteMenuProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  // Reset the "Copied" note a moment after copying
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const joinUrl = getRoomUrl(window.location.origin, roomName);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(joinUrl);
+      setCopied(true);
+    } catch (error) {
+      console.error("Failed to copy the invite link:", error);
+      window.prompt("Copy the invite link:", joinUrl);
+    }
+  };
+
+  // Worked out when the menu renders, so ad-hoc invites start "now"
+  const mailtoUrl = isOpen
+    ? getInviteMailtoUrl({
+        title,
+        description: meeting?.description ?? "",
+        joinUrl,
+        ...getInviteSchedule(meeting ?? null),
+        dialIn,
+      })
+    : undefined;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded"
+      >
+        Invite
+      </button>
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-2 w-56 bg-white text-gray-800 rounded-md shadow-lg py-1 z-10"
+          onClick={() => setIsOpen(false)}
+        >
+          <button
+            onClick={handleCopyLink}
+            className="block w-full text-left px-4 py-2 text-sm hover:bg-gray-100"
+          >
+            Copy invite link
+          </button>
+          <a
+            href={`/api/invite/${roomName}`}
+            download
+            className="block px-4 py-2 text-sm hover:bg-gray-100"
+          >
+            Download calendar invite (.ics)
+          </a>
+          <a
+            href={mailtoUrl}
+            className="block px-4 py-2 text-sm hover:bg-gray-100"
+          >
+            Send invite by email
+          </a>
+        </div>
+      )}
+      {copied && (
+        <p className="absolute right-0 mt-2 text-xs bg-gray-900 text-white px-2 py-1 rounded">
+          Link copied
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default InviteMenu;
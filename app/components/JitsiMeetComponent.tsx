@@ -1,36 +1,66 @@
-import { useEffect, useRef, useState } from "react";
-
-interface IJitsiMeetAPI {
-  new (domain: string, options: JitsiMeetAPIOptions): IJitsiMeetAPI;
-  dispose(): void;
-  getNumberOfParticipants(): number;
-  addEventListeners(listeners: Record<string, (event: any) => void>): void;
-}
-
-interface JitsiMeetAPIOptions {
-  roomName: string;
-  width: string | number;
-  height: string | number;
-  parentNode: HTMLElement;
-  userInfo?: {
-    displayName?: string;
-  };
-  configOverwrite?: Record<string, any>;
-  interfaceConfigOverwrite?: Record<string, any>;
-}
-
-declare global {
-  interface Window {
-    JitsiMeetExternalAPI: IJitsiMeetAPI;
-  }
-}
+import {
+  forwardRef,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+  type ForwardedRef,
+} from "react";
+import { createAttendanceReporter } from "~/lib/attendance";
+import { createPresenceReporter } from "~/lib/presence";
+import { createTranscriptCollector } from "~/lib/transcripts";
+import {
+  createJitsiConnection,
+  DEFAULT_BACKOFF,
+  initialConnectionState,
+  loadJitsiScript,
+  type BackoffOptions,
+  type ConnectionState,
+  type JitsiConnection,
+} from "~/lib/jitsi-connection";
+import {
+  JITSI_EVENT_NAMES,
+  callJitsiEventHandler,
+  createJitsiEventEmitter,
+} from "~/lib/jitsi-events";
+import {
+  buildPresetConfig,
+  deepMerge,
+  type MeetingPreset,
+} from "~/lib/meeting-presets";
+import type {
+  IJitsiMeetAPI,
+  JitsiConfigOverwrite,
+  JitsiDeviceSelection,
+  JitsiEventHandlers,
+  JitsiInterfaceConfigOverwrite,
+  JitsiMeetAPIOptions,
+  JitsiMeetHandle,
+} from "~/types/jitsi";
+
+// How long hangup() waits for Jitsi to confirm we left before giving up
+const HANGUP_TIMEOUT_MS = 3000;
 
 interface JitsiMeetProps {
   roomName: string;
   displayName?: string;
+  email?: string;
+  avatarUrl?: string;
   domain?: string;
   startWithAudioMuted?: boolean;
   startWithVideoMuted?: boolean;
+  preset?: MeetingPreset;
+  configOverwrite?: JitsiConfigOverwrite;
+  interfaceConfigOverwrite?: JitsiInterfaceConfigOverwrite;
+  jwt?: string;
+  devices?: JitsiDeviceSelection;
+  onEvent?: JitsiEventHandlers;
+  backoff?: Partial<BackoffOptions>;
+  onStatusChange?: (state: ConnectionState) => void;
+  reportAttendance?: boolean;
+  reportPresence?: boolean;
+  enableRecording?: boolean;
+  collectTranscript?: boolean;
 }
 
 /**
@@ -40,351 +70,390 @@ interface JitsiMeetProps {
  * @param {Object} props Component properties
  * @param {string} props.roomName The name of the Jitsi Meet room to join
  * @param {string} props.displayName The user's display name in the conference
+ * @param {string} props.email The signed-in user's email, shared with Jitsi for Gravatar and the participant list
+ * @param {string} props.avatarUrl The signed-in user's avatar image
  * @param {string} props.domain The domain hosting the Jitsi Meet instance (default: meet.jit.si)
- * @param {boolean} props.startWithAudioMuted Whether to start with audio muted (default: false)
- * @param {boolean} props.startWithVideoMuted Whether to start with video muted (default: false)
+ * @param {boolean} props.startWithAudioMuted Whether to start with audio muted (default: from the preset)
+ * @param {boolean} props.startWithVideoMuted Whether to start with video muted (default: from the preset)
+ * @param {MeetingPreset} props.preset Named toolbar and feature setup (default: default)
+ * @param {JitsiConfigOverwrite} props.configOverwrite Deep-merged over the preset's config
+ * @param {JitsiInterfaceConfigOverwrite} props.interfaceConfigOverwrite Deep-merged over the preset's interface config
+ * @param {string} props.jwt Token for Jitsi deployments with token authentication enabled
+ * @param {JitsiDeviceSelection} props.devices Devices picked in the pre-join lobby to start the meeting on
+ * @param {JitsiEventHandlers} props.onEvent Typed handlers for External API events
+ * @param {Partial<BackoffOptions>} props.backoff Reconnect backoff settings (read when the meeting starts)
+ * @param {Function} props.onStatusChange Called whenever the connection state changes
+ * @param {boolean} props.reportAttendance Whether to send join/leave and media events to the attendance log (default: false)
+ * @param {boolean} props.reportPresence Whether to send presence heartbeats for the /rooms dashboard (default: false)
+ * @param {boolean} props.enableRecording Whether Jibri file recording and live streaming are turned on, for the startRecording command (default: false)
+ * @param {boolean} props.collectTranscript Whether to collect subtitles and chat into the room's transcript archive (default: false)
+ * @param {React.Ref<JitsiMeetHandle>} ref Receives the controller used to drive the meeting
  */
-const JitsiMeetComponent = ({
-  roomName,
-  displayName = "User",
-  domain = "meet.jit.si",
-  startWithAudioMuted = false,
-  startWithVideoMuted = false,
-}: JitsiMeetProps) => {
+const JitsiMeetComponent = (
+  {
+    roomName,
+    displayName = "User",
+    email,
+    avatarUrl,
+    domain = "meet.jit.si",
+    startWithAudioMuted,
+    startWithVideoMuted,
+    preset = "default",
+    configOverwrite,
+    interfaceConfigOverwrite,
+    jwt,
+    devices,
+    onEvent,
+    backoff,
+    onStatusChange,
+    reportAttendance = false,
+    reportPresence = false,
+    enableRecording = false,
+    collectTranscript = false,
+  }: JitsiMeetProps,
+  ref: ForwardedRef<JitsiMeetHandle>
+) => {
   // Reference to the container div that will hold the Jitsi Meet iframe
   const jitsiContainerRef = useRef(null);
   // Reference to the Jitsi Meet API instance
-  const jitsiApiRef = useRef(null);
-  // State to track connection status
-  const [connectionStatus, setConnectionStatus] = useState("connecting");
-  // State to track reconnection attempts
-  const [reconnectAttempts, setReconnectAttempts] = useState(0);
-  // Maximum number of reconnection attempts
-  const MAX_RECONNECT_ATTEMPTS = 3;
-  // Flag to prevent multiple simultaneous reconnect attempts
-  const isReconnectingRef = useRef(false);
+  const jitsiApiRef = useRef<IJitsiMeetAPI | null>(null);
+  // Current state of the connection state machine
+  const [connection, setConnection] = useState<ConnectionState>(
+    initialConnectionState
+  );
+  // The running state machine, used for manual retries
+  const connectionRef = useRef<JitsiConnection | null>(null);
+  // Consumers subscribed through the controller's on(); outlives reconnects
+  const eventsRef = useRef(createJitsiEventEmitter());
+  // Latest onEvent prop, read when events fire so handlers can change freely
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const onStatusChangeRef = useRef(onStatusChange);
+  onStatusChangeRef.current = onStatusChange;
+  // Latest options builder, so reconnects start with the current devices,
+  // preset and config instead of those from when the meeting mounted
+  const buildOptionsRef = useRef<() => JitsiMeetAPIOptions>(null);
+  // Latest avatar, sent once the conference is joined
+  const avatarUrlRef = useRef(avatarUrl);
+  avatarUrlRef.current = avatarUrl;
+  // Reports this session to the attendance log, when enabled
+  const attendanceRef = useRef<ReturnType<
+    typeof createAttendanceReporter
+  > | null>(null);
+  // Sends presence heartbeats while in the conference, when enabled
+  const presenceRef = useRef<ReturnType<typeof createPresenceReporter> | null>(
+    null
+  );
+  // Collects the transcript while in the conference, when enabled
+  const transcriptRef = useRef<ReturnType<
+    typeof createTranscriptCollector
+  > | null>(null);
 
   useEffect(() => {
-    // Load the Jitsi Meet API script dynamically
-    if (!window.JitsiMeetExternalAPI) {
-      const script = document.createElement("script");
-      script.src = `https://${domain}/external_api.js`;
-      script.async = true;
-
-      script.onload = initializeJitsi;
-      script.onerror = handleScriptError;
-      document.body.appendChild(script);
-
-      return () => {
-        if (document.body.contains(script)) {
-          document.body.removeChild(script);
-        }
-      };
-    } else {
-      // If the API is already loaded, initialize Jitsi
-      initializeJitsi();
-    }
-
-    // Clean up function to dispose the Jitsi instance when component unmounts
+    // One id for this stay in the room; presence heartbeats keep the
+    // attendance session alive for the meeting lifecycle webhooks
+    const sessionId = crypto.randomUUID();
+    const attendance = reportAttendance
+      ? createAttendanceReporter({ roomName, displayName, sessionId })
+      : null;
+    attendanceRef.current = attendance;
+    const presence = reportPresence
+      ? createPresenceReporter({ roomName, displayName, sessionId })
+      : null;
+    presenceRef.current = presence;
+    const transcript = collectTranscript
+      ? createTranscriptCollector({ roomName, displayName })
+      : null;
+    transcriptRef.current = transcript;
+    // Closing the tab never fires videoConferenceLeft
+    const handlePageHide = () => {
+      attendance?.close();
+      presence?.close();
+      transcript?.close();
+    };
+    window.addEventListener("pagehide", handlePageHide);
+
+    const connection = createJitsiConnection({
+      loadScript: () => loadJitsiScript(domain),
+      createApi: () =>
+        new window.JitsiMeetExternalAPI(domain, buildOptionsRef.current()),
+      setupApi,
+      backoff,
+      onStatusChange: (state) => {
+        setConnection(state);
+        attendance?.handleStatusChange(state.status);
+        onStatusChangeRef.current?.(state);
+      },
+    });
+    connectionRef.current = connection;
+    connection.start();
+
+    // Dispose the Jitsi instance and stop retrying when props change or on unmount
     return () => {
-      if (jitsiApiRef.current) {
-        jitsiApiRef.current.dispose();
-        jitsiApiRef.current = null;
-      }
+      connection.stop();
+      connectionRef.current = null;
+      attendance?.close();
+      attendanceRef.current = null;
+      presence?.close();
+      presenceRef.current = null;
+      transcript?.close();
+      transcriptRef.current = null;
+      window.removeEventListener("pagehide", handlePageHide);
     };
-  }, [roomName, displayName, domain, reconnectAttempts]); // Re-initialize when these props change or on reconnect
+  }, [
+    roomName,
+    displayName,
+    email,
+    domain,
+    jwt,
+    reportAttendance,
+    reportPresence,
+    collectTranscript,
+  ]); // Re-initialize when these props change
 
   /**
-   * Handles errors loading the Jitsi script
+   * Builds the External API options for a new meeting instance
    */
-  const handleScriptError = (error) => {
-    console.error("Failed to load Jitsi Meet API script:", error);
-    setConnectionStatus("error");
+  const buildOptions = (): JitsiMeetAPIOptions => {
+    // Configuration options for Jitsi Meet with better defaults to avoid popups
+    return {
+      roomName: roomName,
+      width: "100%",
+      height: "100%",
+      parentNode: jitsiContainerRef.current,
+      // Only sent when the server issued a token (self-hosted deployments)
+      ...(jwt ? { jwt } : {}),
+      // Jitsi matches devices by label
+      devices: {
+        audioInput: devices?.audioInput?.label,
+        audioOutput: devices?.audioOutput?.label,
+        videoInput: devices?.videoInput?.label,
+      },
+      userInfo: {
+        displayName: displayName,
+        ...(email ? { email } : {}),
+      },
+      // Preset first, then the explicit props, then caller overrides
+      ...buildPresetConfig(
+        preset,
+        deepMerge<JitsiConfigOverwrite>(
+          {
+            startWithAudioMuted,
+            startWithVideoMuted,
+            // Controlled from the page's own buttons, not Jitsi's toolbar
+            ...(enableRecording
+              ? { fileRecordingsEnabled: true, liveStreamingEnabled: true }
+              : {}),
+          },
+          configOverwrite
+        ),
+        interfaceConfigOverwrite
+      ),
+    };
   };
+  buildOptionsRef.current = buildOptions;
 
   /**
-   * Initializes the Jitsi Meet API and creates a new meeting instance
+   * Wires a freshly created API instance into the component
+   * The returned cleanup runs before the state machine disposes the instance
    */
-  const initializeJitsi = () => {
-    if (!window.JitsiMeetExternalAPI) {
-      console.error("Jitsi Meet API script not loaded yet");
-      setConnectionStatus("error");
-      return;
-    }
-
-    // Clean up previous instance if it exists
-    if (jitsiApiRef.current) {
-      jitsiApiRef.current.dispose();
-      jitsiApiRef.current = null;
-    }
-
-    try {
-      // Configuration options for Jitsi Meet with better defaults to avoid popups
-      const options = {
-        roomName: roomName,
-        width: "100%",
-        height: "100%",
-        parentNode: jitsiContainerRef.current,
-        userInfo: {
-          displayName: displayName,
-        },
-        configOverwrite: {
-          prejoinPageEnabled: false,
-          startWithAudioMuted: startWithAudioMuted,
-          startWithVideoMuted: startWithVideoMuted,
-          // Disable JWT for public server
-          disableThirdPartyRequests: true,
-          // Disable features that might trigger popups
-          disableDeepLinking: true,
-          // Better defaults for free server
-          startBitrate: 800,
-          disableAudioLevels: true,
-          enableLayerSuspension: true,
-          // Disable recording to avoid service prompts
-          fileRecordingsEnabled: false,
-          liveStreamingEnabled: false,
-          // Improve bandwidth usage
-          disableSimulcast: false,
-          resolution: 720,
-          constraints: {
-            video: {
-              height: {
-                ideal: 720,
-                max: 720,
-                min: 180,
-              },
-            },
-          },
-          toolbarButtons: [
-            "microphone",
-            "camera",
-            "desktop",
-            "fullscreen",
-            "fodeviceselection",
-            "hangup",
-            "profile",
-            "chat",
-            "settings",
-            "raisehand",
-            "videoquality",
-            "filmstrip",
-            "tileview",
-            "download",
-            "help",
-          ],
-        },
-        interfaceConfigOverwrite: {
-          SHOW_JITSI_WATERMARK: false,
-          SHOW_WATERMARK_FOR_GUESTS: false,
-          TOOLBAR_BUTTONS: [
-            "microphone",
-            "camera",
-            "desktop",
-            "fullscreen",
-            "hangup",
-            "profile",
-            "chat",
-            "settings",
-            "raisehand",
-            "videoquality",
-            "filmstrip",
-            "tileview",
-          ],
-          // Disable film strip only mode to avoid unintended UI changes
-          FILM_STRIP_ONLY: false,
-          // Hide invite options that might trigger popups
-          HIDE_INVITE_MORE_HEADER: true,
-        },
-      };
-
-      // Create the Jitsi Meet API instance
-      const api = new window.JitsiMeetExternalAPI(domain, options);
-      jitsiApiRef.current = api;
-      setConnectionStatus("connected");
-      isReconnectingRef.current = false;
-
-      // Set up connection monitoring - check every 30 seconds
-      const connectionMonitor = setInterval(() => {
-        if (
-          !jitsiApiRef.current ||
-          !document.contains(jitsiContainerRef.current)
-        ) {
-          clearInterval(connectionMonitor);
-          return;
-        }
-
-        // Check if iframe is still responsive
-        try {
-          jitsiApiRef.current.getNumberOfParticipants();
-        } catch (e) {
-          console.warn(
-            "Jitsi connection check failed, attempting to recover:",
-            e
-          );
-          handleConnectionIssue();
-          clearInterval(connectionMonitor);
-        }
-      }, 30000);
-
-      // Event handlers for connection tracking and error management
-      api.addEventListeners({
-        readyToClose: handleClose,
-        videoConferenceJoined: handleVideoConferenceJoined,
-        videoConferenceLeft: handleVideoConferenceLeft,
-        connectionEstablished: () => {
-          setConnectionStatus("connected");
-          console.log("Jitsi connection established");
-        },
-        connectionFailed: handleConnectionFailure,
-        suspendDetected: handleSuspendDetected,
-        errorOccurred: handleErrorOccurred,
+  const setupApi = (api: IJitsiMeetAPI) => {
+    jitsiApiRef.current = api;
+
+    // Forward every event to the onEvent prop and controller subscribers
+    JITSI_EVENT_NAMES.forEach((event) => {
+      api.addListener(event, (payload) => {
+        callJitsiEventHandler(onEventRef.current, event, payload);
+        callJitsiEventHandler(attendanceRef.current?.handlers, event, payload);
+        callJitsiEventHandler(presenceRef.current?.handlers, event, payload);
+        callJitsiEventHandler(transcriptRef.current?.handlers, event, payload);
+        eventsRef.current.emit(event, payload);
       });
+    });
 
-      // Add overlay click handler to intercept Jitsi service popups
-      const observer = new MutationObserver((mutations) => {
-        const iframeDocument =
-          jitsiContainerRef.current?.querySelector("iframe")?.contentDocument;
-        if (iframeDocument) {
-          // Look for popup dialogs or overlays that might indicate a service promotion
-          const popups = iframeDocument.querySelectorAll(
-            ".overlay-container, .dialog-container"
-          );
-          popups.forEach((popup) => {
-            // Skip essential dialogs (like device permissions)
+    // userInfo has no avatar field; it can only be set from inside the call
+    api.addListener("videoConferenceJoined", () => {
+      if (avatarUrlRef.current) {
+        api.executeCommand("avatarUrl", avatarUrlRef.current);
+      }
+    });
+
+    // Add overlay click handler to intercept Jitsi service popups
+    const observer = new MutationObserver((mutations) => {
+      const iframeDocument =
+        jitsiContainerRef.current?.querySelector("iframe")?.contentDocument;
+      if (iframeDocument) {
+        // Look for popup dialogs or overlays that might indicate a service promotion
+        const popups = iframeDocument.querySelectorAll(
+          ".overlay-container, .dialog-container"
+        );
+        popups.forEach((popup) => {
+          // Skip essential dialogs (like device permissions)
+          if (
+            !popup.textContent.includes("upgrade") &&
+            !popup.textContent.includes("premium") &&
+            !popup.textContent.includes("service")
+          ) {
+            return;
+          }
+
+          console.log("Detected and removing Jitsi service popup");
+          // Try to close the popup or remove it from DOM if possible
+          const closeButtons = popup.querySelectorAll("button");
+          closeButtons.forEach((button) => {
             if (
-              !popup.textContent.includes("upgrade") &&
-              !popup.textContent.includes("premium") &&
-              !popup.textContent.includes("service")
+              button.textContent.includes("Close") ||
+              button.textContent.includes("Cancel") ||
+              button.textContent.includes("Later")
             ) {
-              return;
-            }
-
-            console.log("Detected and removing Jitsi service popup");
-            // Try to close the popup or remove it from DOM if possible
-            const closeButtons = popup.querySelectorAll("button");
-            closeButtons.forEach((button) => {
-              if (
-                button.textContent.includes("Close") ||
-                button.textContent.includes("Cancel") ||
-                button.textContent.includes("Later")
-              ) {
-                button.click();
-              }
-            });
-
-            // As a last resort, try to hide the popup
-            if (popup.parentNode) {
-              popup.style.display = "none";
+              button.click();
             }
           });
-        }
-      });
 
-      // Start observing for popups after a delay to let the interface initialize
-      setTimeout(() => {
-        const iframe = jitsiContainerRef.current?.querySelector("iframe");
-        if (iframe) {
-          try {
-            observer.observe(iframe.contentDocument, {
-              childList: true,
-              subtree: true,
-            });
-          } catch (e) {
-            console.warn(
-              "Cannot access iframe content due to same-origin policy"
-            );
+          // As a last resort, try to hide the popup
+          if (popup.parentNode) {
+            popup.style.display = "none";
           }
+        });
+      }
+    });
+
+    // Start observing for popups after a delay to let the interface initialize
+    const observeTimeout = setTimeout(() => {
+      const iframe = jitsiContainerRef.current?.querySelector("iframe");
+      if (iframe) {
+        try {
+          observer.observe(iframe.contentDocument, {
+            childList: true,
+            subtree: true,
+          });
+        } catch (e) {
+          console.warn(
+            "Cannot access iframe content due to same-origin policy"
+          );
         }
-      }, 3000);
+      }
+    }, 3000);
 
-      return () => {
-        clearInterval(connectionMonitor);
-        observer.disconnect();
-      };
-    } catch (error) {
-      console.error("Error initializing Jitsi Meet:", error);
-      setConnectionStatus("error");
-    }
+    return () => {
+      clearTimeout(observeTimeout);
+      observer.disconnect();
+      jitsiApiRef.current = null;
+    };
   };
 
   /**
-   * Handles a detected connection issue and attempts reconnection
+   * Returns the live API instance or throws when no meeting is loaded
    */
-  const handleConnectionIssue = () => {
-    if (isReconnectingRef.current) return;
-
-    isReconnectingRef.current = true;
-    setConnectionStatus("reconnecting");
-    console.log("Attempting to reconnect to Jitsi Meet...");
-
-    if (reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
-      // Increment reconnect counter and trigger a reconnect
-      setReconnectAttempts((prev) => prev + 1);
-    } else {
-      setConnectionStatus("failed");
-      console.error("Maximum reconnection attempts reached");
+  const requireApi = () => {
+    if (!jitsiApiRef.current) {
+      throw new Error("Jitsi meeting is not ready");
     }
+    return jitsiApiRef.current;
   };
 
-  // Event handler functions
-  const handleClose = () => {
-    console.log("Jitsi Meet conference closed");
-    setConnectionStatus("closed");
-  };
-
-  const handleVideoConferenceJoined = (conference) => {
-    console.log("Video conference joined:", conference);
-    setConnectionStatus("connected");
-  };
-
-  const handleVideoConferenceLeft = (conference) => {
-    console.log("Video conference left:", conference);
-    setConnectionStatus("left");
-  };
-
-  const handleConnectionFailure = (error) => {
-    console.error("Connection failed:", error);
-    handleConnectionIssue();
-  };
-
-  const handleErrorOccurred = (error) => {
-    console.error("Jitsi error occurred:", error);
+  // Expose a typed controller so pages can drive the meeting from their own UI
+  useImperativeHandle(
+    ref,
+    () => {
+      const executeCommand: JitsiMeetHandle["executeCommand"] = (
+        command,
+        ...args
+      ) => {
+        if (!jitsiApiRef.current) {
+          console.warn(`Ignoring Jitsi command "${command}": not connected`);
+          return false;
+        }
+        jitsiApiRef.current.executeCommand(command, ...args);
+        return true;
+      };
 
-    // Check if error is related to service limitations or popups
-    if (error.error?.includes("service") || error.error?.includes("limit")) {
-      handleConnectionIssue();
-    }
-  };
+      return {
+        executeCommand,
+        toggleAudio: () => executeCommand("toggleAudio"),
+        toggleVideo: () => executeCommand("toggleVideo"),
+        toggleShareScreen: () => executeCommand("toggleShareScreen"),
+        setTileView: (enabled) => executeCommand("setTileView", enabled),
+        startRecording: (options) => executeCommand("startRecording", options),
+        stopRecording: (mode) => executeCommand("stopRecording", mode),
+        kickParticipant: (participantId) =>
+          executeCommand("kickParticipant", participantId),
+        muteParticipant: (participantId) =>
+          executeCommand("muteParticipant", participantId, "audio"),
+        pinParticipant: (participantId) =>
+          executeCommand("pinParticipant", participantId),
+        sendEndpointTextMessage: (participantId, text) =>
+          executeCommand("sendEndpointTextMessage", participantId, text),
+        hangup: () =>
+          new Promise<void>((resolve) => {
+            const api = jitsiApiRef.current;
+            if (!api) {
+              resolve();
+              return;
+            }
 
-  const handleSuspendDetected = () => {
-    console.warn("System suspend detected");
-    handleConnectionIssue();
-  };
+            const done = () => {
+              clearTimeout(timeout);
+              api.removeListener("videoConferenceLeft", done);
+              resolve();
+            };
+            // Don't leave the caller hanging if Jitsi never answers
+            const timeout = setTimeout(done, HANGUP_TIMEOUT_MS);
+            api.addListener("videoConferenceLeft", done);
+            api.executeCommand("hangup");
+          }),
+        getParticipantsInfo: async () => requireApi().getParticipantsInfo(),
+        isAudioMuted: async () => requireApi().isAudioMuted(),
+        isVideoMuted: async () => requireApi().isVideoMuted(),
+        getAvailableDevices: async () => requireApi().getAvailableDevices(),
+        on: (event, handler) => eventsRef.current.on(event, handler),
+      };
+    },
+    []
+  );
 
   // Render connection status message when not connected
   const renderConnectionStatus = () => {
-    switch (connectionStatus) {
-      case "connecting":
+    const retryButton = (
+      <button
+        onClick={() => connectionRef.current?.retryNow()}
+        className="ml-2 underline font-semibold"
+      >
+        Retry now
+      </button>
+    );
+
+    switch (connection.status) {
+      case "idle":
+      case "loadingScript":
+        return <div className="p-4 text-center">Loading Jitsi Meet...</div>;
+      case "joining":
         return (
           <div className="p-4 text-center">Connecting to conference...</div>
         );
       case "reconnecting":
+        if (!connection.online) {
+          return (
+            <div className="p-4 text-center">
+              You are offline. We will reconnect as soon as your connection is
+              back.
+            </div>
+          );
+        }
         return (
           <div className="p-4 text-center">
-            Connection interrupted. Reconnecting... (Attempt {reconnectAttempts}
-            /{MAX_RECONNECT_ATTEMPTS})
-          </div>
-        );
-      case "error":
-        return (
-          <div className="p-4 text-center text-red-600">
-            Failed to connect to the conference. Please try again.
+            Connection interrupted. Reconnecting
+            {connection.retryInMs !== null &&
+              ` in ${Math.ceil(connection.retryInMs / 1000)}s`}
+            ... (Attempt {connection.attempt}/
+            {backoff?.maxAttempts ?? DEFAULT_BACKOFF.maxAttempts}){retryButton}
           </div>
         );
       case "failed":
         return (
           <div className="p-4 text-center text-red-600">
-            Could not reconnect after multiple attempts. Please reload the page.
+            Could not connect to the conference
+            {connection.error && `: ${connection.error}`}.{retryButton}
           </div>
         );
       default:
@@ -394,14 +463,14 @@ const JitsiMeetComponent = ({
 
   return (
     <div className="flex flex-col h-full">
-      {connectionStatus !== "connected" && renderConnectionStatus()}
+      {connection.status !== "connected" && renderConnectionStatus()}
 
       <div
         ref={jitsiContainerRef}
         style={{
           width: "100%",
           height:
-            connectionStatus === "connected" ? "100%" : "calc(100% - 40px)",
+            connection.status === "connected" ? "100%" : "calc(100% - 40px)",
           minHeight: "600px",
           position: "relative",
         }}
@@ -411,4 +480,4 @@ const JitsiMeetComponent = ({
   );
 };
 
-export default JitsiMeetComponent;
+export default forwardRef(JitsiMeetComponent);
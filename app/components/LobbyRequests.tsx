@@ -0,0 +1,67 @@
+import type { LobbyRequest } from "~/lib/lobby";
+
+interface LobbyRequestsProps {
+  requests: LobbyRequest[];
+  onAdmit: (id: string) => void;
+  onDeny: (id: string) => void;
+}
+
+/**
+ * LobbyRequests - Shows the host who is waiting to be let in
+ * Renders nothing while the waiting room is empty
+ *
+ * @param {Object} props Component properties
+ * @param {LobbyRequest[]} props.requests Guests waiting to enter
+ * @param {Function} props.onAdmit Called with a request id to let the guest in
+ * @param {Function} props.onDeny Called with a request id to turn the guest away
+ */
+const LobbyRequests = ({ requests, onAdmit, onDeny }: LobbyRequestsProps) => {
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-300 rounded-md p-3 mb-2">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-semibold text-sm">
+          Waiting to join ({requests.length})
+        </h3>
+        {requests.length > 1 && (
+          <button
+            type="button"
+            onClick={() => requests.forEach((request) => onAdmit(request.id))}
+            className="text-sm text-blue-600 hover:underline"
+          >
+            Admit all
+          </button>
+        )}
+      </div>
+      <ul className="space-y-1">
+        {requests.map((request) => (
+          <li
+            key={request.id}
+            className="flex justify-between items-center text-sm"
+          >
+            <span>{request.displayName}</span>
+            <span className="space-x-2">
+              <button
+                type="button"
+                onClick={() => onAdmit(request.id)}
+                className="py-1 px-3 bg-green-600 text-white rounded hover:bg-green-700"
+              >
+                Admit
+              </button>
+              <button
+                type="button"
+                onClick={() => onDeny(request.id)}
+                className="py-1 px-3 bg-gray-200 rounded hover:bg-gray-300"
+              >
+                Deny
+              </button>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default LobbyRequests;
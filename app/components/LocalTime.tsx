@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+
+interface LocalTimeProps {
+  value: string;
+}
+
+/**
+ * LocalTime - Renders an ISO timestamp in the viewer's own time zone
+ * The server doesn't know that zone, so it renders UTC and the browser
+ * replaces it after hydration
+ *
+ * @param {Object} props Component properties
+ * @param {string} props.value ISO timestamp to display
+ */
+const LocalTime = ({ value }: LocalTimeProps) => {
+  const [text, setText] = useState(() =>
+    new Date(value).toUTCString().replace("GMT", "UTC")
+  );
+
+  useEffect(() => {
+    setText(
+      new Date(value).toLocaleString(undefined, {
+        dateStyle: "medium",
+        timeStyle: "short",
+      })
+    );
+  }, [value]);
+
+  return <time dateTime={value}>{text}</time>;
+};
+
+export default LocalTime;
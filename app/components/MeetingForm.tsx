@@ -0,0 +1,203 @@
+import { Form } from "@remix-run/react";
+import { useEffect, useState } from "react";
+import PresetSelect from "~/components/PresetSelect";
+import type { Meeting } from "~/lib/meetings";
+
+interface MeetingFormProps {
+  meeting?: Meeting;
+  errors?: Partial<Record<string, string>>;
+  waitingRoom?: boolean;
+  submitLabel: string;
+  isSubmitting?: boolean;
+}
+
+/**
+ * Formats an ISO timestamp for a datetime-local input in the browser's time zone
+ */
+const toLocalInputValue = (iso: string) => {
+  const date = new Date(iso);
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+/**
+ * A datetime-local input that submits its value as an ISO timestamp so the
+ * server never has to guess the user's time zone
+ */
+const LocalDateTimeInput = ({
+  id,
+  name,
+  defaultValue,
+}: {
+  id: string;
+  name: string;
+  defaultValue: string | null;
+}) => {
+  const [localValue, setLocalValue] = useState("");
+
+  // Only the browser knows its time zone, so prefill after hydration
+  useEffect(() => {
+    setLocalValue(defaultValue ? toLocalInputValue(defaultValue) : "");
+  }, [defaultValue]);
+
+  const isoValue = localValue ? new Date(localValue).toISOString() : "";
+
+  return (
+    <>
+      <input
+        type="datetime-local"
+        id={id}
+        value={localValue}
+        onChange={(e) => setLocalValue(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+      />
+      <input type="hidden" name={name} value={isoValue} />
+    </>
+  );
+};
+
+/**
+ * MeetingForm - Form for creating or editing a registered meeting
+ *
+ * @param {Object} props Component properties
+ * @param {Meeting} props.meeting The meeting being edited, if any
+ * @param {Object} props.errors Validation errors keyed by field name
+ * @param {boolean} props.waitingRoom Whether the room's waiting room is on;
+ * the checkbox is hidden when omitted (only the room's host may change it)
+ * @param {string} props.submitLabel Text of the submit button
+ * @param {boolean} props.isSubmitting Disables the submit button while saving
+ */
+const MeetingForm = ({
+  meeting,
+  errors = {},
+  waitingRoom,
+  submitLabel,
+  isSubmitting = false,
+}: MeetingFormProps) => {
+  const renderError = (field: string) =>
+    errors[field] && (
+      <p className="text-sm text-red-600 mt-1">{errors[field]}</p>
+    );
+
+  return (
+    <Form method="post" className="space-y-4">
+      <input
+        type="hidden"
+        name="intent"
+        value={meeting ? "update" : "create"}
+      />
+
+      <div>
+        <label htmlFor="title" className="block text-sm font-medium mb-1">
+          Title
+        </label>
+        <input
+          type="text"
+          id="title"
+          name="title"
+          defaultValue={meeting?.title}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          required
+        />
+        {renderError("title")}
+      </div>
+
+      <div>
+        <label htmlFor="host" className="block text-sm font-medium mb-1">
+          Host
+        </label>
+        <input
+          type="text"
+          id="host"
+          name="host"
+          defaultValue={meeting?.host}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          required
+        />
+        {renderError("host")}
+      </div>
+
+      <div>
+        <label htmlFor="preset" className="block text-sm font-medium mb-1">
+          Meeting Type
+        </label>
+        <PresetSelect
+          id="preset"
+          name="preset"
+          defaultValue={meeting?.preset ?? "default"}
+        />
+        {renderError("preset")}
+      </div>
+
+      <div className="flex space-x-4">
+        <div className="flex-1">
+          <label
+            htmlFor="scheduledStart"
+            className="block text-sm font-medium mb-1"
+          >
+            Starts
+          </label>
+          <LocalDateTimeInput
+            id="scheduledStart"
+            name="scheduledStart"
+            defaultValue={meeting?.scheduledStart ?? null}
+          />
+          {renderError("scheduledStart")}
+        </div>
+        <div className="flex-1">
+          <label
+            htmlFor="scheduledEnd"
+            className="block text-sm font-medium mb-1"
+          >
+            Ends
+          </label>
+          <LocalDateTimeInput
+            id="scheduledEnd"
+            name="scheduledEnd"
+            defaultValue={meeting?.scheduledEnd ?? null}
+          />
+          {renderError("scheduledEnd")}
+        </div>
+      </div>
+
+      {waitingRoom !== undefined && (
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            id="waitingRoom"
+            name="waitingRoom"
+            defaultChecked={waitingRoom}
+            className="mr-2"
+          />
+          <label htmlFor="waitingRoom" className="text-sm">
+            Waiting room (guests wait until the host lets them in)
+          </label>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="description" className="block text-sm font-medium mb-1">
+          Description
+        </label>
+        <textarea
+          id="description"
+          name="description"
+          rows={4}
+          defaultValue={meeting?.description}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+        />
+        {renderError("description")}
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50"
+      >
+        {isSubmitting ? "Saving..." : submitLabel}
+      </button>
+    </Form>
+  );
+};
+
+export default MeetingForm;
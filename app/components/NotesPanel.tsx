@@ -0,0 +1,56 @@
+import { useRef } from "react";
+import { useNotes } from "~/hooks/useNotes";
+import { MAX_NOTES_LENGTH } from "~/lib/notes";
+
+interface NotesPanelProps {
+  roomName: string;
+}
+
+/**
+ * NotesPanel - The room's agenda, action items and decisions, edited by
+ * everyone at once and kept on our server for export after the call
+ *
+ * @param {Object} props Component properties
+ * @param {string} props.roomName The room whose notes to edit
+ */
+const NotesPanel = ({ roomName }: NotesPanelProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const { text, status, synced, error, edit } = useNotes(roomName, textareaRef);
+
+  return (
+    <aside className="w-80 flex-shrink-0 bg-white border-l border-gray-200 flex flex-col">
+      <div className="px-4 py-3 border-b border-gray-200 flex justify-between items-center">
+        <h3 className="font-semibold">Notes</h3>
+        <a
+          href={`/api/notes/${roomName}?format=md`}
+          className="text-xs text-blue-600 hover:underline"
+        >
+          Export
+        </a>
+      </div>
+
+      {status !== "open" && (
+        <p className="px-4 py-2 text-xs bg-yellow-50 text-yellow-800">
+          {!synced
+            ? "Loading notes..."
+            : "Reconnecting... your edits will be merged when we're back."}
+        </p>
+      )}
+
+      <textarea
+        ref={textareaRef}
+        value={text}
+        onChange={(e) => edit(e.target.value)}
+        disabled={!synced}
+        maxLength={MAX_NOTES_LENGTH}
+        placeholder="Agenda, action items, decisions..."
+        aria-label="Meeting notes"
+        className="flex-1 p-4 text-sm font-mono resize-none focus:outline-none disabled:bg-gray-50"
+      />
+
+      {error && <p className="px-4 py-2 text-xs text-red-600">{error}</p>}
+    </aside>
+  );
+};
+
+export default NotesPanel;
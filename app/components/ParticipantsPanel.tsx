@@ -0,0 +1,123 @@
+import { useState } from "react";
+import type { ParticipantRoster } from "~/hooks/useParticipants";
+import type { JitsiMeetHandle } from "~/types/jitsi";
+
+interface ParticipantsPanelProps {
+  jitsi: JitsiMeetHandle | null;
+  roster: ParticipantRoster;
+}
+
+/**
+ * ParticipantsPanel - Live list of everyone in the meeting with their
+ * microphone and hand state, highlighting whoever is speaking
+ * Moderators also get mute, pin and remove actions for other participants
+ *
+ * @param {Object} props Component properties
+ * @param {JitsiMeetHandle} props.jitsi The meeting controller used for moderator actions
+ * @param {ParticipantRoster} props.roster The roster from `useParticipants`
+ */
+const ParticipantsPanel = ({ jitsi, roster }: ParticipantsPanelProps) => {
+  const { participants, dominantSpeakerId, isModerator } = roster;
+  // Pinning is local to this viewer, so we track it ourselves
+  const [pinnedId, setPinnedId] = useState<string | null>(null);
+
+  const handleTogglePin = (participantId: string) => {
+    const nextId = pinnedId === participantId ? null : participantId;
+    if (jitsi?.pinParticipant(nextId)) {
+      setPinnedId(nextId);
+    }
+  };
+
+  const handleKick = (participantId: string, displayName: string) => {
+    if (window.confirm(`Remove ${displayName} from the meeting?`)) {
+      jitsi?.kickParticipant(participantId);
+    }
+  };
+
+  return (
+    <aside className="w-64 flex-shrink-0 bg-white border-l border-gray-200 flex flex-col">
+      <h3 className="px-4 py-3 font-semibold border-b border-gray-200">
+        Participants ({participants.length})
+      </h3>
+
+      {participants.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">Waiting for the meeting...</p>
+      ) : (
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {participants.map((participant) => {
+            const isSpeaking = participant.id === dominantSpeakerId;
+            return (
+              <li
+                key={participant.id}
+                className={`px-4 py-2 ${
+                  isSpeaking ? "bg-blue-50 border-l-4 border-blue-500" : ""
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium truncate">
+                    {participant.displayName}
+                    {participant.isLocal && (
+                      <span className="text-gray-500 font-normal"> (You)</span>
+                    )}
+                  </span>
+                  <span className="flex items-center space-x-1 text-xs">
+                    {participant.handRaised && (
+                      <span title="Hand raised" aria-label="Hand raised">
+                        ✋
+                      </span>
+                    )}
+                    {participant.audioMuted && (
+                      <span className="px-1 rounded bg-red-100 text-red-700">
+                        Muted
+                      </span>
+                    )}
+                  </span>
+                </div>
+
+                <div className="flex items-center space-x-2 mt-1 text-xs">
+                  {participant.role === "moderator" && (
+                    <span className="text-gray-500">Moderator</span>
+                  )}
+                  {isSpeaking && (
+                    <span className="text-blue-600">Speaking</span>
+                  )}
+                </div>
+
+                {isModerator && !participant.isLocal && (
+                  <div className="flex space-x-2 mt-1">
+                    <button
+                      type="button"
+                      onClick={() => jitsi?.muteParticipant(participant.id)}
+                      disabled={participant.audioMuted === true}
+                      className="text-xs text-blue-600 hover:underline disabled:opacity-50 disabled:no-underline"
+                    >
+                      Mute
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleTogglePin(participant.id)}
+                      className="text-xs text-blue-600 hover:underline"
+                    >
+                      {pinnedId === participant.id ? "Unpin" : "Pin"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        handleKick(participant.id, participant.displayName)
+                      }
+                      className="text-xs text-red-600 hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </aside>
+  );
+};
+
+export default ParticipantsPanel;
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import type { PollControls } from "~/hooks/usePolls";
+import {
+  MAX_OPTION_LENGTH,
+  MAX_POLL_OPTIONS,
+  MAX_QUESTION_LENGTH,
+  MIN_POLL_OPTIONS,
+  REACTIONS,
+  tallyPoll,
+  validatePoll,
+} from "~/lib/polls";
+
+interface PollsPanelProps {
+  polls: PollControls;
+  localParticipantId: string | null;
+  isHost: boolean;
+}
+
+const EMPTY_OPTIONS = Array.from({ length: MIN_POLL_OPTIONS }, () => "");
+
+/**
+ * PollsPanel - Quick reactions plus polls everyone in the meeting can ask
+ * and vote in; the host can close a poll and save its results
+ *
+ * @param {Object} props Component properties
+ * @param {PollControls} props.polls State and actions from usePolls
+ * @param {string} props.localParticipantId Our Jitsi participant id, for showing our vote
+ * @param {boolean} props.isHost Whether we may close polls
+ */
+const PollsPanel = ({ polls, localParticipantId, isHost }: PollsPanelProps) => {
+  const [question, setQuestion] = useState("");
+  const [options, setOptions] = useState(EMPTY_OPTIONS);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleCreate = (e) => {
+    e.preventDefault();
+    const error = validatePoll(question, options);
+    setFormError(error);
+    if (error) return;
+
+    polls.createPoll(question, options);
+    setQuestion("");
+    setOptions(EMPTY_OPTIONS);
+  };
+
+  return (
+    <aside className="w-72 flex-shrink-0 bg-white border-l border-gray-200 flex flex-col">
+      <h3 className="px-4 py-3 font-semibold border-b border-gray-200">
+        Polls &amp; Reactions
+      </h3>
+
+      <div className="px-4 py-2 border-b border-gray-200">
+        <div className="flex justify-between">
+          {REACTIONS.map((reaction) => (
+            <button
+              key={reaction}
+              onClick={() => polls.react(reaction)}
+              aria-label={`React with ${reaction}`}
+              className="text-xl rounded hover:bg-gray-100 px-1"
+            >
+              {reaction}
+            </button>
+          ))}
+        </div>
+        {polls.reactions.length > 0 && (
+          <ul
+            className="mt-2 text-xs text-gray-600 space-y-1"
+            aria-live="polite"
+          >
+            {polls.reactions.map((shown) => (
+              <li key={shown.id}>
+                <span className="text-base mr-1">{shown.reaction}</span>
+                {shown.displayName}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {polls.polls.map((poll) => {
+          const counts = tallyPoll(poll);
+          const total = counts.reduce((sum, count) => sum + count, 0);
+          const ownVote = localParticipantId
+            ? poll.votes[localParticipantId]
+            : undefined;
+
+          return (
+            <div key={poll.id} className="border border-gray-200 rounded p-3">
+              <p className="text-sm font-medium">{poll.question}</p>
+              <p className="text-xs text-gray-500 mb-2">
+                Asked by {poll.createdBy}
+                {poll.closed && " · Closed"}
+              </p>
+              <ul className="space-y-1">
+                {poll.options.map((option, index) => (
+                  <li key={index}>
+                    <button
+                      onClick={() => polls.vote(poll.id, index)}
+                      disabled={poll.closed || !localParticipantId}
+                      className={`w-full text-left text-sm rounded px-2 py-1 border relative overflow-hidden ${
+                        ownVote === index
+                          ? "border-blue-600"
+                          : "border-gray-200 hover:bg-gray-50"
+                      }`}
+                    >
+                      <span
+                        className="absolute inset-y-0 left-0 bg-blue-100"
+                        style={{
+                          width: `${
+                            total ? (counts[index] / total) * 100 : 0
+                          }%`,
+                        }}
+                      />
+                      <span className="relative flex justify-between">
+                        <span>{option}</span>
+                        <span className="text-gray-600">{counts[index]}</span>
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {isHost && !poll.closed && (
+                <button
+                  onClick={() => polls.closePoll(poll.id)}
+                  className="mt-2 text-xs text-red-600 hover:underline"
+                >
+                  Close poll and save results
+                </button>
+              )}
+            </div>
+          );
+        })}
+
+        {polls.error && <p className="text-xs text-red-600">{polls.error}</p>}
+
+        <form onSubmit={handleCreate} className="space-y-2">
+          <input
+            type="text"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="Ask a question"
+            aria-label="Poll question"
+            maxLength={MAX_QUESTION_LENGTH}
+            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+          />
+          {options.map((option, index) => (
+            <input
+              key={index}
+              type="text"
+              value={option}
+              onChange={(e) =>
+                setOptions(
+                  options.map((other, otherIndex) =>
+                    otherIndex === index ? e.target.value : other
+                  )
+                )
+              }
+              placeholder={`Option ${index + 1}`}
+              aria-label={`Option ${index + 1}`}
+              maxLength={MAX_OPTION_LENGTH}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+          ))}
+          {options.length < MAX_POLL_OPTIONS && (
+            <button
+              type="button"
+              onClick={() => setOptions([...options, ""])}
+              className="text-xs text-blue-600 hover:underline"
+            >
+              Add option
+            </button>
+          )}
+          {formError && <p className="text-xs text-red-600">{formError}</p>}
+          <button
+            type="submit"
+            className="w-full py-2 px-4 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-700"
+          >
+            Ask Everyone
+          </button>
+        </form>
+      </div>
+    </aside>
+  );
+};
+
+export default PollsPanel;
@@ -0,0 +1,220 @@
+import { useEffect, useRef, useState } from "react";
+import { useMediaDevices } from "~/hooks/useMediaDevices";
+import type { JitsiDeviceKind, JitsiDeviceSelection } from "~/types/jitsi";
+
+interface PreJoinLobbyProps {
+  value: JitsiDeviceSelection;
+  onChange: (selection: JitsiDeviceSelection) => void;
+  videoMuted?: boolean;
+  preferred?: JitsiDeviceSelection;
+}
+
+const DEVICE_PICKERS: { kind: JitsiDeviceKind; label: string }[] = [
+  { kind: "videoInput", label: "Camera" },
+  { kind: "audioInput", label: "Microphone" },
+  { kind: "audioOutput", label: "Speaker" },
+];
+
+/**
+ * MicLevelMeter - Shows the live input level of the preview microphone
+ */
+const MicLevelMeter = ({ stream }: { stream: MediaStream | null }) => {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    if (!stream || stream.getAudioTracks().length === 0) {
+      setLevel(0);
+      return;
+    }
+
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 512;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+
+    const samples = new Uint8Array(analyser.fftSize);
+    let frame: number;
+
+    const measure = () => {
+      analyser.getByteTimeDomainData(samples);
+      // Root mean square of the waveform around its 128 midpoint
+      let sum = 0;
+      samples.forEach((sample) => {
+        const value = (sample - 128) / 128;
+        sum += value * value;
+      });
+      setLevel(Math.min(1, Math.sqrt(sum / samples.length) * 4));
+      frame = requestAnimationFrame(measure);
+    };
+    measure();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      audioContext.close();
+    };
+  }, [stream]);
+
+  return (
+    <div
+      className="h-2 w-full bg-gray-200 rounded overflow-hidden"
+      role="meter"
+      aria-label="Microphone level"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(level * 100)}
+    >
+      <div
+        className="h-full bg-green-500 transition-all duration-75"
+        style={{ width: `${level * 100}%` }}
+      />
+    </div>
+  );
+};
+
+/**
+ * PreJoinLobby - Camera preview, microphone level and device pickers shown
+ * before joining a meeting
+ *
+ * @param {Object} props Component properties
+ * @param {JitsiDeviceSelection} props.value The currently selected devices
+ * @param {Function} props.onChange Called with the new selection when the user picks a device
+ * @param {boolean} props.videoMuted Hides the camera preview when the user joins with video off
+ * @param {JitsiDeviceSelection} props.preferred Devices to pick when nothing is selected, e.g. from the user's profile
+ */
+const PreJoinLobby = ({
+  value,
+  onChange,
+  videoMuted = false,
+  preferred,
+}: PreJoinLobbyProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { status, stream, devices } = useMediaDevices(value);
+  // Kinds whose saved device we already looked for
+  const triedPreferred = useRef(new Set<JitsiDeviceKind>());
+
+  // Attach the preview stream to the video element
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  // Device ids differ between browsers, so saved devices are matched by
+  // label once access is granted and the lists have labels
+  useEffect(() => {
+    const picked = { ...value };
+    let changed = false;
+    DEVICE_PICKERS.forEach(({ kind }) => {
+      if (devices[kind].length === 0 || triedPreferred.current.has(kind)) {
+        return;
+      }
+      triedPreferred.current.add(kind);
+      const wanted = value[kind] ?? preferred?.[kind];
+      if (!wanted) return;
+
+      const match =
+        devices[kind].find((device) => device.deviceId === wanted.deviceId) ??
+        devices[kind].find((device) => device.label === wanted.label);
+      if (match && match.deviceId !== value[kind]?.deviceId) {
+        picked[kind] = { deviceId: match.deviceId, label: match.label };
+        changed = true;
+      }
+    });
+    if (changed) onChange(picked);
+  }, [devices]);
+
+  const hasVideo = !!stream && stream.getVideoTracks().length > 0;
+
+  /**
+   * Stores the picked device, or clears it to use the browser default
+   */
+  const handleSelect = (kind: JitsiDeviceKind, deviceId: string) => {
+    const device = devices[kind].find((d) => d.deviceId === deviceId);
+    onChange({
+      ...value,
+      [kind]: device
+        ? { deviceId: device.deviceId, label: device.label }
+        : undefined,
+    });
+  };
+
+  const renderStatusMessage = () => {
+    switch (status) {
+      case "pending":
+        return "Waiting for camera and microphone access...";
+      case "denied":
+        return "Camera and microphone access was blocked. Allow it from your browser's address bar, or join without them.";
+      case "noDevices":
+        return "No camera or microphone found. You can still join and follow along.";
+      case "unsupported":
+        return "This browser cannot preview your devices. You can still join the meeting.";
+      case "error":
+        return "Your camera or microphone could not be started. It may be in use by another app.";
+      default:
+        return null;
+    }
+  };
+
+  const statusMessage = renderStatusMessage();
+
+  return (
+    <div className="space-y-3">
+      <div
+        className="relative bg-gray-900 rounded-md overflow-hidden"
+        style={{ aspectRatio: "16 / 9" }}
+      >
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className="w-full h-full object-cover"
+          style={{
+            display: hasVideo && !videoMuted ? "block" : "none",
+            // Mirror the preview like a real mirror
+            transform: "scaleX(-1)",
+          }}
+        />
+        {(!hasVideo || videoMuted) && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-300 p-4 text-center">
+            {videoMuted ? "Camera is off" : statusMessage || "No camera"}
+          </div>
+        )}
+      </div>
+
+      {statusMessage && status !== "pending" && (
+        <p className="text-xs text-red-600">{statusMessage}</p>
+      )}
+
+      <MicLevelMeter stream={stream} />
+
+      {DEVICE_PICKERS.map(({ kind, label }) =>
+        devices[kind].length > 0 ? (
+          <div key={kind}>
+            <label
+              htmlFor={`device-${kind}`}
+              className="block text-sm font-medium mb-1"
+            >
+              {label}
+            </label>
+            <select
+              id={`device-${kind}`}
+              value={value[kind]?.deviceId ?? ""}
+              onChange={(e) => handleSelect(kind, e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="">System default</option>
+              {devices[kind].map((device) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : null
+      )}
+    </div>
+  );
+};
+
+export default PreJoinLobby;
@@ -0,0 +1,56 @@
+import { MEETING_PRESETS, type MeetingPreset } from "~/lib/meeting-presets";
+
+interface PresetSelectProps {
+  id: string;
+  name?: string;
+  value?: MeetingPreset;
+  defaultValue?: MeetingPreset;
+  onChange?: (preset: MeetingPreset) => void;
+}
+
+/**
+ * PresetSelect - Picker for the named meeting presets
+ * Works controlled (value/onChange) or inside a form (name/defaultValue)
+ *
+ * @param {Object} props Component properties
+ * @param {string} props.id Id of the select element, for its label
+ * @param {string} props.name Form field name
+ * @param {MeetingPreset} props.value The selected preset when controlled
+ * @param {MeetingPreset} props.defaultValue The initial preset when uncontrolled
+ * @param {Function} props.onChange Called with the newly selected preset
+ */
+const PresetSelect = ({
+  id,
+  name,
+  value,
+  defaultValue,
+  onChange,
+}: PresetSelectProps) => {
+  const selected = value ?? defaultValue;
+
+  return (
+    <>
+      <select
+        id={id}
+        name={name}
+        value={value}
+        defaultValue={value === undefined ? defaultValue : undefined}
+        onChange={(e) => onChange?.(e.target.value as MeetingPreset)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+      >
+        {Object.entries(MEETING_PRESETS).map(([preset, { label }]) => (
+          <option key={preset} value={preset}>
+            {label}
+          </option>
+        ))}
+      </select>
+      {value !== undefined && selected && (
+        <p className="text-xs text-gray-500 mt-1">
+          {MEETING_PRESETS[selected].description}
+        </p>
+      )}
+    </>
+  );
+};
+
+export default PresetSelect;
@@ -0,0 +1,35 @@
+import { RECORDING_MODE_LABELS } from "~/lib/recordings";
+import type { JitsiRecordingMode } from "~/types/jitsi";
+
+interface RecordingIndicatorProps {
+  active: Record<JitsiRecordingMode, boolean>;
+}
+
+/**
+ * RecordingIndicator - Tells everyone in the meeting that it is being
+ * recorded or streamed
+ *
+ * @param {Object} props Component properties
+ * @param {Record<JitsiRecordingMode, boolean>} props.active Which modes are running
+ */
+const RecordingIndicator = ({ active }: RecordingIndicatorProps) => {
+  const modes = (Object.keys(active) as JitsiRecordingMode[]).filter(
+    (mode) => active[mode]
+  );
+  if (modes.length === 0) return null;
+
+  return (
+    <span
+      role="status"
+      className="inline-flex items-center text-xs font-semibold bg-red-600 text-white rounded px-2 py-1 ml-2"
+    >
+      <span
+        className="inline-block bg-white rounded-full mr-1"
+        style={{ width: 8, height: 8 }}
+      />
+      {modes.map((mode) => RECORDING_MODE_LABELS[mode]).join(" + ")}
+    </span>
+  );
+};
+
+export default RecordingIndicator;
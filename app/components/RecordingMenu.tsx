@@ -0,0 +1,104 @@
+import { useState } from "react";
+import type { RecordingControls } from "~/hooks/useRecording";
+
+interface RecordingMenuProps {
+  roomName: string;
+  recording: RecordingControls;
+}
+
+/**
+ * RecordingMenu - "Record" button for the host's conference header to start
+ * and stop a file recording or an RTMP live stream, with a link to the
+ * room's recordings
+ *
+ * @param {Object} props Component properties
+ * @param {string} props.roomName The room whose recordings to link to
+ * @param {RecordingControls} props.recording State and actions from useRecording
+ */
+const RecordingMenu = ({ roomName, recording }: RecordingMenuProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [streamKey, setStreamKey] = useState("");
+  const { active, pending, error } = recording;
+
+  const handleStartStream = (e) => {
+    e.preventDefault();
+    if (streamKey.trim() === "") return;
+    recording.start("stream", streamKey.trim());
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded"
+      >
+        Record
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-white text-gray-800 rounded-md shadow-lg py-1 z-10">
+          <button
+            onClick={() => {
+              if (active.file) recording.stop("file");
+              else recording.start("file");
+              setIsOpen(false);
+            }}
+            disabled={pending === "file"}
+            className="block w-full text-left px-4 py-2 text-sm hover:bg-gray-100 disabled:opacity-50"
+          >
+            {active.file ? "Stop recording" : "Start recording"}
+          </button>
+          {active.stream ? (
+            <button
+              onClick={() => {
+                recording.stop("stream");
+                setIsOpen(false);
+              }}
+              disabled={pending === "stream"}
+              className="block w-full text-left px-4 py-2 text-sm hover:bg-gray-100 disabled:opacity-50"
+            >
+              Stop live stream
+            </button>
+          ) : (
+            <form onSubmit={handleStartStream} className="px-4 py-2 space-y-2">
+              <label htmlFor="streamKey" className="block text-sm">
+                Live stream key
+              </label>
+              <input
+                type="password"
+                id="streamKey"
+                value={streamKey}
+                onChange={(e) => setStreamKey(e.target.value)}
+                autoComplete="off"
+                className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+              />
+              <button
+                type="submit"
+                disabled={pending === "stream" || streamKey.trim() === ""}
+                className="w-full py-1 px-4 bg-red-600 text-white text-sm font-semibold rounded-md hover:bg-red-700 disabled:opacity-50"
+              >
+                Go live
+              </button>
+            </form>
+          )}
+          <a
+            href={`/rooms/${roomName}/recordings`}
+            target="_blank"
+            rel="noreferrer"
+            className="block px-4 py-2 text-sm hover:bg-gray-100"
+          >
+            View recordings
+          </a>
+        </div>
+      )}
+      {error && (
+        <p className="absolute right-0 mt-2 w-64 text-xs bg-red-600 text-white px-2 py-1 rounded">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RecordingMenu;
@@ -12,6 +12,9 @@ import { RemixServer } from "@remix-run/react";
 import { isbot } from "isbot";
 import { renderToPipeableStream } from "react-dom/server";
 
+// WebSocket endpoints; server.js reaches them through the server build
+export { handleUpgrade } from "~/lib/sockets.server";
+
 const ABORT_DELAY = 5_000;
 
 export default function handleRequest(
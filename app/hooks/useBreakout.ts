@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  getBreakoutSocketUrl,
+  type BreakoutClientFrame,
+  type BreakoutServerFrame,
+  type BreakoutSession,
+} from "~/lib/breakout";
+import { DEFAULT_BACKOFF, getBackoffDelay } from "~/lib/jitsi-connection";
+
+/**
+ * Follows a main room's breakout session and tells us which room to be in
+ * Reconnects with backoff; the server remembers our assignment meanwhile
+ *
+ * @param mainRoom The main room
+ * @param displayName Shown to the host in the breakout room lists
+ * @param participantId Our id in the main room's conference, or null while
+ * we're not in it; lets the host's roster assign us
+ * @param enabled Whether to connect, e.g. only once the meeting is joined
+ * @returns The running session, the room we're assigned to (null: main room),
+ * the last error and the host's start/end controls
+ */
+export const useBreakout = (
+  mainRoom: string,
+  displayName: string,
+  participantId: string | null,
+  enabled: boolean
+) => {
+  const [session, setSession] = useState<BreakoutSession | null>(null);
+  const [assignedRoom, setAssignedRoom] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Identifies this tab across reconnects; stable for the lifetime of the hook
+  const [clientId] = useState(() => crypto.randomUUID());
+  const socketRef = useRef<WebSocket | null>(null);
+  const participantIdRef = useRef(participantId);
+  participantIdRef.current = participantId;
+
+  const send = (frame: BreakoutClientFrame) => {
+    const socket = socketRef.current;
+    if (socket?.readyState !== WebSocket.OPEN) return false;
+    socket.send(JSON.stringify(frame));
+    return true;
+  };
+
+  useEffect(() => {
+    if (!enabled) {
+      setSession(null);
+      setAssignedRoom(null);
+      return;
+    }
+
+    let stopped = false;
+    let attempt = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = () => {
+      const socket = new WebSocket(
+        getBreakoutSocketUrl(mainRoom, clientId, displayName)
+      );
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempt = 0;
+        send({ type: "hello", participantId: participantIdRef.current });
+      };
+
+      socket.onmessage = (event) => {
+        const frame: BreakoutServerFrame = JSON.parse(event.data);
+        switch (frame.type) {
+          case "session":
+            setSession(frame.session);
+            break;
+          case "assignment":
+            setAssignedRoom(frame.roomName);
+            break;
+          case "error":
+            setError(frame.error);
+            break;
+        }
+      };
+
+      socket.onclose = (event) => {
+        if (socketRef.current === socket) socketRef.current = null;
+        // 1008: the server refused us, so don't retry
+        if (stopped || event.code === 1008) return;
+        attempt += 1;
+        retryTimer = setTimeout(
+          connect,
+          getBackoffDelay(attempt, DEFAULT_BACKOFF)
+        );
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [mainRoom, displayName, clientId, enabled]);
+
+  // Keep the server's view of our main room id current for the host's roster
+  useEffect(() => {
+    send({ type: "hello", participantId });
+  }, [participantId]);
+
+  return {
+    session,
+    assignedRoom,
+    error,
+    start: (
+      roomCount: number,
+      durationMinutes: number,
+      assignments: Record<string, number>
+    ) => {
+      setError(null);
+      send({ type: "start", roomCount, durationMinutes, assignments });
+    },
+    end: () => send({ type: "end" }),
+  };
+};
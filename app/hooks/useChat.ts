@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  getChatSocketUrl,
+  type ChatClientFrame,
+  type ChatMessage,
+  type ChatServerFrame,
+} from "~/lib/chat";
+import { DEFAULT_BACKOFF, getBackoffDelay } from "~/lib/jitsi-connection";
+
+export type ChatStatus = "connecting" | "open" | "closed";
+
+/**
+ * Connects to a room's chat and keeps its messages up to date
+ * Reconnects with backoff and reloads the history after every reconnect,
+ * unless the server refused us
+ *
+ * @param roomName The room whose chat to join
+ * @param displayName The name shown next to our messages
+ * @returns The messages, connection status, last error, our sender id and a
+ * send function that returns false while disconnected
+ */
+export const useChat = (roomName: string, displayName: string) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [status, setStatus] = useState<ChatStatus>("connecting");
+  const [error, setError] = useState<string | null>(null);
+  // Identifies this tab's messages; stable for the lifetime of the hook
+  const [senderId] = useState(() => crypto.randomUUID());
+  const socketRef = useRef<WebSocket | null>(null);
+
+  useEffect(() => {
+    let stopped = false;
+    let attempt = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = () => {
+      setStatus("connecting");
+      const socket = new WebSocket(
+        getChatSocketUrl(roomName, senderId, displayName)
+      );
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempt = 0;
+        setStatus("open");
+        setError(null);
+      };
+
+      socket.onmessage = (event) => {
+        const frame: ChatServerFrame = JSON.parse(event.data);
+        switch (frame.type) {
+          case "history":
+            setMessages(frame.messages);
+            break;
+          case "message":
+            setMessages((current) =>
+              current.some((message) => message.id === frame.message.id)
+                ? current
+                : [...current, frame.message]
+            );
+            break;
+          case "error":
+            setError(frame.error);
+            break;
+        }
+      };
+
+      socket.onclose = (event) => {
+        if (socketRef.current === socket) socketRef.current = null;
+        if (stopped) return;
+        setStatus("closed");
+        // 1008: the server refused us, so don't retry
+        if (event.code === 1008) return;
+        attempt += 1;
+        retryTimer = setTimeout(
+          connect,
+          getBackoffDelay(attempt, DEFAULT_BACKOFF)
+        );
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [roomName, displayName, senderId]);
+
+  const send = (text: string) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+    const frame: ChatClientFrame = { type: "message", text };
+    socket.send(JSON.stringify(frame));
+    return true;
+  };
+
+  return { messages, status, error, senderId, send };
+};
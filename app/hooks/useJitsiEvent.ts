@@ -0,0 +1,35 @@
+import { useEffect, useRef } from "react";
+import type {
+  JitsiEventHandler,
+  JitsiEventName,
+  JitsiMeetHandle,
+} from "~/types/jitsi";
+
+/**
+ * Subscribes to a Jitsi meeting event with a correctly typed payload
+ *
+ * Pass the controller from a callback ref so the hook resubscribes once the
+ * meeting mounts:
+ *
+ *   const [jitsi, setJitsi] = useState<JitsiMeetHandle | null>(null);
+ *   useJitsiEvent(jitsi, "participantJoined", ({ displayName }) => ...);
+ *   <JitsiMeetComponent ref={setJitsi} ... />
+ *
+ * @param jitsi The meeting controller, or null before it mounts
+ * @param event The External API event to listen for
+ * @param handler Called with the event payload; may change between renders
+ */
+export const useJitsiEvent = <K extends JitsiEventName>(
+  jitsi: JitsiMeetHandle | null,
+  event: K,
+  handler: JitsiEventHandler<K>
+) => {
+  // Keep the latest handler so callers don't need to memoize it
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!jitsi) return;
+    return jitsi.on(event, (payload) => handlerRef.current(payload));
+  }, [jitsi, event]);
+};
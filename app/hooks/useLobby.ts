@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from "react";
+import { DEFAULT_BACKOFF, getBackoffDelay } from "~/lib/jitsi-connection";
+import {
+  getLobbySocketUrl,
+  type LobbyClientFrame,
+  type LobbyRequest,
+  type LobbyServerFrame,
+} from "~/lib/lobby";
+
+export type LobbyGuestStatus =
+  | "idle"
+  | "connecting"
+  | "waiting"
+  | "admitted"
+  | "denied"
+  | "error";
+
+/**
+ * Knocks on a room's waiting room and waits for the host's decision
+ * Reconnects (and knocks again) if the connection drops while waiting
+ *
+ * @param roomName The room to enter
+ * @param displayName The name the host sees
+ * @param active Whether to knock; set back to false to stop waiting
+ * @returns The status, whether a host is around, the admission ticket once
+ * admitted and the last error
+ */
+export const useLobbyGuest = (
+  roomName: string,
+  displayName: string,
+  active: boolean
+) => {
+  const [status, setStatus] = useState<LobbyGuestStatus>("idle");
+  const [hostPresent, setHostPresent] = useState(false);
+  const [ticket, setTicket] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!active) {
+      setStatus("idle");
+      return;
+    }
+
+    let stopped = false;
+    let decided = false;
+    let attempt = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let socket: WebSocket | null = null;
+
+    const connect = () => {
+      setStatus("connecting");
+      socket = new WebSocket(getLobbySocketUrl(roomName, "guest", displayName));
+
+      socket.onmessage = (event) => {
+        const frame: LobbyServerFrame = JSON.parse(event.data);
+        switch (frame.type) {
+          case "waiting":
+            attempt = 0;
+            setStatus("waiting");
+            setHostPresent(frame.hostPresent);
+            break;
+          case "admitted":
+            decided = true;
+            setTicket(frame.ticket);
+            setStatus("admitted");
+            break;
+          case "denied":
+            decided = true;
+            setStatus("denied");
+            break;
+          case "error":
+            decided = true;
+            setError(frame.error);
+            setStatus("error");
+            break;
+        }
+      };
+
+      socket.onclose = () => {
+        if (stopped || decided) return;
+        attempt += 1;
+        setStatus("connecting");
+        retryTimer = setTimeout(
+          connect,
+          getBackoffDelay(attempt, DEFAULT_BACKOFF)
+        );
+      };
+    };
+
+    setTicket(null);
+    setError(null);
+    connect();
+
+    return () => {
+      stopped = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [roomName, displayName, active]);
+
+  return { status, hostPresent, ticket, error };
+};
+
+/**
+ * Lists the guests waiting to enter a room the user hosts
+ *
+ * @param roomName The hosted room
+ * @param enabled Whether to listen; pass false when the user isn't the host
+ * @returns The waiting guests and functions to admit or deny them
+ */
+export const useLobbyHost = (roomName: string, enabled: boolean) => {
+  const [requests, setRequests] = useState<LobbyRequest[]>([]);
+  const socketRef = useRef<WebSocket | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setRequests([]);
+      return;
+    }
+
+    let stopped = false;
+    let attempt = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = () => {
+      const socket = new WebSocket(getLobbySocketUrl(roomName, "host"));
+      socketRef.current = socket;
+
+      socket.onmessage = (event) => {
+        const frame: LobbyServerFrame = JSON.parse(event.data);
+        if (frame.type === "requests") {
+          attempt = 0;
+          setRequests(frame.requests);
+        }
+      };
+
+      socket.onclose = (event) => {
+        if (socketRef.current === socket) socketRef.current = null;
+        // 1008: the server doesn't consider us the host, so don't retry
+        if (stopped || event.code === 1008) return;
+        attempt += 1;
+        retryTimer = setTimeout(
+          connect,
+          getBackoffDelay(attempt, DEFAULT_BACKOFF)
+        );
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [roomName, enabled]);
+
+  const send = (frame: LobbyClientFrame) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(frame));
+    }
+  };
+
+  return {
+    requests,
+    admit: (id: string) => send({ type: "admit", id }),
+    deny: (id: string) => send({ type: "deny", id }),
+  };
+};
@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useState } from "react";
+import type { JitsiDeviceKind, JitsiDeviceSelection } from "~/types/jitsi";
+
+/**
+ * Outcome of asking the browser for camera and microphone access
+ */
+export type MediaAccessStatus =
+  | "pending"
+  | "granted"
+  | "denied"
+  | "noDevices"
+  | "unsupported"
+  | "error";
+
+export type MediaDeviceLists = Record<JitsiDeviceKind, MediaDeviceInfo[]>;
+
+const EMPTY_DEVICE_LISTS: MediaDeviceLists = {
+  audioInput: [],
+  audioOutput: [],
+  videoInput: [],
+};
+
+const DEVICE_KINDS: Record<MediaDeviceKind, JitsiDeviceKind> = {
+  audioinput: "audioInput",
+  audiooutput: "audioOutput",
+  videoinput: "videoInput",
+};
+
+/**
+ * Maps a getUserMedia error to the status shown to the user
+ */
+const getAccessStatus = (error: unknown): MediaAccessStatus => {
+  const name = error instanceof DOMException ? error.name : "";
+  switch (name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return "denied";
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return "noDevices";
+    default:
+      return "error";
+  }
+};
+
+/**
+ * Requests a preview stream, falling back to a single kind of device when
+ * the user only has a camera or only a microphone
+ */
+const getPreviewStream = async (
+  audio: MediaTrackConstraints | boolean,
+  video: MediaTrackConstraints | boolean
+) => {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio, video });
+  } catch (error) {
+    if (getAccessStatus(error) !== "noDevices") throw error;
+  }
+
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio });
+  } catch (error) {
+    if (getAccessStatus(error) !== "noDevices") throw error;
+  }
+
+  return navigator.mediaDevices.getUserMedia({ video });
+};
+
+/**
+ * Opens a local camera/microphone preview for the selected devices and keeps
+ * the list of available devices up to date
+ *
+ * @param selection The devices currently picked by the user
+ * @returns The preview stream, access status and available devices
+ */
+export const useMediaDevices = (selection: JitsiDeviceSelection) => {
+  const [status, setStatus] = useState<MediaAccessStatus>("pending");
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceLists>(EMPTY_DEVICE_LISTS);
+
+  const audioInputId = selection.audioInput?.deviceId;
+  const videoInputId = selection.videoInput?.deviceId;
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      const lists: MediaDeviceLists = {
+        audioInput: [],
+        audioOutput: [],
+        videoInput: [],
+      };
+      all.forEach((device) => {
+        // Labels stay empty until access is granted, so skip those entries
+        if (device.deviceId && device.label) {
+          lists[DEVICE_KINDS[device.kind]].push(device);
+        }
+      });
+      setDevices(lists);
+    } catch (error) {
+      console.warn("Could not list media devices:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setStatus("unsupported");
+      return;
+    }
+
+    let cancelled = false;
+    let acquired: MediaStream | null = null;
+
+    getPreviewStream(
+      audioInputId ? { deviceId: { exact: audioInputId } } : true,
+      videoInputId ? { deviceId: { exact: videoInputId } } : true
+    )
+      .then((previewStream) => {
+        acquired = previewStream;
+        if (cancelled) {
+          previewStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        setStream(previewStream);
+        setStatus("granted");
+        refreshDevices();
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.warn("Could not open camera/microphone preview:", error);
+        setStream(null);
+        setStatus(getAccessStatus(error));
+        refreshDevices();
+      });
+
+    // Release the devices so Jitsi can open them when the meeting starts
+    return () => {
+      cancelled = true;
+      acquired?.getTracks().forEach((track) => track.stop());
+    };
+  }, [audioInputId, videoInputId, refreshDevices]);
+
+  // Pick up devices being plugged in or removed
+  useEffect(() => {
+    if (!navigator.mediaDevices?.addEventListener) return;
+    navigator.mediaDevices.addEventListener("devicechange", refreshDevices);
+    return () =>
+      navigator.mediaDevices.removeEventListener(
+        "devicechange",
+        refreshDevices
+      );
+  }, [refreshDevices]);
+
+  return { status, stream, devices };
+};
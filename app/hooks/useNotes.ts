@@ -0,0 +1,161 @@
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import type { RefObject } from "react";
+import * as Y from "yjs";
+import { DEFAULT_BACKOFF, getBackoffDelay } from "~/lib/jitsi-connection";
+import {
+  NOTES_TEXT,
+  applyTextChange,
+  decodeUpdate,
+  encodeUpdate,
+  getNotesSocketUrl,
+  type NotesClientFrame,
+  type NotesServerFrame,
+} from "~/lib/notes";
+
+export type NotesStatus = "connecting" | "open" | "closed";
+
+// Origin of updates from the server, which must not be sent back
+const REMOTE = "remote";
+
+/**
+ * Keeps a room's shared notes in sync with everyone else's
+ * Edits made while disconnected are kept and merged after reconnecting
+ *
+ * @param roomName The room whose notes to edit
+ * @param textareaRef The textarea showing the notes, whose caret is kept in
+ * place when other people's edits move the text around it
+ * @returns The text, connection status, whether the notes have loaded, the
+ * last error and an edit function taking the textarea's new value
+ */
+export const useNotes = (
+  roomName: string,
+  textareaRef: RefObject<HTMLTextAreaElement>
+) => {
+  const [text, setText] = useState("");
+  const [status, setStatus] = useState<NotesStatus>("connecting");
+  const [synced, setSynced] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const docRef = useRef<Y.Doc | null>(null);
+  // The caret before a remote edit, restored once the new text is rendered
+  const selectionRef = useRef<Y.RelativePosition[] | null>(null);
+
+  useEffect(() => {
+    const doc = new Y.Doc();
+    const shared = doc.getText(NOTES_TEXT);
+    docRef.current = doc;
+    setText("");
+    setSynced(false);
+
+    let socket: WebSocket | null = null;
+    let stopped = false;
+    let attempt = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const send = (update: Uint8Array) => {
+      if (socket?.readyState !== WebSocket.OPEN) return;
+      const frame: NotesClientFrame = {
+        type: "update",
+        update: encodeUpdate(update),
+      };
+      socket.send(JSON.stringify(frame));
+    };
+
+    const applyRemote = (update: Uint8Array) => {
+      const textarea = textareaRef.current;
+      if (textarea && document.activeElement === textarea) {
+        selectionRef.current = [
+          textarea.selectionStart,
+          textarea.selectionEnd,
+        ].map((index) => Y.createRelativePositionFromTypeIndex(shared, index));
+      }
+      Y.applyUpdate(doc, update, REMOTE);
+    };
+
+    shared.observe(() => setText(shared.toString()));
+    doc.on("update", (update: Uint8Array, origin) => {
+      if (origin !== REMOTE) send(update);
+    });
+
+    const connect = () => {
+      setStatus("connecting");
+      socket = new WebSocket(getNotesSocketUrl(roomName));
+      const current = socket;
+
+      current.onopen = () => {
+        attempt = 0;
+        setStatus("open");
+        setError(null);
+      };
+
+      current.onmessage = (event) => {
+        const frame: NotesServerFrame = JSON.parse(event.data);
+        switch (frame.type) {
+          case "sync": {
+            const serverState = decodeUpdate(frame.update);
+            applyRemote(serverState);
+            // Whatever we wrote while disconnected
+            send(
+              Y.encodeStateAsUpdate(
+                doc,
+                Y.encodeStateVectorFromUpdate(serverState)
+              )
+            );
+            setSynced(true);
+            break;
+          }
+          case "update":
+            applyRemote(decodeUpdate(frame.update));
+            break;
+          case "error":
+            setError(frame.error);
+            break;
+        }
+      };
+
+      current.onclose = (event) => {
+        if (socket === current) socket = null;
+        if (stopped) return;
+        setStatus("closed");
+        // 1008: the server refused us, so don't retry
+        if (event.code === 1008) return;
+        attempt += 1;
+        retryTimer = setTimeout(
+          connect,
+          getBackoffDelay(attempt, DEFAULT_BACKOFF)
+        );
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+      docRef.current = null;
+      doc.destroy();
+    };
+  }, [roomName, textareaRef]);
+
+  useLayoutEffect(() => {
+    const doc = docRef.current;
+    const textarea = textareaRef.current;
+    const selection = selectionRef.current;
+    selectionRef.current = null;
+    if (!doc || !textarea || !selection) return;
+
+    const [start, end] = selection.map(
+      (position) =>
+        Y.createAbsolutePositionFromRelativePosition(position, doc)?.index ??
+        textarea.value.length
+    );
+    textarea.setSelectionRange(start, end);
+  }, [text, textareaRef]);
+
+  const edit = (value: string) => {
+    const doc = docRef.current;
+    if (doc) applyTextChange(doc.getText(NOTES_TEXT), value);
+  };
+
+  return { text, status, synced, error, edit };
+};
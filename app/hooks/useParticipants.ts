@@ -0,0 +1,214 @@
+import { useEffect, useMemo, useReducer } from "react";
+import { useJitsiEvent } from "~/hooks/useJitsiEvent";
+import type { JitsiMeetHandle, JitsiParticipantInfo } from "~/types/jitsi";
+
+export interface RosterParticipant {
+  id: string;
+  displayName: string;
+  isLocal: boolean;
+  // "moderator" or "participant"; null until Jitsi reports it
+  role: string | null;
+  // Jitsi only reports remote mute state when it changes, so null means unknown
+  audioMuted: boolean | null;
+  handRaised: boolean;
+}
+
+interface RosterState {
+  localId: string | null;
+  dominantSpeakerId: string | null;
+  participants: Record<string, RosterParticipant>;
+}
+
+type RosterAction =
+  | { type: "reset" }
+  | { type: "joined"; id: string; displayName: string }
+  | { type: "sync"; participants: JitsiParticipantInfo[] }
+  | { type: "add"; id: string; displayName: string }
+  | { type: "remove"; id: string }
+  | { type: "update"; id: string; patch: Partial<RosterParticipant> }
+  | { type: "dominantSpeaker"; id: string };
+
+// What Jitsi itself calls participants who haven't set a name
+const DEFAULT_DISPLAY_NAME = "Fellow Jitster";
+
+const EMPTY_ROSTER: RosterState = {
+  localId: null,
+  dominantSpeakerId: null,
+  participants: {},
+};
+
+const createParticipant = (
+  id: string,
+  displayName: string,
+  isLocal = false
+): RosterParticipant => ({
+  id,
+  displayName: displayName || DEFAULT_DISPLAY_NAME,
+  isLocal,
+  role: null,
+  audioMuted: null,
+  handRaised: false,
+});
+
+const rosterReducer = (
+  state: RosterState,
+  action: RosterAction
+): RosterState => {
+  switch (action.type) {
+    case "reset":
+      return EMPTY_ROSTER;
+    case "joined":
+      // A (re)join starts a fresh roster; everyone else arrives via "sync"
+      return {
+        ...EMPTY_ROSTER,
+        localId: action.id,
+        participants: {
+          [action.id]: createParticipant(action.id, action.displayName, true),
+        },
+      };
+    case "sync": {
+      const participants = { ...state.participants };
+      action.participants.forEach((info) => {
+        const existing = participants[info.participantId];
+        participants[info.participantId] = {
+          ...(existing ??
+            createParticipant(
+              info.participantId,
+              info.displayName,
+              info.participantId === state.localId
+            )),
+          displayName:
+            info.displayName || existing?.displayName || DEFAULT_DISPLAY_NAME,
+          role: info.role ?? existing?.role ?? null,
+        };
+      });
+      return { ...state, participants };
+    }
+    case "add":
+      if (state.participants[action.id]) return state;
+      return {
+        ...state,
+        participants: {
+          ...state.participants,
+          [action.id]: createParticipant(action.id, action.displayName),
+        },
+      };
+    case "remove": {
+      if (!state.participants[action.id]) return state;
+      const { [action.id]: _removed, ...participants } = state.participants;
+      return {
+        ...state,
+        participants,
+        dominantSpeakerId:
+          state.dominantSpeakerId === action.id
+            ? null
+            : state.dominantSpeakerId,
+      };
+    }
+    case "update": {
+      const participant = state.participants[action.id];
+      // Events can race the roster sync; drop updates for unknown participants
+      if (!participant) return state;
+      return {
+        ...state,
+        participants: {
+          ...state.participants,
+          [action.id]: { ...participant, ...action.patch },
+        },
+      };
+    }
+    case "dominantSpeaker":
+      return { ...state, dominantSpeakerId: action.id };
+    default:
+      return state;
+  }
+};
+
+/**
+ * Sorts the local participant first, then raised hands, then by name
+ */
+const compareParticipants = (a: RosterParticipant, b: RosterParticipant) =>
+  Number(b.isLocal) - Number(a.isLocal) ||
+  Number(b.handRaised) - Number(a.handRaised) ||
+  a.displayName.localeCompare(b.displayName);
+
+/**
+ * Keeps a live list of the people in the meeting from External API events
+ *
+ * @param jitsi The meeting controller, or null before it mounts
+ * @returns The sorted participants, the current speaker and whether the
+ * local user is a moderator
+ */
+export const useParticipants = (jitsi: JitsiMeetHandle | null) => {
+  const [state, dispatch] = useReducer(rosterReducer, EMPTY_ROSTER);
+
+  // Forget everyone when the meeting goes away
+  useEffect(() => {
+    if (!jitsi) dispatch({ type: "reset" });
+  }, [jitsi]);
+
+  useJitsiEvent(jitsi, "videoConferenceJoined", ({ id, displayName }) => {
+    dispatch({ type: "joined", id, displayName });
+    jitsi
+      ?.getParticipantsInfo()
+      .then((participants) => dispatch({ type: "sync", participants }))
+      .catch((error) => console.error("Failed to load participants:", error));
+    jitsi
+      ?.isAudioMuted()
+      .then((audioMuted) =>
+        dispatch({ type: "update", id, patch: { audioMuted } })
+      )
+      .catch(() => {});
+  });
+  useJitsiEvent(jitsi, "videoConferenceLeft", () =>
+    dispatch({ type: "reset" })
+  );
+  useJitsiEvent(jitsi, "participantJoined", ({ id, displayName }) =>
+    dispatch({ type: "add", id, displayName })
+  );
+  useJitsiEvent(jitsi, "participantLeft", ({ id }) =>
+    dispatch({ type: "remove", id })
+  );
+  useJitsiEvent(jitsi, "displayNameChange", ({ id, displayname }) =>
+    dispatch({ type: "update", id, patch: { displayName: displayname } })
+  );
+  useJitsiEvent(jitsi, "participantRoleChanged", ({ id, role }) =>
+    dispatch({ type: "update", id, patch: { role } })
+  );
+  useJitsiEvent(jitsi, "raiseHandUpdated", ({ id, handRaised }) =>
+    dispatch({ type: "update", id, patch: { handRaised: handRaised > 0 } })
+  );
+  useJitsiEvent(jitsi, "dominantSpeakerChanged", ({ id }) =>
+    dispatch({ type: "dominantSpeaker", id })
+  );
+  useJitsiEvent(jitsi, "participantMuted", ({ id, isMuted, mediaType }) => {
+    if (mediaType !== "audio") return;
+    dispatch({ type: "update", id, patch: { audioMuted: isMuted } });
+  });
+  // The local mute state has its own event
+  useJitsiEvent(jitsi, "audioMuteStatusChanged", ({ muted }) => {
+    if (!state.localId) return;
+    dispatch({
+      type: "update",
+      id: state.localId,
+      patch: { audioMuted: muted },
+    });
+  });
+
+  const participants = useMemo(
+    () => Object.values(state.participants).sort(compareParticipants),
+    [state.participants]
+  );
+  const localParticipant = state.localId
+    ? state.participants[state.localId] ?? null
+    : null;
+
+  return {
+    participants,
+    localParticipant,
+    dominantSpeakerId: state.dominantSpeakerId,
+    isModerator: localParticipant?.role === "moderator",
+  };
+};
+
+export type ParticipantRoster = ReturnType<typeof useParticipants>;
@@ -0,0 +1,214 @@
+import { useRef, useState } from "react";
+import { useJitsiEvent } from "~/hooks/useJitsiEvent";
+import type { ParticipantRoster } from "~/hooks/useParticipants";
+import {
+  applyReceivedPoll,
+  encodePollMessage,
+  parsePollMessage,
+  savePollResult,
+  type Poll,
+  type PollMessage,
+  type Reaction,
+} from "~/lib/polls";
+import type { JitsiMeetHandle } from "~/types/jitsi";
+
+// How long a reaction stays on screen
+const REACTION_MS = 5000;
+
+// Jitsi sends endpoint text messages to everyone when no recipient is given
+const EVERYONE = "";
+
+export interface ShownReaction {
+  id: string;
+  reaction: Reaction;
+  displayName: string;
+}
+
+/**
+ * Runs polls and reactions over Jitsi endpoint text messages
+ * Every browser keeps its own copy of each poll and counts the votes it
+ * receives; whoever asked a question sends it to people who join later.
+ * A poll's first copy starts it open with no votes; later copies can only
+ * close it, with their tally, when they come from whoever sent it first or
+ * a moderator (see applyReceivedPoll).
+ * The host can close any poll, which also saves its results on the server.
+ *
+ * @param jitsi The meeting controller, or null before it mounts
+ * @param roomName The room poll results are saved under
+ * @param roster The meeting's participants, for our id and who moderates
+ * @param displayName Our display name
+ * @param isHost Whether this browser hosts the room
+ */
+export const usePolls = (
+  jitsi: JitsiMeetHandle | null,
+  roomName: string,
+  roster: ParticipantRoster,
+  displayName: string,
+  isHost: boolean
+) => {
+  const localParticipantId = roster.localParticipant?.id ?? null;
+  const [polls, setPolls] = useState<Poll[]>([]);
+  // Who each poll came from first, by poll id; kept in a ref so messages
+  // arriving before the next render see it
+  const creatorsRef = useRef(new Map<string, string>());
+  // Ids of the polls we asked, which we keep late joiners up to date on
+  const [ownPollIds, setOwnPollIds] = useState<string[]>([]);
+  const [reactions, setReactions] = useState<ShownReaction[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Display names by participant id, for showing who reacted
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  const send = (message: PollMessage, to = EVERYONE) =>
+    jitsi?.sendEndpointTextMessage(to, encodePollMessage(message));
+
+  const addPoll = (poll: Poll, creatorId: string) => {
+    creatorsRef.current.set(poll.id, creatorId);
+    setPolls((current) => [...current, poll]);
+  };
+
+  // A closed poll never reopens, and keeps the votes we counted
+  const markClosed = (pollId: string) =>
+    setPolls((current) =>
+      current.map((poll) =>
+        poll.id === pollId ? { ...poll, closed: true } : poll
+      )
+    );
+
+  /**
+   * Takes in a poll someone sent: a new one without its votes, and a known
+   * one only to close it, when its creator or a moderator sent it
+   */
+  const receivePoll = (poll: Poll, senderId: string) => {
+    const creatorId = creatorsRef.current.get(poll.id);
+    if (creatorId === undefined) {
+      addPoll(applyReceivedPoll(undefined, poll, false), senderId);
+      return;
+    }
+    const sender = roster.participants.find(({ id }) => id === senderId);
+    const trusted = senderId === creatorId || sender?.role === "moderator";
+    setPolls((current) =>
+      current.map(
+        (known) =>
+          (known.id === poll.id && applyReceivedPoll(known, poll, trusted)) ||
+          known
+      )
+    );
+  };
+
+  const addVote = (pollId: string, participantId: string, option: number) =>
+    setPolls((current) =>
+      current.map((poll) =>
+        poll.id === pollId && !poll.closed && option < poll.options.length
+          ? { ...poll, votes: { ...poll.votes, [participantId]: option } }
+          : poll
+      )
+    );
+
+  const showReaction = (reaction: Reaction, reactedBy: string) => {
+    const shown = { id: crypto.randomUUID(), reaction, displayName: reactedBy };
+    setReactions((current) => [...current, shown]);
+    setTimeout(
+      () =>
+        setReactions((current) =>
+          current.filter((other) => other.id !== shown.id)
+        ),
+      REACTION_MS
+    );
+  };
+
+  // A new conference (e.g. a breakout room) has its own polls
+  useJitsiEvent(jitsi, "videoConferenceJoined", () => {
+    setPolls([]);
+    setOwnPollIds([]);
+    creatorsRef.current.clear();
+  });
+
+  useJitsiEvent(jitsi, "participantJoined", ({ id, displayName }) => {
+    setNames((current) => ({ ...current, [id]: displayName }));
+    polls
+      .filter((poll) => ownPollIds.includes(poll.id))
+      .forEach((poll) => send({ type: "poll", poll }, id));
+  });
+
+  useJitsiEvent(jitsi, "displayNameChange", ({ id, displayname }) =>
+    setNames((current) => ({ ...current, [id]: displayname }))
+  );
+
+  useJitsiEvent(
+    jitsi,
+    "endpointTextMessageReceived",
+    ({ senderInfo, eventData }) => {
+      const message = parsePollMessage(eventData.text);
+      if (!message) return;
+
+      switch (message.type) {
+        case "poll":
+          receivePoll(message.poll, senderInfo.id);
+          break;
+        case "vote":
+          // Votes count for whoever sent them, whatever the message says
+          addVote(message.pollId, senderInfo.id, message.option);
+          break;
+        case "reaction":
+          showReaction(message.reaction, names[senderInfo.id] ?? "Someone");
+          break;
+      }
+    }
+  );
+
+  /**
+   * Asks everyone a question
+   */
+  const createPoll = (question: string, options: string[]) => {
+    const poll: Poll = {
+      id: crypto.randomUUID(),
+      question: question.trim(),
+      options: options
+        .map((option) => option.trim())
+        .filter((option) => option !== ""),
+      createdBy: displayName,
+      votes: {},
+      closed: false,
+    };
+    addPoll(poll, localParticipantId ?? "");
+    setOwnPollIds((current) => [...current, poll.id]);
+    send({ type: "poll", poll });
+  };
+
+  /**
+   * Votes for an option; voting again changes the vote
+   */
+  const vote = (pollId: string, option: number) => {
+    if (!localParticipantId) return;
+    // We don't receive our own messages, so count the vote here too
+    addVote(pollId, localParticipantId, option);
+    send({ type: "vote", pollId, option });
+  };
+
+  /**
+   * Closes a poll for everyone and saves its results (host only)
+   */
+  const closePoll = async (pollId: string) => {
+    const poll = polls.find((existing) => existing.id === pollId);
+    if (!poll || poll.closed || !isHost) return;
+
+    const closed = { ...poll, closed: true };
+    markClosed(pollId);
+    send({ type: "poll", poll: closed });
+    try {
+      setError(null);
+      await savePollResult(roomName, closed);
+    } catch (saveError) {
+      setError(saveError.message);
+    }
+  };
+
+  const react = (reaction: Reaction) => {
+    showReaction(reaction, displayName);
+    send({ type: "reaction", reaction });
+  };
+
+  return { polls, reactions, error, createPoll, vote, closePoll, react };
+};
+
+export type PollControls = ReturnType<typeof usePolls>;
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { useJitsiEvent } from "~/hooks/useJitsiEvent";
+import { reportRecordingStatus } from "~/lib/recordings";
+import type { JitsiMeetHandle, JitsiRecordingMode } from "~/types/jitsi";
+
+const NOT_RECORDING: Record<JitsiRecordingMode, boolean> = {
+  file: false,
+  stream: false,
+};
+
+/**
+ * Tracks whether the meeting is being recorded or streamed, and lets the
+ * host start and stop either
+ * The host's browser also keeps the server's recordings catalog up to date
+ *
+ * @param jitsi The meeting controller, or null before it mounts
+ * @param roomName The room the recordings are catalogued under
+ * @param displayName The host's display name, stored with each recording
+ * @param isHost Whether this browser hosts the room
+ */
+export const useRecording = (
+  jitsi: JitsiMeetHandle | null,
+  roomName: string,
+  displayName: string,
+  isHost: boolean
+) => {
+  const [active, setActive] = useState(NOT_RECORDING);
+  // Start or stop requested but not yet confirmed by Jitsi
+  const [pending, setPending] = useState<JitsiRecordingMode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new conference starts from scratch; Jitsi re-reports running recordings
+  useJitsiEvent(jitsi, "videoConferenceJoined", () => {
+    setActive(NOT_RECORDING);
+    setPending(null);
+  });
+
+  useJitsiEvent(jitsi, "recordingStatusChanged", ({ on, mode, error }) => {
+    setPending((current) => (current === mode ? null : current));
+    if (error) {
+      setError(`Could not ${on ? "stop" : "start"} the ${mode}: ${error}`);
+      return;
+    }
+    setError(null);
+    if (active[mode] === on) return;
+    setActive((current) => ({ ...current, [mode]: on }));
+    if (isHost) reportRecordingStatus(roomName, mode, on, displayName);
+  });
+
+  /**
+   * Starts a file recording, or a live stream to the given RTMP stream key
+   */
+  const start = (mode: JitsiRecordingMode, rtmpStreamKey?: string) => {
+    if (!jitsi) return;
+    setError(null);
+    setPending(mode);
+    jitsi.startRecording(
+      mode === "stream" ? { mode, rtmpStreamKey } : { mode: "file" }
+    );
+  };
+
+  const stop = (mode: JitsiRecordingMode) => {
+    if (!jitsi) return;
+    setPending(mode);
+    jitsi.stopRecording(mode);
+  };
+
+  return { active, pending, error, start, stop };
+};
+
+export type RecordingControls = ReturnType<typeof useRecording>;
@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+import type { RoomOccupancy } from "~/lib/presence";
+
+/**
+ * Keeps live room occupancy up to date from the server-sent event stream
+ * EventSource reconnects by itself and the server resends everything on
+ * connect, so no extra bookkeeping is needed
+ *
+ * @param initial Occupancy rendered by the loader, used until the stream connects
+ * @returns The occupancy of every active room and whether the stream is live
+ */
+export const useRoomOccupancy = (initial: RoomOccupancy[]) => {
+  const [occupancy, setOccupancy] = useState(initial);
+  const [isLive, setIsLive] = useState(false);
+
+  useEffect(() => {
+    const source = new EventSource("/api/presence");
+    source.addEventListener("occupancy", (event) => {
+      setOccupancy(JSON.parse((event as MessageEvent).data));
+      setIsLive(true);
+    });
+    source.onerror = () => setIsLive(false);
+    return () => source.close();
+  }, []);
+
+  return { occupancy, isLive };
+};
@@ -0,0 +1,86 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type {
+  AttendanceEventInput,
+  AttendanceEventType,
+} from "~/lib/attendance";
+import {
+  createJsonAttendanceStore,
+  parseAttendanceEvent,
+} from "~/lib/attendance.server";
+
+const input = (
+  roomName: string,
+  type: AttendanceEventType = "join"
+): AttendanceEventInput => ({
+  roomName,
+  sessionId: "00000000-0000-4000-8000-000000000000",
+  participantId: null,
+  displayName: "Ann",
+  type,
+  detail: null,
+});
+
+describe("createJsonAttendanceStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "attendance-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("appends each room's events to its own log", async () => {
+    const store = createJsonAttendanceStore(path.join(dir, "attendance"));
+    await store.record(input("team-sync"));
+    await store.record(input("team-sync", "leave"));
+    await store.record(input("standup"));
+
+    expect(
+      (await store.listByRoom("team-sync")).map((event) => event.type)
+    ).toEqual(["join", "leave"]);
+    expect(await store.listByRoom("standup")).toHaveLength(1);
+
+    const log = await readFile(
+      path.join(dir, "attendance", "team-sync.jsonl"),
+      "utf8"
+    );
+    expect(log.trim().split("\n")).toHaveLength(2);
+  });
+
+  it("drops events past the retention period", async () => {
+    const old = {
+      ...input("team-sync"),
+      id: "old",
+      at: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString(),
+    };
+    await mkdir(path.join(dir, "attendance"));
+    await writeFile(
+      path.join(dir, "attendance", "team-sync.jsonl"),
+      `${JSON.stringify(old)}\n`
+    );
+
+    const store = createJsonAttendanceStore(path.join(dir, "attendance"));
+    const event = await store.record(input("team-sync"));
+
+    expect(await store.listByRoom("team-sync")).toEqual([event]);
+  });
+});
+
+describe("parseAttendanceEvent", () => {
+  it("refuses participant ids longer than any Jitsi id", () => {
+    expect(
+      parseAttendanceEvent({ ...input("team-sync"), participantId: "abc123" })
+    ).toMatchObject({ event: { participantId: "abc123" } });
+    expect(
+      parseAttendanceEvent({
+        ...input("team-sync"),
+        participantId: "x".repeat(101),
+      })
+    ).toEqual({ error: "participantId is too long" });
+  });
+});
@@ -0,0 +1,256 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import {
+  ATTENDANCE_EVENT_TYPES,
+  type AttendanceEvent,
+  type AttendanceEventInput,
+  type AttendanceRecord,
+} from "~/lib/attendance";
+import {
+  createAttemptLimiter,
+  type AttemptReservation,
+} from "~/lib/credentials.server";
+import {
+  createJsonLinesLog,
+  getDataDir,
+  type JsonLinesLog,
+} from "~/lib/json-store.server";
+import { validateRoomName } from "~/lib/room-names";
+
+const MAX_DISPLAY_NAME_LENGTH = 100;
+const MAX_PARTICIPANT_ID_LENGTH = 100;
+const MAX_DETAIL_LENGTH = 50;
+
+// Mute and connection changes come in bursts; leaves room for several
+// participants sharing an address
+const MAX_EVENTS_PER_CLIENT = 300;
+const EVENT_WINDOW_MS = 10 * 60 * 1000;
+
+// Events older than this are dropped from the logs
+const RETENTION_MS = 180 * 24 * 60 * 60 * 1000;
+// How often one room's log is checked for expired events
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Recent events per room and client address
+const eventAttempts = createAttemptLimiter(
+  MAX_EVENTS_PER_CLIENT,
+  EVENT_WINDOW_MS
+);
+
+/**
+ * Counts an event against the limit for its room and the client's address
+ *
+ * @param context The load context; its clientAddress identifies the visitor
+ * @param event The event about to be recorded
+ */
+export const reserveAttendanceEvent = (
+  context,
+  { roomName }: AttendanceEventInput
+): AttemptReservation =>
+  eventAttempts.reserve(`${roomName}:${context?.clientAddress ?? "unknown"}`);
+
+/**
+ * Persistence for attendance events
+ */
+export interface AttendanceStore {
+  record(input: AttendanceEventInput): Promise<AttendanceEvent>;
+  listByRoom(roomName: string): Promise<AttendanceEvent[]>;
+}
+
+/**
+ * Creates an attendance store that appends each room's events to its own
+ * JSON Lines file, so recording an event never rewrites the whole history
+ *
+ * @param dirPath Directory holding one <room>.jsonl file per room
+ */
+export const createJsonAttendanceStore = (dirPath: string): AttendanceStore => {
+  const logs = new Map<string, JsonLinesLog<AttendanceEvent>>();
+  // Room names are validated, so they are safe to use as file names
+  const getLog = (roomName: string) => {
+    if (!logs.has(roomName)) {
+      logs.set(
+        roomName,
+        createJsonLinesLog(path.join(dirPath, `${roomName}.jsonl`))
+      );
+    }
+    return logs.get(roomName);
+  };
+
+  const lastPruned = new Map<string, number>();
+  const pruneIfDue = async (roomName: string) => {
+    const now = Date.now();
+    if (now - (lastPruned.get(roomName) ?? 0) < PRUNE_INTERVAL_MS) return;
+    lastPruned.set(roomName, now);
+    await getLog(roomName).retain(
+      (event) => now - Date.parse(event.at) < RETENTION_MS
+    );
+  };
+
+  return {
+    record: async (input) => {
+      const event: AttendanceEvent = {
+        ...input,
+        id: randomUUID(),
+        at: new Date().toISOString(),
+      };
+      await pruneIfDue(input.roomName);
+      await getLog(input.roomName).append(event);
+      return event;
+    },
+
+    listByRoom: async (roomName) =>
+      validateRoomName(roomName) ? [] : getLog(roomName).read(),
+  };
+};
+
+const stores = new Map<string, AttendanceStore>();
+
+/**
+ * Returns the attendance store for the data directory configured in the context
+ */
+export const getAttendanceStore = (context): AttendanceStore => {
+  const dataDir = getDataDir(context);
+  if (!stores.has(dataDir)) {
+    stores.set(
+      dataDir,
+      createJsonAttendanceStore(path.join(dataDir, "attendance"))
+    );
+  }
+  return stores.get(dataDir);
+};
+
+/**
+ * Validates an attendance event posted by the browser
+ *
+ * @returns The event, or an error message
+ */
+export const parseAttendanceEvent = (
+  body
+): { event: AttendanceEventInput } | { error: string } => {
+  const text = (value) => (typeof value === "string" ? value.trim() : "");
+
+  const roomName = text(body?.roomName);
+  const roomNameError = validateRoomName(roomName);
+  if (roomNameError) return { error: roomNameError };
+
+  const sessionId = text(body?.sessionId);
+  if (!/^[0-9a-f-]{36}$/i.test(sessionId)) {
+    return { error: "sessionId must be a UUID" };
+  }
+
+  const displayName = text(body?.displayName);
+  if (displayName === "" || displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+    return { error: "displayName is missing or too long" };
+  }
+
+  const participantId = text(body?.participantId);
+  if (participantId.length > MAX_PARTICIPANT_ID_LENGTH) {
+    return { error: "participantId is too long" };
+  }
+
+  if (!ATTENDANCE_EVENT_TYPES.includes(body?.type)) {
+    return { error: "Unknown event type" };
+  }
+
+  return {
+    event: {
+      roomName,
+      sessionId,
+      participantId: participantId || null,
+      displayName,
+      type: body.type,
+      detail: text(body.detail).slice(0, MAX_DETAIL_LENGTH) || null,
+    },
+  };
+};
+
+/**
+ * Works out who attended a room and for how long
+ *
+ * Each browser session lasts from its first join to its last leave. Sessions
+ * that never sent a leave (crashed tabs) end at their last event. Sessions of
+ * the same display name are merged so a second tab isn't counted twice.
+ *
+ * @param events The room's events in the order they were recorded
+ */
+export const buildAttendanceReport = (
+  events: AttendanceEvent[]
+): AttendanceRecord[] => {
+  const sessions = new Map<
+    string,
+    { displayName: string; start: number | null; end: number | null }
+  >();
+
+  events.forEach((event) => {
+    const time = Date.parse(event.at);
+    const session = sessions.get(event.sessionId) ?? {
+      displayName: event.displayName,
+      start: null,
+      end: null,
+    };
+    if (event.type === "join" && session.start === null) {
+      session.start = time;
+    }
+    if (session.start !== null) {
+      session.end = Math.max(session.end ?? time, time);
+    }
+    sessions.set(event.sessionId, session);
+  });
+
+  // Group session intervals by participant name
+  const byName = new Map<string, { displayName: string; ranges: number[][] }>();
+  sessions.forEach(({ displayName, start, end }) => {
+    if (start === null) return;
+    const key = displayName.toLowerCase();
+    const entry = byName.get(key) ?? { displayName, ranges: [] };
+    entry.ranges.push([start, end ?? start]);
+    byName.set(key, entry);
+  });
+
+  return Array.from(byName.values())
+    .map(({ displayName, ranges }) => {
+      ranges.sort((a, b) => a[0] - b[0]);
+      let total = 0;
+      let [currentStart, currentEnd] = ranges[0];
+      ranges.slice(1).forEach(([start, end]) => {
+        if (start > currentEnd) {
+          total += currentEnd - currentStart;
+          [currentStart, currentEnd] = [start, end];
+        } else {
+          currentEnd = Math.max(currentEnd, end);
+        }
+      });
+      total += currentEnd - currentStart;
+
+      return {
+        displayName,
+        firstJoin: new Date(ranges[0][0]).toISOString(),
+        lastLeave: new Date(
+          Math.max(...ranges.map(([, end]) => end))
+        ).toISOString(),
+        totalMinutes: Math.round((total / 60000) * 10) / 10,
+        sessions: ranges.length,
+      };
+    })
+    .sort((a, b) => a.firstJoin.localeCompare(b.firstJoin));
+};
+
+/**
+ * Quotes a CSV field when needed (RFC 4180)
+ * Leading formula characters are escaped so spreadsheets don't evaluate names
+ */
+const csvField = (value: string | number | null) => {
+  let text = value === null ? "" : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes rows to CSV with a header line taken from the given columns
+ */
+export const toCsv = <T>(rows: T[], columns: (keyof T & string)[]) =>
+  [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+    .map((fields) =>
+      fields.map((field) => csvField(field as string | number | null)).join(",")
+    )
+    .join("\r\n") + "\r\n";
@@ -0,0 +1,143 @@
+import type { ConnectionStatus } from "~/lib/jitsi-connection";
+import type { JitsiEventHandlers } from "~/types/jitsi";
+
+/**
+ * What happened in a meeting, as reported by each participant's browser
+ * "detail" carries the new state: "muted"/"unmuted" for audio and video,
+ * "on"/"off" for screen sharing and recording, and the connection status
+ * for "connection"
+ */
+export type AttendanceEventType =
+  | "join"
+  | "leave"
+  | "audio"
+  | "video"
+  | "screenShare"
+  | "recording"
+  | "connection";
+
+export const ATTENDANCE_EVENT_TYPES: AttendanceEventType[] = [
+  "join",
+  "leave",
+  "audio",
+  "video",
+  "screenShare",
+  "recording",
+  "connection",
+];
+
+export interface AttendanceEvent {
+  id: string;
+  roomName: string;
+  // One browser tab's stay in the room; stays the same across reconnects
+  sessionId: string;
+  // Jitsi's id for the participant, once the conference has been joined
+  participantId: string | null;
+  displayName: string;
+  type: AttendanceEventType;
+  detail: string | null;
+  // ISO timestamp set by the server when the event is recorded
+  at: string;
+}
+
+export type AttendanceEventInput = Omit<AttendanceEvent, "id" | "at">;
+
+/**
+ * One row of a room's attendance report
+ */
+export interface AttendanceRecord {
+  displayName: string;
+  firstJoin: string;
+  lastLeave: string;
+  // Time actually spent in the room; overlapping tabs are only counted once
+  totalMinutes: number;
+  sessions: number;
+}
+
+/**
+ * Posts an attendance event to the server without waiting for the response
+ * Uses keepalive so the final "leave" still goes out when the tab closes
+ */
+export const sendAttendanceEvent = (event: AttendanceEventInput) => {
+  fetch("/api/attendance", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(event),
+    keepalive: true,
+  }).catch((error) => {
+    console.warn("Failed to record attendance event:", error);
+  });
+};
+
+interface AttendanceReporterOptions {
+  roomName: string;
+  displayName: string;
+  // Shared with the presence reporter so the server can tell it's the same tab
+  sessionId?: string;
+  send?: (event: AttendanceEventInput) => void;
+}
+
+/**
+ * Turns meeting events into attendance events for one browser session
+ * The returned handlers plug into the External API and connection state
+ * machine; `close` reports a final leave if the meeting was never left
+ */
+export const createAttendanceReporter = ({
+  roomName,
+  displayName,
+  sessionId = crypto.randomUUID(),
+  send = sendAttendanceEvent,
+}: AttendanceReporterOptions) => {
+  let participantId: string | null = null;
+  let inConference = false;
+  let lastStatus: ConnectionStatus | null = null;
+
+  const report = (type: AttendanceEventType, detail: string | null = null) =>
+    send({ roomName, sessionId, participantId, displayName, type, detail });
+
+  const handleLeft = () => {
+    if (!inConference) return;
+    inConference = false;
+    report("leave");
+  };
+
+  const handlers: JitsiEventHandlers = {
+    videoConferenceJoined: ({ id }) => {
+      participantId = id;
+      // Reconnects join again without an explicit leave in between
+      if (inConference) return;
+      inConference = true;
+      report("join");
+    },
+    videoConferenceLeft: handleLeft,
+    audioMuteStatusChanged: ({ muted }) =>
+      report("audio", muted ? "muted" : "unmuted"),
+    videoMuteStatusChanged: ({ muted }) =>
+      report("video", muted ? "muted" : "unmuted"),
+    screenSharingStatusChanged: ({ on }) =>
+      report("screenShare", on ? "on" : "off"),
+    recordingStatusChanged: ({ on }) => report("recording", on ? "on" : "off"),
+  };
+
+  return {
+    handlers,
+
+    /**
+     * Records connection quality changes: drops, reconnects and failures
+     */
+    handleStatusChange(status: ConnectionStatus) {
+      if (status === lastStatus) return;
+      lastStatus = status;
+      if (
+        status === "connected" ||
+        status === "reconnecting" ||
+        status === "failed"
+      ) {
+        report("connection", status);
+      }
+      if (status === "failed") handleLeft();
+    },
+
+    close: handleLeft,
+  };
+};
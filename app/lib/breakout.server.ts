@@ -0,0 +1,249 @@
+import type { IncomingMessage } from "node:http";
+import type { WebSocket } from "ws";
+import {
+  MAX_BREAKOUT_MINUTES,
+  MAX_BREAKOUT_ROOMS,
+  getBreakoutRoomName,
+  type BreakoutClientFrame,
+  type BreakoutServerFrame,
+  type BreakoutSession,
+} from "~/lib/breakout";
+import { canJoinRoom } from "~/lib/lobby.server";
+import { validateRoomName } from "~/lib/room-names";
+import { getRoomStore, isRoomHost } from "~/lib/rooms.server";
+
+interface BreakoutClient {
+  clientId: string;
+  displayName: string;
+  // Latest id in the main room's conference, reported by the client
+  participantId: string | null;
+  isHost: boolean;
+}
+
+interface MainRoom {
+  clients: Map<WebSocket, BreakoutClient>;
+  session: BreakoutSession | null;
+  // Breakout room index per client id
+  assignments: Map<string, number>;
+  endTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// Breakout sessions live in memory; a restart sends everyone back
+const mainRooms = new Map<string, MainRoom>();
+
+const sendFrame = (socket: WebSocket, frame: BreakoutServerFrame) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(frame));
+  }
+};
+
+const getMainRoom = (name: string) => {
+  if (!mainRooms.has(name)) {
+    mainRooms.set(name, {
+      clients: new Map(),
+      session: null,
+      assignments: new Map(),
+      endTimer: null,
+    });
+  }
+  return mainRooms.get(name);
+};
+
+const getAssignedRoom = (room: MainRoom, clientId: string) => {
+  const index = room.assignments.get(clientId);
+  return index === undefined ? null : room.session?.rooms[index]?.name ?? null;
+};
+
+/**
+ * Sends the session and each client's assignment to everyone in the room
+ */
+const broadcast = (room: MainRoom) => {
+  room.clients.forEach((client, socket) => {
+    sendFrame(socket, { type: "session", session: room.session });
+    sendFrame(socket, {
+      type: "assignment",
+      roomName: getAssignedRoom(room, client.clientId),
+    });
+  });
+};
+
+const endSession = (mainRoom: string) => {
+  const room = mainRooms.get(mainRoom);
+  if (!room?.session) return;
+  if (room.endTimer) clearTimeout(room.endTimer);
+  room.session = null;
+  room.assignments.clear();
+  room.endTimer = null;
+  broadcast(room);
+  if (room.clients.size === 0) mainRooms.delete(mainRoom);
+};
+
+/**
+ * Starts a breakout session from the host's assignments
+ * Participant ids without a connected client stay in the main room
+ */
+const startSession = (
+  mainRoom: string,
+  frame: Extract<BreakoutClientFrame, { type: "start" }>
+): string | null => {
+  const roomCount = Number(frame.roomCount);
+  const durationMinutes = Number(frame.durationMinutes);
+  if (
+    !Number.isInteger(roomCount) ||
+    roomCount < 1 ||
+    roomCount > MAX_BREAKOUT_ROOMS
+  ) {
+    return `Pick between 1 and ${MAX_BREAKOUT_ROOMS} rooms`;
+  }
+  if (
+    !Number.isInteger(durationMinutes) ||
+    durationMinutes < 1 ||
+    durationMinutes > MAX_BREAKOUT_MINUTES
+  ) {
+    return `Pick between 1 and ${MAX_BREAKOUT_MINUTES} minutes`;
+  }
+
+  const room = getMainRoom(mainRoom);
+  if (room.session) return "Breakout rooms are already running";
+
+  const assignments = new Map<string, number>();
+  room.clients.forEach((client) => {
+    const index = client.participantId
+      ? frame.assignments?.[client.participantId]
+      : undefined;
+    if (Number.isInteger(index) && index >= 0 && index < roomCount) {
+      assignments.set(client.clientId, index);
+    }
+  });
+  if (assignments.size === 0) {
+    return "Nobody could be moved to a breakout room";
+  }
+
+  const names = new Map(
+    Array.from(room.clients.values(), (client) => [
+      client.clientId,
+      client.displayName,
+    ])
+  );
+  room.assignments = assignments;
+  room.session = {
+    mainRoom,
+    rooms: Array.from({ length: roomCount }, (_, index) => ({
+      name: getBreakoutRoomName(mainRoom, index),
+      label: `Breakout room ${index + 1}`,
+      participants: Array.from(assignments)
+        .filter(([, roomIndex]) => roomIndex === index)
+        .map(([clientId]) => names.get(clientId)),
+    })),
+    endsAt: new Date(Date.now() + durationMinutes * 60000).toISOString(),
+  };
+  room.endTimer = setTimeout(
+    () => endSession(mainRoom),
+    durationMinutes * 60000
+  );
+  broadcast(room);
+  return null;
+};
+
+/**
+ * Returns the main room a breakout room belongs to, while its session runs
+ * Lets token and passcode checks treat breakout rooms like their main room.
+ * A room created under the same name keeps its own host and passcode.
+ */
+export const findBreakoutMainRoom = async (context, roomName: string) => {
+  for (const [mainRoom, room] of mainRooms) {
+    if (room.session?.rooms.some((breakout) => breakout.name === roomName)) {
+      return (await getRoomStore(context).get(roomName)) ? null : mainRoom;
+    }
+  }
+  return null;
+};
+
+/**
+ * Serves one breakout connection on /ws/breakout/:roomId
+ * Every participant let into the main room connects to learn where to be;
+ * the room's host can also start and end sessions
+ */
+export const handleBreakoutConnection = async (
+  socket: WebSocket,
+  request: IncomingMessage,
+  mainRoom: string,
+  context
+) => {
+  const url = new URL(request.url, "http://localhost");
+  const clientId = url.searchParams.get("clientId") ?? "";
+  const displayName = (url.searchParams.get("name") ?? "").trim().slice(0, 100);
+
+  if (validateRoomName(mainRoom) || !clientId || !displayName) {
+    sendFrame(socket, { type: "error", error: "Invalid breakout connection" });
+    socket.close(1008, "Invalid breakout connection");
+    return;
+  }
+
+  const settings = await getRoomStore(context).get(mainRoom);
+  if (!(await canJoinRoom(context, request.headers.cookie, settings))) {
+    sendFrame(socket, {
+      type: "error",
+      error: "Please join the meeting first",
+    });
+    socket.close(1008, "Not in the meeting");
+    return;
+  }
+
+  const isHost = await isRoomHost(context, request.headers.cookie, settings);
+  // The visitor may have left while the room was loading
+  if (socket.readyState !== socket.OPEN) return;
+
+  const room = getMainRoom(mainRoom);
+  const client: BreakoutClient = {
+    clientId,
+    displayName,
+    participantId: null,
+    isHost,
+  };
+  room.clients.set(socket, client);
+
+  socket.on("message", (data) => {
+    let frame: BreakoutClientFrame;
+    try {
+      frame = JSON.parse(String(data));
+    } catch {
+      sendFrame(socket, { type: "error", error: "Malformed message" });
+      return;
+    }
+
+    switch (frame?.type) {
+      case "hello":
+        client.participantId =
+          typeof frame.participantId === "string" ? frame.participantId : null;
+        break;
+      case "start":
+      case "end": {
+        if (!client.isHost) {
+          sendFrame(socket, {
+            type: "error",
+            error: "Only the host can do that",
+          });
+          break;
+        }
+        const error =
+          frame.type === "start" ? startSession(mainRoom, frame) : null;
+        if (frame.type === "end") endSession(mainRoom);
+        if (error) sendFrame(socket, { type: "error", error });
+        break;
+      }
+    }
+  });
+
+  socket.on("close", () => {
+    room.clients.delete(socket);
+    // Keep assignments so reconnecting participants go back to their room
+    if (room.clients.size === 0 && !room.session) mainRooms.delete(mainRoom);
+  });
+
+  sendFrame(socket, { type: "session", session: room.session });
+  sendFrame(socket, {
+    type: "assignment",
+    roomName: getAssignedRoom(room, clientId),
+  });
+};
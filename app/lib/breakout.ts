@@ -0,0 +1,118 @@
+import { MAX_ROOM_NAME_LENGTH } from "~/lib/room-names";
+
+/**
+ * Types and helpers shared by the breakout WebSocket endpoint, the host's
+ * breakout panel and every participant's room switching
+ */
+
+export const MAX_BREAKOUT_ROOMS = 10;
+export const MAX_BREAKOUT_MINUTES = 120;
+
+export interface BreakoutRoom {
+  // Jitsi room name, derived from the main room's name
+  name: string;
+  label: string;
+  // Display names of the participants sent there
+  participants: string[];
+}
+
+/**
+ * A running breakout session, as every participant sees it
+ */
+export interface BreakoutSession {
+  mainRoom: string;
+  rooms: BreakoutRoom[];
+  // Everyone is brought back to the main room at this time
+  endsAt: string;
+}
+
+/**
+ * Frames the server sends over the breakout socket
+ * "assignment" tells one participant which room to be in (null: main room)
+ */
+export type BreakoutServerFrame =
+  | { type: "session"; session: BreakoutSession | null }
+  | { type: "assignment"; roomName: string | null }
+  | { type: "error"; error: string };
+
+/**
+ * Frames a client sends over the breakout socket
+ * - hello: our participant id in the main room's conference, so the host's
+ *   roster can be matched to sockets
+ * - start/end: host only; assignments map participant ids to room indexes
+ */
+export type BreakoutClientFrame =
+  | { type: "hello"; participantId: string | null }
+  | {
+      type: "start";
+      roomCount: number;
+      durationMinutes: number;
+      assignments: Record<string, number>;
+    }
+  | { type: "end" };
+
+/**
+ * Derives the Jitsi room name of a breakout room, e.g. "team-sync-b2"
+ * Long main room names are shortened so the result stays a valid room name
+ *
+ * @param mainRoom The canonical main room name
+ * @param index Zero-based breakout room index
+ */
+export const getBreakoutRoomName = (mainRoom: string, index: number) => {
+  const suffix = `-b${index + 1}`;
+  const base = mainRoom
+    .slice(0, MAX_ROOM_NAME_LENGTH - suffix.length)
+    .replace(/-+$/, "");
+  return `${base}${suffix}`;
+};
+
+const BREAKOUT_SUFFIX_PATTERN = /-b([1-9][0-9]?)$/;
+
+export const BREAKOUT_ROOM_NAME_ERROR =
+  "Room names ending in -b and a number are kept for breakout rooms";
+
+/**
+ * Whether a name looks like one made by getBreakoutRoomName
+ * Such names are kept for breakout rooms, so nobody can create a room that
+ * a breakout session would later be mistaken for
+ */
+export const isBreakoutRoomName = (name: string) => {
+  const match = BREAKOUT_SUFFIX_PATTERN.exec(name);
+  return !!match && Number(match[1]) <= MAX_BREAKOUT_ROOMS;
+};
+
+/**
+ * Deals participants into rooms in random order, as evenly as possible
+ *
+ * @returns Room indexes keyed by participant id
+ */
+export const assignRandomly = (
+  participantIds: string[],
+  roomCount: number
+): Record<string, number> => {
+  const shuffled = [...participantIds];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return Object.fromEntries(
+    shuffled.map((id, index) => [id, index % roomCount])
+  );
+};
+
+/**
+ * Builds the breakout socket URL for a main room on the current host
+ *
+ * @param mainRoom The main room
+ * @param clientId Random per-tab id, so reconnects keep their assignment
+ * @param displayName Shown to the host in the room lists
+ */
+export const getBreakoutSocketUrl = (
+  mainRoom: string,
+  clientId: string,
+  displayName: string
+) => {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const query = new URLSearchParams({ clientId, name: displayName });
+  return `${protocol}//${window.location.host}/ws/breakout/${mainRoom}?${query}`;
+};
@@ -0,0 +1,71 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createJsonChatStore } from "~/lib/chat.server";
+
+describe("createJsonChatStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "chat-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("appends each message to its room's log", async () => {
+    const store = createJsonChatStore(dir);
+    await store.append({
+      roomName: "team-sync",
+      senderId: "ann",
+      senderName: "Ann",
+      text: "Hi",
+    });
+    await store.append({
+      roomName: "team-sync",
+      senderId: "bob",
+      senderName: "Bob",
+      text: "Hey",
+    });
+    await store.append({
+      roomName: "standup",
+      senderId: "ann",
+      senderName: "Ann",
+      text: "Ready",
+    });
+
+    const messages = await store.list("team-sync");
+    expect(messages.map((message) => message.text)).toEqual(["Hi", "Hey"]);
+    const log = await readFile(path.join(dir, "team-sync.jsonl"), "utf8");
+    expect(log.trim().split("\n")).toHaveLength(2);
+  });
+
+  it("drops messages past the retention period", async () => {
+    const old = {
+      id: "old",
+      roomName: "team-sync",
+      senderId: "ann",
+      senderName: "Ann",
+      text: "Hello",
+      sentAt: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString(),
+    };
+    await writeFile(
+      path.join(dir, "team-sync.jsonl"),
+      `${JSON.stringify(old)}\n`
+    );
+
+    const store = createJsonChatStore(dir);
+    await store.append({
+      roomName: "team-sync",
+      senderId: "bob",
+      senderName: "Bob",
+      text: "Hi",
+    });
+
+    expect((await store.list("team-sync")).map(({ text }) => text)).toEqual([
+      "Hi",
+    ]);
+  });
+});
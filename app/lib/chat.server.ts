@@ -0,0 +1,218 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import type { IncomingMessage } from "node:http";
+import type { WebSocket } from "ws";
+import {
+  CHAT_HISTORY_LIMIT,
+  MAX_CHAT_MESSAGE_LENGTH,
+  type ChatClientFrame,
+  type ChatMessage,
+  type ChatServerFrame,
+} from "~/lib/chat";
+import {
+  createJsonLinesLog,
+  getDataDir,
+  type JsonLinesLog,
+} from "~/lib/json-store.server";
+import { canJoinRoom } from "~/lib/lobby.server";
+import { validateRoomName } from "~/lib/room-names";
+import { getRoomStore } from "~/lib/rooms.server";
+
+// Each connection may send this many messages per window
+const RATE_LIMIT_MESSAGES = 10;
+const RATE_LIMIT_WINDOW_MS = 10000;
+
+// Messages older than this are dropped from the logs
+const RETENTION_MS = 180 * 24 * 60 * 60 * 1000;
+// How often one room's log is checked for expired messages
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Persistence for chat messages, one file per room
+ */
+export interface ChatStore {
+  list(roomName: string): Promise<ChatMessage[]>;
+  append(input: Omit<ChatMessage, "id" | "sentAt">): Promise<ChatMessage>;
+}
+
+/**
+ * Creates a chat store that appends each room's messages to its own JSON
+ * Lines file, so sending a message never rewrites the whole history
+ * Room names are validated canonical names, so they are safe as file names
+ *
+ * @param directory Directory holding one <room>.jsonl file per room
+ */
+export const createJsonChatStore = (directory: string): ChatStore => {
+  const logs = new Map<string, JsonLinesLog<ChatMessage>>();
+  const getLog = (roomName: string) => {
+    if (!logs.has(roomName)) {
+      logs.set(
+        roomName,
+        createJsonLinesLog(path.join(directory, `${roomName}.jsonl`))
+      );
+    }
+    return logs.get(roomName);
+  };
+
+  const lastPruned = new Map<string, number>();
+  const pruneIfDue = async (roomName: string) => {
+    const now = Date.now();
+    if (now - (lastPruned.get(roomName) ?? 0) < PRUNE_INTERVAL_MS) return;
+    lastPruned.set(roomName, now);
+    await getLog(roomName).retain(
+      (message) => now - Date.parse(message.sentAt) < RETENTION_MS
+    );
+  };
+
+  return {
+    list: (roomName) => getLog(roomName).read(),
+
+    append: async (input) => {
+      const message: ChatMessage = {
+        ...input,
+        id: randomUUID(),
+        sentAt: new Date().toISOString(),
+      };
+      await pruneIfDue(input.roomName);
+      await getLog(input.roomName).append(message);
+      return message;
+    },
+  };
+};
+
+const stores = new Map<string, ChatStore>();
+
+/**
+ * Returns the chat store for the data directory configured in the context
+ */
+export const getChatStore = (context): ChatStore => {
+  const directory = path.join(getDataDir(context), "chat");
+  if (!stores.has(directory)) {
+    stores.set(directory, createJsonChatStore(directory));
+  }
+  return stores.get(directory);
+};
+
+/**
+ * Formats a chat history as a plain text transcript
+ */
+export const formatChatTranscript = (title: string, messages: ChatMessage[]) =>
+  [
+    `Chat transcript: ${title}`,
+    "",
+    ...messages.map(
+      (message) =>
+        `[${message.sentAt.replace("T", " ").slice(0, 19)} UTC] ${
+          message.senderName
+        }: ${message.text}`
+    ),
+  ].join("\n") + "\n";
+
+// Open sockets per room, so new messages can be relayed to everyone
+const roomSockets = new Map<string, Set<WebSocket>>();
+
+const sendFrame = (socket: WebSocket, frame: ChatServerFrame) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(frame));
+  }
+};
+
+/**
+ * Serves one chat connection on /ws/chat/:roomId
+ * Sends the room's recent history, then stores and relays every message
+ * Only the host and guests who may join the meeting (see canJoinRoom) get in
+ */
+export const handleChatConnection = async (
+  socket: WebSocket,
+  request: IncomingMessage,
+  roomName: string,
+  context
+) => {
+  const url = new URL(request.url, "http://localhost");
+  const senderId = url.searchParams.get("senderId") ?? "";
+  const senderName = (url.searchParams.get("name") ?? "").trim().slice(0, 100);
+
+  if (validateRoomName(roomName) || !senderId || !senderName) {
+    sendFrame(socket, { type: "error", error: "Invalid chat connection" });
+    socket.close(1008, "Invalid chat connection");
+    return;
+  }
+
+  const room = await getRoomStore(context).get(roomName);
+  if (!(await canJoinRoom(context, request.headers.cookie, room))) {
+    sendFrame(socket, {
+      type: "error",
+      error: "Please join the meeting first",
+    });
+    socket.close(1008, "Not in the meeting");
+    return;
+  }
+  // The visitor may have left while the room was loading
+  if (socket.readyState !== socket.OPEN) return;
+
+  const store = getChatStore(context);
+  if (!roomSockets.has(roomName)) roomSockets.set(roomName, new Set());
+  const sockets = roomSockets.get(roomName);
+  sockets.add(socket);
+
+  let recentMessages: number[] = [];
+
+  socket.on("message", async (data) => {
+    let frame: ChatClientFrame;
+    try {
+      frame = JSON.parse(String(data));
+    } catch {
+      sendFrame(socket, { type: "error", error: "Malformed message" });
+      return;
+    }
+
+    const text = typeof frame?.text === "string" ? frame.text.trim() : "";
+    if (frame?.type !== "message" || text === "") return;
+    if (text.length > MAX_CHAT_MESSAGE_LENGTH) {
+      sendFrame(socket, { type: "error", error: "Message is too long" });
+      return;
+    }
+
+    const now = Date.now();
+    recentMessages = recentMessages.filter(
+      (time) => now - time < RATE_LIMIT_WINDOW_MS
+    );
+    if (recentMessages.length >= RATE_LIMIT_MESSAGES) {
+      sendFrame(socket, {
+        type: "error",
+        error: "You're sending messages too quickly",
+      });
+      return;
+    }
+    recentMessages.push(now);
+
+    try {
+      const message = await store.append({
+        roomName,
+        senderId,
+        senderName,
+        text,
+      });
+      sockets.forEach((peer) => sendFrame(peer, { type: "message", message }));
+    } catch (error) {
+      console.error("Failed to store chat message:", error);
+      sendFrame(socket, { type: "error", error: "Message could not be sent" });
+    }
+  });
+
+  socket.on("close", () => {
+    sockets.delete(socket);
+    if (sockets.size === 0) roomSockets.delete(roomName);
+  });
+
+  try {
+    const messages = await store.list(roomName);
+    sendFrame(socket, {
+      type: "history",
+      messages: messages.slice(-CHAT_HISTORY_LIMIT),
+    });
+  } catch (error) {
+    console.error("Failed to load chat history:", error);
+    sendFrame(socket, { type: "error", error: "Chat history is unavailable" });
+  }
+};
@@ -0,0 +1,44 @@
+/**
+ * Types shared by the chat WebSocket endpoint and the chat panel
+ */
+
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+// Messages sent to a client when it (re)connects
+export const CHAT_HISTORY_LIMIT = 200;
+
+export interface ChatMessage {
+  id: string;
+  roomName: string;
+  // Random per-tab id, used to tell a user's own messages apart
+  senderId: string;
+  senderName: string;
+  text: string;
+  sentAt: string;
+}
+
+/**
+ * Frames the server sends over the chat socket
+ */
+export type ChatServerFrame =
+  | { type: "history"; messages: ChatMessage[] }
+  | { type: "message"; message: ChatMessage }
+  | { type: "error"; error: string };
+
+/**
+ * Frames a client sends over the chat socket
+ */
+export type ChatClientFrame = { type: "message"; text: string };
+
+/**
+ * Builds the chat socket URL for a room on the current host
+ */
+export const getChatSocketUrl = (
+  roomName: string,
+  senderId: string,
+  senderName: string
+) => {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const query = new URLSearchParams({ senderId, name: senderName });
+  return `${protocol}//${window.location.host}/ws/chat/${roomName}?${query}`;
+};
@@ -0,0 +1,92 @@
+import { normalizeDomain } from "~/lib/jitsi-domains";
+import { isMeetingPreset, type MeetingPreset } from "~/lib/meeting-presets";
+
+/**
+ * App configuration shared by every route loader
+ * Everything in here is safe to send to the browser; secrets such as the
+ * JWT app secret are read separately where they are needed
+ */
+export interface AppConfig {
+  appName: string;
+  // The default Jitsi server
+  jitsiDomain: string;
+  // Servers users may switch to; always includes jitsiDomain
+  allowedDomains: string[];
+  // Null leaves the choice to the meeting preset
+  defaults: {
+    startWithAudioMuted: boolean | null;
+    startWithVideoMuted: boolean | null;
+  };
+  // Preset used when neither the meeting nor the user picks one
+  preset: MeetingPreset;
+  // Phone dial-in instructions added to invites, if the deployment has any
+  dialIn: string | null;
+  features: {
+    // "Use Custom Jitsi Server" on the home page and ?server= on room links
+    customServer: boolean;
+    // The /meetings pages
+    scheduling: boolean;
+    // Recording and live-streaming controls; needs Jibri on the Jitsi server
+    recording: boolean;
+    // Transcript collection and the /rooms/:roomId/transcripts archive
+    transcripts: boolean;
+  };
+}
+
+/**
+ * Returns the environment variables passed through `getLoadContext` in
+ * server.js, falling back to process.env under `remix vite:dev`
+ */
+export const getServerEnv = (context): Record<string, string | undefined> =>
+  context?.env ?? process.env;
+
+const parseBoolean = <T extends boolean | null>(
+  value: string | undefined,
+  fallback: T
+) => {
+  if (value === undefined || value.trim() === "") return fallback;
+  return ["1", "true", "yes", "on"].includes(value.trim().toLowerCase());
+};
+
+/**
+ * Builds the typed app configuration from the environment
+ */
+export const getAppConfig = (context): AppConfig => {
+  const env = getServerEnv(context);
+  const jitsiDomain = normalizeDomain(env.JITSI_DOMAIN || "meet.jit.si");
+  const allowedDomains = String(env.JITSI_ALLOWED_DOMAINS ?? "")
+    .split(",")
+    .map(normalizeDomain)
+    .filter(Boolean);
+  const preset = env.JITSI_MEETING_PRESET;
+
+  return {
+    appName: env.APP_NAME || "Jitsi Wrapper",
+    jitsiDomain,
+    allowedDomains: Array.from(new Set([jitsiDomain, ...allowedDomains])),
+    defaults: {
+      startWithAudioMuted: parseBoolean(env.START_WITH_AUDIO_MUTED, null),
+      startWithVideoMuted: parseBoolean(env.START_WITH_VIDEO_MUTED, null),
+    },
+    preset: isMeetingPreset(preset) ? preset : "default",
+    dialIn: env.JITSI_DIAL_IN?.trim() || null,
+    features: {
+      customServer: parseBoolean(env.FEATURE_CUSTOM_SERVER, true),
+      scheduling: parseBoolean(env.FEATURE_SCHEDULING, true),
+      recording: parseBoolean(env.FEATURE_RECORDING, false),
+      transcripts: parseBoolean(env.FEATURE_TRANSCRIPTS, false),
+    },
+  };
+};
+
+/**
+ * Throws a 404 response from a loader or action when a feature is turned off
+ */
+export const requireFeature = (
+  context,
+  feature: keyof AppConfig["features"]
+) => {
+  if (!getAppConfig(context).features[feature]) {
+    throw new Response("Not found", { status: 404 });
+  }
+};
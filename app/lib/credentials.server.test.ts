@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createAttemptLimiter,
+  hashSecret,
+  verifySecret,
+} from "~/lib/credentials.server";
+
+describe("hashSecret", () => {
+  it("makes hashes only the same secret verifies against", async () => {
+    const stored = await hashSecret("open sesame", 32);
+
+    expect(stored).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+    expect(await verifySecret("open sesame", stored)).toBe(true);
+    expect(await verifySecret("open sesame!", stored)).toBe(false);
+    expect(await verifySecret("open sesame", "plain")).toBe(false);
+  });
+});
+
+describe("createAttemptLimiter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows so many attempts per key and window", () => {
+    vi.useFakeTimers();
+    const limiter = createAttemptLimiter(2, 60000);
+
+    expect(limiter.reserve("a")).toEqual({ ok: true });
+    expect(limiter.reserve("a")).toEqual({ ok: true });
+    expect(limiter.reserve("a")).toEqual({ ok: false, retryAfterSeconds: 60 });
+    expect(limiter.reserve("b")).toEqual({ ok: true });
+
+    vi.advanceTimersByTime(60000);
+    expect(limiter.reserve("a")).toEqual({ ok: true });
+  });
+
+  it("forgets a key's attempts after a success", () => {
+    const limiter = createAttemptLimiter(1, 60000);
+    limiter.reserve("a");
+    limiter.reset("a");
+
+    expect(limiter.reserve("a")).toEqual({ ok: true });
+  });
+});
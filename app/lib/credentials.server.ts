@@ -0,0 +1,99 @@
+import {
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+  type BinaryLike,
+} from "node:crypto";
+import { promisify } from "node:util";
+
+/**
+ * Hashing and attempt limiting shared by account passwords (users.server.ts)
+ * and room passcodes (room-passcodes.server.ts)
+ */
+
+const scryptAsync = promisify(scrypt) as (
+  password: BinaryLike,
+  salt: BinaryLike,
+  keyLength: number
+) => Promise<Buffer>;
+
+/**
+ * Hashes a secret for storage as "scrypt$<salt>$<hash>"
+ *
+ * @param secret The password or passcode
+ * @param keyLength Length of the hash in bytes
+ */
+export const hashSecret = async (secret: string, keyLength: number) => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(secret, salt, keyLength);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+};
+
+/**
+ * Checks a secret against a hash made by `hashSecret`
+ */
+export const verifySecret = async (secret: string, stored: string) => {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(
+    secret,
+    Buffer.from(salt, "hex"),
+    expected.length
+  );
+  return timingSafeEqual(expected, actual);
+};
+
+export type AttemptReservation =
+  | { ok: true }
+  | { ok: false; retryAfterSeconds: number };
+
+/**
+ * Limits how often something, e.g. a sign-in per email and visitor, may be
+ * tried within a window
+ */
+export interface AttemptLimiter {
+  /**
+   * Counts an attempt right away, before the slow hash check, so attempts
+   * sent in parallel can't all get past the limit
+   */
+  reserve(key: string): AttemptReservation;
+  // Forgets the key's attempts once one of them succeeded
+  reset(key: string): void;
+}
+
+/**
+ * Creates an attempt limiter keeping its counts in memory
+ *
+ * @param maxAttempts Attempts allowed per key within the window
+ * @param windowMs How long each attempt counts
+ */
+export const createAttemptLimiter = (
+  maxAttempts: number,
+  windowMs: number
+): AttemptLimiter => {
+  const attempts = new Map<string, number[]>();
+
+  return {
+    reserve: (key) => {
+      const now = Date.now();
+      const recent = (attempts.get(key) ?? []).filter(
+        (time) => now - time < windowMs
+      );
+      if (recent.length >= maxAttempts) {
+        attempts.set(key, recent);
+        return {
+          ok: false,
+          retryAfterSeconds: Math.ceil((recent[0] + windowMs - now) / 1000),
+        };
+      }
+      attempts.set(key, [...recent, now]);
+      return { ok: true };
+    },
+
+    reset: (key) => {
+      attempts.delete(key);
+    },
+  };
+};
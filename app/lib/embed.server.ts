@@ -0,0 +1,50 @@
+import { getServerEnv } from "~/lib/config.server";
+
+/**
+ * Origins allowed to embed /embed/:roomId, from EMBED_ALLOWED_ORIGINS
+ * (comma separated, or "*" for any). The app's own origin is always allowed.
+ * Returns null when any origin may embed the meeting.
+ */
+export const getEmbedAllowedOrigins = (context): string[] | null => {
+  const value = String(getServerEnv(context).EMBED_ALLOWED_ORIGINS ?? "");
+  if (value.trim() === "*") return null;
+
+  return value
+    .split(",")
+    .map((origin) => {
+      try {
+        return new URL(origin.trim()).origin;
+      } catch {
+        return null;
+      }
+    })
+    .filter(Boolean);
+};
+
+/**
+ * Whether a page on the given origin may embed the meeting and drive it
+ * through the postMessage protocol
+ */
+export const isEmbedOriginAllowed = (
+  context,
+  request: Request,
+  origin: string
+) => {
+  const allowed = getEmbedAllowedOrigins(context);
+  return (
+    allowed === null ||
+    origin === new URL(request.url).origin ||
+    allowed.includes(origin)
+  );
+};
+
+/**
+ * The Content-Security-Policy that tells browsers which pages may frame
+ * the meeting, so a disallowed page can't embed it at all
+ */
+export const getEmbedFrameAncestors = (context) => {
+  const allowed = getEmbedAllowedOrigins(context);
+  return `frame-ancestors ${
+    allowed === null ? "*" : ["'self'", ...allowed].join(" ")
+  }`;
+};
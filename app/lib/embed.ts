@@ -0,0 +1,87 @@
+/**
+ * The postMessage protocol between the /embed/:roomId page and the SDK
+ * running on the page that embeds it
+ *
+ * Every message carries the protocol name and version so both sides can
+ * ignore unrelated messages and refuse ones from an incompatible version.
+ * Bump the version for any change that isn't backwards compatible.
+ */
+
+export const EMBED_PROTOCOL = "jitsi-wrapper-embed";
+export const EMBED_PROTOCOL_VERSION = 1;
+
+export type EmbedTheme = "light" | "dark";
+
+/**
+ * Commands the embedding page sends to the meeting
+ */
+export type EmbedCommand =
+  | { command: "join"; displayName?: string }
+  | { command: "leave" }
+  | { command: "mute"; media: "audio" | "video"; muted: boolean };
+
+/**
+ * Maps every event the meeting sends to its payload
+ */
+export interface EmbedEventMap {
+  // The page is loaded and accepts commands
+  ready: { roomName: string };
+  joined: { roomName: string; participantId: string; displayName: string };
+  left: { roomName: string };
+  participantJoined: { participantId: string; displayName: string };
+  participantLeft: { participantId: string };
+  muteChanged: { media: "audio" | "video"; muted: boolean };
+  error: { message: string };
+}
+
+export type EmbedEventName = keyof EmbedEventMap;
+
+export type EmbedMessage =
+  | ({
+      protocol: typeof EMBED_PROTOCOL;
+      version: number;
+      kind: "command";
+    } & EmbedCommand)
+  | {
+      [K in EmbedEventName]: {
+        protocol: typeof EMBED_PROTOCOL;
+        version: number;
+        kind: "event";
+        event: K;
+        payload: EmbedEventMap[K];
+      };
+    }[EmbedEventName];
+
+/**
+ * Whether a postMessage payload belongs to this protocol and version
+ */
+export const isEmbedMessage = (data: unknown): data is EmbedMessage =>
+  typeof data === "object" &&
+  data !== null &&
+  (data as EmbedMessage).protocol === EMBED_PROTOCOL &&
+  (data as EmbedMessage).version === EMBED_PROTOCOL_VERSION;
+
+/**
+ * Wraps a command in the protocol envelope
+ */
+export const createEmbedCommand = (command: EmbedCommand): EmbedMessage => ({
+  protocol: EMBED_PROTOCOL,
+  version: EMBED_PROTOCOL_VERSION,
+  kind: "command",
+  ...command,
+});
+
+/**
+ * Wraps an event in the protocol envelope
+ */
+export const createEmbedEvent = <K extends EmbedEventName>(
+  event: K,
+  payload: EmbedEventMap[K]
+) =>
+  ({
+    protocol: EMBED_PROTOCOL,
+    version: EMBED_PROTOCOL_VERSION,
+    kind: "event",
+    event,
+    payload,
+  } as EmbedMessage);
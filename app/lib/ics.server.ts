@@ -0,0 +1,80 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for meeting invites
+ */
+
+export interface IcsEvent {
+  uid: string;
+  title: string;
+  description: string;
+  url: string;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Formats a date as a UTC iCalendar timestamp, e.g. 20250101T093000Z
+ */
+const formatIcsDate = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+/**
+ * Escapes a TEXT value (backslashes, separators and newlines)
+ */
+const escapeIcsText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Folds a content line so no line is longer than 75 octets
+ * Continuation lines start with a single space
+ */
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+/**
+ * Builds a calendar file with a single event
+ *
+ * @param productName Identifies the app in the PRODID property
+ * @param event The event to write
+ */
+export const buildIcsCalendar = (productName: string, event: IcsEvent) =>
+  [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${escapeIcsText(productName)}//Meeting Invite//EN`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(new Date())}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.title)}`,
+    `DESCRIPTION:${escapeIcsText(event.description)}`,
+    `LOCATION:${escapeIcsText(event.url)}`,
+    `URL:${event.url}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ]
+    .map(foldLine)
+    .join("\r\n") + "\r\n";
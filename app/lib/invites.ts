@@ -0,0 +1,73 @@
+import type { Meeting } from "~/lib/meetings";
+
+/**
+ * Meeting invites shared by the invite menu (link, email) and the .ics route
+ */
+
+// Ad-hoc rooms are invited to as an event starting now and lasting this long
+export const AD_HOC_DURATION_MS = 60 * 60 * 1000;
+
+export interface InviteDetails {
+  title: string;
+  description: string;
+  joinUrl: string;
+  start: Date;
+  end: Date;
+  // Phone dial-in instructions, when the deployment has them
+  dialIn: string | null;
+}
+
+/**
+ * Builds the absolute /room link for a room
+ *
+ * @param origin The app's origin, e.g. "https://meet.example.com"
+ * @param roomName The canonical room name
+ */
+export const getRoomUrl = (origin: string, roomName: string) =>
+  `${origin}/room/${roomName}`;
+
+/**
+ * Works out when an invite's event takes place
+ * Uses the meeting's schedule when it has one, otherwise "now + 1h";
+ * meetings with only a start last an hour
+ */
+export const getInviteSchedule = (
+  meeting: Pick<Meeting, "scheduledStart" | "scheduledEnd"> | null,
+  now: Date = new Date()
+) => {
+  const start = meeting?.scheduledStart
+    ? new Date(meeting.scheduledStart)
+    : now;
+  const end = meeting?.scheduledEnd
+    ? new Date(meeting.scheduledEnd)
+    : new Date(start.getTime() + AD_HOC_DURATION_MS);
+  return { start, end };
+};
+
+/**
+ * Formats the invite as plain text, used for the email body and the
+ * calendar event description
+ */
+export const formatInviteText = (details: InviteDetails) =>
+  [
+    `You're invited to "${details.title}".`,
+    "",
+    `When: ${details.start.toUTCString()} - ${details.end.toUTCString()}`,
+    "",
+    "Join from your browser:",
+    details.joinUrl,
+    ...(details.dialIn ? ["", "Join by phone:", details.dialIn] : []),
+    ...(details.description ? ["", details.description] : []),
+  ].join("\n");
+
+/**
+ * Builds a mailto: link with the invite as a prefilled email
+ */
+export const getInviteMailtoUrl = (details: InviteDetails) => {
+  const query = new URLSearchParams({
+    subject: `Invitation: ${details.title}`,
+    body: formatInviteText(details),
+  });
+  // Mail clients expect %20 rather than + for spaces
+  return `mailto:?${query.toString().replace(/\+/g, "%20")}`;
+};
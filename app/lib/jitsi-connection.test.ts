@@ -0,0 +1,306 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createJitsiConnection,
+  getBackoffDelay,
+  type ConnectionStatus,
+  type EnvironmentChange,
+  type JitsiConnectionOptions,
+} from "~/lib/jitsi-connection";
+import type { IJitsiMeetAPI, JitsiEventHandlers } from "~/types/jitsi";
+
+/**
+ * Stand-in for JitsiMeetExternalAPI that lets tests fire its events
+ */
+const createFakeApi = () => {
+  let handlers: JitsiEventHandlers = {};
+  const api = {
+    dispose: vi.fn(),
+    addEventListeners: (listeners: JitsiEventHandlers) => {
+      handlers = { ...handlers, ...listeners };
+    },
+    addListener: vi.fn(),
+    removeListener: vi.fn(),
+    executeCommand: vi.fn(),
+  };
+  return {
+    api: api as unknown as IJitsiMeetAPI,
+    dispose: api.dispose,
+    emit: <K extends keyof JitsiEventHandlers>(
+      event: K,
+      ...payload: Parameters<JitsiEventHandlers[K]>
+    ) => (handlers[event] as (...args: unknown[]) => void)?.(...payload),
+  };
+};
+
+/**
+ * Timers that only fire when the test says so
+ */
+const createFakeTimers = () => {
+  const pending = new Map<number, { callback: () => void; ms: number }>();
+  let nextId = 1;
+  return {
+    timers: {
+      setTimeout: (callback: () => void, ms: number) => {
+        pending.set(nextId, { callback, ms });
+        return nextId++;
+      },
+      clearTimeout: (handle: unknown) => pending.delete(handle as number),
+    },
+    delays: () => [...pending.values()].map(({ ms }) => ms),
+    runAll: () => {
+      const due = [...pending.values()];
+      pending.clear();
+      due.forEach(({ callback }) => callback());
+    },
+  };
+};
+
+const createFakeEnvironment = (online = true) => {
+  let listener: ((change: EnvironmentChange) => void) | null = null;
+  return {
+    environment: {
+      isOnline: () => online,
+      subscribe: (next: (change: EnvironmentChange) => void) => {
+        listener = next;
+        return () => {
+          listener = null;
+        };
+      },
+    },
+    change: (change: EnvironmentChange) => listener?.(change),
+    isSubscribed: () => listener !== null,
+  };
+};
+
+// Lets the awaited loadScript() settle
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const setup = (overrides: Partial<JitsiConnectionOptions> = {}) => {
+  const apis: ReturnType<typeof createFakeApi>[] = [];
+  const statuses: ConnectionStatus[] = [];
+  const fakeTimers = createFakeTimers();
+  const fakeEnvironment = createFakeEnvironment();
+  const connection = createJitsiConnection({
+    loadScript: () => Promise.resolve(),
+    createApi: () => {
+      const fake = createFakeApi();
+      apis.push(fake);
+      return fake.api;
+    },
+    onStatusChange: (state) => {
+      if (statuses[statuses.length - 1] !== state.status) {
+        statuses.push(state.status);
+      }
+    },
+    backoff: { baseDelayMs: 1000, maxDelayMs: 8000, maxAttempts: 3, jitter: 0 },
+    environment: fakeEnvironment.environment,
+    timers: fakeTimers.timers,
+    ...overrides,
+  });
+  return { connection, apis, statuses, fakeTimers, fakeEnvironment };
+};
+
+describe("getBackoffDelay", () => {
+  const options = {
+    baseDelayMs: 1000,
+    maxDelayMs: 5000,
+    maxAttempts: 5,
+    jitter: 0,
+  };
+
+  it("doubles the delay on every attempt up to the maximum", () => {
+    expect(
+      [1, 2, 3, 4].map((attempt) => getBackoffDelay(attempt, options))
+    ).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it("randomizes the jittered part of the delay", () => {
+    const jittered = { ...options, jitter: 0.5 };
+    expect(getBackoffDelay(1, jittered, () => 0)).toBe(500);
+    expect(getBackoffDelay(1, jittered, () => 0.999)).toBe(1000);
+  });
+});
+
+describe("createJitsiConnection", () => {
+  it("loads the script, creates the API and connects once joined", async () => {
+    const { connection, apis, statuses } = setup();
+
+    connection.start();
+    await flush();
+    expect(statuses).toEqual(["loadingScript", "joining"]);
+    expect(connection.getApi()).toBe(apis[0].api);
+
+    apis[0].emit("videoConferenceJoined", {
+      roomName: "team-sync",
+      id: "abc",
+      displayName: "Ann",
+    });
+    expect(connection.getState()).toMatchObject({
+      status: "connected",
+      attempt: 0,
+      error: null,
+    });
+  });
+
+  it("runs the setup hook and its cleanup for each API instance", async () => {
+    const cleanup = vi.fn();
+    const setupApi = vi.fn(() => cleanup);
+    const { connection, apis } = setup({ setupApi });
+
+    connection.start();
+    await flush();
+    expect(setupApi).toHaveBeenCalledWith(apis[0].api);
+
+    connection.stop();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it("reconnects with a fresh API instance after the connection fails", async () => {
+    const { connection, apis, statuses, fakeTimers } = setup();
+    connection.start();
+    await flush();
+    apis[0].emit("videoConferenceJoined", {
+      roomName: "team-sync",
+      id: "abc",
+      displayName: "Ann",
+    });
+
+    apis[0].emit("connectionFailed", undefined);
+    expect(connection.getState()).toMatchObject({
+      status: "reconnecting",
+      attempt: 1,
+      retryInMs: 1000,
+    });
+    expect(fakeTimers.delays()).toEqual([1000]);
+
+    fakeTimers.runAll();
+    await flush();
+    expect(apis).toHaveLength(2);
+    expect(apis[0].dispose).toHaveBeenCalledTimes(1);
+
+    apis[1].emit("videoConferenceJoined", {
+      roomName: "team-sync",
+      id: "abc",
+      displayName: "Ann",
+    });
+    expect(connection.getState()).toMatchObject({
+      status: "connected",
+      attempt: 0,
+    });
+    expect(statuses).toEqual([
+      "loadingScript",
+      "joining",
+      "connected",
+      "reconnecting",
+      "loadingScript",
+      "joining",
+      "connected",
+    ]);
+  });
+
+  it("ignores events from instances it already replaced", async () => {
+    const { connection, apis, fakeTimers } = setup();
+    connection.start();
+    await flush();
+    apis[0].emit("connectionFailed", undefined);
+    fakeTimers.runAll();
+    await flush();
+
+    apis[0].emit("videoConferenceJoined", {
+      roomName: "team-sync",
+      id: "abc",
+      displayName: "Ann",
+    });
+    expect(connection.getState().status).toBe("joining");
+  });
+
+  it("backs off between attempts and gives up after the last one", async () => {
+    const loadScript = vi.fn(() => Promise.reject(new Error("offline")));
+    const { connection, fakeTimers } = setup({ loadScript });
+
+    connection.start();
+    const delays: number[] = [];
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      await flush();
+      delays.push(...fakeTimers.delays());
+      fakeTimers.runAll();
+    }
+    await flush();
+
+    expect(delays).toEqual([1000, 2000, 4000]);
+    expect(loadScript).toHaveBeenCalledTimes(4);
+    expect(connection.getState()).toMatchObject({
+      status: "failed",
+      retryInMs: null,
+    });
+    expect(connection.getState().error).toContain("offline");
+  });
+
+  it("waits for the network instead of retrying while offline", async () => {
+    const { connection, apis, fakeTimers, fakeEnvironment } = setup();
+    connection.start();
+    await flush();
+
+    fakeEnvironment.change("offline");
+    apis[0].emit("connectionFailed", undefined);
+    expect(connection.getState()).toMatchObject({
+      status: "reconnecting",
+      retryInMs: null,
+      online: false,
+    });
+    expect(fakeTimers.delays()).toEqual([]);
+
+    fakeEnvironment.change("online");
+    await flush();
+    expect(apis).toHaveLength(2);
+    expect(connection.getState()).toMatchObject({
+      status: "joining",
+      attempt: 0,
+    });
+  });
+
+  it("moves to left when the user hangs up", async () => {
+    const { connection, apis } = setup();
+    connection.start();
+    await flush();
+
+    apis[0].emit("videoConferenceLeft", { roomName: "team-sync" });
+    expect(connection.getState().status).toBe("left");
+
+    // Nothing restarts a meeting the user left
+    connection.retryNow();
+    expect(connection.getState().status).toBe("left");
+  });
+
+  it("tears everything down on stop, including a scheduled retry", async () => {
+    const { connection, apis, fakeTimers, fakeEnvironment } = setup();
+    connection.start();
+    await flush();
+    apis[0].emit("connectionFailed", undefined);
+    expect(fakeTimers.delays()).toHaveLength(1);
+
+    connection.stop();
+    expect(fakeTimers.delays()).toEqual([]);
+    expect(fakeEnvironment.isSubscribed()).toBe(false);
+    expect(connection.getApi()).toBeNull();
+    expect(apis).toHaveLength(1);
+    expect(apis[0].dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it("drops a script load that finishes after stop", async () => {
+    let finishLoading: () => void = () => {};
+    const loadScript = () =>
+      new Promise<void>((resolve) => {
+        finishLoading = resolve;
+      });
+    const { connection, apis } = setup({ loadScript });
+
+    connection.start();
+    connection.stop();
+    finishLoading();
+    await flush();
+
+    expect(apis).toHaveLength(0);
+    expect(connection.getState().status).toBe("loadingScript");
+  });
+});
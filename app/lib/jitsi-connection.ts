@@ -0,0 +1,382 @@
+import { validateDomainFormat } from "~/lib/jitsi-domains";
+import type { IJitsiMeetAPI } from "~/types/jitsi";
+
+/**
+ * States a meeting connection moves through
+ *
+ *   idle → loadingScript → joining → connected
+ *                 ↓           ↓          ↓
+ *                 └──── reconnecting ←───┘ → failed
+ *
+ * Any state can move to "left" when the user hangs up.
+ */
+export type ConnectionStatus =
+  | "idle"
+  | "loadingScript"
+  | "joining"
+  | "connected"
+  | "reconnecting"
+  | "failed"
+  | "left";
+
+const TRANSITIONS: Record<ConnectionStatus, ConnectionStatus[]> = {
+  idle: ["loadingScript", "left"],
+  loadingScript: ["joining", "reconnecting", "failed", "left"],
+  joining: ["connected", "reconnecting", "failed", "left"],
+  connected: ["reconnecting", "failed", "left"],
+  reconnecting: ["loadingScript", "failed", "left"],
+  failed: ["loadingScript", "left"],
+  left: [],
+};
+
+/**
+ * Whether the state machine allows moving from one status to another
+ */
+export const canTransition = (from: ConnectionStatus, to: ConnectionStatus) =>
+  TRANSITIONS[from].includes(to);
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+  // Reconnect attempts made since the last successful join
+  attempt: number;
+  // Delay before the scheduled retry, null when none is scheduled
+  retryInMs: number | null;
+  online: boolean;
+  error: string | null;
+}
+
+/**
+ * State before the connection is started
+ */
+export const initialConnectionState: ConnectionState = {
+  status: "idle",
+  attempt: 0,
+  retryInMs: null,
+  online: true,
+  error: null,
+};
+
+export interface BackoffOptions {
+  // Delay before the first retry
+  baseDelayMs: number;
+  // Upper bound for any single delay
+  maxDelayMs: number;
+  // Retries before giving up and moving to "failed"
+  maxAttempts: number;
+  // Fraction of each delay that is randomized (0 = none, 1 = full jitter)
+  jitter: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxAttempts: 5,
+  jitter: 0.5,
+};
+
+/**
+ * Computes the delay before a retry using exponential backoff with jitter
+ *
+ * @param attempt The retry number, starting at 1
+ * @param options Backoff settings
+ * @param random Source of randomness in [0, 1)
+ */
+export const getBackoffDelay = (
+  attempt: number,
+  options: BackoffOptions,
+  random: () => number = Math.random
+) => {
+  const exponential = options.baseDelayMs * 2 ** Math.max(0, attempt - 1);
+  const delay = Math.min(options.maxDelayMs, exponential);
+  const jitter = Math.min(1, Math.max(0, options.jitter));
+  return Math.round(delay * (1 - jitter) + delay * jitter * random());
+};
+
+export type EnvironmentChange = "online" | "offline" | "visible" | "hidden";
+
+/**
+ * The parts of the browser the connection reacts to
+ */
+export interface ConnectionEnvironment {
+  isOnline(): boolean;
+  subscribe(listener: (change: EnvironmentChange) => void): () => void;
+}
+
+/**
+ * Environment backed by window online/offline and document visibility events
+ */
+export const browserEnvironment = (): ConnectionEnvironment => ({
+  isOnline: () => navigator.onLine,
+  subscribe: (listener) => {
+    const handleOnline = () => listener("online");
+    const handleOffline = () => listener("offline");
+    const handleVisibility = () =>
+      listener(document.visibilityState === "visible" ? "visible" : "hidden");
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    document.addEventListener("visibilitychange", handleVisibility);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      document.removeEventListener("visibilitychange", handleVisibility);
+    };
+  },
+});
+
+export interface ConnectionTimers {
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export interface JitsiConnectionOptions {
+  // Makes `JitsiMeetExternalAPI` available
+  loadScript: () => Promise<void>;
+  // Creates the External API instance (and its iframe)
+  createApi: () => IJitsiMeetAPI;
+  // Hooks extra behaviour onto a new instance; the returned cleanup runs before it is disposed
+  setupApi?: (api: IJitsiMeetAPI) => (() => void) | void;
+  onStatusChange?: (state: ConnectionState) => void;
+  backoff?: Partial<BackoffOptions>;
+  environment?: ConnectionEnvironment;
+  timers?: ConnectionTimers;
+  random?: () => number;
+}
+
+export type JitsiConnection = ReturnType<typeof createJitsiConnection>;
+
+/**
+ * Creates the connection state machine for one meeting
+ * Owns the External API instance and recreates it when the connection drops,
+ * backing off between attempts. Has no React or DOM dependencies of its own
+ * so it can be driven by a fake External API, environment and timers.
+ */
+export const createJitsiConnection = ({
+  loadScript,
+  createApi,
+  setupApi,
+  onStatusChange,
+  backoff,
+  environment = browserEnvironment(),
+  timers = {
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: (handle) => clearTimeout(handle as number),
+  },
+  random = Math.random,
+}: JitsiConnectionOptions) => {
+  const options: BackoffOptions = { ...DEFAULT_BACKOFF, ...backoff };
+
+  let state: ConnectionState = {
+    ...initialConnectionState,
+    online: environment.isOnline(),
+  };
+  let api: IJitsiMeetAPI | null = null;
+  let teardownApi: (() => void) | null = null;
+  let retryTimer: unknown = null;
+  let unsubscribeEnvironment: (() => void) | null = null;
+  // Bumped on every connect/stop so late callbacks from old attempts are ignored
+  let generation = 0;
+
+  const update = (patch: Partial<ConnectionState>) => {
+    if (
+      patch.status &&
+      patch.status !== state.status &&
+      !canTransition(state.status, patch.status)
+    ) {
+      return false;
+    }
+    state = { ...state, ...patch };
+    onStatusChange?.(state);
+    return true;
+  };
+
+  const clearRetry = () => {
+    if (retryTimer !== null) {
+      timers.clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+
+  const disposeApi = () => {
+    teardownApi?.();
+    teardownApi = null;
+    if (api) {
+      api.dispose();
+      api = null;
+    }
+  };
+
+  /**
+   * Records a failure and either schedules a retry or gives up
+   */
+  const handleFailure = (error: string) => {
+    if (state.status === "left" || state.status === "failed") return;
+    clearRetry();
+
+    if (state.attempt >= options.maxAttempts) {
+      update({ status: "failed", error, retryInMs: null });
+      return;
+    }
+
+    const attempt = state.attempt + 1;
+    // While offline, wait for the "online" event instead of burning attempts
+    if (!state.online) {
+      update({ status: "reconnecting", attempt, error, retryInMs: null });
+      return;
+    }
+
+    const delay = getBackoffDelay(attempt, options, random);
+    update({ status: "reconnecting", attempt, error, retryInMs: delay });
+    retryTimer = timers.setTimeout(() => {
+      retryTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const handleLeft = () => {
+    clearRetry();
+    update({ status: "left", retryInMs: null });
+  };
+
+  const connect = async () => {
+    clearRetry();
+    disposeApi();
+    const current = ++generation;
+    const isStale = () => current !== generation;
+
+    if (!update({ status: "loadingScript", retryInMs: null })) return;
+
+    try {
+      await loadScript();
+    } catch (error) {
+      if (!isStale()) {
+        handleFailure(`Could not load the Jitsi Meet script: ${error}`);
+      }
+      return;
+    }
+    if (isStale() || !update({ status: "joining" })) return;
+
+    try {
+      api = createApi();
+    } catch (error) {
+      handleFailure(`Could not start the meeting: ${error}`);
+      return;
+    }
+
+    api.addEventListeners({
+      videoConferenceJoined: () => {
+        if (isStale()) return;
+        update({ status: "connected", attempt: 0, error: null });
+      },
+      videoConferenceLeft: () => !isStale() && handleLeft(),
+      readyToClose: () => !isStale() && handleLeft(),
+      connectionFailed: () =>
+        !isStale() && handleFailure("Connection to the conference failed"),
+      suspendDetected: () =>
+        !isStale() && handleFailure("System suspend detected"),
+      errorOccurred: (error) => {
+        if (isStale()) return;
+        // Service limitations on meet.jit.si are reported as non-fatal errors
+        const isServiceLimit =
+          error.error?.includes("service") || error.error?.includes("limit");
+        if (error.isFatal || isServiceLimit) {
+          handleFailure(error.message || error.error || error.name);
+        }
+      },
+    });
+
+    teardownApi = setupApi?.(api) || null;
+  };
+
+  const handleEnvironmentChange = (change: EnvironmentChange) => {
+    switch (change) {
+      case "offline":
+        update({ online: false });
+        if (state.status === "reconnecting") {
+          clearRetry();
+          update({ retryInMs: null });
+        }
+        break;
+      case "online":
+        update({ online: true });
+        // The outage probably caused the failure, so start over right away
+        if (state.status === "reconnecting" || state.status === "failed") {
+          update({ attempt: 0 });
+          connect();
+        }
+        break;
+      case "visible":
+        // Background tabs throttle timers; don't make the user wait for them
+        if (state.status === "reconnecting" && state.online) {
+          connect();
+        }
+        break;
+      default:
+        break;
+    }
+  };
+
+  return {
+    getState: () => state,
+    getApi: () => api,
+
+    /**
+     * Loads the script and joins the meeting
+     */
+    start() {
+      if (state.status !== "idle") return;
+      unsubscribeEnvironment = environment.subscribe(handleEnvironmentChange);
+      connect();
+    },
+
+    /**
+     * Skips the backoff delay and tries again with a fresh attempt budget
+     */
+    retryNow() {
+      if (state.status !== "reconnecting" && state.status !== "failed") return;
+      update({ attempt: 0 });
+      connect();
+    },
+
+    /**
+     * Tears everything down; the connection cannot be restarted afterwards
+     */
+    stop() {
+      generation++;
+      clearRetry();
+      disposeApi();
+      unsubscribeEnvironment?.();
+      unsubscribeEnvironment = null;
+    },
+  };
+};
+
+/**
+ * Loads external_api.js from the given Jitsi domain
+ * Resolves immediately when the API is already available
+ */
+export const loadJitsiScript = (domain: string) =>
+  new Promise<void>((resolve, reject) => {
+    if (window.JitsiMeetExternalAPI) {
+      resolve();
+      return;
+    }
+    // Never build a script URL from something that isn't a plain hostname
+    const domainError = validateDomainFormat(domain);
+    if (domainError) {
+      reject(new Error(domainError));
+      return;
+    }
+
+    const script = document.createElement("script");
+    script.src = `https://${domain}/external_api.js`;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      // Remove the failed tag so the next attempt starts from scratch
+      script.remove();
+      reject(new Error(`Failed to load ${script.src}`));
+    };
+    document.body.appendChild(script);
+  });
@@ -0,0 +1,80 @@
+import { getAppConfig } from "~/lib/config.server";
+import { normalizeDomain, validateDomainFormat } from "~/lib/jitsi-domains";
+
+export interface DomainCheckResult {
+  domain: string;
+  ok: boolean;
+  error: string | null;
+}
+
+// How long a probe may take before the server counts as unreachable
+const PROBE_TIMEOUT_MS = 5000;
+// Successful probes are remembered for a while so joins stay fast
+const PROBE_CACHE_MS = 5 * 60 * 1000;
+
+const probeCache = new Map<string, number>();
+
+/**
+ * Checks a domain's format and whether it is on the allowlist
+ *
+ * @returns An error message, or null when the domain may be used
+ */
+export const checkDomainAllowed = (context, input: string) => {
+  const domain = normalizeDomain(input);
+  const formatError = validateDomainFormat(domain);
+  if (formatError) return formatError;
+
+  if (!getAppConfig(context).allowedDomains.includes(domain)) {
+    return `${domain} is not an approved Jitsi server`;
+  }
+  return null;
+};
+
+/**
+ * Checks that a server actually serves the Jitsi External API script
+ * Only call this for allowlisted domains so it can't be used to make the
+ * server fetch arbitrary URLs
+ */
+export const probeJitsiDomain = async (domain: string) => {
+  const cachedAt = probeCache.get(domain);
+  if (cachedAt && Date.now() - cachedAt < PROBE_CACHE_MS) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(`https://${domain}/external_api.js`, {
+      method: "GET",
+      redirect: "follow",
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    // Don't download the whole script, the headers tell us enough
+    response.body?.cancel();
+
+    if (!response.ok) {
+      return `${domain} answered with HTTP ${response.status} for external_api.js`;
+    }
+    const contentType = response.headers.get("content-type") ?? "";
+    if (!contentType.includes("javascript")) {
+      return `${domain} does not look like a Jitsi server`;
+    }
+
+    probeCache.set(domain, Date.now());
+    return null;
+  } catch (error) {
+    console.warn(`Jitsi probe for ${domain} failed:`, error);
+    return `${domain} could not be reached`;
+  }
+};
+
+/**
+ * Validates, allowlist-checks and probes a domain in one go
+ */
+export const checkJitsiDomain = async (
+  context,
+  input: string
+): Promise<DomainCheckResult> => {
+  const domain = normalizeDomain(input);
+  const error =
+    checkDomainAllowed(context, domain) ?? (await probeJitsiDomain(domain));
+  return { domain, ok: error === null, error };
+};
@@ -0,0 +1,55 @@
+/**
+ * Hostname handling for Jitsi servers, shared by the browser and the server
+ */
+
+const HOSTNAME_LABEL = /^(?!-)[a-z0-9-]{1,63}(?<!-)$/;
+
+/**
+ * Cleans up what a user typed as a server, e.g. "https://Meet.Example.com/"
+ * becomes "meet.example.com"
+ */
+export const normalizeDomain = (input: string) =>
+  input
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/\/+$/, "");
+
+/**
+ * Checks that a normalized domain is a plain hostname with an optional port
+ *
+ * @returns An error message, or null when the format is valid
+ */
+export const validateDomainFormat = (domain: string) => {
+  const [hostname, port, ...rest] = domain.split(":");
+
+  if (rest.length > 0 || hostname.length === 0 || hostname.length > 253) {
+    return `"${domain}" is not a valid server address`;
+  }
+  const labels = hostname.split(".");
+  if (
+    labels.length < 2 ||
+    !labels.every((label) => HOSTNAME_LABEL.test(label))
+  ) {
+    return `"${domain}" is not a valid server address`;
+  }
+  if (port !== undefined) {
+    const portNumber = Number(port);
+    if (!/^\d+$/.test(port) || portNumber < 1 || portNumber > 65535) {
+      return `"${domain}" has an invalid port`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Asks the server whether a Jitsi domain is approved and reachable
+ */
+export const checkJitsiServer = async (
+  domain: string
+): Promise<{ domain: string; ok: boolean; error: string | null }> => {
+  const response = await fetch(
+    `/api/jitsi-domain?domain=${encodeURIComponent(domain)}`
+  );
+  return response.json();
+};
@@ -0,0 +1,88 @@
+import type {
+  JitsiEventHandler,
+  JitsiEventHandlers,
+  JitsiEventMap,
+  JitsiEventName,
+} from "~/types/jitsi";
+
+/**
+ * Every event `JitsiMeetComponent` forwards to its consumers
+ * Checked against `JitsiEventMap` so a misspelled event fails to compile
+ */
+export const JITSI_EVENT_NAMES = [
+  "audioMuteStatusChanged",
+  "connectionEstablished",
+  "connectionFailed",
+  "displayNameChange",
+  "dominantSpeakerChanged",
+  "endpointTextMessageReceived",
+  "errorOccurred",
+  "incomingMessage",
+  "outgoingMessage",
+  "participantJoined",
+  "participantKickedOut",
+  "participantLeft",
+  "participantMuted",
+  "participantRoleChanged",
+  "passwordRequired",
+  "raiseHandUpdated",
+  "readyToClose",
+  "recordingStatusChanged",
+  "screenSharingStatusChanged",
+  "suspendDetected",
+  "tileViewChanged",
+  "transcriptionChunkReceived",
+  "videoConferenceJoined",
+  "videoConferenceLeft",
+  "videoMuteStatusChanged",
+] as const satisfies readonly JitsiEventName[];
+
+/**
+ * Creates a small typed event emitter
+ * Used by `JitsiMeetComponent` so subscriptions outlive the External API
+ * instance, which is recreated on every reconnect
+ */
+export const createJitsiEventEmitter = () => {
+  const listeners = new Map<JitsiEventName, Set<(payload: unknown) => void>>();
+
+  const on = <K extends JitsiEventName>(
+    event: K,
+    handler: JitsiEventHandler<K>
+  ) => {
+    if (!listeners.has(event)) {
+      listeners.set(event, new Set());
+    }
+    const handlers = listeners.get(event);
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+    };
+  };
+
+  const emit = <K extends JitsiEventName>(
+    event: K,
+    payload: JitsiEventMap[K]
+  ) => {
+    listeners.get(event)?.forEach((handler) => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`Error in "${event}" handler:`, error);
+      }
+    });
+  };
+
+  return { on, emit };
+};
+
+/**
+ * Calls the matching handler from an `onEvent` prop, if there is one
+ */
+export const callJitsiEventHandler = <K extends JitsiEventName>(
+  handlers: JitsiEventHandlers | undefined,
+  event: K,
+  payload: JitsiEventMap[K]
+) => {
+  const handler = handlers?.[event] as JitsiEventHandler<K> | undefined;
+  handler?.(payload);
+};
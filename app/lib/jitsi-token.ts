@@ -0,0 +1,34 @@
+interface JitsiTokenResponse {
+  jwt: string | null;
+  expiresAt: number | null;
+  // The Jitsi room's password, when its host locked it
+  jitsiPassword: string | null;
+  error?: string;
+}
+
+/**
+ * Requests a JWT for the given room from the server-side token issuer
+ * The jwt is null when the server does not use token authentication
+ *
+ * @param roomName The room to join
+ * @param displayName The user's display name
+ * @param admissionTicket Proof the host let us in, for rooms with a waiting room
+ */
+export const fetchJitsiToken = async (
+  roomName: string,
+  displayName: string,
+  admissionTicket?: string
+): Promise<{ jwt: string | null; jitsiPassword: string | null }> => {
+  const response = await fetch("/api/jitsi-token", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ roomName, displayName, admissionTicket }),
+  });
+  const data: JitsiTokenResponse = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to get a meeting token");
+  }
+
+  return { jwt: data.jwt, jitsiPassword: data.jitsiPassword };
+};
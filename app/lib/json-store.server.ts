@@ -0,0 +1,172 @@
+import {
+  appendFile,
+  mkdir,
+  readFile,
+  rename,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import { getServerEnv } from "~/lib/config.server";
+
+/**
+ * A list of records persisted as a single JSON file
+ */
+export interface JsonCollection<T> {
+  read(): Promise<T[]>;
+  /**
+   * Applies a change to the stored records and writes the result back
+   * Updates to the same file run one after another so none are lost
+   */
+  update<R>(change: (items: T[]) => { items: T[]; result: R }): Promise<R>;
+}
+
+/**
+ * An append-only list of records stored one JSON document per line
+ * Appending costs the same however long the file gets
+ */
+export interface JsonLinesLog<T> {
+  read(): Promise<T[]>;
+  append(item: T): Promise<void>;
+  /**
+   * Rewrites the file with only the records that pass the filter
+   *
+   * @returns How many records were dropped
+   */
+  retain(keep: (item: T) => boolean): Promise<number>;
+}
+
+/**
+ * A single record persisted as its own JSON file
+ */
+export interface JsonDocument<T> {
+  read(): Promise<T | null>;
+  write(value: T): Promise<void>;
+}
+
+// Pending writes per file, shared by every collection pointing at that file
+// Files without pending writes have no entry, so per-room files don't pile up
+const writeQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs a write after the ones already queued for the same file
+ */
+const enqueueWrite = <R>(filePath: string, write: () => Promise<R>) => {
+  const previous = writeQueues.get(filePath) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(write);
+  writeQueues.set(filePath, next);
+  next
+    .catch(() => undefined)
+    .then(() => {
+      if (writeQueues.get(filePath) === next) writeQueues.delete(filePath);
+    });
+  return next;
+};
+
+const readTextFile = async (filePath: string) => {
+  try {
+    return await readFile(filePath, "utf8");
+  } catch (error) {
+    if (error.code === "ENOENT") return null;
+    throw error;
+  }
+};
+
+// Write to a temporary file first so a crash never leaves half a file
+const replaceFile = async (filePath: string, content: string) => {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await writeFile(tempPath, content);
+  await rename(tempPath, filePath);
+};
+
+/**
+ * Resolves the directory server-side data is stored in
+ * Configured through DATA_DIR in `getLoadContext`, defaults to ./data
+ */
+export const getDataDir = (context) =>
+  path.resolve(getServerEnv(context).DATA_DIR || "data");
+
+/**
+ * Creates a collection backed by a JSON file. The file is created on the
+ * first write; a missing file reads as an empty list.
+ *
+ * @param filePath Absolute path of the JSON file
+ */
+export const createJsonCollection = <T>(
+  filePath: string
+): JsonCollection<T> => {
+  const read = async (): Promise<T[]> => {
+    const text = await readTextFile(filePath);
+    return text === null ? [] : JSON.parse(text);
+  };
+
+  const update: JsonCollection<T>["update"] = (change) =>
+    enqueueWrite(filePath, async () => {
+      const { items, result } = change(await read());
+      await replaceFile(filePath, JSON.stringify(items, null, 2));
+      return result;
+    });
+
+  return { read, update };
+};
+
+/**
+ * Creates a single record backed by a JSON file. The file is created on the
+ * first write; a missing file reads as null.
+ *
+ * @param filePath Absolute path of the JSON file
+ */
+export const createJsonDocument = <T>(filePath: string): JsonDocument<T> => ({
+  read: async () => {
+    const text = await readTextFile(filePath);
+    return text === null ? null : JSON.parse(text);
+  },
+
+  write: (value) =>
+    enqueueWrite(filePath, () => replaceFile(filePath, JSON.stringify(value))),
+});
+
+/**
+ * Creates an append-only log backed by a JSON Lines file. The file is
+ * created on the first append; a missing file reads as an empty list.
+ *
+ * @param filePath Absolute path of the .jsonl file
+ */
+export const createJsonLinesLog = <T>(filePath: string): JsonLinesLog<T> => {
+  const read = async (): Promise<T[]> => {
+    const text = await readTextFile(filePath);
+    if (text === null) return [];
+    // A crash mid-append can leave a partial last line; skip it
+    return text.split("\n").flatMap((line) => {
+      if (line.trim() === "") return [];
+      try {
+        return [JSON.parse(line)];
+      } catch {
+        return [];
+      }
+    });
+  };
+
+  return {
+    read,
+
+    append: (item) =>
+      enqueueWrite(filePath, async () => {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await appendFile(filePath, `${JSON.stringify(item)}\n`);
+      }),
+
+    retain: (keep) =>
+      enqueueWrite(filePath, async () => {
+        const items = await read();
+        const kept = items.filter(keep);
+        if (kept.length < items.length) {
+          await replaceFile(
+            filePath,
+            kept.map((item) => `${JSON.stringify(item)}\n`).join("")
+          );
+        }
+        return items.length - kept.length;
+      }),
+  };
+};
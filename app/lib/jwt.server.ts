@@ -0,0 +1,97 @@
+import { createHmac } from "node:crypto";
+import { getAppConfig, getServerEnv } from "~/lib/config.server";
+
+/**
+ * Settings used to sign Jitsi tokens, taken from the `JITSI_JWT_*`
+ * environment variables exposed through `getLoadContext`
+ */
+export interface JitsiTokenSettings {
+  appId: string;
+  appSecret: string;
+  domain: string;
+  ttlSeconds: number;
+}
+
+export type JitsiTokenRole = "moderator" | "guest";
+
+interface JitsiTokenUser {
+  id?: string;
+  name: string;
+  email?: string;
+  avatar?: string;
+}
+
+/**
+ * Reads the token settings from the load context
+ * Returns null when token auth is not configured so callers can fall back
+ * to joining without a JWT (e.g. on meet.jit.si)
+ */
+export const getJitsiTokenSettings = (context): JitsiTokenSettings | null => {
+  const env = getServerEnv(context);
+  if (!env.JITSI_JWT_APP_ID || !env.JITSI_JWT_APP_SECRET) {
+    return null;
+  }
+
+  const ttlSeconds = Number(env.JITSI_JWT_TTL_SECONDS);
+  return {
+    appId: env.JITSI_JWT_APP_ID,
+    appSecret: env.JITSI_JWT_APP_SECRET,
+    domain: getAppConfig(context).jitsiDomain,
+    ttlSeconds:
+      Number.isFinite(ttlSeconds) && ttlSeconds > 0 ? ttlSeconds : 3600,
+  };
+};
+
+const base64url = (input: string) => Buffer.from(input).toString("base64url");
+
+/**
+ * Signs an HS256 JWT in the format expected by Jitsi's token authentication
+ * (prosody `token` auth with `app_id`/`app_secret`)
+ *
+ * @param settings Token settings for the deployment
+ * @param roomName The room the token is valid for
+ * @param user The user the token is issued to
+ * @param role Whether the user joins as a moderator or a guest
+ * @returns The signed token and its expiry as a unix timestamp (seconds)
+ */
+export const signJitsiToken = (
+  settings: JitsiTokenSettings,
+  roomName: string,
+  user: JitsiTokenUser,
+  role: JitsiTokenRole
+) => {
+  const now = Math.floor(Date.now() / 1000);
+  const expiresAt = now + settings.ttlSeconds;
+  const isModerator = role === "moderator";
+
+  const header = { alg: "HS256", typ: "JWT" };
+  const payload = {
+    aud: "jitsi",
+    iss: settings.appId,
+    sub: settings.domain,
+    room: roomName,
+    iat: now,
+    nbf: now - 10, // Allow for small clock drift between us and prosody
+    exp: expiresAt,
+    moderator: isModerator,
+    context: {
+      user: {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        avatar: user.avatar,
+        moderator: isModerator,
+        affiliation: isModerator ? "owner" : "member",
+      },
+    },
+  };
+
+  const unsigned = `${base64url(JSON.stringify(header))}.${base64url(
+    JSON.stringify(payload)
+  )}`;
+  const signature = createHmac("sha256", settings.appSecret)
+    .update(unsigned)
+    .digest("base64url");
+
+  return { jwt: `${unsigned}.${signature}`, expiresAt };
+};
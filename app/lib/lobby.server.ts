@@ -0,0 +1,345 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import { createCookie, type Cookie } from "@remix-run/node";
+import type { WebSocket } from "ws";
+import type {
+  LobbyClientFrame,
+  LobbyRequest,
+  LobbyServerFrame,
+} from "~/lib/lobby";
+import { validateRoomName } from "~/lib/room-names";
+import { hasRoomPass } from "~/lib/room-passcodes.server";
+import {
+  getRoomStore,
+  isRoomHost,
+  type RoomSettings,
+} from "~/lib/rooms.server";
+import { getSessionSecret } from "~/lib/sessions.server";
+
+// How long an admitted guest has to actually join
+const TICKET_TTL_MS = 10 * 60 * 1000;
+
+// How long an admitted guest may use the room's chat and notes, and rejoin
+const ADMISSION_TTL_MS = 12 * 60 * 60 * 1000;
+// Rooms a browser was let into; older admissions fall off
+const MAX_ADMISSIONS = 50;
+// Guests knocking on one room at once; more are asked to try again later
+const MAX_WAITING_GUESTS = 100;
+
+interface Lobby {
+  hosts: Set<WebSocket>;
+  guests: Map<string, { request: LobbyRequest; socket: WebSocket }>;
+}
+
+// Waiting rooms live in memory; guests simply knock again after a restart
+const lobbies = new Map<string, Lobby>();
+const tickets = new Map<string, { roomName: string; expiresAt: number }>();
+
+const sendFrame = (socket: WebSocket, frame: LobbyServerFrame) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(frame));
+  }
+};
+
+const getLobby = (roomName: string) => {
+  if (!lobbies.has(roomName)) {
+    lobbies.set(roomName, { hosts: new Set(), guests: new Map() });
+  }
+  return lobbies.get(roomName);
+};
+
+const cleanUpLobby = (roomName: string) => {
+  const lobby = lobbies.get(roomName);
+  if (lobby && lobby.hosts.size === 0 && lobby.guests.size === 0) {
+    lobbies.delete(roomName);
+  }
+};
+
+/**
+ * Issues a one-time ticket proving a guest was let in
+ */
+const issueAdmissionTicket = (roomName: string) => {
+  const now = Date.now();
+  tickets.forEach((ticket, key) => {
+    if (ticket.expiresAt < now) tickets.delete(key);
+  });
+
+  const ticket = randomBytes(24).toString("base64url");
+  tickets.set(ticket, { roomName, expiresAt: now + TICKET_TTL_MS });
+  return ticket;
+};
+
+/**
+ * Checks and uses up an admission ticket
+ */
+export const redeemAdmissionTicket = (roomName: string, ticket: unknown) => {
+  if (typeof ticket !== "string") return false;
+  const entry = tickets.get(ticket);
+  tickets.delete(ticket);
+  return (
+    !!entry && entry.roomName === roomName && entry.expiresAt >= Date.now()
+  );
+};
+
+const admissionCookies = new Map<string, Cookie>();
+
+/**
+ * Remembers which waiting rooms this browser was let out of, as room names
+ * mapped to when the admission runs out
+ * Signed with the session secret, so it can't be forged
+ */
+const getAdmissionCookie = (context) => {
+  const secret = getSessionSecret(context);
+  if (!admissionCookies.has(secret)) {
+    admissionCookies.set(
+      secret,
+      createCookie("jitsi_room_admissions", {
+        httpOnly: true,
+        sameSite: "lax",
+        path: "/",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: ADMISSION_TTL_MS / 1000,
+        secrets: [secret],
+      })
+    );
+  }
+  return admissionCookies.get(secret);
+};
+
+const getAdmissions = async (
+  context,
+  cookieHeader: string | null | undefined
+): Promise<Record<string, number>> => {
+  const admissions = await getAdmissionCookie(context).parse(
+    cookieHeader ?? null
+  );
+  if (!admissions || typeof admissions !== "object") return {};
+
+  const now = Date.now();
+  return Object.fromEntries(
+    Object.entries(admissions).filter(
+      (entry): entry is [string, number] =>
+        typeof entry[1] === "number" && entry[1] > now
+    )
+  );
+};
+
+/**
+ * Returns a Set-Cookie header value recording that the host let this
+ * browser into the room
+ */
+export const addRoomAdmission = async (
+  context,
+  cookieHeader: string | null | undefined,
+  roomName: string
+) => {
+  const { [roomName]: _previous, ...admissions } = await getAdmissions(
+    context,
+    cookieHeader
+  );
+  const entries = [
+    ...Object.entries(admissions),
+    [roomName, Date.now() + ADMISSION_TTL_MS],
+  ];
+  return getAdmissionCookie(context).serialize(
+    Object.fromEntries(entries.slice(-MAX_ADMISSIONS))
+  );
+};
+
+/**
+ * Whether the host let this browser into the room recently
+ */
+export const hasRoomAdmission = async (
+  context,
+  cookieHeader: string | null | undefined,
+  roomName: string
+) => roomName in (await getAdmissions(context, cookieHeader));
+
+/**
+ * Whether the request may take part in the room's meeting, chat and notes:
+ * its host, or a guest who entered the passcode and, for rooms with a
+ * waiting room, was let in
+ *
+ * @param cookieHeader The request's Cookie header
+ * @param room The room's settings, or null for rooms nobody created
+ */
+export const canJoinRoom = async (
+  context,
+  cookieHeader: string | null | undefined,
+  room: RoomSettings | null
+) => {
+  if (await isRoomHost(context, cookieHeader, room)) return true;
+  if (!(await hasRoomPass(cookieHeader, room))) return false;
+  return (
+    !room?.waitingRoom ||
+    (await hasRoomAdmission(context, cookieHeader, room.name))
+  );
+};
+
+/**
+ * Whether the room may be listed to the request, e.g. on the /rooms
+ * dashboard: its host, or a guest who proved access by entering its
+ * passcode or being let in. Rooms without either are open to anyone who
+ * knows the name, so only their hosts see them listed.
+ *
+ * @param cookieHeader The request's Cookie header
+ * @param room The room's settings, or null for rooms nobody created
+ */
+export const canListRoom = async (
+  context,
+  cookieHeader: string | null | undefined,
+  room: RoomSettings | null
+) => {
+  if (await isRoomHost(context, cookieHeader, room)) return true;
+  return (
+    !!(room?.passcodeHash || room?.waitingRoom) &&
+    (await canJoinRoom(context, cookieHeader, room))
+  );
+};
+
+const sendRequests = (lobby: Lobby) => {
+  const requests = Array.from(lobby.guests.values(), ({ request }) => request);
+  lobby.hosts.forEach((host) =>
+    sendFrame(host, { type: "requests", requests })
+  );
+};
+
+const sendHostPresence = (lobby: Lobby) => {
+  lobby.guests.forEach(({ socket }) =>
+    sendFrame(socket, { type: "waiting", hostPresent: lobby.hosts.size > 0 })
+  );
+};
+
+/**
+ * Lets a waiting guest in (or turns them away) and closes their socket
+ */
+const decide = (roomName: string, id: string, admit: boolean) => {
+  const lobby = lobbies.get(roomName);
+  const guest = lobby?.guests.get(id);
+  if (!guest) return;
+
+  lobby.guests.delete(id);
+  sendFrame(
+    guest.socket,
+    admit
+      ? { type: "admitted", ticket: issueAdmissionTicket(roomName) }
+      : { type: "denied" }
+  );
+  guest.socket.close(1000);
+  sendRequests(lobby);
+};
+
+/**
+ * Admits everyone waiting, e.g. after the host turns the waiting room off
+ */
+export const admitEveryone = (roomName: string) => {
+  const lobby = lobbies.get(roomName);
+  lobby?.guests.forEach((_guest, id) => decide(roomName, id, true));
+};
+
+/**
+ * Serves one waiting room connection on /ws/lobby/:roomId
+ * Guests (?role=guest&name=...) wait until a host admits or denies them;
+ * hosts (?role=host, proven by their host key cookie or account) see the
+ * requests
+ */
+export const handleLobbyConnection = async (
+  socket: WebSocket,
+  request: IncomingMessage,
+  roomName: string,
+  context
+) => {
+  if (validateRoomName(roomName)) {
+    socket.close(1008, "Invalid room name");
+    return;
+  }
+
+  const url = new URL(request.url, "http://localhost");
+  const room = await getRoomStore(context).get(roomName);
+  const isHost = await isRoomHost(context, request.headers.cookie, room);
+
+  if (url.searchParams.get("role") === "host") {
+    if (!isHost) {
+      sendFrame(socket, { type: "error", error: "Only the host can do that" });
+      socket.close(1008, "Not the host");
+      return;
+    }
+    // The host may have left while the room was loading
+    if (socket.readyState !== socket.OPEN) return;
+
+    const lobby = getLobby(roomName);
+    lobby.hosts.add(socket);
+    sendRequests(lobby);
+    sendHostPresence(lobby);
+
+    socket.on("message", (data) => {
+      let frame: LobbyClientFrame;
+      try {
+        frame = JSON.parse(String(data));
+      } catch {
+        return;
+      }
+      if (frame?.type === "admit" || frame?.type === "deny") {
+        decide(roomName, String(frame.id), frame.type === "admit");
+      }
+    });
+
+    socket.on("close", () => {
+      lobby.hosts.delete(socket);
+      sendHostPresence(lobby);
+      cleanUpLobby(roomName);
+    });
+    return;
+  }
+
+  if (!isHost && !(await hasRoomPass(request.headers.cookie, room))) {
+    sendFrame(socket, {
+      type: "error",
+      error: "Please enter the room passcode",
+    });
+    socket.close(1008, "Missing passcode");
+    return;
+  }
+
+  // Hosts and rooms without a waiting room go straight in
+  if (isHost || !room?.waitingRoom) {
+    sendFrame(socket, {
+      type: "admitted",
+      ticket: issueAdmissionTicket(roomName),
+    });
+    socket.close(1000);
+    return;
+  }
+
+  const displayName = (url.searchParams.get("name") ?? "").trim().slice(0, 100);
+  if (!displayName) {
+    sendFrame(socket, { type: "error", error: "Please enter your name" });
+    socket.close(1008, "Missing name");
+    return;
+  }
+  // The guest may have left while the room was loading
+  if (socket.readyState !== socket.OPEN) return;
+
+  const lobby = getLobby(roomName);
+  if (lobby.guests.size >= MAX_WAITING_GUESTS) {
+    sendFrame(socket, {
+      type: "error",
+      error: "The waiting room is full. Please try again later.",
+    });
+    socket.close(1013, "Waiting room full");
+    cleanUpLobby(roomName);
+    return;
+  }
+  const id = randomUUID();
+  lobby.guests.set(id, {
+    request: { id, displayName, requestedAt: new Date().toISOString() },
+    socket,
+  });
+  sendFrame(socket, { type: "waiting", hostPresent: lobby.hosts.size > 0 });
+  sendRequests(lobby);
+
+  socket.on("close", () => {
+    if (lobby.guests.delete(id)) sendRequests(lobby);
+    cleanUpLobby(roomName);
+  });
+};
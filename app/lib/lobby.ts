@@ -0,0 +1,42 @@
+/**
+ * Types shared by the waiting room socket and its clients
+ */
+
+export interface LobbyRequest {
+  id: string;
+  displayName: string;
+  requestedAt: string;
+}
+
+/**
+ * Frames the server sends over the lobby socket
+ * Guests get "waiting", then "admitted" or "denied"; hosts get "requests"
+ */
+export type LobbyServerFrame =
+  | { type: "waiting"; hostPresent: boolean }
+  | { type: "admitted"; ticket: string }
+  | { type: "denied" }
+  | { type: "requests"; requests: LobbyRequest[] }
+  | { type: "error"; error: string };
+
+/**
+ * Frames a host sends over the lobby socket
+ */
+export type LobbyClientFrame =
+  | { type: "admit"; id: string }
+  | { type: "deny"; id: string };
+
+export type LobbyRole = "guest" | "host";
+
+/**
+ * Builds the lobby socket URL for a room on the current host
+ */
+export const getLobbySocketUrl = (
+  roomName: string,
+  role: LobbyRole,
+  displayName = ""
+) => {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const query = new URLSearchParams({ role, name: displayName });
+  return `${protocol}//${window.location.host}/ws/lobby/${roomName}?${query}`;
+};
@@ -0,0 +1,113 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AttendanceEvent } from "~/lib/attendance";
+import {
+  touchMeetingSession,
+  trackMeetingLifecycle,
+} from "~/lib/meeting-lifecycle.server";
+import { PRESENCE_TTL_MS } from "~/lib/presence";
+import { getRoomStore } from "~/lib/rooms.server";
+import { dispatchWebhook } from "~/lib/webhooks.server";
+
+vi.mock("~/lib/webhooks.server", () => ({
+  dispatchWebhook: vi.fn(),
+  getWebhookSettings: () => null,
+}));
+
+const event = (
+  roomName: string,
+  sessionId: string,
+  type: AttendanceEvent["type"]
+): AttendanceEvent => ({
+  id: `${sessionId}-${type}`,
+  roomName,
+  sessionId,
+  participantId: null,
+  displayName: "Ann",
+  type,
+  detail: null,
+  at: new Date().toISOString(),
+});
+
+const sentTypes = () =>
+  vi.mocked(dispatchWebhook).mock.calls.map(([, type]) => type);
+
+describe("trackMeetingLifecycle", () => {
+  let dataDir: string;
+  let context;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), "lifecycle-"));
+    context = { env: { DATA_DIR: dataDir } };
+    vi.mocked(dispatchWebhook).mockClear();
+    await getRoomStore(context).create("team-sync", {
+      waitingRoom: false,
+      passcodeHash: null,
+    });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("sends started, participant joined and emptied once each", async () => {
+    await trackMeetingLifecycle(context, event("team-sync", "a", "join"));
+    await trackMeetingLifecycle(context, event("team-sync", "b", "join"));
+    await trackMeetingLifecycle(context, event("team-sync", "c", "join"));
+    await trackMeetingLifecycle(context, event("team-sync", "a", "leave"));
+    await trackMeetingLifecycle(context, event("team-sync", "b", "leave"));
+    await trackMeetingLifecycle(context, event("team-sync", "c", "leave"));
+
+    expect(sentTypes()).toEqual([
+      "meeting.started",
+      "meeting.participant_joined",
+      "meeting.emptied",
+    ]);
+  });
+
+  it("starts a meeting once when the first joins arrive together", async () => {
+    await Promise.all([
+      trackMeetingLifecycle(context, event("team-sync", "a", "join")),
+      trackMeetingLifecycle(context, event("team-sync", "b", "join")),
+    ]);
+    await trackMeetingLifecycle(context, event("team-sync", "b", "leave"));
+    expect(sentTypes()).not.toContain("meeting.emptied");
+
+    await trackMeetingLifecycle(context, event("team-sync", "a", "leave"));
+    expect(sentTypes()).toEqual([
+      "meeting.started",
+      "meeting.participant_joined",
+      "meeting.emptied",
+    ]);
+  });
+
+  it("ignores rooms nobody created", async () => {
+    await trackMeetingLifecycle(context, event("made-up-room", "a", "join"));
+    expect(sentTypes()).toEqual([]);
+  });
+
+  it("expires sessions that stop sending heartbeats", async () => {
+    // The sweep runs on an interval; file reads still need real timeouts
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval", "Date"] });
+    await trackMeetingLifecycle(context, event("team-sync", "a", "join"));
+    await trackMeetingLifecycle(context, event("team-sync", "b", "join"));
+
+    // Only "a" keeps beating; "b" crashed without a leave
+    for (let elapsed = 0; elapsed < PRESENCE_TTL_MS * 2; elapsed += 15000) {
+      touchMeetingSession("team-sync", "a");
+      await vi.advanceTimersByTimeAsync(15000);
+    }
+    expect(sentTypes()).not.toContain("meeting.emptied");
+
+    await vi.advanceTimersByTimeAsync(PRESENCE_TTL_MS * 2);
+    await vi.waitFor(() => expect(sentTypes()).toContain("meeting.emptied"));
+
+    // The next join starts a new meeting
+    vi.mocked(dispatchWebhook).mockClear();
+    await trackMeetingLifecycle(context, event("team-sync", "c", "join"));
+    expect(sentTypes()).toEqual(["meeting.started"]);
+  });
+});
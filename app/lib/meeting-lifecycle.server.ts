@@ -0,0 +1,177 @@
+import type { AttendanceEvent } from "~/lib/attendance";
+import { getMeetingStore } from "~/lib/meetings.server";
+import { PRESENCE_TTL_MS } from "~/lib/presence";
+import { getRoomStore } from "~/lib/rooms.server";
+import {
+  dispatchWebhook,
+  getWebhookSettings,
+  type WebhookEventType,
+} from "~/lib/webhooks.server";
+
+/**
+ * Who is in a room right now, as far as this server process knows
+ */
+interface RoomState {
+  // Browser sessions currently in the conference, and when each was last
+  // heard from (attendance events and presence heartbeats)
+  sessions: Map<string, number>;
+  startedAt: string;
+  // Whether anyone besides the person who started the meeting has joined
+  participantJoined: boolean;
+  recording: boolean;
+  // Kept from the first event so expired sessions can still send webhooks
+  context;
+}
+
+const rooms = new Map<string, RoomState>();
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Sends lifecycle events for a room to the webhook targets
+ */
+const sendLifecycleEvents = async (
+  context,
+  roomName: string,
+  types: WebhookEventType[],
+  details: {
+    displayName: string | null;
+    participantCount: number;
+    startedAt: string | null;
+    at: string;
+  }
+) => {
+  const meeting = await getMeetingStore(context).get(roomName);
+  const appOrigin = getWebhookSettings(context)?.appOrigin;
+  types.forEach((type) =>
+    dispatchWebhook(context, type, {
+      roomName,
+      roomUrl: appOrigin ? `${appOrigin}/room/${roomName}` : null,
+      meeting: meeting ? { id: meeting.id, title: meeting.title } : null,
+      participant: details.displayName
+        ? { displayName: details.displayName }
+        : null,
+      participantCount: details.participantCount,
+      startedAt: details.startedAt,
+      at: details.at,
+    })
+  );
+};
+
+const stopSweepWhenIdle = () => {
+  if (rooms.size === 0 && sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+};
+
+/**
+ * Drops sessions that stopped reporting, e.g. a tab that crashed before it
+ * could send its leave, and sends meeting.emptied for rooms left empty
+ */
+const expireStaleSessions = () => {
+  const cutoff = Date.now() - PRESENCE_TTL_MS;
+
+  rooms.forEach((room, roomName) => {
+    room.sessions.forEach((lastSeen, sessionId) => {
+      if (lastSeen < cutoff) room.sessions.delete(sessionId);
+    });
+    if (room.sessions.size > 0) return;
+
+    rooms.delete(roomName);
+    sendLifecycleEvents(room.context, roomName, ["meeting.emptied"], {
+      displayName: null,
+      participantCount: 0,
+      startedAt: room.startedAt,
+      at: new Date().toISOString(),
+    }).catch((error) => console.error("Failed to track meeting:", error));
+  });
+
+  stopSweepWhenIdle();
+};
+
+/**
+ * Marks a session as still in the room; called for presence heartbeats
+ */
+export const touchMeetingSession = (roomName: string, sessionId: string) => {
+  const sessions = rooms.get(roomName)?.sessions;
+  if (sessions?.has(sessionId)) sessions.set(sessionId, Date.now());
+};
+
+/**
+ * Turns attendance events into meeting lifecycle webhooks
+ * Every participant reports the same recording change, so state is tracked
+ * per room and each lifecycle event is only sent once. Only rooms someone
+ * created (see rooms.server.ts) are tracked.
+ *
+ * @param context The load context, for settings and storage
+ * @param event The attendance event that was just recorded
+ */
+export const trackMeetingLifecycle = async (
+  context,
+  event: AttendanceEvent
+) => {
+  let room = rooms.get(event.roomName);
+  const lifecycleEvents: WebhookEventType[] = [];
+
+  if (event.type === "join" && !room) {
+    if (!(await getRoomStore(context).get(event.roomName))) return;
+    // Another first join may have started the meeting while we waited
+    room = rooms.get(event.roomName);
+  }
+
+  switch (event.type) {
+    case "join":
+      if (!room) {
+        rooms.set(event.roomName, {
+          sessions: new Map([[event.sessionId, Date.now()]]),
+          startedAt: event.at,
+          participantJoined: false,
+          recording: false,
+          context,
+        });
+        lifecycleEvents.push("meeting.started");
+        if (!sweepTimer) {
+          sweepTimer = setInterval(expireStaleSessions, PRESENCE_TTL_MS / 3);
+          sweepTimer.unref?.();
+        }
+        break;
+      }
+      room.sessions.set(event.sessionId, Date.now());
+      if (!room.participantJoined && room.sessions.size > 1) {
+        room.participantJoined = true;
+        lifecycleEvents.push("meeting.participant_joined");
+      }
+      break;
+    case "leave":
+      if (!room?.sessions.delete(event.sessionId)) break;
+      if (room.sessions.size === 0) {
+        rooms.delete(event.roomName);
+        stopSweepWhenIdle();
+        lifecycleEvents.push("meeting.emptied");
+      }
+      break;
+    case "recording":
+      if (!room?.sessions.has(event.sessionId)) break;
+      room.sessions.set(event.sessionId, Date.now());
+      if (event.detail === "on" && !room.recording) {
+        room.recording = true;
+        lifecycleEvents.push("recording.started");
+      } else if (event.detail === "off") {
+        room.recording = false;
+      }
+      break;
+    default:
+      touchMeetingSession(event.roomName, event.sessionId);
+      break;
+  }
+
+  if (lifecycleEvents.length === 0) return;
+
+  const state = rooms.get(event.roomName);
+  await sendLifecycleEvents(context, event.roomName, lifecycleEvents, {
+    displayName: event.displayName,
+    participantCount: state?.sessions.size ?? 0,
+    startedAt: state?.startedAt ?? room?.startedAt ?? null,
+    at: event.at,
+  });
+};
@@ -0,0 +1,258 @@
+import type {
+  JitsiConfigOverwrite,
+  JitsiInterfaceConfigOverwrite,
+  JitsiToolbarButton,
+} from "~/types/jitsi";
+
+/**
+ * Named meeting setups that rooms, routes and meetings can pick from
+ */
+export type MeetingPreset =
+  | "default"
+  | "webinar"
+  | "standup"
+  | "classroom"
+  | "low-bandwidth";
+
+export interface MeetingPresetDefinition {
+  label: string;
+  description: string;
+  configOverwrite: JitsiConfigOverwrite;
+  interfaceConfigOverwrite: JitsiInterfaceConfigOverwrite;
+}
+
+/**
+ * Settings every meeting starts from, with better defaults to avoid popups
+ */
+export const BASE_CONFIG_OVERWRITE: JitsiConfigOverwrite = {
+  // We show our own pre-join lobby instead
+  prejoinPageEnabled: false,
+  startWithAudioMuted: false,
+  startWithVideoMuted: false,
+  // Avoid loading third-party resources (gravatar, callstats, etc.)
+  disableThirdPartyRequests: true,
+  // Disable features that might trigger popups
+  disableDeepLinking: true,
+  // Better defaults for free server
+  startBitrate: 800,
+  disableAudioLevels: true,
+  enableLayerSuspension: true,
+  // Disable recording to avoid service prompts
+  fileRecordingsEnabled: false,
+  liveStreamingEnabled: false,
+  // Improve bandwidth usage
+  disableSimulcast: false,
+  resolution: 720,
+  constraints: {
+    video: {
+      height: {
+        ideal: 720,
+        max: 720,
+        min: 180,
+      },
+    },
+  },
+};
+
+export const BASE_INTERFACE_CONFIG_OVERWRITE: JitsiInterfaceConfigOverwrite = {
+  SHOW_JITSI_WATERMARK: false,
+  SHOW_WATERMARK_FOR_GUESTS: false,
+  // Disable film strip only mode to avoid unintended UI changes
+  FILM_STRIP_ONLY: false,
+  // Hide invite options that might trigger popups
+  HIDE_INVITE_MORE_HEADER: true,
+};
+
+/**
+ * Sets the same buttons for the new (config.js) and legacy
+ * (interface_config.js) toolbar options so they can't drift apart
+ */
+const withToolbar = (
+  buttons: JitsiToolbarButton[],
+  preset: Pick<MeetingPresetDefinition, "label" | "description"> &
+    Partial<MeetingPresetDefinition>
+): MeetingPresetDefinition => ({
+  ...preset,
+  configOverwrite: { ...preset.configOverwrite, toolbarButtons: buttons },
+  interfaceConfigOverwrite: {
+    ...preset.interfaceConfigOverwrite,
+    TOOLBAR_BUTTONS: buttons,
+  },
+});
+
+export const MEETING_PRESETS: Record<MeetingPreset, MeetingPresetDefinition> = {
+  default: withToolbar(
+    [
+      "microphone",
+      "camera",
+      "desktop",
+      "fullscreen",
+      "fodeviceselection",
+      "hangup",
+      "profile",
+      "chat",
+      "settings",
+      "raisehand",
+      "videoquality",
+      "filmstrip",
+      "tileview",
+      "download",
+      "help",
+    ],
+    {
+      label: "Standard meeting",
+      description: "Everyone can talk, share and chat",
+    }
+  ),
+  webinar: withToolbar(
+    [
+      "microphone",
+      "camera",
+      "desktop",
+      "fullscreen",
+      "hangup",
+      "chat",
+      "raisehand",
+      "reactions",
+      "settings",
+      "tileview",
+    ],
+    {
+      label: "Webinar",
+      description: "Attendees join muted with camera off and raise hands",
+      configOverwrite: {
+        startWithAudioMuted: true,
+        startWithVideoMuted: true,
+      },
+      interfaceConfigOverwrite: {
+        DISABLE_JOIN_LEAVE_NOTIFICATIONS: true,
+      },
+    }
+  ),
+  standup: withToolbar(
+    ["microphone", "camera", "tileview", "raisehand", "chat", "hangup"],
+    {
+      label: "Standup",
+      description: "Small team call in tile view with a minimal toolbar",
+      interfaceConfigOverwrite: {
+        TILE_VIEW_MAX_COLUMNS: 5,
+      },
+    }
+  ),
+  classroom: withToolbar(
+    [
+      "microphone",
+      "camera",
+      "desktop",
+      "fullscreen",
+      "hangup",
+      "chat",
+      "raisehand",
+      "participants-pane",
+      "whiteboard",
+      "tileview",
+      "settings",
+    ],
+    {
+      label: "Classroom",
+      description: "Students join muted; the teacher shares and presents",
+      configOverwrite: {
+        startWithAudioMuted: true,
+      },
+    }
+  ),
+  "low-bandwidth": withToolbar(
+    ["microphone", "camera", "videoquality", "chat", "raisehand", "hangup"],
+    {
+      label: "Low bandwidth",
+      description: "Lower resolution and fewer videos for slow connections",
+      configOverwrite: {
+        startBitrate: 256,
+        resolution: 360,
+        channelLastN: 4,
+        constraints: {
+          video: {
+            height: {
+              ideal: 360,
+              max: 360,
+              min: 180,
+            },
+          },
+        },
+      },
+      interfaceConfigOverwrite: {
+        VIDEO_QUALITY_LABEL_DISABLED: false,
+      },
+    }
+  ),
+};
+
+export const isMeetingPreset = (value: unknown): value is MeetingPreset =>
+  typeof value === "string" && value in MEETING_PRESETS;
+
+/**
+ * Whether a preset starts people muted, for prefilling join forms
+ */
+export const getPresetMuteDefaults = (preset: MeetingPreset) => {
+  const { configOverwrite } = buildPresetConfig(preset);
+  return {
+    startWithAudioMuted: configOverwrite.startWithAudioMuted ?? false,
+    startWithVideoMuted: configOverwrite.startWithVideoMuted ?? false,
+  };
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Merges objects recursively; later values win and arrays are replaced
+ * rather than concatenated. Undefined values are skipped.
+ */
+export const deepMerge = <T extends object>(
+  base: T,
+  ...overrides: (Partial<T> | undefined)[]
+): T => {
+  const result = { ...base } as Record<string, unknown>;
+
+  overrides.forEach((override) => {
+    Object.entries(override ?? {}).forEach(([key, value]) => {
+      if (value === undefined) return;
+      result[key] =
+        isPlainObject(value) && isPlainObject(result[key])
+          ? deepMerge(result[key] as Record<string, unknown>, value)
+          : value;
+    });
+  });
+
+  return result as T;
+};
+
+/**
+ * Builds the final Jitsi options for a preset plus caller overrides
+ *
+ * @param preset The preset to start from
+ * @param configOverwrite Options merged over the preset's config
+ * @param interfaceConfigOverwrite Options merged over the preset's interface config
+ */
+export const buildPresetConfig = (
+  preset: MeetingPreset,
+  configOverwrite?: JitsiConfigOverwrite,
+  interfaceConfigOverwrite?: JitsiInterfaceConfigOverwrite
+) => {
+  const definition = MEETING_PRESETS[preset] ?? MEETING_PRESETS.default;
+  return {
+    configOverwrite: deepMerge(
+      BASE_CONFIG_OVERWRITE,
+      definition.configOverwrite,
+      configOverwrite
+    ),
+    interfaceConfigOverwrite: deepMerge(
+      BASE_INTERFACE_CONFIG_OVERWRITE,
+      definition.interfaceConfigOverwrite,
+      interfaceConfigOverwrite
+    ),
+  };
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { parseMeetingForm } from "~/lib/meetings.server";
+
+const form = (fields: Record<string, string>) => {
+  const formData = new FormData();
+  Object.entries({
+    title: "Planning",
+    host: "Ann",
+    preset: "default",
+    ...fields,
+  }).forEach(([name, value]) => formData.set(name, value));
+  return formData;
+};
+
+describe("parseMeetingForm", () => {
+  it("accepts a complete form", () => {
+    expect(parseMeetingForm(form({ description: "Budget" }))).toMatchObject({
+      values: { title: "Planning", host: "Ann", description: "Budget" },
+      errors: {},
+    });
+  });
+
+  it("refuses titles, hosts and descriptions that are too long", () => {
+    const { errors } = parseMeetingForm(
+      form({
+        title: "x".repeat(201),
+        host: "x".repeat(101),
+        description: "x".repeat(2001),
+      })
+    );
+
+    expect(errors).toEqual({
+      title: "Title is too long",
+      host: "Host name is too long",
+      description: "Description is too long",
+    });
+  });
+});
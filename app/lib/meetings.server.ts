@@ -0,0 +1,168 @@
+import path from "node:path";
+import { createJsonCollection, getDataDir } from "~/lib/json-store.server";
+import { isMeetingPreset } from "~/lib/meeting-presets";
+import type { Meeting, MeetingInput } from "~/lib/meetings";
+import { generateRoomId } from "~/lib/room-names";
+import { getRoomStore, isRoomHost } from "~/lib/rooms.server";
+
+/**
+ * Persistence for registered meetings
+ * Implemented by the JSON file store below; swap in another implementation
+ * (e.g. SQLite) by returning it from `getMeetingStore`
+ */
+export interface MeetingStore {
+  list(): Promise<Meeting[]>;
+  get(id: string): Promise<Meeting | null>;
+  create(input: MeetingInput): Promise<Meeting>;
+  update(id: string, input: Partial<MeetingInput>): Promise<Meeting | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Creates a meeting store backed by a JSON file
+ *
+ * @param filePath Path of the JSON file holding the meetings
+ */
+export const createJsonMeetingStore = (filePath: string): MeetingStore => {
+  const collection = createJsonCollection<Meeting>(filePath);
+
+  return {
+    list: async () => {
+      const meetings = await collection.read();
+      // Scheduled meetings first, soonest first; then unscheduled by creation
+      return meetings.sort((a, b) =>
+        (a.scheduledStart ?? `~${a.createdAt}`).localeCompare(
+          b.scheduledStart ?? `~${b.createdAt}`
+        )
+      );
+    },
+
+    get: async (id) =>
+      (await collection.read()).find((meeting) => meeting.id === id) ?? null,
+
+    create: (input) =>
+      collection.update((meetings) => {
+        const now = new Date().toISOString();
+        const meeting: Meeting = {
+          ...input,
+          id: generateRoomId(),
+          createdAt: now,
+          updatedAt: now,
+        };
+        return { items: [...meetings, meeting], result: meeting };
+      }),
+
+    update: (id, input) =>
+      collection.update((meetings) => {
+        const existing = meetings.find((meeting) => meeting.id === id);
+        if (!existing) return { items: meetings, result: null };
+
+        const updated: Meeting = {
+          ...existing,
+          ...input,
+          updatedAt: new Date().toISOString(),
+        };
+        return {
+          items: meetings.map((meeting) =>
+            meeting.id === id ? updated : meeting
+          ),
+          result: updated,
+        };
+      }),
+
+    delete: (id) =>
+      collection.update((meetings) => {
+        const remaining = meetings.filter((meeting) => meeting.id !== id);
+        return {
+          items: remaining,
+          result: remaining.length !== meetings.length,
+        };
+      }),
+  };
+};
+
+const stores = new Map<string, MeetingStore>();
+
+/**
+ * Returns the meeting store for the data directory configured in the context
+ */
+export const getMeetingStore = (context): MeetingStore => {
+  const filePath = path.join(getDataDir(context), "meetings.json");
+  if (!stores.has(filePath)) {
+    stores.set(filePath, createJsonMeetingStore(filePath));
+  }
+  return stores.get(filePath);
+};
+
+/**
+ * Throws a 403 unless the request comes from the host of the meeting's room,
+ * the only one who may change or delete the meeting
+ */
+export const requireMeetingHost = async (
+  context,
+  request: Request,
+  meetingId: string
+) => {
+  const room = await getRoomStore(context).get(meetingId);
+  if (!(await isRoomHost(context, request.headers.get("Cookie"), room))) {
+    throw new Response("Only the meeting's host can manage it", {
+      status: 403,
+    });
+  }
+  return room;
+};
+
+export type MeetingFormErrors = Partial<Record<keyof MeetingInput, string>>;
+
+/**
+ * Reads and validates the meeting form fields
+ * Times are posted as ISO strings by `MeetingForm`
+ */
+export const parseMeetingForm = (
+  formData: FormData
+): { values: MeetingInput; errors: MeetingFormErrors } => {
+  const field = (name: string) => String(formData.get(name) ?? "").trim();
+  const time = (name: string) => {
+    const value = field(name);
+    if (value === "") return null;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+  };
+
+  const values = {
+    title: field("title"),
+    description: field("description"),
+    host: field("host"),
+    preset: field("preset"),
+    scheduledStart: time("scheduledStart"),
+    scheduledEnd: time("scheduledEnd"),
+  };
+  const errors: MeetingFormErrors = {};
+
+  if (values.title === "") errors.title = "Please enter a title";
+  if (values.title.length > 200) errors.title = "Title is too long";
+  if (values.host === "") errors.host = "Please enter the host's name";
+  if (values.host.length > 100) errors.host = "Host name is too long";
+  if (values.description.length > 2000) {
+    errors.description = "Description is too long";
+  }
+  if (!isMeetingPreset(values.preset)) errors.preset = "Unknown meeting type";
+  if (values.scheduledStart === undefined) {
+    errors.scheduledStart = "Invalid start time";
+  }
+  if (values.scheduledEnd === undefined) {
+    errors.scheduledEnd = "Invalid end time";
+  }
+  if (values.scheduledEnd && !values.scheduledStart) {
+    errors.scheduledStart = "Set a start time as well as an end time";
+  }
+  if (
+    values.scheduledStart &&
+    values.scheduledEnd &&
+    values.scheduledEnd <= values.scheduledStart
+  ) {
+    errors.scheduledEnd = "The meeting must end after it starts";
+  }
+
+  return { values: values as MeetingInput, errors };
+};
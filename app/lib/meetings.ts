@@ -0,0 +1,60 @@
+import type { MeetingPreset } from "~/lib/meeting-presets";
+
+/**
+ * A meeting registered with the app
+ * The id doubles as the Jitsi room name and the /room/:roomId path segment
+ */
+export interface Meeting {
+  id: string;
+  title: string;
+  description: string;
+  host: string;
+  // Meetings saved before presets existed have none and use the app default
+  preset?: MeetingPreset;
+  // ISO timestamps; null for meetings without a schedule
+  scheduledStart: string | null;
+  scheduledEnd: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MeetingInput = Pick<
+  Meeting,
+  | "title"
+  | "description"
+  | "host"
+  | "preset"
+  | "scheduledStart"
+  | "scheduledEnd"
+>;
+
+/**
+ * Where a meeting is in its schedule
+ * - upcoming: too early to join
+ * - open: can be joined (also used for meetings without a schedule)
+ * - ended: the scheduled end has passed
+ */
+export type MeetingPhase = "upcoming" | "open" | "ended";
+
+// Participants may join this long before the scheduled start
+export const EARLY_JOIN_MS = 10 * 60 * 1000;
+
+/**
+ * Works out whether a meeting can be joined at the given time
+ */
+export const getMeetingPhase = (
+  meeting: Pick<Meeting, "scheduledStart" | "scheduledEnd">,
+  now: Date = new Date()
+): MeetingPhase => {
+  const time = now.getTime();
+  if (
+    meeting.scheduledStart &&
+    time < new Date(meeting.scheduledStart).getTime() - EARLY_JOIN_MS
+  ) {
+    return "upcoming";
+  }
+  if (meeting.scheduledEnd && time > new Date(meeting.scheduledEnd).getTime()) {
+    return "ended";
+  }
+  return "open";
+};
@@ -0,0 +1,182 @@
+import { EventEmitter } from "node:events";
+import type { IncomingMessage } from "node:http";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { WebSocket } from "ws";
+import * as Y from "yjs";
+import { getMeetingStore } from "~/lib/meetings.server";
+import {
+  MAX_NOTES_LENGTH,
+  NOTES_TEXT,
+  decodeUpdate,
+  encodeUpdate,
+  type NotesServerFrame,
+} from "~/lib/notes";
+import {
+  getNotesStore,
+  getNotesText,
+  handleNotesConnection,
+} from "~/lib/notes.server";
+
+/**
+ * Stand-in for a ws socket that records what the server sends
+ */
+const createFakeSocket = (readyState = 1) => {
+  const socket = Object.assign(new EventEmitter(), {
+    OPEN: 1,
+    readyState,
+    frames: [] as NotesServerFrame[],
+    closeCode: null as number | null,
+    send: (data: string) => socket.frames.push(JSON.parse(data)),
+    close: (code: number) => {
+      socket.closeCode = code;
+      socket.readyState = 3;
+      socket.emit("close");
+    },
+  });
+  return socket;
+};
+
+const connect = (
+  socket: ReturnType<typeof createFakeSocket>,
+  context,
+  roomName = "team-sync"
+) =>
+  handleNotesConnection(
+    socket as unknown as WebSocket,
+    { url: `/ws/notes/${roomName}`, headers: {} } as IncomingMessage,
+    roomName,
+    context
+  );
+
+/**
+ * An update inserting the text, as a browser would send it
+ */
+const insertUpdate = (text: string) => {
+  const doc = new Y.Doc();
+  doc.getText(NOTES_TEXT).insert(0, text);
+  return encodeUpdate(Y.encodeStateAsUpdate(doc));
+};
+
+describe("handleNotesConnection", () => {
+  let dataDir: string;
+  let context;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), "notes-"));
+    context = { env: { DATA_DIR: dataDir } };
+  });
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("merges updates and turns away ones that make the notes too long", async () => {
+    const socket = createFakeSocket();
+    await connect(socket, context);
+    expect(socket.frames[0].type).toBe("sync");
+
+    socket.emit(
+      "message",
+      JSON.stringify({ type: "update", update: insertUpdate("Agenda") })
+    );
+    expect(await getNotesText(context, "team-sync")).toBe("Agenda");
+
+    socket.emit(
+      "message",
+      JSON.stringify({
+        type: "update",
+        update: insertUpdate("x".repeat(MAX_NOTES_LENGTH)),
+      })
+    );
+    expect(socket.closeCode).toBe(1008);
+    expect(socket.frames.at(-1)).toEqual({
+      type: "error",
+      error: "The notes are too long",
+    });
+    expect(await getNotesText(context, "team-sync")).toBe("Agenda");
+    // Saved once the last visitor is gone
+    await vi.waitFor(async () =>
+      expect(await getNotesStore(context).get("team-sync")).not.toBeNull()
+    );
+  });
+
+  it("turns away updates that add other content or grow the document too big", async () => {
+    const other = new Y.Doc();
+    other.getMap("x").set("junk", "x".repeat(1000));
+    const socket = createFakeSocket();
+    await connect(socket, context);
+    socket.emit(
+      "message",
+      JSON.stringify({
+        type: "update",
+        update: encodeUpdate(Y.encodeStateAsUpdate(other)),
+      })
+    );
+    expect(socket.frames.at(-1)).toEqual({
+      type: "error",
+      error: "Only the notes text can be edited",
+    });
+
+    // Formatting doesn't count towards the length, but is stored all the same
+    const formatted = new Y.Doc();
+    formatted.getText(NOTES_TEXT).insert(0, "Agenda", {
+      note: "x".repeat(2 * 1024 * 1024),
+    });
+    const churner = createFakeSocket();
+    await connect(churner, context);
+    churner.emit(
+      "message",
+      JSON.stringify({
+        type: "update",
+        update: encodeUpdate(Y.encodeStateAsUpdate(formatted)),
+      })
+    );
+    expect(churner.closeCode).toBe(1008);
+    expect(churner.frames.at(-1)).toEqual({
+      type: "error",
+      error: "The notes are too long",
+    });
+  });
+
+  it("saves the notes pre-filled from the meeting description right away", async () => {
+    const meeting = await getMeetingStore(context).create({
+      title: "Planning",
+      description: "Budget",
+      host: "Ann",
+      scheduledStart: null,
+      scheduledEnd: null,
+    });
+    const socket = createFakeSocket();
+    await connect(socket, context, meeting.id);
+    socket.close(1000);
+
+    const stored = await getNotesStore(context).get(meeting.id);
+    expect(stored).not.toBeNull();
+    // Each room's notes have a file of their own
+    await expect(
+      readFile(path.join(dataDir, "notes", `${meeting.id}.json`), "utf8")
+    ).resolves.toContain(stored.state);
+    // A later visitor gets the same document, not a second copy of the
+    // template a reconnecting client would merge with its own
+    const doc = new Y.Doc();
+    Y.applyUpdate(doc, decodeUpdate(stored.state));
+    const first = socket.frames[0] as { update: string };
+    expect(Y.encodeStateVector(doc)).toEqual(
+      Y.encodeStateVectorFromUpdate(decodeUpdate(first.update))
+    );
+    expect(await getNotesText(context, meeting.id)).toMatch(
+      /^Agenda\nBudget\n/
+    );
+  });
+
+  it("ignores a socket that closed while the notes were loading", async () => {
+    const socket = createFakeSocket(3);
+    await connect(socket, context);
+
+    expect(socket.frames).toEqual([]);
+    expect(socket.listenerCount("message")).toBe(0);
+  });
+});
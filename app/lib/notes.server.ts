@@ -0,0 +1,324 @@
+import path from "node:path";
+import type { IncomingMessage } from "node:http";
+import type { WebSocket } from "ws";
+import * as Y from "yjs";
+import {
+  createJsonDocument,
+  getDataDir,
+  type JsonDocument,
+} from "~/lib/json-store.server";
+import { canJoinRoom } from "~/lib/lobby.server";
+import { getMeetingStore } from "~/lib/meetings.server";
+import {
+  MAX_NOTES_LENGTH,
+  NOTES_TEXT,
+  decodeUpdate,
+  encodeUpdate,
+  type NotesClientFrame,
+  type NotesServerFrame,
+} from "~/lib/notes";
+import { validateRoomName } from "~/lib/room-names";
+import { getRoomStore } from "~/lib/rooms.server";
+
+// Edits are written to disk this long after the last one
+const SAVE_DELAY_MS = 2000;
+// Encoded size of a room's document, formatting and deleted text included
+const MAX_NOTES_BYTES = 1024 * 1024;
+
+/**
+ * A room's notes as stored: the Yjs document, base64 encoded
+ */
+export interface RoomNotes {
+  roomName: string;
+  state: string;
+  updatedAt: string;
+}
+
+/**
+ * Persistence for shared meeting notes, one document per room
+ */
+export interface NotesStore {
+  get(roomName: string): Promise<RoomNotes | null>;
+  save(roomName: string, state: Uint8Array): Promise<RoomNotes>;
+}
+
+/**
+ * Creates a notes store that keeps each room's document in its own JSON
+ * file, so saving one room never rewrites the others
+ * Room names are validated canonical names, so they are safe as file names
+ *
+ * @param directory Directory holding one <room>.json file per room
+ */
+export const createJsonNotesStore = (directory: string): NotesStore => {
+  const documents = new Map<string, JsonDocument<RoomNotes>>();
+  const getDocument = (roomName: string) => {
+    if (!documents.has(roomName)) {
+      documents.set(
+        roomName,
+        createJsonDocument(path.join(directory, `${roomName}.json`))
+      );
+    }
+    return documents.get(roomName);
+  };
+
+  return {
+    get: (roomName) => getDocument(roomName).read(),
+
+    save: async (roomName, state) => {
+      const notes: RoomNotes = {
+        roomName,
+        state: encodeUpdate(state),
+        updatedAt: new Date().toISOString(),
+      };
+      await getDocument(roomName).write(notes);
+      return notes;
+    },
+  };
+};
+
+const stores = new Map<string, NotesStore>();
+
+/**
+ * Returns the notes store for the data directory configured in the context
+ */
+export const getNotesStore = (context): NotesStore => {
+  const directory = path.join(getDataDir(context), "notes");
+  if (!stores.has(directory)) {
+    stores.set(directory, createJsonNotesStore(directory));
+  }
+  return stores.get(directory);
+};
+
+/**
+ * Starting text for rooms without notes: the meeting description as the
+ * agenda, with headings for what gets decided
+ */
+const buildNotesTemplate = (description: string) =>
+  ["Agenda", description.trim(), "", "Action items", "", "Decisions", ""].join(
+    "\n"
+  );
+
+/**
+ * Loads a room's notes document, pre-filled from the meeting description
+ * when nothing has been written yet
+ *
+ * @returns The document, and whether it was just pre-filled
+ */
+const loadNotesDoc = async (context, roomName: string) => {
+  const doc = new Y.Doc();
+  const stored = await getNotesStore(context).get(roomName);
+  if (stored) {
+    Y.applyUpdate(doc, decodeUpdate(stored.state));
+    return { doc, prefilled: false };
+  }
+
+  const meeting = await getMeetingStore(context).get(roomName);
+  if (!meeting?.description.trim()) return { doc, prefilled: false };
+  doc.getText(NOTES_TEXT).insert(0, buildNotesTemplate(meeting.description));
+  return { doc, prefilled: true };
+};
+
+interface LiveNotes {
+  doc: Y.Doc;
+  sockets: Set<WebSocket>;
+  saveTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// Documents of rooms with someone connected, kept in memory while in use
+const liveNotes = new Map<string, Promise<LiveNotes>>();
+
+const sendFrame = (socket: WebSocket, frame: NotesServerFrame) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(frame));
+  }
+};
+
+const saveNotes = async (context, roomName: string, notes: LiveNotes) => {
+  if (notes.saveTimer) {
+    clearTimeout(notes.saveTimer);
+    notes.saveTimer = null;
+  }
+  try {
+    await getNotesStore(context).save(
+      roomName,
+      Y.encodeStateAsUpdate(notes.doc)
+    );
+  } catch (error) {
+    console.error(`Failed to save the notes of ${roomName}:`, error);
+  }
+};
+
+/**
+ * Returns the live document of a room, loading it for the first visitor
+ * Every change is relayed to the other sockets and saved shortly after
+ */
+const openLiveNotes = (context, roomName: string) => {
+  if (!liveNotes.has(roomName)) {
+    const opening = loadNotesDoc(context, roomName).then(async (loaded) => {
+      const { doc } = loaded;
+      const notes: LiveNotes = { doc, sockets: new Set(), saveTimer: null };
+      // Saved right away: every load inserts the template afresh, so a
+      // client still holding an earlier one would otherwise get it twice
+      if (loaded.prefilled) await saveNotes(context, roomName, notes);
+      doc.on("update", (update: Uint8Array, origin) => {
+        const encoded = encodeUpdate(update);
+        notes.sockets.forEach((peer) => {
+          if (peer !== origin) {
+            sendFrame(peer, { type: "update", update: encoded });
+          }
+        });
+        if (notes.saveTimer) clearTimeout(notes.saveTimer);
+        notes.saveTimer = setTimeout(
+          () => saveNotes(context, roomName, notes),
+          SAVE_DELAY_MS
+        );
+      });
+      return notes;
+    });
+    // A failed load is retried by the next visitor
+    opening.catch(() => liveNotes.delete(roomName));
+    liveNotes.set(roomName, opening);
+  }
+  return liveNotes.get(roomName);
+};
+
+/**
+ * Checks what the notes would look like with the update applied, before it
+ * reaches the shared document: only the notes text, no longer than
+ * MAX_NOTES_LENGTH, and no bigger than MAX_NOTES_BYTES once encoded, as
+ * formatting and deleted text take space the length doesn't show
+ *
+ * @returns An error message, or null when the update is fine
+ */
+const checkUpdate = (doc: Y.Doc, update: Uint8Array) => {
+  const candidate = new Y.Doc();
+  try {
+    Y.applyUpdate(candidate, Y.encodeStateAsUpdate(doc));
+    Y.applyUpdate(candidate, update);
+    if (
+      Array.from(candidate.share.keys()).some((name) => name !== NOTES_TEXT)
+    ) {
+      return "Only the notes text can be edited";
+    }
+    if (
+      candidate.getText(NOTES_TEXT).length > MAX_NOTES_LENGTH ||
+      Y.encodeStateAsUpdate(candidate).length > MAX_NOTES_BYTES
+    ) {
+      return "The notes are too long";
+    }
+    return null;
+  } finally {
+    candidate.destroy();
+  }
+};
+
+/**
+ * Reads a room's notes as plain text, including edits not yet saved
+ */
+export const getNotesText = async (context, roomName: string) => {
+  const live = liveNotes.get(roomName);
+  if (live) return (await live).doc.getText(NOTES_TEXT).toString();
+
+  const { doc } = await loadNotesDoc(context, roomName);
+  const text = doc.getText(NOTES_TEXT).toString();
+  doc.destroy();
+  return text;
+};
+
+/**
+ * Formats a room's notes as a Markdown document
+ */
+export const formatNotesMarkdown = (title: string, text: string) =>
+  `# Meeting notes: ${title}\n\n${text.trim()}\n`;
+
+/**
+ * Serves one notes connection on /ws/notes/:roomId
+ * Sends the whole document, then merges and relays every update; a client
+ * sending an update checkUpdate refuses is disconnected
+ * Only the host and guests who may join the meeting (see canJoinRoom) get in
+ */
+export const handleNotesConnection = async (
+  socket: WebSocket,
+  request: IncomingMessage,
+  roomName: string,
+  context
+) => {
+  if (validateRoomName(roomName)) {
+    sendFrame(socket, { type: "error", error: "Invalid notes connection" });
+    socket.close(1008, "Invalid notes connection");
+    return;
+  }
+
+  const room = await getRoomStore(context).get(roomName);
+  if (!(await canJoinRoom(context, request.headers.cookie, room))) {
+    sendFrame(socket, {
+      type: "error",
+      error: "Please join the meeting first",
+    });
+    socket.close(1008, "Not in the meeting");
+    return;
+  }
+
+  const opening = openLiveNotes(context, roomName);
+  const notes = await opening;
+
+  const release = () => {
+    notes.sockets.delete(socket);
+    if (notes.sockets.size > 0) return;
+
+    // Save edits right away when the last visitor leaves, then let the
+    // room go
+    const saving = notes.saveTimer
+      ? saveNotes(context, roomName, notes)
+      : Promise.resolve();
+    saving.then(() => {
+      if (notes.sockets.size === 0 && liveNotes.get(roomName) === opening) {
+        liveNotes.delete(roomName);
+        notes.doc.destroy();
+      }
+    });
+  };
+
+  // The visitor may have left while the document was loading
+  if (socket.readyState !== socket.OPEN) {
+    release();
+    return;
+  }
+  notes.sockets.add(socket);
+
+  socket.on("message", (data) => {
+    let frame: NotesClientFrame;
+    try {
+      frame = JSON.parse(String(data));
+    } catch {
+      sendFrame(socket, { type: "error", error: "Malformed message" });
+      return;
+    }
+    if (frame?.type !== "update" || typeof frame.update !== "string") return;
+
+    let update: Uint8Array;
+    try {
+      update = decodeUpdate(frame.update);
+      const error = checkUpdate(notes.doc, update);
+      if (error) {
+        // The client's copy now differs from ours, so it can't stay
+        sendFrame(socket, { type: "error", error });
+        socket.close(1008, error);
+        return;
+      }
+    } catch {
+      sendFrame(socket, { type: "error", error: "Malformed update" });
+      return;
+    }
+
+    // The socket as origin keeps the update from being echoed back
+    Y.applyUpdate(notes.doc, update, socket);
+  });
+
+  socket.on("close", release);
+
+  sendFrame(socket, {
+    type: "sync",
+    update: encodeUpdate(Y.encodeStateAsUpdate(notes.doc)),
+  });
+};
@@ -0,0 +1,85 @@
+import type * as Y from "yjs";
+
+/**
+ * Types and helpers shared by the notes WebSocket endpoint and the notes pane
+ *
+ * A room's notes are one Yjs document holding a single text. Browsers and the
+ * server exchange Yjs updates, which merge without conflicts whatever order
+ * they arrive in, so concurrent edits never overwrite each other.
+ */
+
+// Name of the text inside each room's document
+export const NOTES_TEXT = "notes";
+
+// Even pasted in one go, this much text fits in a single socket frame
+export const MAX_NOTES_LENGTH = 10000;
+
+/**
+ * Frames the server sends over the notes socket
+ * - sync: the whole document, sent on (re)connect
+ * - update: someone else's edit
+ * Updates are binary Yjs updates, base64 encoded
+ */
+export type NotesServerFrame =
+  | { type: "sync"; update: string }
+  | { type: "update"; update: string }
+  | { type: "error"; error: string };
+
+/**
+ * Frames a client sends over the notes socket
+ */
+export type NotesClientFrame = { type: "update"; update: string };
+
+export const encodeUpdate = (update: Uint8Array) => {
+  let binary = "";
+  update.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const decodeUpdate = (encoded: string) =>
+  Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0));
+
+/**
+ * Turns the text into the new value with as small an edit as possible
+ * Only the changed middle part is replaced, so edits elsewhere in the text
+ * made at the same time by someone else are kept
+ *
+ * @param text The shared text
+ * @param value The text as it should read now, e.g. a textarea's value
+ */
+export const applyTextChange = (text: Y.Text, value: string) => {
+  const current = text.toString();
+  if (current === value) return;
+
+  let start = 0;
+  while (
+    start < current.length &&
+    start < value.length &&
+    current[start] === value[start]
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < value.length - start &&
+    current[current.length - 1 - end] === value[value.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  text.doc?.transact(() => {
+    text.delete(start, current.length - start - end);
+    text.insert(start, value.slice(start, value.length - end));
+  });
+};
+
+/**
+ * Builds the notes socket URL for a room on the current host
+ */
+export const getNotesSocketUrl = (roomName: string) => {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}/ws/notes/${roomName}`;
+};
@@ -0,0 +1,72 @@
+import path from "node:path";
+import { createJsonCollection, getDataDir } from "~/lib/json-store.server";
+import { tallyPoll, type Poll, type PollResult } from "~/lib/polls";
+
+/**
+ * Persistence for the results of closed polls
+ */
+export interface PollResultStore {
+  listByRoom(roomName: string): Promise<PollResult[]>;
+  /**
+   * Saves a closed poll's tally; saving the same poll again replaces it
+   */
+  save(roomName: string, poll: Poll): Promise<PollResult>;
+}
+
+/**
+ * Creates a poll result store backed by a JSON file
+ *
+ * @param filePath Path of the JSON file holding the results
+ */
+export const createJsonPollResultStore = (
+  filePath: string
+): PollResultStore => {
+  const collection = createJsonCollection<PollResult>(filePath);
+
+  return {
+    listByRoom: async (roomName) =>
+      (await collection.read()).filter(
+        (result) => result.roomName === roomName
+      ),
+
+    save: (roomName, poll) =>
+      collection.update((results) => {
+        const counts = tallyPoll(poll);
+        const result: PollResult = {
+          id: poll.id,
+          roomName,
+          question: poll.question,
+          options: poll.options.map((label, index) => ({
+            label,
+            votes: counts[index],
+          })),
+          totalVotes: Object.keys(poll.votes).length,
+          createdBy: poll.createdBy,
+          closedAt: new Date().toISOString(),
+        };
+        return {
+          items: [
+            ...results.filter(
+              (existing) =>
+                existing.id !== poll.id || existing.roomName !== roomName
+            ),
+            result,
+          ],
+          result,
+        };
+      }),
+  };
+};
+
+const stores = new Map<string, PollResultStore>();
+
+/**
+ * Returns the poll result store for the data directory configured in the context
+ */
+export const getPollResultStore = (context): PollResultStore => {
+  const filePath = path.join(getDataDir(context), "polls.json");
+  if (!stores.has(filePath)) {
+    stores.set(filePath, createJsonPollResultStore(filePath));
+  }
+  return stores.get(filePath);
+};
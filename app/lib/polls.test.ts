@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyReceivedPoll,
+  encodePollMessage,
+  parsePollMessage,
+  type Poll,
+} from "~/lib/polls";
+
+const poll = (overrides: Partial<Poll> = {}): Poll => ({
+  id: "poll-1",
+  question: "Lunch?",
+  options: ["Pizza", "Sushi"],
+  createdBy: "Ann",
+  votes: {},
+  closed: false,
+  ...overrides,
+});
+
+/**
+ * A poll as it arrives over the wire
+ */
+const receive = (sent: Poll) => {
+  const message = parsePollMessage(
+    encodePollMessage({ type: "poll", poll: sent })
+  );
+  if (message?.type !== "poll") throw new Error("Not a poll message");
+  return message.poll;
+};
+
+describe("applyReceivedPoll", () => {
+  it("starts a new poll open with no votes, whatever the copy says", () => {
+    const forged = receive(poll({ votes: { a: 0, b: 0, c: 0 }, closed: true }));
+
+    expect(applyReceivedPoll(undefined, forged, false)).toEqual(poll());
+  });
+
+  it("only takes a tally from its creator's or a moderator's closing copy", () => {
+    const known = poll({ votes: { a: 1 } });
+    const closing = receive(poll({ votes: { a: 1, b: 0 }, closed: true }));
+
+    expect(applyReceivedPoll(known, closing, false)).toBeNull();
+    expect(
+      applyReceivedPoll(known, poll({ votes: { b: 0 } }), true)
+    ).toBeNull();
+    expect(applyReceivedPoll(known, closing, true)).toEqual(
+      poll({ votes: { a: 1, b: 0 }, closed: true })
+    );
+    // Closed polls stay as they were
+    expect(applyReceivedPoll(poll({ closed: true }), closing, true)).toBeNull();
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Polls and reactions, sent between participants' browsers as Jitsi endpoint
+ * text messages
+ *
+ * Every message is JSON carrying the protocol name and version. Adding
+ * message types or optional fields keeps the version: receivers ignore types
+ * and fields they don't know, so older clients keep working next to newer
+ * ones. Only bump the version for changes older clients would misread.
+ */
+
+export const POLL_PROTOCOL = "jitsi-wrapper/polls";
+export const POLL_PROTOCOL_VERSION = 1;
+
+export const MAX_QUESTION_LENGTH = 200;
+export const MAX_OPTION_LENGTH = 100;
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+
+export const REACTIONS = ["👍", "👏", "😂", "🎉", "❤️", "🤔"] as const;
+
+export type Reaction = (typeof REACTIONS)[number];
+
+export interface Poll {
+  id: string;
+  question: string;
+  options: string[];
+  // Display name of whoever asked
+  createdBy: string;
+  // Option index per participant id; a new vote replaces the old one
+  votes: Record<string, number>;
+  closed: boolean;
+}
+
+/**
+ * What one message says
+ * "poll" carries the whole poll: sent when it is created, to people who
+ * join later, and when it closes; receivers start a new poll open with no
+ * votes, count "vote" messages after that, and only take a tally from the
+ * closing copy of its creator or a moderator (see applyReceivedPoll)
+ */
+export type PollMessage =
+  | { type: "poll"; poll: Poll }
+  | { type: "vote"; pollId: string; option: number }
+  | { type: "reaction"; reaction: Reaction };
+
+/**
+ * A poll's final tally, as saved on the server when the host closes it
+ */
+export interface PollResult {
+  id: string;
+  roomName: string;
+  question: string;
+  options: { label: string; votes: number }[];
+  totalVotes: number;
+  createdBy: string;
+  closedAt: string;
+}
+
+/**
+ * Checks a poll's question and options
+ *
+ * @returns An error message, or null when they are fine
+ */
+export const validatePoll = (question: string, options: string[]) => {
+  if (question.trim() === "") return "Please enter a question";
+  if (question.length > MAX_QUESTION_LENGTH) {
+    return `Questions can be at most ${MAX_QUESTION_LENGTH} characters`;
+  }
+  const filled = options.filter((option) => option.trim() !== "");
+  if (filled.length < MIN_POLL_OPTIONS || filled.length > MAX_POLL_OPTIONS) {
+    return `Polls need ${MIN_POLL_OPTIONS} to ${MAX_POLL_OPTIONS} options`;
+  }
+  if (filled.some((option) => option.length > MAX_OPTION_LENGTH)) {
+    return `Options can be at most ${MAX_OPTION_LENGTH} characters`;
+  }
+  return null;
+};
+
+/**
+ * Wraps a message in the protocol envelope, ready to send
+ */
+export const encodePollMessage = (message: PollMessage) =>
+  JSON.stringify({
+    protocol: POLL_PROTOCOL,
+    version: POLL_PROTOCOL_VERSION,
+    ...message,
+  });
+
+const parseEnvelope = (text: string) => {
+  try {
+    const data = JSON.parse(text);
+    return data?.protocol === POLL_PROTOCOL ? data : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether an endpoint text message belongs to this protocol, of any version
+ * Used to keep poll traffic out of places meant for people, like transcripts
+ */
+export const isPollProtocolText = (text: string) =>
+  parseEnvelope(text) !== null;
+
+const isPoll = (poll): poll is Poll =>
+  typeof poll?.id === "string" &&
+  typeof poll.question === "string" &&
+  typeof poll.createdBy === "string" &&
+  Array.isArray(poll.options) &&
+  poll.options.every((option) => typeof option === "string") &&
+  validatePoll(poll.question, poll.options) === null &&
+  typeof poll.votes === "object" &&
+  poll.votes !== null &&
+  Object.values(poll.votes).every(
+    (option) =>
+      Number.isInteger(option) &&
+      (option as number) >= 0 &&
+      (option as number) < poll.options.length
+  ) &&
+  typeof poll.closed === "boolean";
+
+/**
+ * Reads a received endpoint text message
+ *
+ * @returns The message, or null for other traffic, other protocol versions,
+ * unknown message types and malformed messages
+ */
+export const parsePollMessage = (text: string): PollMessage | null => {
+  const data = parseEnvelope(text);
+  if (data?.version !== POLL_PROTOCOL_VERSION) return null;
+
+  switch (data.type) {
+    case "poll":
+      return isPoll(data.poll)
+        ? {
+            type: "poll",
+            poll: {
+              id: data.poll.id,
+              question: data.poll.question,
+              options: data.poll.options,
+              createdBy: data.poll.createdBy,
+              votes: data.poll.votes,
+              closed: data.poll.closed,
+            },
+          }
+        : null;
+    case "vote":
+      return typeof data.pollId === "string" && Number.isInteger(data.option)
+        ? { type: "vote", pollId: data.pollId, option: data.option }
+        : null;
+    case "reaction":
+      return REACTIONS.includes(data.reaction)
+        ? { type: "reaction", reaction: data.reaction }
+        : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Works out our copy of a poll after someone sent theirs
+ * A poll we haven't seen starts open with no votes, whatever the copy says,
+ * so nobody can hand out a closed poll with a made-up tally. A known poll
+ * only changes when its creator or a moderator closes it; their tally then
+ * becomes the final one.
+ *
+ * @param known Our copy, or undefined for a new poll
+ * @param received The copy that came in
+ * @param fromCreatorOrModerator Whether it came from whoever sent the poll
+ * first, or from a moderator
+ * @returns The poll to keep, or null to ignore the copy
+ */
+export const applyReceivedPoll = (
+  known: Poll | undefined,
+  received: Poll,
+  fromCreatorOrModerator: boolean
+): Poll | null => {
+  if (!known) return { ...received, votes: {}, closed: false };
+  if (known.closed || !received.closed || !fromCreatorOrModerator) {
+    return null;
+  }
+  return { ...known, votes: received.votes, closed: true };
+};
+
+/**
+ * Counts a poll's votes per option
+ */
+export const tallyPoll = (poll: Poll) => {
+  const counts = poll.options.map(() => 0);
+  Object.values(poll.votes).forEach((option) => {
+    counts[option] += 1;
+  });
+  return counts;
+};
+
+/**
+ * Saves a closed poll's results for the room (host only)
+ *
+ * @param roomName The room the poll ran in
+ * @param poll The closed poll with its final votes
+ */
+export const savePollResult = async (roomName: string, poll: Poll) => {
+  const response = await fetch(`/api/polls/${roomName}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ poll }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || "Failed to save the poll results");
+  }
+};
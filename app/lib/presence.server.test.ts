@@ -0,0 +1,89 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { hashPasscode } from "~/lib/room-passcodes.server";
+import {
+  getRoomOccupancy,
+  getVisibleOccupancy,
+  recordPresenceHeartbeat,
+} from "~/lib/presence.server";
+import { addHostKey, getRoomStore } from "~/lib/rooms.server";
+
+const beat = (roomName: string, sessionId: string) =>
+  recordPresenceHeartbeat({
+    roomName,
+    sessionId,
+    displayName: `Guest ${sessionId}`,
+    status: "present",
+  });
+
+const leave = (roomName: string, sessionId: string) =>
+  recordPresenceHeartbeat({
+    roomName,
+    sessionId,
+    displayName: `Guest ${sessionId}`,
+    status: "leave",
+  });
+
+describe("presence", () => {
+  let dataDir: string;
+  let context;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), "presence-"));
+    context = { env: { DATA_DIR: dataDir } };
+  });
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("only lists rooms the viewer hosts or proved access to", async () => {
+    const rooms = getRoomStore(context);
+    const { hostKey } = await rooms.create("open-room", {
+      waitingRoom: false,
+      passcodeHash: null,
+    });
+    await rooms.create("locked-room", {
+      waitingRoom: false,
+      passcodeHash: await hashPasscode("secret"),
+    });
+    beat("open-room", "a");
+    beat("locked-room", "b");
+    // e.g. a breakout room whose session ended
+    beat("gone-room", "c");
+
+    const roomNames = async (cookieHeader: string | null) =>
+      (await getVisibleOccupancy(context, cookieHeader)).map(
+        (room) => room.roomName
+      );
+    const hostCookie = (await addHostKey(null, "open-room", hostKey)).split(
+      ";"
+    )[0];
+
+    expect(await roomNames(null)).toEqual([]);
+    expect(await roomNames(hostCookie)).toEqual(["open-room"]);
+
+    leave("open-room", "a");
+    leave("locked-room", "b");
+    leave("gone-room", "c");
+  });
+
+  it("turns new sessions away once a room is full", () => {
+    const sessionIds = Array.from({ length: 500 }, (_, index) => `s${index}`);
+    expect(sessionIds.every((sessionId) => beat("busy-room", sessionId))).toBe(
+      true
+    );
+
+    expect(beat("busy-room", "one-too-many")).toBe(false);
+    // Sessions already in the room keep beating
+    expect(beat("busy-room", "s0")).toBe(true);
+    expect(
+      getRoomOccupancy().find((room) => room.roomName === "busy-room")
+        ?.participantCount
+    ).toBe(500);
+
+    sessionIds.forEach((sessionId) => leave("busy-room", sessionId));
+  });
+});
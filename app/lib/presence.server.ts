@@ -0,0 +1,190 @@
+import {
+  PRESENCE_TTL_MS,
+  type PresenceHeartbeat,
+  type RoomOccupancy,
+} from "~/lib/presence";
+import { findBreakoutMainRoom } from "~/lib/breakout.server";
+import { canListRoom } from "~/lib/lobby.server";
+import { validateRoomName } from "~/lib/room-names";
+import { getRoomStore } from "~/lib/rooms.server";
+
+// Well above what one Jitsi conference holds; keeps made-up sessions in check
+const MAX_SESSIONS_PER_ROOM = 500;
+
+interface PresenceSession {
+  displayName: string;
+  joinedAt: string;
+  lastSeen: number;
+}
+
+interface RoomPresence {
+  startedAt: string;
+  sessions: Map<string, PresenceSession>;
+}
+
+// Presence lives in memory only; it is rebuilt from heartbeats after a restart
+const rooms = new Map<string, RoomPresence>();
+const listeners = new Set<(occupancy: RoomOccupancy[]) => void>();
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Parses and validates a heartbeat posted by a browser
+ */
+export const parsePresenceHeartbeat = (
+  body
+): { heartbeat: PresenceHeartbeat } | { error: string } => {
+  const roomName = typeof body?.roomName === "string" ? body.roomName : "";
+  const sessionId = typeof body?.sessionId === "string" ? body.sessionId : "";
+  const displayName =
+    typeof body?.displayName === "string"
+      ? body.displayName.trim().slice(0, 100)
+      : "";
+
+  if (validateRoomName(roomName)) return { error: "Invalid room name" };
+  if (!sessionId || sessionId.length > 100) {
+    return { error: "Invalid session id" };
+  }
+  if (!displayName) return { error: "displayName is required" };
+  if (body.status !== "present" && body.status !== "leave") {
+    return { error: "status must be present or leave" };
+  }
+
+  return {
+    heartbeat: { roomName, sessionId, displayName, status: body.status },
+  };
+};
+
+/**
+ * Returns who is in each active room, busiest rooms first
+ */
+export const getRoomOccupancy = (): RoomOccupancy[] =>
+  Array.from(rooms, ([roomName, room]) => ({
+    roomName,
+    startedAt: room.startedAt,
+    participantCount: room.sessions.size,
+    participants: Array.from(room.sessions.values())
+      .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt))
+      .map(({ displayName, joinedAt }) => ({ displayName, joinedAt })),
+  })).sort(
+    (a, b) =>
+      b.participantCount - a.participantCount ||
+      a.roomName.localeCompare(b.roomName)
+  );
+
+/**
+ * Leaves out the rooms the viewer may not see listed (see canListRoom)
+ * Breakout rooms go by their main room, and rooms without settings (e.g.
+ * from an ended breakout session) are left out.
+ *
+ * @param cookieHeader The viewer's Cookie header
+ * @param occupancy The occupancy to filter, by default the current one
+ */
+export const getVisibleOccupancy = async (
+  context,
+  cookieHeader: string | null | undefined,
+  occupancy = getRoomOccupancy()
+): Promise<RoomOccupancy[]> => {
+  const settings = await getRoomStore(context).list();
+  const visible = await Promise.all(
+    occupancy.map(async (entry) => {
+      const roomName =
+        (await findBreakoutMainRoom(context, entry.roomName)) ?? entry.roomName;
+      const room = settings.find((candidate) => candidate.name === roomName);
+      return !!room && (await canListRoom(context, cookieHeader, room));
+    })
+  );
+  return occupancy.filter((_entry, index) => visible[index]);
+};
+
+const notify = () => {
+  const occupancy = getRoomOccupancy();
+  listeners.forEach((listener) => listener(occupancy));
+};
+
+/**
+ * Drops sessions whose heartbeats stopped, e.g. after a crash or lost network
+ */
+const expireStalePresence = () => {
+  const cutoff = Date.now() - PRESENCE_TTL_MS;
+  let changed = false;
+
+  rooms.forEach((room, roomName) => {
+    room.sessions.forEach((session, sessionId) => {
+      if (session.lastSeen < cutoff) {
+        room.sessions.delete(sessionId);
+        changed = true;
+      }
+    });
+    if (room.sessions.size === 0) rooms.delete(roomName);
+  });
+
+  if (rooms.size === 0 && sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+  if (changed) notify();
+};
+
+/**
+ * Records a heartbeat and tells subscribers when occupancy changed
+ * Heartbeats that only confirm a session is still there don't notify
+ *
+ * @returns False when a new session was turned away because the room is full
+ */
+export const recordPresenceHeartbeat = ({
+  roomName,
+  sessionId,
+  displayName,
+  status,
+}: PresenceHeartbeat) => {
+  const room = rooms.get(roomName);
+
+  if (status === "leave") {
+    if (!room?.sessions.delete(sessionId)) return true;
+    if (room.sessions.size === 0) rooms.delete(roomName);
+    notify();
+    return true;
+  }
+  if (
+    room?.sessions.size >= MAX_SESSIONS_PER_ROOM &&
+    !room.sessions.has(sessionId)
+  ) {
+    return false;
+  }
+
+  const now = new Date();
+  if (!room) {
+    rooms.set(roomName, {
+      startedAt: now.toISOString(),
+      sessions: new Map(),
+    });
+  }
+  const sessions = rooms.get(roomName).sessions;
+  const existing = sessions.get(sessionId);
+  sessions.set(sessionId, {
+    displayName,
+    joinedAt: existing?.joinedAt ?? now.toISOString(),
+    lastSeen: now.getTime(),
+  });
+
+  if (!sweepTimer) {
+    sweepTimer = setInterval(expireStalePresence, PRESENCE_TTL_MS / 3);
+    sweepTimer.unref?.();
+  }
+  if (existing?.displayName !== displayName) notify();
+  return true;
+};
+
+/**
+ * Calls the listener with the full occupancy whenever it changes
+ *
+ * @returns A function that unsubscribes the listener
+ */
+export const subscribeToPresence = (
+  listener: (occupancy: RoomOccupancy[]) => void
+) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,89 @@
+import type { JitsiEventHandlers } from "~/types/jitsi";
+
+/**
+ * Live room presence, reported by each participant's browser and shown on
+ * the /rooms dashboard
+ */
+
+// How often a browser in a meeting reports that it is still there
+export const PRESENCE_HEARTBEAT_MS = 15000;
+
+// Presence expires after this long without a heartbeat (three missed beats)
+export const PRESENCE_TTL_MS = 3 * PRESENCE_HEARTBEAT_MS;
+
+export interface PresenceHeartbeat {
+  roomName: string;
+  // One browser tab's stay in the room
+  sessionId: string;
+  displayName: string;
+  // "leave" removes the session right away instead of waiting for it to expire
+  status: "present" | "leave";
+}
+
+/**
+ * Who is in a room right now
+ */
+export interface RoomOccupancy {
+  roomName: string;
+  // When the first of the current participants arrived
+  startedAt: string;
+  participantCount: number;
+  participants: { displayName: string; joinedAt: string }[];
+}
+
+/**
+ * Posts a presence heartbeat without waiting for the response
+ * Uses keepalive so the final "leave" still goes out when the tab closes
+ */
+export const sendPresenceHeartbeat = (heartbeat: PresenceHeartbeat) => {
+  fetch("/api/presence", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(heartbeat),
+    keepalive: true,
+  }).catch((error) => {
+    console.warn("Failed to report presence:", error);
+  });
+};
+
+interface PresenceReporterOptions {
+  roomName: string;
+  displayName: string;
+  sessionId?: string;
+  send?: (heartbeat: PresenceHeartbeat) => void;
+}
+
+/**
+ * Sends presence heartbeats for one browser session while it is in the
+ * conference; `close` reports the leave if the meeting was never left
+ */
+export const createPresenceReporter = ({
+  roomName,
+  displayName,
+  sessionId = crypto.randomUUID(),
+  send = sendPresenceHeartbeat,
+}: PresenceReporterOptions) => {
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const beat = (status: PresenceHeartbeat["status"]) =>
+    send({ roomName, sessionId, displayName, status });
+
+  const handleLeft = () => {
+    if (!timer) return;
+    clearInterval(timer);
+    timer = null;
+    beat("leave");
+  };
+
+  const handlers: JitsiEventHandlers = {
+    videoConferenceJoined: () => {
+      // Reconnects join again without an explicit leave in between
+      if (timer) return;
+      beat("present");
+      timer = setInterval(() => beat("present"), PRESENCE_HEARTBEAT_MS);
+    },
+    videoConferenceLeft: handleLeft,
+  };
+
+  return { handlers, close: handleLeft };
+};
@@ -0,0 +1,148 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import path from "node:path";
+import { getServerEnv } from "~/lib/config.server";
+import { createJsonCollection, getDataDir } from "~/lib/json-store.server";
+import type { Recording } from "~/lib/recordings";
+import type { JitsiRecordingMode } from "~/types/jitsi";
+
+/**
+ * Persistence for the recordings catalog
+ */
+export interface RecordingStore {
+  listByRoom(roomName: string): Promise<Recording[]>;
+  /**
+   * Opens an entry, unless one is already open for the room and mode
+   */
+  start(
+    roomName: string,
+    mode: JitsiRecordingMode,
+    startedBy: string
+  ): Promise<Recording>;
+  /**
+   * Closes the open entry for the room and mode, if there is one
+   */
+  stop(roomName: string, mode: JitsiRecordingMode): Promise<Recording | null>;
+  /**
+   * Adds a finished file to the room's newest file recording that has none,
+   * or catalogs it on its own when there is no such recording
+   */
+  addFile(roomName: string, fileUrl: string): Promise<Recording>;
+}
+
+/**
+ * Creates a recording store backed by a JSON file
+ *
+ * @param filePath Path of the JSON file holding the catalog
+ */
+export const createJsonRecordingStore = (filePath: string): RecordingStore => {
+  const collection = createJsonCollection<Recording>(filePath);
+
+  const isOpen =
+    (roomName: string, mode: JitsiRecordingMode) => (recording: Recording) =>
+      recording.roomName === roomName &&
+      recording.mode === mode &&
+      recording.endedAt === null;
+
+  return {
+    listByRoom: async (roomName) =>
+      (await collection.read()).filter(
+        (recording) => recording.roomName === roomName
+      ),
+
+    start: (roomName, mode, startedBy) =>
+      collection.update((recordings) => {
+        const existing = recordings.find(isOpen(roomName, mode));
+        if (existing) return { items: recordings, result: existing };
+
+        const recording: Recording = {
+          id: randomUUID(),
+          roomName,
+          mode,
+          startedBy,
+          startedAt: new Date().toISOString(),
+          endedAt: null,
+          fileUrl: null,
+        };
+        return { items: [...recordings, recording], result: recording };
+      }),
+
+    stop: (roomName, mode) =>
+      collection.update((recordings) => {
+        const existing = recordings.find(isOpen(roomName, mode));
+        if (!existing) return { items: recordings, result: null };
+
+        const stopped = { ...existing, endedAt: new Date().toISOString() };
+        return {
+          items: recordings.map((recording) =>
+            recording.id === existing.id ? stopped : recording
+          ),
+          result: stopped,
+        };
+      }),
+
+    addFile: (roomName, fileUrl) =>
+      collection.update((recordings) => {
+        const existing = recordings
+          .filter(
+            (recording) =>
+              recording.roomName === roomName &&
+              recording.mode === "file" &&
+              recording.fileUrl === null
+          )
+          .pop();
+        if (existing) {
+          const updated = {
+            ...existing,
+            // Jibri only finishes the file after the recording stopped
+            endedAt: existing.endedAt ?? new Date().toISOString(),
+            fileUrl,
+          };
+          return {
+            items: recordings.map((recording) =>
+              recording.id === existing.id ? updated : recording
+            ),
+            result: updated,
+          };
+        }
+
+        const now = new Date().toISOString();
+        const recording: Recording = {
+          id: randomUUID(),
+          roomName,
+          mode: "file",
+          startedBy: "Recording service",
+          startedAt: now,
+          endedAt: now,
+          fileUrl,
+        };
+        return { items: [...recordings, recording], result: recording };
+      }),
+  };
+};
+
+const stores = new Map<string, RecordingStore>();
+
+/**
+ * Returns the recording store for the data directory configured in the context
+ */
+export const getRecordingStore = (context): RecordingStore => {
+  const filePath = path.join(getDataDir(context), "recordings.json");
+  if (!stores.has(filePath)) {
+    stores.set(filePath, createJsonRecordingStore(filePath));
+  }
+  return stores.get(filePath);
+};
+
+/**
+ * Whether a request comes from the recording service, which authenticates
+ * with `Authorization: Bearer <RECORDING_SERVICE_SECRET>`
+ * Always false while no secret is configured
+ */
+export const isRecordingServiceRequest = (context, request: Request) => {
+  const secret = getServerEnv(context).RECORDING_SERVICE_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get("Authorization") ?? "");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,54 @@
+import type { JitsiRecordingMode } from "~/types/jitsi";
+
+/**
+ * A file recording or live stream of a room, as kept in the catalog
+ * Entries are opened and closed by the host's browser as Jitsi reports the
+ * recording status; the recording service adds the file once Jibri is done
+ */
+export interface Recording {
+  id: string;
+  roomName: string;
+  mode: JitsiRecordingMode;
+  // Display name of the host who started it
+  startedBy: string;
+  startedAt: string;
+  endedAt: string | null;
+  // Where the finished file can be downloaded, once the service reports it
+  fileUrl: string | null;
+}
+
+export const RECORDING_MODE_LABELS: Record<JitsiRecordingMode, string> = {
+  file: "Recording",
+  stream: "Live stream",
+};
+
+/**
+ * Tells the catalog that a recording or stream started or stopped
+ * Only the room's host may do this; failures are logged, not thrown, since
+ * the recording itself carries on either way
+ *
+ * @param roomName The room being recorded
+ * @param mode Whether it is a file recording or a live stream
+ * @param on Whether it started or stopped
+ * @param displayName The host's display name
+ */
+export const reportRecordingStatus = async (
+  roomName: string,
+  mode: JitsiRecordingMode,
+  on: boolean,
+  displayName: string
+) => {
+  try {
+    const response = await fetch(`/api/recordings/${roomName}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ mode, on, displayName }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || response.statusText);
+    }
+  } catch (error) {
+    console.error("Failed to update the recordings catalog:", error);
+  }
+};
@@ -0,0 +1,100 @@
+/**
+ * Room name generation and validation shared by the routes and the server
+ *
+ * Canonical room names are lowercase ASCII words separated by single dashes,
+ * e.g. "quiet-otter-sings-4k7m2x9p". They are used as-is for the Jitsi room
+ * name and the /room/:roomId path segment.
+ */
+
+export const MIN_ROOM_NAME_LENGTH = 3;
+export const MAX_ROOM_NAME_LENGTH = 64;
+
+const ROOM_NAME_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// 64 words per list, so each word adds 6 bits of entropy
+const ADJECTIVES = (
+  "amber ancient bold brave bright brisk calm clever cosmic crisp " +
+  "curious daring dusty eager early fancy fierce gentle giant golden " +
+  "grand happy hidden humble icy jolly kind lively lucky mellow misty " +
+  "modern noble odd patient plucky polite proud quick quiet rapid rare " +
+  "royal rustic shiny silent silver simple sleepy smooth snowy solar " +
+  "spicy steady sunny swift tidy tiny urban vivid warm wild witty young"
+).split(" ");
+
+const NOUNS = (
+  "anchor badger beacon birch canyon cedar comet coral crane delta " +
+  "dolphin eagle ember falcon fern fjord forest fox glacier harbor hawk " +
+  "heron island jaguar kettle lagoon lantern lemur lynx maple meadow " +
+  "meteor nebula oasis orchid otter owl panda pebble pelican pine " +
+  "planet prairie quartz raven reef river robin saddle salmon summit " +
+  "tiger trail tulip tundra valley violet walrus willow wombat yak " +
+  "zebra zephyr harvest"
+).split(" ");
+
+const VERBS = (
+  "bakes blinks bounces builds calls carves chases climbs dances dives " +
+  "drifts dreams fetches floats flies gallops glides glows grins hikes " +
+  "hops hums jogs juggles jumps knits laughs leaps listens marches nods " +
+  "paints paddles plays ponders races reads rests roams rolls rows runs " +
+  "sails sings skates skips sleeps slides smiles sparkles spins sprints " +
+  "strolls surfs swims swings thinks travels twirls waits wanders waves " +
+  "whistles writes"
+).split(" ");
+
+// Unambiguous lowercase alphabet (no 0/o, 1/l) for the random suffix
+const SUFFIX_ALPHABET = "23456789abcdefghijkmnpqrstuvwxyz";
+const SUFFIX_LENGTH = 8;
+
+/**
+ * Returns cryptographically random integers below the given bound
+ */
+const randomIndexes = (count: number, bound: number) => {
+  const values = new Uint32Array(count);
+  crypto.getRandomValues(values);
+  return Array.from(values, (value) => value % bound);
+};
+
+/**
+ * Generates a readable but hard to guess room name
+ * Three words (18 bits) plus an 8 character suffix (40 bits)
+ */
+export const generateRoomId = () => {
+  const [adjective, noun, verb] = randomIndexes(3, 64);
+  const suffix = randomIndexes(SUFFIX_LENGTH, SUFFIX_ALPHABET.length)
+    .map((index) => SUFFIX_ALPHABET[index])
+    .join("");
+
+  return [ADJECTIVES[adjective], NOUNS[noun], VERBS[verb], suffix].join("-");
+};
+
+/**
+ * Turns free text into a canonical room name
+ * "Team Sync (Q3)" becomes "team-sync-q3"; accents are stripped
+ */
+export const normalizeRoomName = (input: string) =>
+  input
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_ROOM_NAME_LENGTH)
+    .replace(/-+$/, "");
+
+/**
+ * Checks a canonical room name
+ *
+ * @returns An error message, or null when the name is valid
+ */
+export const validateRoomName = (name: string) => {
+  if (name.length < MIN_ROOM_NAME_LENGTH) {
+    return `Room names need at least ${MIN_ROOM_NAME_LENGTH} letters or digits`;
+  }
+  if (name.length > MAX_ROOM_NAME_LENGTH) {
+    return `Room names can be at most ${MAX_ROOM_NAME_LENGTH} characters`;
+  }
+  if (!ROOM_NAME_PATTERN.test(name)) {
+    return "Room names can only contain letters, digits and dashes";
+  }
+  return null;
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { checkRoomPasscode, hashPasscode } from "~/lib/room-passcodes.server";
+import type { RoomSettings } from "~/lib/rooms.server";
+
+const createRoom = async (name: string): Promise<RoomSettings> => {
+  const now = new Date().toISOString();
+  return {
+    name,
+    waitingRoom: false,
+    passcodeHash: await hashPasscode("open sesame"),
+    hostKeyHash: "",
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+describe("checkRoomPasscode", () => {
+  it("accepts the right passcode", async () => {
+    const room = await createRoom("team-sync");
+    const context = { clientAddress: "10.0.0.1" };
+
+    expect(await checkRoomPasscode(context, room, "nope")).toMatchObject({
+      ok: false,
+      error: "Wrong passcode",
+    });
+    expect(await checkRoomPasscode(context, room, "open sesame")).toEqual({
+      ok: true,
+    });
+  });
+
+  it("limits wrong guesses sent in parallel", async () => {
+    const room = await createRoom("standup");
+    const context = { clientAddress: "10.0.0.2" };
+
+    const results = await Promise.all(
+      Array.from({ length: 10 }, (_, guess) =>
+        checkRoomPasscode(context, room, `guess-${guess}`)
+      )
+    );
+
+    // Only the first five are checked; the rest are turned away
+    expect(
+      results.filter((result) => "error" in result && !result.retryAfterSeconds)
+    ).toHaveLength(5);
+    expect(await checkRoomPasscode(context, room, "open sesame")).toMatchObject(
+      { ok: false, retryAfterSeconds: expect.any(Number) }
+    );
+  });
+});
@@ -0,0 +1,148 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createCookie } from "@remix-run/node";
+import {
+  createAttemptLimiter,
+  hashSecret,
+  verifySecret,
+} from "~/lib/credentials.server";
+import { isRoomHost, type RoomSettings } from "~/lib/rooms.server";
+
+const KEY_LENGTH = 32;
+
+// Each visitor may get a room's passcode wrong this many times per window
+const MAX_FAILED_ATTEMPTS = 5;
+const FAILED_ATTEMPTS_WINDOW_MS = 15 * 60 * 1000;
+
+// Recent attempts per room and visitor address
+const passcodeAttempts = createAttemptLimiter(
+  MAX_FAILED_ATTEMPTS,
+  FAILED_ATTEMPTS_WINDOW_MS
+);
+
+/**
+ * Hashes a passcode for storage as "scrypt$<salt>$<hash>"
+ */
+export const hashPasscode = (passcode: string) =>
+  hashSecret(passcode, KEY_LENGTH);
+
+export type PasscodeCheck =
+  | { ok: true }
+  | { ok: false; error: string; retryAfterSeconds?: number };
+
+/**
+ * Checks a visitor's passcode for a room, rate limiting wrong attempts
+ * per room and client address
+ *
+ * @param context The load context; its clientAddress identifies the visitor
+ * @param room The room, which must have a passcode
+ * @param passcode What the visitor entered
+ */
+export const checkRoomPasscode = async (
+  context,
+  room: RoomSettings,
+  passcode: string
+): Promise<PasscodeCheck> => {
+  const key = `${room.name}:${context?.clientAddress ?? "unknown"}`;
+  const attempt = passcodeAttempts.reserve(key);
+  if (attempt.ok === false) {
+    return {
+      ok: false,
+      error: "Too many wrong passcodes. Please try again later.",
+      retryAfterSeconds: attempt.retryAfterSeconds,
+    };
+  }
+
+  if (await verifySecret(passcode, room.passcodeHash)) {
+    passcodeAttempts.reset(key);
+    return { ok: true };
+  }
+  return { ok: false, error: "Wrong passcode" };
+};
+
+/**
+ * The password the host locks the Jitsi room with, for rooms whose host
+ * chose to; null otherwise
+ * Derived from the stored passcode hash, so the app can hand it to everyone
+ * it lets in without keeping the passcode itself, and it changes along with
+ * the passcode
+ */
+export const getJitsiRoomPassword = (room: RoomSettings | null) =>
+  room?.passcodeHash && room.lockJitsiRoom
+    ? createHmac("sha256", room.passcodeHash)
+        .update(`jitsi-lock:${room.name}`)
+        .digest("base64url")
+        .slice(0, 24)
+    : null;
+
+// Rooms a browser has entered a passcode for; older passes fall off
+const MAX_ROOM_PASSES = 50;
+
+/**
+ * Remembers which passcode-protected rooms this browser may enter
+ * Each pass is an HMAC of the room name keyed with the stored passcode hash,
+ * so it can't be forged and stops working when the passcode changes
+ */
+const roomPassesCookie = createCookie("jitsi_room_passes", {
+  httpOnly: true,
+  sameSite: "lax",
+  path: "/",
+  maxAge: 60 * 60 * 24 * 30,
+});
+
+const signRoomPass = (room: RoomSettings) =>
+  createHmac("sha256", room.passcodeHash).update(room.name).digest("hex");
+
+const getRoomPasses = async (
+  cookieHeader: string | null | undefined
+): Promise<Record<string, string>> => {
+  const passes = await roomPassesCookie.parse(cookieHeader ?? null);
+  return passes && typeof passes === "object" ? passes : {};
+};
+
+/**
+ * Returns a Set-Cookie header value that lets this browser into the room
+ */
+export const addRoomPass = async (
+  cookieHeader: string | null | undefined,
+  room: RoomSettings
+) => {
+  const { [room.name]: _previous, ...passes } = await getRoomPasses(
+    cookieHeader
+  );
+  const entries = [...Object.entries(passes), [room.name, signRoomPass(room)]];
+  return roomPassesCookie.serialize(
+    Object.fromEntries(entries.slice(-MAX_ROOM_PASSES))
+  );
+};
+
+/**
+ * Whether the request may enter the room as far as its passcode goes
+ * Always true for rooms without a passcode; hosts are checked separately
+ *
+ * @param cookieHeader The request's Cookie header
+ * @param room The room's settings, or null for rooms nobody created
+ */
+export const hasRoomPass = async (
+  cookieHeader: string | null | undefined,
+  room: RoomSettings | null
+) => {
+  if (!room?.passcodeHash) return true;
+  const pass = (await getRoomPasses(cookieHeader))[room.name];
+  if (typeof pass !== "string") return false;
+
+  const expected = Buffer.from(signRoomPass(room), "hex");
+  const actual = Buffer.from(pass, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+/**
+ * Whether the request may see the room: its host, anyone who entered the
+ * passcode, or anyone at all when the room has no passcode
+ */
+export const canEnterRoom = async (
+  context,
+  cookieHeader: string | null | undefined,
+  room: RoomSettings | null
+) =>
+  (await hasRoomPass(cookieHeader, room)) ||
+  (await isRoomHost(context, cookieHeader, room));
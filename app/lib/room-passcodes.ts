@@ -0,0 +1,22 @@
+/**
+ * Room passcode rules shared by the join forms and the server
+ */
+
+export const MIN_PASSCODE_LENGTH = 4;
+export const MAX_PASSCODE_LENGTH = 64;
+
+/**
+ * Validates a new room passcode
+ *
+ * @param passcode The passcode the host picked
+ * @returns An error message, or null when the passcode is acceptable
+ */
+export const validatePasscode = (passcode: string): string | null => {
+  if (passcode.length < MIN_PASSCODE_LENGTH) {
+    return `Passcode must be at least ${MIN_PASSCODE_LENGTH} characters`;
+  }
+  if (passcode.length > MAX_PASSCODE_LENGTH) {
+    return `Passcode must be at most ${MAX_PASSCODE_LENGTH} characters`;
+  }
+  return null;
+};
@@ -0,0 +1,40 @@
+interface RoomSettingsResponse {
+  waitingRoom: boolean;
+  hasPasscode: boolean;
+  lockJitsiRoom: boolean;
+  isHost: boolean;
+  // For the host to lock the Jitsi room with; see getJitsiRoomPassword
+  jitsiPassword: string | null;
+  error?: string;
+}
+
+/**
+ * Claims a room for this browser, or updates its settings when we host it
+ * Other browsers get the current settings back unchanged
+ * An empty passcode removes it; leave it (or waitingRoom, or lockJitsiRoom)
+ * out to keep the current one
+ *
+ * @param roomName The room to claim or update
+ * @param settings The settings the host wants
+ */
+export const saveRoomSettings = async (
+  roomName: string,
+  settings: {
+    waitingRoom?: boolean;
+    passcode?: string;
+    lockJitsiRoom?: boolean;
+  }
+): Promise<RoomSettingsResponse> => {
+  const response = await fetch(`/api/rooms/${roomName}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(settings),
+  });
+  const data: RoomSettingsResponse = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to save the room settings");
+  }
+
+  return data;
+};
@@ -0,0 +1,184 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import path from "node:path";
+import { createCookie } from "@remix-run/node";
+import { createJsonCollection, getDataDir } from "~/lib/json-store.server";
+import { getSessionUserId } from "~/lib/sessions.server";
+
+/**
+ * Per-room settings, created by whoever first starts or schedules the room
+ * The creator's browser receives the host key; only its hash is stored.
+ * A creator who was signed in also owns the room from any browser.
+ */
+export interface RoomSettings {
+  name: string;
+  // Guests knock and wait for a host to admit them
+  waitingRoom: boolean;
+  // Visitors must enter the passcode first (see room-passcodes.server.ts)
+  passcodeHash: string | null;
+  // Also lock the Jitsi room itself; missing on rooms created before this
+  lockJitsiRoom?: boolean;
+  hostKeyHash: string;
+  // Account of the signed-in creator; missing on rooms created before sign-in
+  ownerId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RoomSettingsInput = Pick<
+  RoomSettings,
+  "waitingRoom" | "passcodeHash" | "lockJitsiRoom"
+>;
+
+/**
+ * Persistence for room settings
+ */
+export interface RoomStore {
+  list(): Promise<RoomSettings[]>;
+  get(name: string): Promise<RoomSettings | null>;
+  /**
+   * Creates the room unless it exists; the host key is only returned when
+   * this call created it
+   */
+  create(
+    name: string,
+    input: RoomSettingsInput,
+    ownerId?: string | null
+  ): Promise<{ room: RoomSettings; hostKey: string | null }>;
+  update(
+    name: string,
+    input: Partial<RoomSettingsInput>
+  ): Promise<RoomSettings | null>;
+}
+
+const hashKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+/**
+ * Creates a room store backed by a JSON file
+ *
+ * @param filePath Path of the JSON file holding the rooms
+ */
+export const createJsonRoomStore = (filePath: string): RoomStore => {
+  const collection = createJsonCollection<RoomSettings>(filePath);
+
+  return {
+    list: () => collection.read(),
+
+    get: async (name) =>
+      (await collection.read()).find((room) => room.name === name) ?? null,
+
+    create: (name, input, ownerId = null) =>
+      collection.update((rooms) => {
+        const existing = rooms.find((room) => room.name === name);
+        if (existing) {
+          return { items: rooms, result: { room: existing, hostKey: null } };
+        }
+
+        const hostKey = randomBytes(24).toString("base64url");
+        const now = new Date().toISOString();
+        const room: RoomSettings = {
+          ...input,
+          name,
+          hostKeyHash: hashKey(hostKey),
+          ownerId,
+          createdAt: now,
+          updatedAt: now,
+        };
+        return { items: [...rooms, room], result: { room, hostKey } };
+      }),
+
+    update: (name, input) =>
+      collection.update((rooms) => {
+        const existing = rooms.find((room) => room.name === name);
+        if (!existing) return { items: rooms, result: null };
+
+        const updated: RoomSettings = {
+          ...existing,
+          ...input,
+          updatedAt: new Date().toISOString(),
+        };
+        return {
+          items: rooms.map((room) => (room.name === name ? updated : room)),
+          result: updated,
+        };
+      }),
+  };
+};
+
+const stores = new Map<string, RoomStore>();
+
+/**
+ * Returns the room store for the data directory configured in the context
+ */
+export const getRoomStore = (context): RoomStore => {
+  const filePath = path.join(getDataDir(context), "rooms.json");
+  if (!stores.has(filePath)) {
+    stores.set(filePath, createJsonRoomStore(filePath));
+  }
+  return stores.get(filePath);
+};
+
+// Rooms a browser hosts, newest last; older keys fall off past this limit
+const MAX_HOST_KEYS = 20;
+
+/**
+ * Holds the host keys of the rooms this browser created, keyed by room name
+ * Keys are verified against the stored hashes, so the cookie needs no signing
+ */
+const hostKeysCookie = createCookie("jitsi_host_keys", {
+  httpOnly: true,
+  sameSite: "lax",
+  path: "/",
+  maxAge: 60 * 60 * 24 * 90,
+});
+
+/**
+ * Reads the host keys from a Cookie header
+ */
+export const getHostKeys = async (
+  cookieHeader: string | null | undefined
+): Promise<Record<string, string>> => {
+  const keys = await hostKeysCookie.parse(cookieHeader ?? null);
+  return keys && typeof keys === "object" ? keys : {};
+};
+
+/**
+ * Returns a Set-Cookie header value that adds a room's host key
+ */
+export const addHostKey = async (
+  cookieHeader: string | null | undefined,
+  roomName: string,
+  hostKey: string
+) => {
+  const { [roomName]: _previous, ...keys } = await getHostKeys(cookieHeader);
+  const entries = [...Object.entries(keys), [roomName, hostKey]];
+  return hostKeysCookie.serialize(
+    Object.fromEntries(entries.slice(-MAX_HOST_KEYS))
+  );
+};
+
+/**
+ * Whether the request comes from the room's host: its signed-in owner, or
+ * the browser that created it
+ *
+ * @param cookieHeader The request's Cookie header
+ * @param room The room's settings, or null for rooms nobody created
+ */
+export const isRoomHost = async (
+  context,
+  cookieHeader: string | null | undefined,
+  room: RoomSettings | null
+) => {
+  if (!room) return false;
+  if (
+    room.ownerId &&
+    room.ownerId === (await getSessionUserId(context, cookieHeader))
+  ) {
+    return true;
+  }
+  const key = (await getHostKeys(cookieHeader))[room.name];
+  if (typeof key !== "string") return false;
+
+  const expected = Buffer.from(room.hostKeyHash, "hex");
+  const actual = Buffer.from(hashKey(key), "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
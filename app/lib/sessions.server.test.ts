@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { safeRedirectPath } from "~/lib/sessions.server";
+
+describe("safeRedirectPath", () => {
+  it("keeps paths on this site", () => {
+    expect(safeRedirectPath("/room/team-sync?server=x#chat")).toBe(
+      "/room/team-sync?server=x#chat"
+    );
+    expect(safeRedirectPath("/meetings/../account")).toBe("/account");
+  });
+
+  it("falls back to the home page for anything leaving the site", () => {
+    [
+      null,
+      "https://evil.com",
+      "evil.com",
+      "//evil.com",
+      "/\\evil.com",
+      "/\\\\evil.com",
+      "/\t/evil.com",
+      "/\n/evil.com",
+      "//[::1",
+    ].forEach((to) => expect(safeRedirectPath(to)).toBe("/"));
+  });
+});
@@ -0,0 +1,217 @@
+import { randomBytes } from "node:crypto";
+import {
+  createCookieSessionStorage,
+  redirect,
+  type SessionStorage,
+} from "@remix-run/node";
+import { getServerEnv } from "~/lib/config.server";
+import type { OidcSignInState } from "~/lib/oidc.server";
+import { normalizeEmail } from "~/lib/users";
+import {
+  getUserStore,
+  toPublicUser,
+  type StoredUser,
+} from "~/lib/users.server";
+
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30;
+
+// Used when SESSION_SECRET is unset; sessions then end with the process
+let generatedSecret: string | null = null;
+
+/**
+ * The secret signing session cookies, also used for other signed cookies
+ */
+export const getSessionSecret = (context) => {
+  const secret = getServerEnv(context).SESSION_SECRET;
+  if (secret) return secret;
+
+  if (!generatedSecret) {
+    console.warn(
+      "SESSION_SECRET is not set; sign-ins will not survive a restart"
+    );
+    generatedSecret = randomBytes(32).toString("base64url");
+  }
+  return generatedSecret;
+};
+
+interface SessionData {
+  userId: string;
+  // The account's sessionVersion at sign-in
+  sessionVersion: number;
+}
+
+interface SessionFlashData {
+  // Between /auth/oidc and the provider sending the visitor back
+  oidcSignIn: OidcSignInState;
+}
+
+type AppSessionStorage = SessionStorage<SessionData, SessionFlashData>;
+
+const storages = new Map<string, AppSessionStorage>();
+
+/**
+ * Returns the cookie session storage signed with the configured secret
+ * Sessions hold the signed-in user's id, and briefly the OIDC sign-in state
+ */
+export const getSessionStorage = (context): AppSessionStorage => {
+  const secret = getSessionSecret(context);
+  if (!storages.has(secret)) {
+    storages.set(
+      secret,
+      createCookieSessionStorage<SessionData, SessionFlashData>({
+        cookie: {
+          name: "jitsi_session",
+          httpOnly: true,
+          sameSite: "lax",
+          path: "/",
+          secure: process.env.NODE_ENV === "production",
+          maxAge: SESSION_MAX_AGE_SECONDS,
+          secrets: [secret],
+        },
+      })
+    );
+  }
+  return storages.get(secret);
+};
+
+/**
+ * Reads the session from a Cookie header
+ */
+export const getSession = (context, cookieHeader: string | null | undefined) =>
+  getSessionStorage(context).getSession(cookieHeader ?? null);
+
+/**
+ * The signed-in account with its credentials, or null for guests, deleted
+ * accounts and sessions signed out since
+ */
+const getSessionStoredUser = async (
+  context,
+  cookieHeader: string | null | undefined
+): Promise<StoredUser | null> => {
+  const session = await getSession(context, cookieHeader);
+  const userId = session.get("userId");
+  if (typeof userId !== "string") return null;
+
+  const user = await getUserStore(context).get(userId);
+  return user && user.sessionVersion === (session.get("sessionVersion") ?? 0)
+    ? user
+    : null;
+};
+
+/**
+ * The id of the signed-in user
+ */
+export const getSessionUserId = async (
+  context,
+  cookieHeader: string | null | undefined
+): Promise<string | null> =>
+  (await getSessionStoredUser(context, cookieHeader))?.id ?? null;
+
+/**
+ * The signed-in user, or null for guests and deleted accounts
+ */
+export const getSessionUser = async (
+  context,
+  cookieHeader: string | null | undefined
+) => {
+  const user = await getSessionStoredUser(context, cookieHeader);
+  return user ? toPublicUser(user) : null;
+};
+
+/**
+ * Returns the signed-in user, or throws a redirect to the sign-in page that
+ * comes back here afterwards
+ */
+export const requireUser = async (context, request: Request) => {
+  const user = await getSessionUser(context, request.headers.get("Cookie"));
+  if (!user) {
+    const { pathname, search } = new URL(request.url);
+    throw redirect(
+      `/login?${new URLSearchParams({ redirectTo: pathname + search })}`
+    );
+  }
+  return user;
+};
+
+/**
+ * Returns the signed-in user when their email is listed in ADMIN_EMAILS and
+ * was verified by the OIDC provider, since anyone can sign up with any email
+ * Guests are sent to sign in; other accounts get a 403
+ */
+export const requireAdmin = async (context, request: Request) => {
+  const user = await requireUser(context, request);
+  const stored = await getUserStore(context).get(user.id);
+  const admins = String(getServerEnv(context).ADMIN_EMAILS ?? "")
+    .split(",")
+    .map(normalizeEmail)
+    .filter(Boolean);
+  if (!stored?.emailVerified || !admins.includes(user.email)) {
+    throw new Response("Only administrators can see this page", {
+      status: 403,
+    });
+  }
+  return user;
+};
+
+// Browsers read backslashes as slashes and skip control characters, so
+// "/\evil.com" or "/\t/evil.com" would leave the site
+const hasUnsafeCharacters = (path: string) =>
+  Array.from(path).some((char) => {
+    const code = char.charCodeAt(0);
+    return char === "\\" || code < 0x20 || code === 0x7f;
+  });
+
+/**
+ * Only allows redirects to paths on this site, falling back to the home page
+ * The path is resolved like a browser would and must stay on the same origin
+ */
+export const safeRedirectPath = (to: FormDataEntryValue | string | null) => {
+  if (
+    typeof to !== "string" ||
+    !to.startsWith("/") ||
+    hasUnsafeCharacters(to)
+  ) {
+    return "/";
+  }
+  const base = new URL("http://localhost");
+  try {
+    const url = new URL(to, base);
+    if (url.origin === base.origin) return url.pathname + url.search + url.hash;
+  } catch {
+    // e.g. "//[::1" names an invalid host
+  }
+  return "/";
+};
+
+/**
+ * Signs a user in and redirects
+ *
+ * @param request The request whose session to sign in
+ * @param user The account to sign in as
+ * @param redirectTo Where to go next; only paths on this site are followed
+ */
+export const createUserSession = async (
+  context,
+  request: Request,
+  user: Pick<StoredUser, "id" | "sessionVersion">,
+  redirectTo: string | null
+) => {
+  const storage = getSessionStorage(context);
+  const session = await storage.getSession(request.headers.get("Cookie"));
+  session.set("userId", user.id);
+  session.set("sessionVersion", user.sessionVersion);
+  return redirect(safeRedirectPath(redirectTo), {
+    headers: { "Set-Cookie": await storage.commitSession(session) },
+  });
+};
+
+/**
+ * Signs the user out and redirects to the home page
+ */
+export const destroyUserSession = async (context, request: Request) => {
+  const storage = getSessionStorage(context);
+  const session = await storage.getSession(request.headers.get("Cookie"));
+  return redirect("/", {
+    headers: { "Set-Cookie": await storage.destroySession(session) },
+  });
+};
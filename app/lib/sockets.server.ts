@@ -0,0 +1,63 @@
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+import { WebSocketServer } from "ws";
+import { handleBreakoutConnection } from "~/lib/breakout.server";
+import { handleChatConnection } from "~/lib/chat.server";
+import { handleLobbyConnection } from "~/lib/lobby.server";
+import { handleNotesConnection } from "~/lib/notes.server";
+
+// Frames larger than this are rejected before they reach a handler
+const MAX_FRAME_BYTES = 64 * 1024;
+
+const webSocketServer = new WebSocketServer({
+  noServer: true,
+  maxPayload: MAX_FRAME_BYTES,
+});
+
+/**
+ * WebSocket endpoints, matched against the request path in order
+ */
+const SOCKET_ROUTES: {
+  pattern: RegExp;
+  handle: typeof handleChatConnection;
+}[] = [
+  { pattern: /^\/ws\/chat\/([^/]+)$/, handle: handleChatConnection },
+  { pattern: /^\/ws\/lobby\/([^/]+)$/, handle: handleLobbyConnection },
+  { pattern: /^\/ws\/breakout\/([^/]+)$/, handle: handleBreakoutConnection },
+  { pattern: /^\/ws\/notes\/([^/]+)$/, handle: handleNotesConnection },
+];
+
+/**
+ * Handles an HTTP upgrade request from the Express server in server.js
+ * Exported from entry.server so server.js can reach it through the build
+ *
+ * @param request The upgrade request
+ * @param socket The underlying TCP socket
+ * @param head The first packet of the upgraded stream
+ * @param context The same load context loaders and actions receive
+ */
+export const handleUpgrade = (
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  context
+) => {
+  const { pathname } = new URL(request.url, "http://localhost");
+  for (const { pattern, handle } of SOCKET_ROUTES) {
+    const match = pathname.match(pattern);
+    if (!match) continue;
+
+    webSocketServer.handleUpgrade(request, socket, head, (webSocket) => {
+      handle(webSocket, request, decodeURIComponent(match[1]), context).catch(
+        (error) => {
+          console.error(`WebSocket handler for ${pathname} failed:`, error);
+          webSocket.close(1011, "Internal error");
+        }
+      );
+    });
+    return;
+  }
+
+  socket.write("HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n");
+  socket.destroy();
+};
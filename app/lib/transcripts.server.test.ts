@@ -0,0 +1,170 @@
+import { randomUUID } from "node:crypto";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { TranscriptEntry } from "~/lib/transcripts";
+import {
+  createJsonTranscriptStore,
+  readTranscriptBatch,
+} from "~/lib/transcripts.server";
+
+const ANN = "00000000-0000-4000-8000-000000000001";
+const BOB = "00000000-0000-4000-8000-000000000002";
+
+const entry = (
+  text: string,
+  at = new Date().toISOString(),
+  speaker = "Ann"
+): TranscriptEntry => ({
+  at,
+  speaker,
+  kind: "chat",
+  text,
+  messageId: null,
+});
+
+describe("createJsonTranscriptStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "transcripts-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("appends each batch to the room's log, skipping other browsers' copies", async () => {
+    const store = createJsonTranscriptStore(path.join(dir, "transcripts"));
+    const hello = entry("Hello");
+    await store.append({
+      roomName: "team-sync",
+      sessionId: ANN,
+      entries: [hello],
+    });
+    await store.append({
+      roomName: "team-sync",
+      sessionId: BOB,
+      entries: [hello, entry("Hi Ann", undefined, "Bob")],
+    });
+
+    const [transcript] = await store.listByRoom("team-sync");
+    expect(transcript.entries.map((saved) => saved.text)).toEqual([
+      "Hello",
+      "Hi Ann",
+    ]);
+    expect(transcript.sessionIds).toEqual([ANN, BOB]);
+    expect(await store.get("team-sync", transcript.id)).toEqual(transcript);
+    expect(await store.get("standup", transcript.id)).toBeNull();
+
+    const log = await readFile(
+      path.join(dir, "transcripts", "team-sync.jsonl"),
+      "utf8"
+    );
+    expect(log.trim().split("\n")).toHaveLength(2);
+  });
+
+  it("stops a transcript from growing past its limit", async () => {
+    const store = createJsonTranscriptStore(path.join(dir, "transcripts"));
+    const start = Date.now();
+    const batch = (offset: number) =>
+      Array.from({ length: 2000 }, (_, index) =>
+        entry(
+          `Line ${offset + index}`,
+          new Date(start + offset + index).toISOString()
+        )
+      );
+
+    for (let offset = 0; offset < 20000; offset += 2000) {
+      expect(
+        await store.append({
+          roomName: "team-sync",
+          sessionId: ANN,
+          entries: batch(offset),
+        })
+      ).toMatchObject({ ok: true });
+    }
+    expect(
+      await store.append({
+        roomName: "team-sync",
+        sessionId: ANN,
+        entries: batch(20000),
+      })
+    ).toEqual({
+      ok: false,
+      error: "This meeting's transcript is full",
+      status: 413,
+    });
+
+    const [transcript] = await store.listByRoom("team-sync");
+    expect(transcript.entries).toHaveLength(20000);
+  });
+
+  it("stops a room from starting too many transcripts a day", async () => {
+    const store = createJsonTranscriptStore(path.join(dir, "transcripts"));
+    // Each batch comes from a new browser after a gap, so starts a transcript
+    const startAt = (index: number) =>
+      store.append({
+        roomName: "team-sync",
+        sessionId: randomUUID(),
+        entries: [
+          entry(
+            "Hello",
+            new Date(Date.now() + index * 11 * 60000).toISOString()
+          ),
+        ],
+      });
+
+    for (let index = 0; index < 50; index += 1) {
+      expect(await startAt(index)).toMatchObject({ ok: true });
+    }
+    expect(await startAt(50)).toEqual({
+      ok: false,
+      error: "This room has started too many transcripts today",
+      status: 429,
+    });
+    expect(await store.listByRoom("team-sync")).toHaveLength(50);
+  });
+});
+
+describe("readTranscriptBatch", () => {
+  it("refuses bodies larger than any batch", async () => {
+    const request = new Request("http://localhost/api/transcripts", {
+      method: "POST",
+      body: JSON.stringify({
+        roomName: "team-sync",
+        sessionId: ANN,
+        entries: Array.from({ length: 1000 }, () => entry("x".repeat(1500))),
+      }),
+    });
+
+    expect(await readTranscriptBatch(request)).toEqual({
+      error: "The transcript batch is too large",
+      status: 413,
+    });
+  });
+
+  it("moves entry times into a window around the server's clock", async () => {
+    const before = Date.now();
+    const request = new Request("http://localhost/api/transcripts", {
+      method: "POST",
+      body: JSON.stringify({
+        roomName: "team-sync",
+        sessionId: ANN,
+        entries: [
+          entry("Too early", "2000-01-01T00:00:00.000Z"),
+          entry("Too late", "2100-01-01T00:00:00.000Z"),
+        ],
+      }),
+    });
+
+    const parsed = await readTranscriptBatch(request);
+    if (!("batch" in parsed)) throw new Error(parsed.error);
+    const [early, late] = parsed.batch.entries.map((saved) =>
+      Date.parse(saved.at)
+    );
+    expect(early).toBeGreaterThanOrEqual(before - 15 * 60 * 1000);
+    expect(late).toBeLessThanOrEqual(Date.now() + 2 * 60 * 1000);
+  });
+});
@@ -0,0 +1,493 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import {
+  createAttemptLimiter,
+  type AttemptReservation,
+} from "~/lib/credentials.server";
+import {
+  createJsonLinesLog,
+  getDataDir,
+  type JsonLinesLog,
+} from "~/lib/json-store.server";
+import { validateRoomName } from "~/lib/room-names";
+import {
+  TRANSCRIPT_ENTRY_KINDS,
+  type Transcript,
+  type TranscriptBatch,
+  type TranscriptEntry,
+} from "~/lib/transcripts";
+
+const MAX_ENTRIES_PER_BATCH = 2000;
+const MAX_SPEAKER_LENGTH = 100;
+const MAX_TEXT_LENGTH = 2000;
+// Well above what a minute of a meeting produces
+const MAX_BATCH_BYTES = 1024 * 1024;
+// A meeting's transcript stops growing at this many entries
+const MAX_ENTRIES_PER_TRANSCRIPT = 20000;
+// A room stops starting new transcripts after this many in a day
+const MAX_TRANSCRIPTS_PER_DAY = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Browsers post about once a minute (TRANSCRIPT_FLUSH_MS); leaves room for
+// several participants sharing an address
+const MAX_BATCHES_PER_CLIENT = 60;
+const BATCH_WINDOW_MS = 10 * 60 * 1000;
+
+// Entry times come from the browser; they are moved into this window around
+// the server's clock, which covers a flush interval and some clock skew
+const MAX_ENTRY_AGE_MS = 15 * 60 * 1000;
+const MAX_ENTRY_AHEAD_MS = 2 * 60 * 1000;
+
+// Batches this close to a room's latest transcript belong to the same meeting
+const MEETING_GAP_MS = 10 * 60 * 1000;
+
+// Every browser sees the same chat message at about the same time
+const DUPLICATE_WINDOW_MS = 10 * 1000;
+
+// Batches older than this are dropped from the logs
+const RETENTION_MS = 180 * 24 * 60 * 60 * 1000;
+// How often one room's log is checked for expired batches
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Recent batches per room and client address
+const batchAttempts = createAttemptLimiter(
+  MAX_BATCHES_PER_CLIENT,
+  BATCH_WINDOW_MS
+);
+
+/**
+ * Counts a batch against the limit for its room and the client's address
+ * The session id is picked by the browser, so it can't be the key
+ *
+ * @param context The load context; its clientAddress identifies the visitor
+ * @param batch The batch about to be saved
+ */
+export const reserveTranscriptBatch = (
+  context,
+  { roomName }: TranscriptBatch
+): AttemptReservation =>
+  batchAttempts.reserve(`${roomName}:${context?.clientAddress ?? "unknown"}`);
+
+export type TranscriptAppend =
+  | { ok: true; transcriptId: string }
+  | { ok: false; error: string; status: number };
+
+/**
+ * Persistence for meeting transcripts
+ */
+export interface TranscriptStore {
+  listByRoom(roomName: string): Promise<Transcript[]>;
+  get(roomName: string, id: string): Promise<Transcript | null>;
+  /**
+   * Adds a browser's entries to its meeting's transcript, starting a new
+   * transcript when the room has no recent one
+   * Entries other browsers already reported are skipped
+   */
+  append(batch: TranscriptBatch): Promise<TranscriptAppend>;
+}
+
+/**
+ * The new entries of one batch, as stored in the room's log
+ */
+interface TranscriptChunk {
+  transcriptId: string;
+  sessionId: string;
+  savedAt: string;
+  entries: TranscriptEntry[];
+}
+
+/**
+ * What appending needs to know about a room's latest transcript
+ */
+interface OpenTranscript {
+  id: string;
+  endedAt: number;
+  sessionIds: Set<string>;
+  entryCount: number;
+  // Times of the stored entries by duplicate key, see getDuplicateKey
+  seen: Map<string, number[]>;
+}
+
+/**
+ * Entries with the same key are the same thing seen by different browsers
+ * when they have a messageId, or when they are this close in time
+ */
+const getDuplicateKey = (entry: TranscriptEntry) =>
+  entry.messageId !== null
+    ? `id:${entry.messageId}`
+    : `${entry.kind}:${entry.speaker}:${entry.text}`;
+
+const isSeen = (open: OpenTranscript, entry: TranscriptEntry) => {
+  const times = open.seen.get(getDuplicateKey(entry));
+  if (!times) return false;
+  if (entry.messageId !== null) return true;
+  const time = Date.parse(entry.at);
+  return times.some((other) => Math.abs(other - time) < DUPLICATE_WINDOW_MS);
+};
+
+const createOpenTranscript = (id: string): OpenTranscript => ({
+  id,
+  endedAt: 0,
+  sessionIds: new Set(),
+  entryCount: 0,
+  seen: new Map(),
+});
+
+const addEntries = (open: OpenTranscript, entries: TranscriptEntry[]) => {
+  entries.forEach((entry) => {
+    const key = getDuplicateKey(entry);
+    const time = Date.parse(entry.at);
+    if (open.seen.has(key)) open.seen.get(key).push(time);
+    else open.seen.set(key, [time]);
+    open.entryCount += 1;
+    open.endedAt = Math.max(open.endedAt, time);
+  });
+};
+
+/**
+ * Groups a room's chunks into transcripts, in the order they were started
+ */
+const buildTranscripts = (roomName: string, chunks: TranscriptChunk[]) => {
+  const byId = new Map<string, TranscriptChunk[]>();
+  chunks.forEach((chunk) => {
+    if (byId.has(chunk.transcriptId)) byId.get(chunk.transcriptId).push(chunk);
+    else byId.set(chunk.transcriptId, [chunk]);
+  });
+
+  return Array.from(byId, ([id, transcriptChunks]): Transcript => {
+    const entries = transcriptChunks
+      .flatMap((chunk) => chunk.entries)
+      .sort((a, b) => a.at.localeCompare(b.at));
+    return {
+      id,
+      roomName,
+      startedAt: entries[0]?.at ?? transcriptChunks[0].savedAt,
+      endedAt: entries[entries.length - 1]?.at ?? transcriptChunks[0].savedAt,
+      sessionIds: Array.from(
+        new Set(transcriptChunks.map((chunk) => chunk.sessionId))
+      ),
+      entries,
+    };
+  });
+};
+
+/**
+ * Creates a transcript store that appends each room's batches to its own
+ * JSON Lines file, so saving a batch never rewrites the whole history
+ *
+ * @param dirPath Directory holding one <room>.jsonl file per room
+ */
+export const createJsonTranscriptStore = (dirPath: string): TranscriptStore => {
+  const logs = new Map<string, JsonLinesLog<TranscriptChunk>>();
+  // Room names are validated, so they are safe to use as file names
+  const getLog = (roomName: string) => {
+    if (!logs.has(roomName)) {
+      logs.set(
+        roomName,
+        createJsonLinesLog(path.join(dirPath, `${roomName}.jsonl`))
+      );
+    }
+    return logs.get(roomName);
+  };
+
+  const readTranscripts = async (roomName: string) =>
+    validateRoomName(roomName)
+      ? []
+      : buildTranscripts(roomName, await getLog(roomName).read());
+
+  // Each room's latest transcript and when its recent transcripts started,
+  // read from its log on the first append
+  const openTranscripts = new Map<string, OpenTranscript | null>();
+  const startTimes = new Map<string, number[]>();
+  const loading = new Map<string, Promise<void>>();
+  const loadOpenTranscript = (roomName: string) => {
+    if (!loading.has(roomName)) {
+      const load = readTranscripts(roomName).then((transcripts) => {
+        startTimes.set(
+          roomName,
+          transcripts.map((transcript) => Date.parse(transcript.startedAt))
+        );
+        const latest = transcripts.pop();
+        if (!latest) {
+          openTranscripts.set(roomName, null);
+          return;
+        }
+        const open = createOpenTranscript(latest.id);
+        latest.sessionIds.forEach((sessionId) =>
+          open.sessionIds.add(sessionId)
+        );
+        addEntries(open, latest.entries);
+        openTranscripts.set(roomName, open);
+      });
+      // A failed read is retried by the next batch
+      load.catch(() => loading.delete(roomName));
+      loading.set(roomName, load);
+    }
+    return loading.get(roomName);
+  };
+
+  const lastPruned = new Map<string, number>();
+  const pruneIfDue = async (roomName: string) => {
+    const now = Date.now();
+    if (now - (lastPruned.get(roomName) ?? 0) < PRUNE_INTERVAL_MS) return;
+    lastPruned.set(roomName, now);
+    await getLog(roomName).retain(
+      (chunk) => now - Date.parse(chunk.savedAt) < RETENTION_MS
+    );
+  };
+
+  return {
+    listByRoom: readTranscripts,
+
+    get: async (roomName, id) =>
+      (await readTranscripts(roomName)).find(
+        (transcript) => transcript.id === id
+      ) ?? null,
+
+    append: async ({ roomName, sessionId, entries }) => {
+      await pruneIfDue(roomName);
+      await loadOpenTranscript(roomName);
+
+      // No awaits from here until the log append, so batches for the same
+      // room can't both start a new transcript
+      let open = openTranscripts.get(roomName);
+      const belongsToOpen =
+        open &&
+        (open.sessionIds.has(sessionId) ||
+          Date.parse(entries[0].at) - open.endedAt < MEETING_GAP_MS);
+      if (!belongsToOpen) {
+        const now = Date.now();
+        const started = startTimes
+          .get(roomName)
+          .filter((time) => now - time < DAY_MS);
+        if (started.length >= MAX_TRANSCRIPTS_PER_DAY) {
+          return {
+            ok: false,
+            error: "This room has started too many transcripts today",
+            status: 429,
+          };
+        }
+        startTimes.set(roomName, [...started, now]);
+        open = createOpenTranscript(randomUUID());
+        openTranscripts.set(roomName, open);
+      }
+      if (open.entryCount >= MAX_ENTRIES_PER_TRANSCRIPT) {
+        return {
+          ok: false,
+          error: "This meeting's transcript is full",
+          status: 413,
+        };
+      }
+
+      open.sessionIds.add(sessionId);
+      // Keeps what fits, and also drops repeats within the batch
+      const added: TranscriptEntry[] = [];
+      for (const entry of entries) {
+        if (open.entryCount >= MAX_ENTRIES_PER_TRANSCRIPT) break;
+        if (isSeen(open, entry)) continue;
+        addEntries(open, [entry]);
+        added.push(entry);
+      }
+      if (added.length > 0) {
+        await getLog(roomName).append({
+          transcriptId: open.id,
+          sessionId,
+          savedAt: new Date().toISOString(),
+          entries: added,
+        });
+      }
+      return { ok: true, transcriptId: open.id };
+    },
+  };
+};
+
+const stores = new Map<string, TranscriptStore>();
+
+/**
+ * Returns the transcript store for the data directory configured in the context
+ */
+export const getTranscriptStore = (context): TranscriptStore => {
+  const dataDir = getDataDir(context);
+  if (!stores.has(dataDir)) {
+    stores.set(
+      dataDir,
+      createJsonTranscriptStore(path.join(dataDir, "transcripts"))
+    );
+  }
+  return stores.get(dataDir);
+};
+
+/**
+ * Validates a batch of transcript entries posted by the browser
+ *
+ * @returns The batch, or an error message
+ */
+const parseTranscriptBatch = (
+  body
+): { batch: TranscriptBatch } | { error: string } => {
+  const text = (value) => (typeof value === "string" ? value.trim() : "");
+
+  const roomName = text(body?.roomName);
+  const roomNameError = validateRoomName(roomName);
+  if (roomNameError) return { error: roomNameError };
+
+  const sessionId = text(body?.sessionId);
+  if (!/^[0-9a-f-]{36}$/i.test(sessionId)) {
+    return { error: "sessionId must be a UUID" };
+  }
+
+  if (
+    !Array.isArray(body?.entries) ||
+    body.entries.length === 0 ||
+    body.entries.length > MAX_ENTRIES_PER_BATCH
+  ) {
+    return { error: "entries are missing or too many" };
+  }
+
+  const now = Date.now();
+  const entries: TranscriptEntry[] = [];
+  for (const entry of body.entries) {
+    const at = Date.parse(text(entry?.at));
+    if (Number.isNaN(at)) {
+      return { error: "Every entry needs a timestamp" };
+    }
+    if (!TRANSCRIPT_ENTRY_KINDS.includes(entry?.kind)) {
+      return { error: "Unknown entry kind" };
+    }
+    const entryText = text(entry?.text);
+    if (entryText === "" || entryText.length > MAX_TEXT_LENGTH) {
+      return { error: "Entry text is missing or too long" };
+    }
+    entries.push({
+      at: new Date(
+        Math.min(Math.max(at, now - MAX_ENTRY_AGE_MS), now + MAX_ENTRY_AHEAD_MS)
+      ).toISOString(),
+      speaker: text(entry.speaker).slice(0, MAX_SPEAKER_LENGTH) || "Unknown",
+      kind: entry.kind,
+      text: entryText,
+      messageId: text(entry.messageId) || null,
+    });
+  }
+
+  return {
+    batch: {
+      roomName,
+      sessionId,
+      entries: entries.sort((a, b) => a.at.localeCompare(b.at)),
+    },
+  };
+};
+
+/**
+ * Reads and validates a batch posted by the browser, giving up on bodies
+ * larger than any batch it sends
+ *
+ * @returns The batch, or an error message and status code
+ */
+export const readTranscriptBatch = async (
+  request: Request
+): Promise<{ batch: TranscriptBatch } | { error: string; status: number }> => {
+  const tooLarge = { error: "The transcript batch is too large", status: 413 };
+  if (Number(request.headers.get("Content-Length")) > MAX_BATCH_BYTES) {
+    return tooLarge;
+  }
+
+  // Chunked bodies have no length up front, so count while reading
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = request.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_BATCH_BYTES) {
+      await reader.cancel();
+      return tooLarge;
+    }
+    chunks.push(value);
+  }
+
+  let body = null;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    // Reported as a missing room name below
+  }
+  const parsed = parseTranscriptBatch(body);
+  return "error" in parsed ? { ...parsed, status: 400 } : parsed;
+};
+
+/**
+ * Finds the entries whose text or speaker contains every word of the query,
+ * ignoring case
+ */
+export const searchTranscript = (transcript: Transcript, query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  return transcript.entries.filter((entry) => {
+    const haystack = `${entry.speaker} ${entry.text}`.toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+};
+
+/**
+ * The distinct speakers of a transcript, in order of first appearance
+ */
+export const getTranscriptSpeakers = (transcript: Transcript) =>
+  Array.from(new Set(transcript.entries.map((entry) => entry.speaker)));
+
+const KIND_LABELS = { speech: "", chat: " (chat)", message: " (message)" };
+
+/**
+ * Formats a transcript as Markdown, one line per entry
+ */
+export const formatTranscriptMarkdown = (
+  title: string,
+  transcript: Transcript
+) =>
+  [
+    `# Transcript: ${title}`,
+    "",
+    `${transcript.startedAt.replace("T", " ").slice(0, 16)} UTC, ` +
+      `speakers: ${getTranscriptSpeakers(transcript).join(", ")}`,
+    "",
+    ...transcript.entries.map(
+      (entry) =>
+        `- **${entry.at.slice(11, 19)}** ${entry.speaker}${
+          KIND_LABELS[entry.kind]
+        }: ${entry.text.replace(/\s*\n\s*/g, " ")}`
+    ),
+  ].join("\n") + "\n";
+
+// How long a subtitle stays up when the next entry is far away
+const MAX_CUE_MS = 5000;
+
+const formatSrtTime = (ms: number) => {
+  const pad = (value: number, length = 2) =>
+    String(Math.floor(value)).padStart(length, "0");
+  return `${pad(ms / 3600000)}:${pad((ms / 60000) % 60)}:${pad(
+    (ms / 1000) % 60
+  )},${pad(ms % 1000, 3)}`;
+};
+
+/**
+ * Formats a transcript as SubRip subtitles, timed from its start
+ * Each entry shows until the next one begins, for at most five seconds
+ */
+export const formatTranscriptSrt = (transcript: Transcript) => {
+  const start = Date.parse(transcript.startedAt);
+  const times = transcript.entries.map((entry) => Date.parse(entry.at) - start);
+
+  return transcript.entries
+    .map((entry, index) => {
+      const from = times[index];
+      const to = Math.min(from + MAX_CUE_MS, times[index + 1] ?? Infinity);
+      return [
+        index + 1,
+        `${formatSrtTime(from)} --> ${formatSrtTime(Math.max(to, from + 1))}`,
+        `${entry.speaker}: ${entry.text}`,
+        "",
+      ].join("\r\n");
+    })
+    .join("\r\n");
+};
@@ -0,0 +1,158 @@
+import { isPollProtocolText } from "~/lib/polls";
+import type { JitsiEventHandlers } from "~/types/jitsi";
+
+/**
+ * Meeting transcripts, collected by each participant's browser from Jitsi's
+ * subtitles, chat and endpoint text messages, and merged on the server into
+ * one transcript per meeting
+ */
+
+/**
+ * "speech" comes from the transcriber, "chat" from Jitsi's chat and
+ * "message" from endpoint text messages
+ */
+export type TranscriptEntryKind = "speech" | "chat" | "message";
+
+export const TRANSCRIPT_ENTRY_KINDS: TranscriptEntryKind[] = [
+  "speech",
+  "chat",
+  "message",
+];
+
+export interface TranscriptEntry {
+  // ISO timestamp taken by the browser that saw it
+  at: string;
+  speaker: string;
+  kind: TranscriptEntryKind;
+  text: string;
+  // The transcriber's id for a phrase, the same in every browser
+  messageId: string | null;
+}
+
+export interface Transcript {
+  id: string;
+  roomName: string;
+  startedAt: string;
+  endedAt: string;
+  // Browser sessions that contributed entries
+  sessionIds: string[];
+  entries: TranscriptEntry[];
+}
+
+/**
+ * Entries one browser collected, posted when it leaves the meeting
+ */
+export interface TranscriptBatch {
+  roomName: string;
+  // One browser tab's stay in the room
+  sessionId: string;
+  entries: TranscriptEntry[];
+}
+
+// Long meetings are flushed as they go, so the final post stays small enough
+// for a keepalive request when the tab closes
+export const TRANSCRIPT_FLUSH_MS = 60000;
+
+/**
+ * Posts collected entries without waiting for the response
+ * Uses keepalive so the last entries still go out when the tab closes
+ */
+export const sendTranscriptBatch = (batch: TranscriptBatch) => {
+  fetch("/api/transcripts", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(batch),
+    keepalive: true,
+  }).catch((error) => {
+    console.warn("Failed to save the transcript:", error);
+  });
+};
+
+interface TranscriptCollectorOptions {
+  roomName: string;
+  displayName: string;
+  send?: (batch: TranscriptBatch) => void;
+}
+
+/**
+ * Collects a timestamped, speaker-attributed transcript for one browser
+ * session and posts it when the meeting ends; `close` posts whatever is left
+ * if the meeting was never left
+ * Private chat messages are never collected
+ */
+export const createTranscriptCollector = ({
+  roomName,
+  displayName,
+  send = sendTranscriptBatch,
+}: TranscriptCollectorOptions) => {
+  const sessionId = crypto.randomUUID();
+  // Display names by participant id, for messages that only carry the id
+  const names = new Map<string, string>();
+  let entries: TranscriptEntry[] = [];
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const add = (
+    kind: TranscriptEntryKind,
+    speaker: string,
+    text: string,
+    messageId: string | null = null
+  ) => {
+    if (text.trim() === "") return;
+    entries.push({
+      at: new Date().toISOString(),
+      speaker: speaker || "Unknown",
+      kind,
+      text: text.trim(),
+      messageId,
+    });
+  };
+
+  const flush = () => {
+    if (entries.length === 0) return;
+    send({ roomName, sessionId, entries });
+    entries = [];
+  };
+
+  const handleLeft = () => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+    flush();
+  };
+
+  const handlers: JitsiEventHandlers = {
+    videoConferenceJoined: ({ id }) => {
+      names.set(id, displayName);
+      // Reconnects join again without an explicit leave in between
+      if (!timer) timer = setInterval(flush, TRANSCRIPT_FLUSH_MS);
+    },
+    videoConferenceLeft: handleLeft,
+    participantJoined: ({ id, displayName }) => names.set(id, displayName),
+    displayNameChange: ({ id, displayname }) => names.set(id, displayname),
+    transcriptionChunkReceived: ({ data }) => {
+      // Only keep finished phrases, not the interim guesses
+      if (!data.final) return;
+      add(
+        "speech",
+        data.participant.name ?? names.get(data.participant.id),
+        data.final,
+        data.messageID
+      );
+    },
+    incomingMessage: ({ nick, message, privateMessage }) => {
+      if (!privateMessage) add("chat", nick, message);
+    },
+    outgoingMessage: ({ message, privateMessage }) => {
+      if (!privateMessage) add("chat", displayName, message);
+    },
+    endpointTextMessageReceived: ({ senderInfo, eventData }) => {
+      // Poll and reaction traffic isn't something anybody said
+      if (!isPollProtocolText(eventData.text)) {
+        add("message", names.get(senderInfo.id), eventData.text);
+      }
+    },
+  };
+
+  return { handlers, close: handleLeft };
+};
@@ -0,0 +1,213 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import {
+  createAttemptLimiter,
+  hashSecret,
+  verifySecret,
+} from "~/lib/credentials.server";
+import { createJsonCollection, getDataDir } from "~/lib/json-store.server";
+import { normalizeEmail, type User, type UserProfile } from "~/lib/users";
+
+const KEY_LENGTH = 64;
+
+/**
+ * A user account as stored, with its credentials
+ */
+export interface StoredUser extends User {
+  // "scrypt$<salt>$<hash>"; null for accounts that only sign in with OIDC
+  passwordHash: string | null;
+  // "<issuer>#<sub>" of the linked OIDC identity
+  oidcSubject: string | null;
+  // Whether an OIDC provider confirmed the email; sign-up doesn't
+  emailVerified: boolean;
+  // Sessions remember this; bumping it signs every session out
+  sessionVersion: number;
+  updatedAt: string;
+}
+
+export type NewUser = Pick<
+  StoredUser,
+  "email" | "passwordHash" | "oidcSubject" | "emailVerified" | "profile"
+>;
+
+/**
+ * Persistence for user accounts
+ */
+export interface UserStore {
+  get(id: string): Promise<StoredUser | null>;
+  findByEmail(email: string): Promise<StoredUser | null>;
+  findByOidcSubject(subject: string): Promise<StoredUser | null>;
+  /**
+   * Creates the account unless the email is taken, in which case it
+   * returns null
+   */
+  create(input: NewUser): Promise<StoredUser | null>;
+  update(
+    id: string,
+    input: Partial<
+      Pick<
+        StoredUser,
+        | "passwordHash"
+        | "oidcSubject"
+        | "emailVerified"
+        | "sessionVersion"
+        | "profile"
+      >
+    >
+  ): Promise<StoredUser | null>;
+}
+
+/**
+ * Creates a user store backed by a JSON file
+ *
+ * @param filePath Path of the JSON file holding the accounts
+ */
+export const createJsonUserStore = (filePath: string): UserStore => {
+  const collection = createJsonCollection<StoredUser>(filePath);
+
+  return {
+    get: async (id) =>
+      (await collection.read()).find((user) => user.id === id) ?? null,
+
+    findByEmail: async (email) =>
+      (await collection.read()).find(
+        (user) => user.email === normalizeEmail(email)
+      ) ?? null,
+
+    findByOidcSubject: async (subject) =>
+      (await collection.read()).find((user) => user.oidcSubject === subject) ??
+      null,
+
+    create: (input) =>
+      collection.update((users) => {
+        const email = normalizeEmail(input.email);
+        if (users.some((user) => user.email === email)) {
+          return { items: users, result: null };
+        }
+
+        const now = new Date().toISOString();
+        const user: StoredUser = {
+          ...input,
+          email,
+          id: randomUUID(),
+          sessionVersion: 0,
+          createdAt: now,
+          updatedAt: now,
+        };
+        return { items: [...users, user], result: user };
+      }),
+
+    update: (id, input) =>
+      collection.update((users) => {
+        const existing = users.find((user) => user.id === id);
+        if (!existing) return { items: users, result: null };
+
+        const updated: StoredUser = {
+          ...existing,
+          ...input,
+          updatedAt: new Date().toISOString(),
+        };
+        return {
+          items: users.map((user) => (user.id === id ? updated : user)),
+          result: updated,
+        };
+      }),
+  };
+};
+
+const stores = new Map<string, UserStore>();
+
+/**
+ * Returns the user store for the data directory configured in the context
+ */
+export const getUserStore = (context): UserStore => {
+  const filePath = path.join(getDataDir(context), "users.json");
+  if (!stores.has(filePath)) {
+    stores.set(filePath, createJsonUserStore(filePath));
+  }
+  return stores.get(filePath);
+};
+
+/**
+ * Strips the credentials, leaving what the pages may see
+ */
+export const toPublicUser = ({
+  id,
+  email,
+  profile,
+  createdAt,
+}: StoredUser): User => ({ id, email, profile, createdAt });
+
+/**
+ * A new account's profile, before the user changes anything
+ */
+export const createDefaultProfile = (
+  email: string,
+  displayName?: string | null,
+  avatarUrl?: string | null
+): UserProfile => ({
+  displayName: displayName?.trim() || normalizeEmail(email).split("@")[0],
+  avatarUrl: avatarUrl || null,
+  devices: {},
+});
+
+/**
+ * Hashes a password for storage as "scrypt$<salt>$<hash>"
+ */
+export const hashPassword = (password: string) =>
+  hashSecret(password, KEY_LENGTH);
+
+// Checked against when the email is unknown, so both cases take as long
+const UNKNOWN_USER_HASH = `scrypt$${"0".repeat(32)}$${"0".repeat(
+  KEY_LENGTH * 2
+)}`;
+
+// Each visitor may get an account's password wrong this many times per window
+const MAX_FAILED_SIGN_INS = 5;
+const FAILED_SIGN_INS_WINDOW_MS = 15 * 60 * 1000;
+
+// Recent sign-ins per email and visitor address
+const signInAttempts = createAttemptLimiter(
+  MAX_FAILED_SIGN_INS,
+  FAILED_SIGN_INS_WINDOW_MS
+);
+
+export type SignInCheck =
+  | { ok: true; user: StoredUser }
+  | { ok: false; error: string; retryAfterSeconds?: number };
+
+/**
+ * Checks an email and password, rate limiting wrong attempts per email and
+ * client address
+ *
+ * @param context The load context; its clientAddress identifies the visitor
+ * @param email What the visitor entered as email
+ * @param password What the visitor entered as password
+ */
+export const checkSignIn = async (
+  context,
+  email: string,
+  password: string
+): Promise<SignInCheck> => {
+  const key = `${normalizeEmail(email)}:${context?.clientAddress ?? "unknown"}`;
+  const attempt = signInAttempts.reserve(key);
+  if (attempt.ok === false) {
+    return {
+      ok: false,
+      error: "Too many failed sign-ins. Please try again later.",
+      retryAfterSeconds: attempt.retryAfterSeconds,
+    };
+  }
+
+  const user = await getUserStore(context).findByEmail(email);
+  const valid = await verifySecret(
+    password,
+    user?.passwordHash ?? UNKNOWN_USER_HASH
+  );
+  if (valid && user?.passwordHash) {
+    signInAttempts.reset(key);
+    return { ok: true, user };
+  }
+
+  return { ok: false, error: "Wrong email or password" };
+};
@@ -0,0 +1,118 @@
+import type { JitsiDeviceKind, JitsiDeviceSelection } from "~/types/jitsi";
+
+/**
+ * Types and checks shared by the account pages and the meeting pages
+ */
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 200;
+export const MAX_DISPLAY_NAME_LENGTH = 100;
+export const MAX_AVATAR_URL_LENGTH = 500;
+
+const DEVICE_KINDS: JitsiDeviceKind[] = [
+  "audioInput",
+  "audioOutput",
+  "videoInput",
+];
+
+/**
+ * What a signed-in user brings into every meeting
+ */
+export interface UserProfile {
+  displayName: string;
+  // http(s) image URL shown as the meeting avatar
+  avatarUrl: string | null;
+  // Preselected in the pre-join lobby
+  devices: JitsiDeviceSelection;
+}
+
+/**
+ * A user account, as the pages see it; credentials never leave the server
+ */
+export interface User {
+  id: string;
+  email: string;
+  profile: UserProfile;
+  createdAt: string;
+}
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Checks an email address
+ *
+ * @returns An error message, or null when it looks deliverable
+ */
+export const validateEmail = (email: string) => {
+  if (email === "") return "Please enter your email address";
+  if (email.length > 254 || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return "Please enter a valid email address";
+  }
+  return null;
+};
+
+/**
+ * Checks a new password
+ *
+ * @returns An error message, or null when it is fine
+ */
+export const validatePassword = (password: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Passwords need at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    return `Passwords can be at most ${MAX_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+};
+
+/**
+ * Checks a display name
+ *
+ * @returns An error message, or null when it is fine
+ */
+export const validateDisplayName = (displayName: string) => {
+  if (displayName.trim() === "") return "Please enter a display name";
+  if (displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+    return `Display names can be at most ${MAX_DISPLAY_NAME_LENGTH} characters`;
+  }
+  return null;
+};
+
+/**
+ * Checks an avatar URL; an empty one removes the avatar
+ *
+ * @returns An error message, or null when it is fine
+ */
+export const validateAvatarUrl = (avatarUrl: string) => {
+  if (avatarUrl === "") return null;
+  if (avatarUrl.length > MAX_AVATAR_URL_LENGTH) return "Avatar URL is too long";
+  try {
+    const { protocol } = new URL(avatarUrl);
+    if (protocol === "https:" || protocol === "http:") return null;
+  } catch {
+    // Reported below
+  }
+  return "Avatar URL must be an http(s) link";
+};
+
+/**
+ * Reads a device selection from untrusted input, dropping anything malformed
+ */
+export const parseDeviceSelection = (value): JitsiDeviceSelection => {
+  const selection: JitsiDeviceSelection = {};
+  DEVICE_KINDS.forEach((kind) => {
+    const device = value?.[kind];
+    if (
+      typeof device?.deviceId === "string" &&
+      typeof device.label === "string" &&
+      device.label.length <= 200
+    ) {
+      selection[kind] = {
+        deviceId: device.deviceId.slice(0, 200),
+        label: device.label,
+      };
+    }
+  });
+  return selection;
+};
@@ -0,0 +1,213 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  dispatchWebhook,
+  listWebhookDeliveries,
+  signWebhookPayload,
+  type WebhookDelivery,
+} from "~/lib/webhooks.server";
+
+const SECRET = "test-secret";
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * A local webhook receiver that answers with the given statuses in turn
+ * (the last one repeats)
+ */
+const startReceiver = async (statuses: number[]) => {
+  const received: ReceivedRequest[] = [];
+  const server: Server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      received.push({ headers: request.headers, body });
+      response.statusCode =
+        statuses[Math.min(received.length, statuses.length) - 1];
+      response.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    received,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+};
+
+describe("webhook deliveries", () => {
+  let dataDir: string;
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+
+  const contextFor = (url: string) => ({
+    env: { WEBHOOK_URLS: url, WEBHOOK_SECRET: SECRET, DATA_DIR: dataDir },
+  });
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), "webhooks-"));
+  });
+
+  afterEach(async () => {
+    await receiver?.close();
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("posts signed payloads to the receiver and logs the delivery", async () => {
+    receiver = await startReceiver([204]);
+    const context = contextFor(receiver.url);
+
+    const payload = dispatchWebhook(context, "meeting.started", {
+      roomName: "team-sync",
+    });
+
+    await vi.waitFor(async () => {
+      const [delivery] = await listWebhookDeliveries(context);
+      expect(delivery).toMatchObject({ status: "delivered", attempts: 1 });
+    });
+
+    expect(receiver.received).toHaveLength(1);
+    const [{ headers, body }] = receiver.received;
+    expect(JSON.parse(body)).toEqual(payload);
+    expect(headers["x-webhook-event"]).toBe("meeting.started");
+    expect(headers["x-webhook-id"]).toBe(payload.id);
+    expect(headers["x-webhook-signature"]).toBe(
+      `sha256=${signWebhookPayload(
+        SECRET,
+        Number(headers["x-webhook-timestamp"]),
+        body
+      )}`
+    );
+  });
+
+  it("retries failed deliveries with backoff", async () => {
+    receiver = await startReceiver([500, 204]);
+    const context = contextFor(receiver.url);
+
+    dispatchWebhook(context, "webhook.test", {});
+
+    await vi.waitFor(
+      async () => {
+        const [delivery] = await listWebhookDeliveries(context);
+        expect(delivery).toMatchObject({
+          status: "delivered",
+          attempts: 2,
+          responseStatus: 204,
+        });
+      },
+      { timeout: 8000, interval: 200 }
+    );
+    expect(receiver.received).toHaveLength(2);
+    // Both attempts carry the same event
+    expect(receiver.received[0].body).toBe(receiver.received[1].body);
+  }, 10000);
+
+  it("resumes deliveries that were pending when the server stopped", async () => {
+    receiver = await startReceiver([204]);
+    const context = contextFor(receiver.url);
+    const now = new Date().toISOString();
+    const pending: WebhookDelivery = {
+      id: "pending",
+      url: receiver.url,
+      eventId: "event-1",
+      eventType: "meeting.emptied",
+      status: "pending",
+      attempts: 1,
+      responseStatus: 500,
+      error: "Responded with 500",
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+      payload: {
+        id: "event-1",
+        type: "meeting.emptied",
+        createdAt: now,
+        data: { roomName: "team-sync" },
+      },
+    };
+    // Logged by a version that didn't keep payloads
+    const { payload: _payload, ...stranded } = {
+      ...pending,
+      id: "stranded",
+    };
+    await writeFile(
+      path.join(dataDir, "webhook-deliveries.json"),
+      JSON.stringify([stranded, pending])
+    );
+
+    await vi.waitFor(async () => {
+      const deliveries = await listWebhookDeliveries(context);
+      expect(deliveries.find((d) => d.id === "pending")).toMatchObject({
+        status: "delivered",
+        attempts: 2,
+      });
+      expect(deliveries.find((d) => d.id === "stranded")).toMatchObject({
+        status: "failed",
+        error: "Interrupted by a server restart",
+      });
+    });
+    expect(JSON.parse(receiver.received[0].body).id).toBe("event-1");
+  });
+
+  it("only trims finished deliveries from a full log", async () => {
+    receiver = await startReceiver([204]);
+    const context = contextFor(receiver.url);
+    const now = new Date().toISOString();
+    const finished = (id: string): WebhookDelivery => ({
+      id,
+      url: receiver.url,
+      eventId: id,
+      eventType: "webhook.test",
+      status: "delivered",
+      attempts: 1,
+      responseStatus: 204,
+      error: null,
+      nextAttemptAt: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+    // The oldest entry, still waiting for a retry long after the others
+    const pending: WebhookDelivery = {
+      ...finished("pending"),
+      status: "pending",
+      responseStatus: 500,
+      error: "Responded with 500",
+      nextAttemptAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      payload: {
+        id: "pending",
+        type: "webhook.test",
+        createdAt: now,
+        data: {},
+      },
+    };
+    await writeFile(
+      path.join(dataDir, "webhook-deliveries.json"),
+      JSON.stringify([
+        pending,
+        ...Array.from({ length: 500 }, (_, index) => finished(`old-${index}`)),
+      ])
+    );
+
+    const payload = dispatchWebhook(context, "webhook.test", {});
+
+    await vi.waitFor(async () => {
+      const deliveries = await listWebhookDeliveries(context);
+      expect(deliveries.find((d) => d.eventId === payload.id)).toMatchObject({
+        status: "delivered",
+      });
+    });
+    const deliveries = await listWebhookDeliveries(context);
+    expect(deliveries).toHaveLength(500);
+    expect(deliveries.find((d) => d.id === "pending")).toMatchObject({
+      status: "pending",
+    });
+    expect(deliveries.some((d) => d.id === "old-0")).toBe(false);
+  });
+});
@@ -0,0 +1,391 @@
+import { createHmac, randomUUID } from "node:crypto";
+import path from "node:path";
+import { getServerEnv } from "~/lib/config.server";
+import { getBackoffDelay, type BackoffOptions } from "~/lib/jitsi-connection";
+import {
+  createJsonCollection,
+  getDataDir,
+  type JsonCollection,
+} from "~/lib/json-store.server";
+
+/**
+ * Events sent to webhook targets
+ *
+ * - meeting.started: someone joins a room nobody was in
+ * - meeting.participant_joined: the first person joins after whoever started it
+ * - meeting.emptied: the last person leaves
+ * - recording.started: a recording or live stream starts
+ * - webhook.test: sent from the /webhooks page
+ */
+export type WebhookEventType =
+  | "meeting.started"
+  | "meeting.participant_joined"
+  | "meeting.emptied"
+  | "recording.started"
+  | "webhook.test";
+
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+/**
+ * One payload sent to one target, updated after every attempt
+ */
+export interface WebhookDelivery {
+  id: string;
+  url: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  // Kept while pending so retries can resume after a restart
+  payload?: WebhookPayload;
+}
+
+/**
+ * Settings taken from the `WEBHOOK_*` environment variables exposed through
+ * `getLoadContext`
+ */
+export interface WebhookSettings {
+  urls: string[];
+  secret: string;
+  // Public origin of this app (APP_ORIGIN) for links in payloads; the
+  // request's Host header is up to the client, so it is never used
+  appOrigin: string | null;
+  maxAttempts: number;
+  timeoutMs: number;
+}
+
+// Only the most recent finished deliveries are kept in the log
+const MAX_LOGGED_DELIVERIES = 500;
+
+const RETRY_BACKOFF: Omit<BackoffOptions, "maxAttempts"> = {
+  baseDelayMs: 2000,
+  maxDelayMs: 5 * 60 * 1000,
+  jitter: 0.2,
+};
+
+/**
+ * Reads the webhook settings from the load context
+ * Returns null when no targets are configured
+ */
+export const getWebhookSettings = (context): WebhookSettings | null => {
+  const env = getServerEnv(context);
+  const urls = String(env.WEBHOOK_URLS ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter((url) => /^https?:\/\//.test(url));
+  if (urls.length === 0) return null;
+
+  let appOrigin: string | null = null;
+  try {
+    if (env.APP_ORIGIN) appOrigin = new URL(env.APP_ORIGIN).origin;
+  } catch {
+    console.warn(`Ignoring invalid APP_ORIGIN: ${env.APP_ORIGIN}`);
+  }
+
+  const maxAttempts = Number(env.WEBHOOK_MAX_ATTEMPTS);
+  return {
+    urls,
+    secret: env.WEBHOOK_SECRET ?? "",
+    appOrigin,
+    maxAttempts:
+      Number.isInteger(maxAttempts) && maxAttempts > 0 ? maxAttempts : 5,
+    timeoutMs: 10000,
+  };
+};
+
+/**
+ * Signs a payload the way receivers are expected to verify it:
+ * hex HMAC-SHA256 of "<timestamp>.<raw body>" with the shared secret
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string
+) => createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+type DeliveryLog = JsonCollection<WebhookDelivery>;
+
+const collections = new Map<string, DeliveryLog>();
+
+// Ids of the pending deliveries this process is sending or will retry, so
+// resuming after a restart never starts a second copy of one
+const inFlight = new Set<string>();
+
+const getDeliveryLog = (context): DeliveryLog => {
+  const filePath = path.join(getDataDir(context), "webhook-deliveries.json");
+  if (!collections.has(filePath)) {
+    collections.set(filePath, createJsonCollection<WebhookDelivery>(filePath));
+    // The first use after a (re)start picks up retries the last process left
+    resumePendingDeliveries(context, collections.get(filePath)).catch((error) =>
+      console.error("Failed to resume webhook deliveries:", error)
+    );
+  }
+  return collections.get(filePath);
+};
+
+/**
+ * Returns the delivery log, newest first
+ */
+export const listWebhookDeliveries = async (context) =>
+  (await getDeliveryLog(context).read())
+    .map(({ payload: _payload, ...delivery }) => delivery)
+    .reverse();
+
+/**
+ * Sends a payload once and reports how it went
+ */
+const attemptDelivery = async (
+  url: string,
+  payload: WebhookPayload,
+  settings: WebhookSettings
+): Promise<{ responseStatus: number | null; error: string | null }> => {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "jitsi-wrapper-webhooks",
+        "X-Webhook-Id": payload.id,
+        "X-Webhook-Event": payload.type,
+        "X-Webhook-Timestamp": String(timestamp),
+        ...(settings.secret
+          ? {
+              "X-Webhook-Signature": `sha256=${signWebhookPayload(
+                settings.secret,
+                timestamp,
+                body
+              )}`,
+            }
+          : {}),
+      },
+      body,
+      signal: AbortSignal.timeout(settings.timeoutMs),
+      redirect: "manual",
+    });
+    return {
+      responseStatus: response.status,
+      error: response.ok ? null : `Responded with ${response.status}`,
+    };
+  } catch (error) {
+    return { responseStatus: null, error: String(error.message ?? error) };
+  }
+};
+
+/**
+ * Drops the oldest finished deliveries once the log is over its limit
+ * Pending ones stay, as their retries still need to find them
+ */
+const trimDeliveries = (deliveries: WebhookDelivery[]) => {
+  let excess = deliveries.length - MAX_LOGGED_DELIVERIES;
+  return deliveries.filter((delivery) => {
+    if (delivery.status === "pending" || excess <= 0) return true;
+    excess -= 1;
+    return false;
+  });
+};
+
+/**
+ * Keeps attempting a logged delivery, retrying with backoff until it
+ * succeeds or runs out of attempts. Every attempt is written to the log.
+ *
+ * @param delivery The log entry, updated in place
+ * @param delayMs How long to wait before the first attempt
+ */
+const runDelivery = (
+  log: DeliveryLog,
+  delivery: WebhookDelivery,
+  settings: WebhookSettings,
+  delayMs = 0
+) => {
+  const { payload } = delivery;
+  inFlight.add(delivery.id);
+
+  const save = (patch: Partial<WebhookDelivery>) => {
+    Object.assign(delivery, patch, { updatedAt: new Date().toISOString() });
+    if (delivery.status !== "pending") inFlight.delete(delivery.id);
+    // Payloads are only needed while retries may still happen
+    const { payload: _payload, ...finished } = delivery;
+    const entry = delivery.status === "pending" ? { ...delivery } : finished;
+    return log
+      .update((deliveries) => {
+        const items = deliveries.some((d) => d.id === delivery.id)
+          ? deliveries.map((d) => (d.id === delivery.id ? entry : d))
+          : [...deliveries, entry];
+        return { items: trimDeliveries(items), result: null };
+      })
+      .catch((error) =>
+        console.error("Failed to log webhook delivery:", error)
+      );
+  };
+
+  const attempt = async () => {
+    const result = await attemptDelivery(delivery.url, payload, settings);
+    const attempts = delivery.attempts + 1;
+
+    if (!result.error) {
+      await save({
+        ...result,
+        attempts,
+        status: "delivered",
+        nextAttemptAt: null,
+      });
+      return;
+    }
+    if (attempts >= settings.maxAttempts) {
+      await save({
+        ...result,
+        attempts,
+        status: "failed",
+        nextAttemptAt: null,
+      });
+      return;
+    }
+
+    const delay = getBackoffDelay(attempts, {
+      ...RETRY_BACKOFF,
+      maxAttempts: settings.maxAttempts,
+    });
+    await save({
+      ...result,
+      attempts,
+      nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+    });
+    schedule(delay);
+  };
+
+  const schedule = (delay: number) =>
+    setTimeout(() => {
+      attempt().catch((error) =>
+        console.error(`Webhook delivery to ${delivery.url} failed:`, error)
+      );
+    }, delay).unref?.();
+
+  if (delayMs > 0) {
+    schedule(delayMs);
+    return Promise.resolve();
+  }
+  return save({}).then(attempt);
+};
+
+/**
+ * Picks up deliveries that were still pending when the server stopped
+ * Targets that are no longer configured, and entries logged before payloads
+ * were kept, are marked as failed instead of staying pending forever
+ * Runs in the log's write queue and skips deliveries already in flight, so
+ * new ones logged meanwhile aren't sent twice
+ */
+const resumePendingDeliveries = async (context, log: DeliveryLog) => {
+  const settings = getWebhookSettings(context);
+  const claimed = await log.update((deliveries) => {
+    const resumed: WebhookDelivery[] = [];
+    const items = deliveries.map((delivery) => {
+      if (delivery.status !== "pending" || inFlight.has(delivery.id)) {
+        return delivery;
+      }
+      if (!delivery.payload || !settings?.urls.includes(delivery.url)) {
+        return {
+          ...delivery,
+          payload: undefined,
+          status: "failed" as const,
+          error: "Interrupted by a server restart",
+          nextAttemptAt: null,
+          updatedAt: new Date().toISOString(),
+        };
+      }
+      inFlight.add(delivery.id);
+      resumed.push(delivery);
+      return delivery;
+    });
+    return { items, result: resumed };
+  });
+
+  claimed.forEach((delivery) => {
+    const dueInMs = Date.parse(delivery.nextAttemptAt ?? "") - Date.now();
+    runDelivery(log, { ...delivery }, settings, Math.max(1, dueInMs || 0));
+  });
+};
+
+/**
+ * Logs a new delivery of a payload to one target and starts sending it
+ */
+const deliver = (
+  context,
+  url: string,
+  payload: WebhookPayload,
+  settings: WebhookSettings
+) => {
+  const now = new Date().toISOString();
+  return runDelivery(
+    getDeliveryLog(context),
+    {
+      id: randomUUID(),
+      url,
+      eventId: payload.id,
+      eventType: payload.type,
+      status: "pending",
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+      payload,
+    },
+    settings
+  );
+};
+
+/**
+ * Sends an event to every configured target
+ * Returns right away; deliveries and their retries continue in the background
+ *
+ * @returns The payload that was sent, or null when webhooks are not configured
+ */
+export const dispatchWebhook = (
+  context,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): WebhookPayload | null => {
+  const settings = getWebhookSettings(context);
+  if (!settings) return null;
+
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    type,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+  settings.urls.forEach((url) => {
+    deliver(context, url, payload, settings).catch((error) =>
+      console.error(`Webhook delivery to ${url} failed:`, error)
+    );
+  });
+  return payload;
+};
+
+/**
+ * Hides credentials embedded in target URLs (e.g. Slack webhook tokens)
+ */
+export const maskWebhookUrl = (url: string) => {
+  try {
+    const { protocol, host } = new URL(url);
+    return `${protocol}//${host}/…`;
+  } catch {
+    return "(invalid URL)";
+  }
+};
@@ -1,23 +1,64 @@
 // app/routes/index.jsx
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { json } from "@remix-run/node";
-import { useLoaderData } from "@remix-run/react";
+import { Link, useLoaderData, useNavigate } from "@remix-run/react";
+import BreakoutBanner from "~/components/BreakoutBanner";
+import BreakoutPanel from "~/components/BreakoutPanel";
+import ChatPanel from "~/components/ChatPanel";
+import InviteMenu from "~/components/InviteMenu";
 import JitsiMeetComponent from "~/components/JitsiMeetComponent";
+import LobbyRequests from "~/components/LobbyRequests";
+import ParticipantsPanel from "~/components/ParticipantsPanel";
+import PollsPanel from "~/components/PollsPanel";
+import PreJoinLobby from "~/components/PreJoinLobby";
+import PresetSelect from "~/components/PresetSelect";
+import RecordingIndicator from "~/components/RecordingIndicator";
+import RecordingMenu from "~/components/RecordingMenu";
+import {
+  checkJitsiServer,
+  normalizeDomain,
+  validateDomainFormat,
+} from "~/lib/jitsi-domains";
+import { useBreakout } from "~/hooks/useBreakout";
+import { useJitsiEvent } from "~/hooks/useJitsiEvent";
+import { useLobbyHost } from "~/hooks/useLobby";
+import { useParticipants } from "~/hooks/useParticipants";
+import { usePolls } from "~/hooks/usePolls";
+import { useRecording } from "~/hooks/useRecording";
+import { BREAKOUT_ROOM_NAME_ERROR, isBreakoutRoomName } from "~/lib/breakout";
+import { getAppConfig, type AppConfig } from "~/lib/config.server";
+import { fetchJitsiToken } from "~/lib/jitsi-token";
+import {
+  getPresetMuteDefaults,
+  type MeetingPreset,
+} from "~/lib/meeting-presets";
+import {
+  generateRoomId,
+  normalizeRoomName,
+  validateRoomName,
+} from "~/lib/room-names";
+import { MAX_PASSCODE_LENGTH, validatePasscode } from "~/lib/room-passcodes";
+import { saveRoomSettings } from "~/lib/room-settings";
+import { getSessionUser } from "~/lib/sessions.server";
+import type { User } from "~/lib/users";
+import type { JitsiDeviceSelection, JitsiMeetHandle } from "~/types/jitsi";
 
 interface LoaderData {
   defaultRoomName: string;
-  jitsiDomain: string;
-  appName: string;
+  config: AppConfig;
+  // The signed-in user, or null for guests
+  user: User | null;
 }
 
 /**
  * Loader function that provides server-side data to the page
- * Now using environment variables for configuration
+ * Configuration comes from the shared app config (environment variables)
  */
-export const loader = async ({ context }) => {
+export const loader = async ({ request, context }) => {
   return json({
-    defaultRoomName: `room-${Math.floor(Math.random() * 10000)}`, // Generate a random room name
-    jitsiDomain: context?.env?.JITSI_DOMAIN || "meet.jit.si", // Use environment variable or default
+    defaultRoomName: generateRoomId(), // Readable but hard to guess room name
+    config: getAppConfig(context),
+    user: await getSessionUser(context, request.headers.get("Cookie")),
   });
 };
 
@@ -26,40 +67,233 @@ export const loader = async ({ context }) => {
  * controls for creating/joining meetings
  */
 export default function Index() {
-  const { defaultRoomName, jitsiDomain, appName } = useLoaderData<LoaderData>();
+  const { defaultRoomName, config, user } = useLoaderData<LoaderData>();
+  const { appName, jitsiDomain, allowedDomains, features } = config;
+  const navigate = useNavigate();
 
   // State to track user inputs and conference settings
   const [roomName, setRoomName] = useState(defaultRoomName);
-  const [displayName, setDisplayName] = useState("Guest");
+  const [displayName, setDisplayName] = useState(
+    user?.profile.displayName ?? "Guest"
+  );
   const [isInMeeting, setIsInMeeting] = useState(false);
-  const [audioMuted, setAudioMuted] = useState(false);
-  const [videoMuted, setVideoMuted] = useState(false);
+  const [preset, setPreset] = useState<MeetingPreset>(config.preset);
+  const [audioMuted, setAudioMuted] = useState(
+    () => getMuteDefaults(config.preset).startWithAudioMuted
+  );
+  const [videoMuted, setVideoMuted] = useState(
+    () => getMuteDefaults(config.preset).startWithVideoMuted
+  );
   const [customServer, setCustomServer] = useState("");
   const [useCustomServer, setUseCustomServer] = useState(false);
+  const [jwt, setJwt] = useState<string | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+  const [joinError, setJoinError] = useState("");
+  // Devices picked in the pre-join lobby
+  const [devices, setDevices] = useState<JitsiDeviceSelection>({});
+  // Controller for the embedded meeting, set once it mounts
+  const [jitsi, setJitsi] = useState<JitsiMeetHandle | null>(null);
+  const [showParticipants, setShowParticipants] = useState(true);
+  const [showChat, setShowChat] = useState(true);
+  const roster = useParticipants(jitsi);
+  const [waitingRoom, setWaitingRoom] = useState(false);
+  // Only sent when ticked or unticked, so rejoining keeps the room's setting
+  const [waitingRoomChanged, setWaitingRoomChanged] = useState(false);
+  const [isHost, setIsHost] = useState(false);
+  const [passcode, setPasscode] = useState("");
+  // Also lock the Jitsi room itself, so links straight to Jitsi need it too
+  const [lockJitsiRoom, setLockJitsiRoom] = useState(false);
+  // What the server says to lock it with, when we host a room that wants it
+  const [jitsiPassword, setJitsiPassword] = useState<string | null>(null);
+  // roomName holds the canonical name once we're in the meeting
+  const lobbyHost = useLobbyHost(roomName, isInMeeting && isHost);
+  const canRecord = isHost && features.recording;
+  const [showPolls, setShowPolls] = useState(false);
+  const polls = usePolls(jitsi, roomName, roster, displayName, isHost);
+  const recording = useRecording(jitsi, roomName, displayName, canRecord);
+  // The breakout room we're in, or null while in the main room
+  const [breakoutRoom, setBreakoutRoom] = useState<string | null>(null);
+  const [switchError, setSwitchError] = useState<string | null>(null);
+  const [showBreakout, setShowBreakout] = useState(false);
+  const breakout = useBreakout(
+    roomName,
+    displayName.trim(),
+    breakoutRoom ? null : roster.localParticipant?.id ?? null,
+    isInMeeting
+  );
+
+  // Follow the host's breakout assignments, and come back when they end
+  useEffect(() => {
+    if (isInMeeting && breakout.assignedRoom !== breakoutRoom) {
+      switchRoom(breakout.assignedRoom);
+    }
+  }, [breakout.assignedRoom, isInMeeting]);
+
+  /**
+   * Mute settings for a preset, unless the server configured its own
+   */
+  function getMuteDefaults(meetingPreset: MeetingPreset) {
+    const presetDefaults = getPresetMuteDefaults(meetingPreset);
+    return {
+      startWithAudioMuted:
+        config.defaults.startWithAudioMuted ??
+        presetDefaults.startWithAudioMuted,
+      startWithVideoMuted:
+        config.defaults.startWithVideoMuted ??
+        presetDefaults.startWithVideoMuted,
+    };
+  }
+
+  /**
+   * Switches preset and resets the mute checkboxes to match it
+   */
+  const handlePresetChange = (meetingPreset: MeetingPreset) => {
+    const defaults = getMuteDefaults(meetingPreset);
+    setPreset(meetingPreset);
+    setAudioMuted(defaults.startWithAudioMuted);
+    setVideoMuted(defaults.startWithVideoMuted);
+  };
+
+  // The host locks the Jitsi room once they're in, and answers Jitsi's
+  // prompt if it was locked already
+  useJitsiEvent(jitsi, "videoConferenceJoined", () => {
+    if (jitsiPassword) jitsi.executeCommand("password", jitsiPassword);
+  });
+  useJitsiEvent(jitsi, "passwordRequired", () => {
+    if (jitsiPassword) jitsi.executeCommand("password", jitsiPassword);
+  });
+
+  // The name actually used for the Jitsi room and its /room link
+  const canonicalRoomName = normalizeRoomName(roomName);
+  const roomNameError =
+    roomName.trim() === ""
+      ? null
+      : validateRoomName(canonicalRoomName) ??
+        (isBreakoutRoomName(canonicalRoomName)
+          ? BREAKOUT_ROOM_NAME_ERROR
+          : null);
 
   /**
    * Handles joining a meeting room
+   * Claims the room first; if someone else hosts it and guests must wait or
+   * enter a passcode, hands over to the room page like any other guest.
+   * Otherwise fetches a token so the component mounts already authenticated
    */
-  const handleJoinMeeting = (e) => {
+  const handleJoinMeeting = async (e) => {
     e.preventDefault();
     if (roomName.trim() === "") {
       alert("Please enter a room name");
       return;
     }
-    setIsInMeeting(true);
+    if (roomNameError) {
+      setJoinError(roomNameError);
+      return;
+    }
+    const passcodeError = passcode ? validatePasscode(passcode) : null;
+    if (passcodeError) {
+      setJoinError(passcodeError);
+      return;
+    }
+    setRoomName(canonicalRoomName);
+
+    setIsJoining(true);
+    setJoinError("");
+    try {
+      // An empty passcode keeps whatever the room already has
+      const settings = await saveRoomSettings(canonicalRoomName, {
+        waitingRoom: waitingRoomChanged ? waitingRoom : undefined,
+        passcode: passcode || undefined,
+        lockJitsiRoom: passcode ? lockJitsiRoom : undefined,
+      });
+      setIsHost(settings.isHost);
+      setJitsiPassword(settings.jitsiPassword);
+      setWaitingRoom(settings.waitingRoom);
+      if (!settings.isHost && (settings.waitingRoom || settings.hasPasscode)) {
+        navigate(`/room/${canonicalRoomName}`);
+        return;
+      }
+
+      // Make sure a custom server is approved and really runs Jitsi before
+      // its script gets loaded into the page
+      if (activeDomain !== jitsiDomain) {
+        const check = await checkJitsiServer(activeDomain);
+        if (!check.ok) {
+          setJoinError(check.error);
+          return;
+        }
+
+        // Tokens are only issued for the configured server
+        setJwt(null);
+        setIsInMeeting(true);
+        return;
+      }
+
+      // The server only makes the room's host a moderator
+      setJwt((await fetchJitsiToken(canonicalRoomName, displayName)).jwt);
+      setIsInMeeting(true);
+    } catch (error) {
+      console.error("Failed to prepare the meeting:", error);
+      setJoinError("Could not start the meeting. Please try again.");
+    } finally {
+      setIsJoining(false);
+    }
   };
 
   /**
    * Handles leaving the current meeting
+   * Hangs up properly so other participants see us leave before the iframe goes away
    */
-  const handleLeaveMeeting = () => {
+  const handleLeaveMeeting = async () => {
+    await jitsi?.hangup();
     setIsInMeeting(false);
+    setBreakoutRoom(null);
+    setSwitchError(null);
+  };
+
+  /**
+   * Moves the meeting to a breakout room, or back to the main room with null
+   * Tokens are per room, so a new one is fetched first
+   */
+  const switchRoom = async (targetRoom: string | null) => {
+    setSwitchError(null);
+    try {
+      setJwt(
+        activeDomain === jitsiDomain
+          ? (await fetchJitsiToken(targetRoom ?? roomName, displayName)).jwt
+          : null
+      );
+      setBreakoutRoom(targetRoom);
+    } catch (error) {
+      console.error("Failed to switch rooms:", error);
+      setSwitchError(
+        `${
+          targetRoom
+            ? "Could not join your breakout room"
+            : "Could not return to the main room"
+        }: ${error.message}`
+      );
+    }
+  };
+
+  /**
+   * Turns the waiting room on or off (host only)
+   * Turning it off lets everyone who is waiting in
+   */
+  const handleToggleWaitingRoom = async () => {
+    try {
+      const settings = await saveRoomSettings(roomName, {
+        waitingRoom: !waitingRoom,
+      });
+      setWaitingRoom(settings.waitingRoom);
+    } catch (error) {
+      console.error("Failed to change the waiting room:", error);
+    }
   };
 
   // Determine which Jitsi server to use
   const activeDomain =
-    useCustomServer && customServer.trim() !== ""
-      ? customServer.trim()
+    features.customServer && useCustomServer && customServer.trim() !== ""
+      ? normalizeDomain(customServer)
       : jitsiDomain;
 
   return (
@@ -69,6 +303,25 @@ export default function Index() {
         <p className="text-gray-600">
           A simple Google meet clone using REMIX and JITSI
         </p>
+        <div className="space-x-4">
+          {features.scheduling && (
+            <Link to="/meetings" className="text-blue-600 hover:underline">
+              Schedule a meeting
+            </Link>
+          )}
+          <Link to="/rooms" className="text-blue-600 hover:underline">
+            Room dashboard
+          </Link>
+          {user ? (
+            <Link to="/account" className="text-blue-600 hover:underline">
+              Your profile
+            </Link>
+          ) : (
+            <Link to="/login" className="text-blue-600 hover:underline">
+              Sign in
+            </Link>
+          )}
+        </div>
       </div>
 
       {!isInMeeting ? (
@@ -83,14 +336,32 @@ export default function Index() {
               >
                 Room Name
               </label>
-              <input
-                type="text"
-                id="roomName"
-                value={roomName}
-                onChange={(e) => setRoomName(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                required
-              />
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  id="roomName"
+                  value={roomName}
+                  onChange={(e) => setRoomName(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  required
+                />
+                <button
+                  type="button"
+                  onClick={() => setRoomName(generateRoomId())}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm hover:bg-gray-100"
+                >
+                  Generate
+                </button>
+              </div>
+              {roomNameError ? (
+                <p className="text-xs text-red-600 mt-1">{roomNameError}</p>
+              ) : (
+                canonicalRoomName !== roomName && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Will join as: {canonicalRoomName}
+                  </p>
+                )
+              )}
             </div>
 
             <div>
@@ -110,6 +381,27 @@ export default function Index() {
               />
             </div>
 
+            <div>
+              <label
+                htmlFor="preset"
+                className="block text-sm font-medium mb-1"
+              >
+                Meeting Type
+              </label>
+              <PresetSelect
+                id="preset"
+                value={preset}
+                onChange={handlePresetChange}
+              />
+            </div>
+
+            <PreJoinLobby
+              value={devices}
+              onChange={setDevices}
+              preferred={user?.profile.devices}
+              videoMuted={videoMuted}
+            />
+
             <div className="flex items-center space-x-4">
               <div className="flex items-center">
                 <input
@@ -138,45 +430,111 @@ export default function Index() {
               </div>
             </div>
 
-            <div className="border-t pt-4 mt-4">
-              <div className="flex items-center mb-2">
-                <input
-                  type="checkbox"
-                  id="useCustomServer"
-                  checked={useCustomServer}
-                  onChange={(e) => setUseCustomServer(e.target.checked)}
-                  className="mr-2"
-                />
-                <label
-                  htmlFor="useCustomServer"
-                  className="text-sm font-medium"
-                >
-                  Use Custom Jitsi Server
-                </label>
-              </div>
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="waitingRoom"
+                checked={waitingRoom}
+                onChange={(e) => {
+                  setWaitingRoom(e.target.checked);
+                  setWaitingRoomChanged(true);
+                }}
+                className="mr-2"
+              />
+              <label htmlFor="waitingRoom" className="text-sm">
+                Enable waiting room (guests wait until you let them in)
+              </label>
+            </div>
 
-              {useCustomServer && (
-                <div>
+            <div>
+              <label
+                htmlFor="passcode"
+                className="block text-sm font-medium mb-1"
+              >
+                Passcode (optional)
+              </label>
+              <input
+                type="password"
+                id="passcode"
+                value={passcode}
+                onChange={(e) => setPasscode(e.target.value)}
+                maxLength={MAX_PASSCODE_LENGTH}
+                autoComplete="new-password"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+              {passcode && (
+                <div className="flex items-center mt-2">
                   <input
-                    type="text"
-                    value={customServer}
-                    onChange={(e) => setCustomServer(e.target.value)}
-                    placeholder="e.g., jitsi.yourdomain.com"
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md mb-2"
+                    type="checkbox"
+                    id="lockJitsiRoom"
+                    checked={lockJitsiRoom}
+                    onChange={(e) => setLockJitsiRoom(e.target.checked)}
+                    className="mr-2"
                   />
-                  <p className="text-xs text-gray-500">
-                    Using a custom or self-hosted Jitsi server can avoid service
-                    limitations
-                  </p>
+                  <label htmlFor="lockJitsiRoom" className="text-sm">
+                    Also lock the Jitsi room itself
+                  </label>
                 </div>
               )}
             </div>
 
+            {features.customServer && (
+              <div className="border-t pt-4 mt-4">
+                <div className="flex items-center mb-2">
+                  <input
+                    type="checkbox"
+                    id="useCustomServer"
+                    checked={useCustomServer}
+                    onChange={(e) => setUseCustomServer(e.target.checked)}
+                    className="mr-2"
+                  />
+                  <label
+                    htmlFor="useCustomServer"
+                    className="text-sm font-medium"
+                  >
+                    Use Custom Jitsi Server
+                  </label>
+                </div>
+
+                {useCustomServer && (
+                  <div>
+                    <input
+                      type="text"
+                      value={customServer}
+                      onChange={(e) => setCustomServer(e.target.value)}
+                      placeholder="e.g., jitsi.yourdomain.com"
+                      list="allowedDomains"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md mb-2"
+                    />
+                    <datalist id="allowedDomains">
+                      {allowedDomains.map((domain) => (
+                        <option key={domain} value={domain} />
+                      ))}
+                    </datalist>
+                    {customServer.trim() !== "" &&
+                      validateDomainFormat(activeDomain) && (
+                        <p className="text-xs text-red-600 mb-2">
+                          {validateDomainFormat(activeDomain)}
+                        </p>
+                      )}
+                    <p className="text-xs text-gray-500">
+                      Using a custom or self-hosted Jitsi server can avoid
+                      service limitations. Approved servers:{" "}
+                      {allowedDomains.join(", ")}
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {joinError && <p className="text-sm text-red-600">{joinError}</p>}
+
             <button
               type="submit"
-              className="w-full py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700"
+              disabled={isJoining}
+              className="w-full py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50"
             >
-              Join Meeting
+              {isJoining ? "Joining..." : "Join Meeting"}
             </button>
           </form>
         </div>
@@ -187,24 +545,116 @@ export default function Index() {
               <h2 className="text-xl font-semibold">Room: {roomName}</h2>
               <p className="text-sm text-gray-300">
                 Joined as: {displayName} | Server: {activeDomain}
+                <RecordingIndicator active={recording.active} />
               </p>
             </div>
-            <button
-              onClick={handleLeaveMeeting}
-              className="bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded"
-            >
-              Leave Meeting
-            </button>
+            <div className="flex space-x-2">
+              <InviteMenu
+                roomName={roomName}
+                title={roomName}
+                dialIn={config.dialIn}
+              />
+              {canRecord && (
+                <RecordingMenu roomName={roomName} recording={recording} />
+              )}
+              {isHost && (
+                <button
+                  onClick={handleToggleWaitingRoom}
+                  className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded"
+                >
+                  Waiting Room: {waitingRoom ? "On" : "Off"}
+                </button>
+              )}
+              <button
+                onClick={() => setShowParticipants(!showParticipants)}
+                className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded"
+              >
+                Participants ({roster.participants.length})
+              </button>
+              <button
+                onClick={() => setShowChat(!showChat)}
+                className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded"
+              >
+                Chat
+              </button>
+              <button
+                onClick={() => setShowPolls(!showPolls)}
+                className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded"
+              >
+                Polls
+              </button>
+              {isHost && (
+                <button
+                  onClick={() => setShowBreakout(!showBreakout)}
+                  className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded"
+                >
+                  Breakout Rooms
+                </button>
+              )}
+              <button
+                onClick={handleLeaveMeeting}
+                className="bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded"
+              >
+                Leave Meeting
+              </button>
+            </div>
           </div>
 
-          <div className="conference-wrapper" style={{ height: "80vh" }}>
-            <JitsiMeetComponent
-              roomName={roomName}
-              displayName={displayName}
-              domain={activeDomain}
-              startWithAudioMuted={audioMuted}
-              startWithVideoMuted={videoMuted}
-            />
+          <LobbyRequests
+            requests={lobbyHost.requests}
+            onAdmit={lobbyHost.admit}
+            onDeny={lobbyHost.deny}
+          />
+
+          <BreakoutBanner
+            session={breakout.session}
+            assignedRoom={breakout.assignedRoom}
+            switchError={switchError}
+            onRetry={() => switchRoom(breakout.assignedRoom)}
+          />
+
+          <div className="conference-wrapper flex" style={{ height: "80vh" }}>
+            <div className="flex-1 min-w-0">
+              <JitsiMeetComponent
+                ref={setJitsi}
+                roomName={breakoutRoom ?? roomName}
+                displayName={displayName}
+                email={user?.email}
+                avatarUrl={user?.profile.avatarUrl ?? undefined}
+                domain={activeDomain}
+                startWithAudioMuted={audioMuted}
+                startWithVideoMuted={videoMuted}
+                preset={preset}
+                jwt={jwt ?? undefined}
+                devices={devices}
+                reportAttendance
+                reportPresence
+                enableRecording={canRecord}
+                collectTranscript={features.transcripts}
+              />
+            </div>
+            {showParticipants && (
+              <ParticipantsPanel jitsi={jitsi} roster={roster} />
+            )}
+            {showPolls && (
+              <PollsPanel
+                polls={polls}
+                localParticipantId={roster.localParticipant?.id ?? null}
+                isHost={isHost}
+              />
+            )}
+            {isHost && showBreakout && (
+              <BreakoutPanel
+                participants={roster.participants}
+                session={breakout.session}
+                error={breakout.error}
+                onStart={breakout.start}
+                onEnd={breakout.end}
+              />
+            )}
+            {showChat && (
+              <ChatPanel roomName={roomName} displayName={displayName} />
+            )}
           </div>
         </div>
       )}
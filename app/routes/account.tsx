@@ -0,0 +1,174 @@
+// app/routes/account.tsx
+import { json } from "@remix-run/node";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "@remix-run/react";
+import { useState } from "react";
+import PreJoinLobby from "~/components/PreJoinLobby";
+import { requireUser } from "~/lib/sessions.server";
+import {
+  MAX_AVATAR_URL_LENGTH,
+  MAX_DISPLAY_NAME_LENGTH,
+  parseDeviceSelection,
+  validateAvatarUrl,
+  validateDisplayName,
+} from "~/lib/users";
+import { getUserStore } from "~/lib/users.server";
+import type { JitsiDeviceSelection } from "~/types/jitsi";
+
+/**
+ * Loader for the signed-in user's profile
+ */
+export const loader = async ({ request, context }) => {
+  const user = await requireUser(context, request);
+  return json({ user });
+};
+
+/**
+ * Action that saves the profile: display name, avatar and preferred devices
+ */
+export const action = async ({ request, context }) => {
+  const user = await requireUser(context, request);
+  const formData = await request.formData();
+  const displayName = String(formData.get("displayName") ?? "").trim();
+  const avatarUrl = String(formData.get("avatarUrl") ?? "").trim();
+
+  const errors: Record<string, string> = {};
+  const displayNameError = validateDisplayName(displayName);
+  if (displayNameError) errors.displayName = displayNameError;
+  const avatarUrlError = validateAvatarUrl(avatarUrl);
+  if (avatarUrlError) errors.avatarUrl = avatarUrlError;
+  if (Object.keys(errors).length > 0) {
+    return json({ errors, saved: false }, { status: 400 });
+  }
+
+  let devices: JitsiDeviceSelection;
+  try {
+    devices = parseDeviceSelection(
+      JSON.parse(String(formData.get("devices") ?? "{}"))
+    );
+  } catch {
+    devices = {};
+  }
+
+  await getUserStore(context).update(user.id, {
+    profile: { displayName, avatarUrl: avatarUrl || null, devices },
+  });
+  return json({ errors: {}, saved: true });
+};
+
+/**
+ * Profile page: what the signed-in user brings into every meeting
+ */
+export default function Account() {
+  const { user } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const errors: Record<string, string> = actionData?.errors ?? {};
+  const [devices, setDevices] = useState<JitsiDeviceSelection>(
+    user.profile.devices
+  );
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="mb-8 flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Your profile</h1>
+        <Link to="/" className="text-blue-600 hover:underline">
+          Back to quick join
+        </Link>
+      </div>
+
+      <div className="max-w-md bg-white rounded-lg overflow-hidden shadow-lg p-6">
+        <p className="text-sm text-gray-600 mb-4">Signed in as {user.email}</p>
+
+        <Form method="post" className="space-y-4">
+          <div>
+            <label
+              htmlFor="displayName"
+              className="block text-sm font-medium mb-1"
+            >
+              Display name
+            </label>
+            <input
+              type="text"
+              id="displayName"
+              name="displayName"
+              defaultValue={user.profile.displayName}
+              maxLength={MAX_DISPLAY_NAME_LENGTH}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              required
+            />
+            {errors.displayName && (
+              <p className="text-sm text-red-600 mt-1">{errors.displayName}</p>
+            )}
+          </div>
+
+          <div>
+            <label
+              htmlFor="avatarUrl"
+              className="block text-sm font-medium mb-1"
+            >
+              Avatar URL
+            </label>
+            <div className="flex items-center space-x-3">
+              {user.profile.avatarUrl && (
+                <img
+                  src={user.profile.avatarUrl}
+                  alt=""
+                  className="w-10 h-10 rounded-full object-cover"
+                />
+              )}
+              <input
+                type="url"
+                id="avatarUrl"
+                name="avatarUrl"
+                defaultValue={user.profile.avatarUrl ?? ""}
+                maxLength={MAX_AVATAR_URL_LENGTH}
+                placeholder="https://..."
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            {errors.avatarUrl && (
+              <p className="text-sm text-red-600 mt-1">{errors.avatarUrl}</p>
+            )}
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium mb-1">Preferred devices</p>
+            <PreJoinLobby value={devices} onChange={setDevices} />
+            <input
+              type="hidden"
+              name="devices"
+              value={JSON.stringify(devices)}
+            />
+          </div>
+
+          {actionData?.saved && (
+            <p className="text-sm text-green-700">Profile saved.</p>
+          )}
+
+          <button
+            type="submit"
+            disabled={navigation.state === "submitting"}
+            className="w-full py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save Profile
+          </button>
+        </Form>
+
+        <Form method="post" action="/logout" className="mt-4">
+          <button
+            type="submit"
+            className="text-sm text-red-600 hover:underline"
+          >
+            Sign out
+          </button>
+        </Form>
+      </div>
+    </div>
+  );
+}
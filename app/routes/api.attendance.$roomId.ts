@@ -0,0 +1,69 @@
+// app/routes/api.attendance.$roomId.ts
+import { json } from "@remix-run/node";
+import {
+  buildAttendanceReport,
+  getAttendanceStore,
+  toCsv,
+} from "~/lib/attendance.server";
+import { canJoinRoom } from "~/lib/lobby.server";
+import { validateRoomName } from "~/lib/room-names";
+import { getRoomStore } from "~/lib/rooms.server";
+
+/**
+ * Resource route that exports a room's attendance
+ *
+ * ?format=csv|json picks the file format (default: json)
+ * ?data=report|events exports the per-participant report or the raw event log
+ * (default: report)
+ * Only the host and guests who may join the meeting can export it
+ */
+export const loader = async ({ request, params, context }) => {
+  if (validateRoomName(params.roomId)) {
+    return json({ error: "Invalid room name" }, { status: 404 });
+  }
+  const room = await getRoomStore(context).get(params.roomId);
+  if (!(await canJoinRoom(context, request.headers.get("Cookie"), room))) {
+    return json({ error: "Please join the meeting first" }, { status: 403 });
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const format = searchParams.get("format") === "csv" ? "csv" : "json";
+  const data = searchParams.get("data") === "events" ? "events" : "report";
+
+  const events = await getAttendanceStore(context).listByRoom(params.roomId);
+  const fileName = `${params.roomId}-attendance${
+    data === "events" ? "-events" : ""
+  }.${format}`;
+  const headers = {
+    "Cache-Control": "no-store",
+    "Content-Disposition": `attachment; filename="${fileName}"`,
+  };
+
+  if (format === "json") {
+    return json(data === "events" ? events : buildAttendanceReport(events), {
+      headers,
+    });
+  }
+
+  const csv =
+    data === "events"
+      ? toCsv(events, [
+          "at",
+          "sessionId",
+          "participantId",
+          "displayName",
+          "type",
+          "detail",
+        ])
+      : toCsv(buildAttendanceReport(events), [
+          "displayName",
+          "firstJoin",
+          "lastLeave",
+          "totalMinutes",
+          "sessions",
+        ]);
+
+  return new Response(csv, {
+    headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+  });
+};
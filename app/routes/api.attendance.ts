@@ -0,0 +1,58 @@
+// app/routes/api.attendance.ts
+import { json } from "@remix-run/node";
+import {
+  getAttendanceStore,
+  parseAttendanceEvent,
+  reserveAttendanceEvent,
+} from "~/lib/attendance.server";
+import { canJoinRoom } from "~/lib/lobby.server";
+import { trackMeetingLifecycle } from "~/lib/meeting-lifecycle.server";
+import { getRoomStore } from "~/lib/rooms.server";
+
+/**
+ * Resource route that records attendance events sent by `JitsiMeetComponent`
+ *
+ * Expects a POST with a JSON body of
+ * { roomName, sessionId, participantId, displayName, type, detail }.
+ * Only rooms someone created are tracked, and only visitors who may join
+ * the meeting (its host, or guests who entered the passcode and got past the
+ * waiting room) can report events for it; each client address may report a
+ * limited number of events per room.
+ * Joins, leaves and recording changes also drive the lifecycle webhooks.
+ */
+export const action = async ({ request, context }) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = parseAttendanceEvent(body);
+  if ("error" in parsed) {
+    return json({ error: parsed.error }, { status: 400 });
+  }
+
+  const room = await getRoomStore(context).get(parsed.event.roomName);
+  if (!room) {
+    return json({ error: "Unknown room" }, { status: 404 });
+  }
+  if (!(await canJoinRoom(context, request.headers.get("Cookie"), room))) {
+    return json({ error: "Please join the meeting first" }, { status: 403 });
+  }
+
+  const reservation = reserveAttendanceEvent(context, parsed.event);
+  if (reservation.ok === false) {
+    return json(
+      { error: "Too many attendance events. Please try again later." },
+      {
+        status: 429,
+        headers: { "Retry-After": String(reservation.retryAfterSeconds) },
+      }
+    );
+  }
+
+  const event = await getAttendanceStore(context).record(parsed.event);
+  await trackMeetingLifecycle(context, event).catch((error) =>
+    console.error("Failed to track meeting:", error)
+  );
+  return new Response(null, { status: 204 });
+};
@@ -0,0 +1,43 @@
+// app/routes/api.chat.$roomId.ts
+import { json } from "@remix-run/node";
+import { formatChatTranscript, getChatStore } from "~/lib/chat.server";
+import { canJoinRoom } from "~/lib/lobby.server";
+import { getMeetingStore } from "~/lib/meetings.server";
+import { validateRoomName } from "~/lib/room-names";
+import { getRoomStore } from "~/lib/rooms.server";
+
+/**
+ * Resource route that exports a room's chat as a transcript
+ *
+ * ?format=txt|json picks the file format (default: txt)
+ * Only the host and guests who may join the meeting can export
+ */
+export const loader = async ({ request, params, context }) => {
+  if (validateRoomName(params.roomId)) {
+    return json({ error: "Invalid room name" }, { status: 404 });
+  }
+  const room = await getRoomStore(context).get(params.roomId);
+  if (!(await canJoinRoom(context, request.headers.get("Cookie"), room))) {
+    return json({ error: "Please join the meeting first" }, { status: 403 });
+  }
+
+  const format =
+    new URL(request.url).searchParams.get("format") === "json" ? "json" : "txt";
+  const [messages, meeting] = await Promise.all([
+    getChatStore(context).list(params.roomId),
+    getMeetingStore(context).get(params.roomId),
+  ]);
+  const headers = {
+    "Cache-Control": "no-store",
+    "Content-Disposition": `attachment; filename="${params.roomId}-chat.${format}"`,
+  };
+
+  if (format === "json") {
+    return json(messages, { headers });
+  }
+
+  return new Response(
+    formatChatTranscript(meeting?.title ?? params.roomId, messages),
+    { headers: { ...headers, "Content-Type": "text/plain; charset=utf-8" } }
+  );
+};
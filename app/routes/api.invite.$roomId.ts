@@ -0,0 +1,60 @@
+// app/routes/api.invite.$roomId.ts
+import { json } from "@remix-run/node";
+import { getAppConfig } from "~/lib/config.server";
+import { buildIcsCalendar } from "~/lib/ics.server";
+import { formatInviteText, getInviteSchedule, getRoomUrl } from "~/lib/invites";
+import { getMeetingStore } from "~/lib/meetings.server";
+import { validateRoomName } from "~/lib/room-names";
+import { canEnterRoom } from "~/lib/room-passcodes.server";
+import { getRoomStore } from "~/lib/rooms.server";
+
+/**
+ * Resource route that serves a room's invite as a calendar file (.ics)
+ *
+ * Uses the registered meeting's title and schedule when there is one;
+ * ad-hoc rooms get an event starting now and lasting an hour
+ */
+export const loader = async ({ request, params, context }) => {
+  if (validateRoomName(params.roomId)) {
+    return json({ error: "Invalid room name" }, { status: 404 });
+  }
+
+  const [meeting, room] = await Promise.all([
+    getMeetingStore(context).get(params.roomId),
+    getRoomStore(context).get(params.roomId),
+  ]);
+  if (!(await canEnterRoom(context, request.headers.get("Cookie"), room))) {
+    return json({ error: "Please enter the room passcode" }, { status: 403 });
+  }
+
+  const config = getAppConfig(context);
+  const url = new URL(request.url);
+  const joinUrl = getRoomUrl(url.origin, params.roomId);
+  const { start, end } = getInviteSchedule(meeting);
+  const title = meeting?.title ?? `${config.appName}: ${params.roomId}`;
+
+  const calendar = buildIcsCalendar(config.appName, {
+    // Stable for scheduled meetings, so re-imports update the same event
+    uid: `${params.roomId}-${start.getTime()}@${url.hostname}`,
+    title,
+    description: formatInviteText({
+      title,
+      description: meeting?.description ?? "",
+      joinUrl,
+      start,
+      end,
+      dialIn: config.dialIn,
+    }),
+    url: joinUrl,
+    start,
+    end,
+  });
+
+  return new Response(calendar, {
+    headers: {
+      "Cache-Control": "no-store",
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${params.roomId}.ics"`,
+    },
+  });
+};
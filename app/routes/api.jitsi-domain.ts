@@ -0,0 +1,18 @@
+// app/routes/api.jitsi-domain.ts
+import { json } from "@remix-run/node";
+import { checkJitsiDomain } from "~/lib/jitsi-domains.server";
+
+/**
+ * Resource route that checks a Jitsi server before the user joins it
+ * GET /api/jitsi-domain?domain=jitsi.example.com responds with
+ * { domain, ok, error }
+ */
+export const loader = async ({ request, context }) => {
+  const domain = new URL(request.url).searchParams.get("domain") ?? "";
+  const result = await checkJitsiDomain(context, domain);
+
+  return json(result, {
+    status: result.ok ? 200 : 422,
+    headers: { "Cache-Control": "no-store" },
+  });
+};
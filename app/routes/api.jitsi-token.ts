@@ -0,0 +1,117 @@
+// app/routes/api.jitsi-token.ts
+import { json } from "@remix-run/node";
+import {
+  getJitsiTokenSettings,
+  signJitsiToken,
+  type JitsiTokenRole,
+} from "~/lib/jwt.server";
+import { findBreakoutMainRoom } from "~/lib/breakout.server";
+import {
+  addRoomAdmission,
+  canJoinRoom,
+  hasRoomAdmission,
+  redeemAdmissionTicket,
+} from "~/lib/lobby.server";
+import { validateRoomName } from "~/lib/room-names";
+import { getJitsiRoomPassword, hasRoomPass } from "~/lib/room-passcodes.server";
+import { getRoomStore, isRoomHost } from "~/lib/rooms.server";
+import { getSessionUser } from "~/lib/sessions.server";
+
+/**
+ * Resource route that issues per-room, per-user JWTs for self-hosted Jitsi
+ * deployments running with token authentication
+ *
+ * Expects a POST with a JSON body of
+ * { roomName, displayName, admissionTicket }. The role is never taken from
+ * the request: the room's host joins as a moderator, everyone else as a guest.
+ * Guests of passcode-protected rooms need the pass cookie from entering the
+ * passcode, and guests of rooms with a waiting room need the ticket they got
+ * when the host admitted them; redeeming it also sets a cookie that lets
+ * them into the room's chat and notes, and back into the meeting without a
+ * new ticket, e.g. after a breakout session. Breakout rooms follow their
+ * main room's passcode, host and admissions, but have no waiting room of
+ * their own.
+ * Tokens for signed-in users also carry their account id, email and avatar.
+ * Responds with { jwt, expiresAt, jitsiPassword }: jwt is null when token
+ * auth is not configured, and jitsiPassword answers Jitsi's prompt when the
+ * host locked the room, so only those let in ever see it.
+ */
+export const action = async ({ request, context }) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const roomName =
+    typeof body?.roomName === "string" ? body.roomName.trim() : "";
+  const displayName =
+    typeof body?.displayName === "string" ? body.displayName.trim() : "";
+
+  if (roomName === "" || displayName === "") {
+    return json(
+      { error: "roomName and displayName are required" },
+      { status: 400 }
+    );
+  }
+
+  // Only sign tokens for canonical room names
+  const roomNameError = validateRoomName(roomName);
+  if (roomNameError) {
+    return json({ error: roomNameError }, { status: 400 });
+  }
+
+  const mainRoom = await findBreakoutMainRoom(context, roomName);
+  const room = await getRoomStore(context).get(mainRoom ?? roomName);
+  const cookieHeader = request.headers.get("Cookie");
+  const isHost = await isRoomHost(context, cookieHeader, room);
+  if (!isHost && !(await hasRoomPass(cookieHeader, room))) {
+    return json({ error: "Please enter the room passcode" }, { status: 403 });
+  }
+  const isAdmitted = mainRoom
+    ? await canJoinRoom(context, cookieHeader, room)
+    : !room?.waitingRoom ||
+      isHost ||
+      redeemAdmissionTicket(roomName, body.admissionTicket) ||
+      (await hasRoomAdmission(context, cookieHeader, roomName));
+  if (!isAdmitted) {
+    return json(
+      { error: "Please wait for the host to let you in" },
+      { status: 403 }
+    );
+  }
+
+  const headers = new Headers({ "Cache-Control": "no-store" });
+  if (!mainRoom && room?.waitingRoom && !isHost) {
+    headers.append(
+      "Set-Cookie",
+      await addRoomAdmission(context, cookieHeader, roomName)
+    );
+  }
+
+  // Only the main room is locked; breakout rooms have their own Jitsi room
+  const jitsiPassword = mainRoom ? null : getJitsiRoomPassword(room);
+
+  const settings = getJitsiTokenSettings(context);
+  if (!settings) {
+    return json({ jwt: null, expiresAt: null, jitsiPassword }, { headers });
+  }
+
+  const role: JitsiTokenRole = isHost ? "moderator" : "guest";
+
+  const user = await getSessionUser(context, cookieHeader);
+  const { jwt, expiresAt } = signJitsiToken(
+    settings,
+    roomName,
+    user
+      ? {
+          id: user.id,
+          name: displayName,
+          email: user.email,
+          avatar: user.profile.avatarUrl ?? undefined,
+        }
+      : { name: displayName },
+    role
+  );
+
+  return json({ jwt, expiresAt, jitsiPassword }, { headers });
+};
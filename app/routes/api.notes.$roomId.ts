@@ -0,0 +1,45 @@
+// app/routes/api.notes.$roomId.ts
+import { json } from "@remix-run/node";
+import { canJoinRoom } from "~/lib/lobby.server";
+import { getMeetingStore } from "~/lib/meetings.server";
+import { formatNotesMarkdown, getNotesText } from "~/lib/notes.server";
+import { validateRoomName } from "~/lib/room-names";
+import { getRoomStore } from "~/lib/rooms.server";
+
+/**
+ * Resource route that exports a room's shared notes
+ *
+ * ?format=md|txt picks the file format (default: md)
+ * Only the host and guests who may join the meeting can export
+ */
+export const loader = async ({ request, params, context }) => {
+  if (validateRoomName(params.roomId)) {
+    return json({ error: "Invalid room name" }, { status: 404 });
+  }
+  const room = await getRoomStore(context).get(params.roomId);
+  if (!(await canJoinRoom(context, request.headers.get("Cookie"), room))) {
+    return json({ error: "Please join the meeting first" }, { status: 403 });
+  }
+
+  const format =
+    new URL(request.url).searchParams.get("format") === "txt" ? "txt" : "md";
+  const [text, meeting] = await Promise.all([
+    getNotesText(context, params.roomId),
+    getMeetingStore(context).get(params.roomId),
+  ]);
+  const headers = {
+    "Cache-Control": "no-store",
+    "Content-Disposition": `attachment; filename="${params.roomId}-notes.${format}"`,
+  };
+
+  if (format === "txt") {
+    return new Response(text, {
+      headers: { ...headers, "Content-Type": "text/plain; charset=utf-8" },
+    });
+  }
+
+  return new Response(
+    formatNotesMarkdown(meeting?.title ?? params.roomId, text),
+    { headers: { ...headers, "Content-Type": "text/markdown; charset=utf-8" } }
+  );
+};
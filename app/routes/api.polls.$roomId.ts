@@ -0,0 +1,64 @@
+// app/routes/api.polls.$roomId.ts
+import { json } from "@remix-run/node";
+import { canJoinRoom } from "~/lib/lobby.server";
+import { encodePollMessage, parsePollMessage } from "~/lib/polls";
+import { getPollResultStore } from "~/lib/polls.server";
+import { validateRoomName } from "~/lib/room-names";
+import { getRoomStore, isRoomHost } from "~/lib/rooms.server";
+
+/**
+ * Resource route that lists a room's saved poll results as JSON
+ * Only the host and guests who may join the meeting can see them
+ */
+export const loader = async ({ request, params, context }) => {
+  if (validateRoomName(params.roomId)) {
+    return json({ error: "Invalid room name" }, { status: 404 });
+  }
+  const room = await getRoomStore(context).get(params.roomId);
+  if (!(await canJoinRoom(context, request.headers.get("Cookie"), room))) {
+    return json({ error: "Please join the meeting first" }, { status: 403 });
+  }
+
+  return json(await getPollResultStore(context).listByRoom(params.roomId), {
+    headers: { "Cache-Control": "no-store" },
+  });
+};
+
+/**
+ * Resource route that saves a closed poll's results
+ *
+ * Expects a POST from the room's host with a JSON body of { poll }, the poll
+ * as sent between browsers. Responds with the saved result.
+ */
+export const action = async ({ request, params, context }) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+  const roomNameError = validateRoomName(params.roomId);
+  if (roomNameError) {
+    return json({ error: roomNameError }, { status: 400 });
+  }
+
+  const room = await getRoomStore(context).get(params.roomId);
+  if (!(await isRoomHost(context, request.headers.get("Cookie"), room))) {
+    return json(
+      { error: "Only the host can save poll results" },
+      { status: 403 }
+    );
+  }
+
+  // Same checks as for polls received in the meeting
+  const body = await request.json().catch(() => null);
+  const message = parsePollMessage(
+    encodePollMessage({ type: "poll", poll: body?.poll })
+  );
+  if (message?.type !== "poll" || !message.poll.closed) {
+    return json({ error: "A closed poll is required" }, { status: 400 });
+  }
+
+  const result = await getPollResultStore(context).save(
+    params.roomId,
+    message.poll
+  );
+  return json({ result });
+};
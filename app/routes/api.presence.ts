@@ -0,0 +1,122 @@
+// app/routes/api.presence.ts
+import { json } from "@remix-run/node";
+import { findBreakoutMainRoom } from "~/lib/breakout.server";
+import { canJoinRoom } from "~/lib/lobby.server";
+import { touchMeetingSession } from "~/lib/meeting-lifecycle.server";
+import type { RoomOccupancy } from "~/lib/presence";
+import {
+  getVisibleOccupancy,
+  parsePresenceHeartbeat,
+  recordPresenceHeartbeat,
+  subscribeToPresence,
+} from "~/lib/presence.server";
+import { getRoomStore } from "~/lib/rooms.server";
+
+// Comment lines keep proxies from closing an idle stream
+const KEEP_ALIVE_MS = 25000;
+
+/**
+ * Resource route that streams live room occupancy as server-sent events
+ * Sends an "occupancy" event with every active room on connect and
+ * whenever someone joins, leaves or times out
+ * Only rooms the viewer may see listed are included (see canListRoom)
+ */
+export const loader = async ({ request, context }) => {
+  const encoder = new TextEncoder();
+  const cookieHeader = request.headers.get("Cookie");
+  let cleanUp = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The stream was already closed
+        }
+      };
+      // Chained so updates go out in order despite the async filtering
+      let sending = Promise.resolve();
+      const sendOccupancy = (occupancy?: RoomOccupancy[]) => {
+        sending = sending
+          .then(() => getVisibleOccupancy(context, cookieHeader, occupancy))
+          .then((visible) =>
+            send(`event: occupancy\ndata: ${JSON.stringify(visible)}\n\n`)
+          )
+          .catch((error) => console.error("Failed to send occupancy:", error));
+      };
+
+      sendOccupancy();
+      const unsubscribe = subscribeToPresence(sendOccupancy);
+      const keepAlive = setInterval(
+        () => send(": keep-alive\n\n"),
+        KEEP_ALIVE_MS
+      );
+
+      cleanUp = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => {
+        cleanUp();
+        try {
+          controller.close();
+        } catch {
+          // Already cancelled by the consumer
+        }
+      });
+    },
+    cancel() {
+      cleanUp();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-store",
+      Connection: "keep-alive",
+      // Stop nginx and similar proxies from buffering the stream
+      "X-Accel-Buffering": "no",
+    },
+  });
+};
+
+/**
+ * Records a presence heartbeat sent by `JitsiMeetComponent`
+ *
+ * Expects a POST with a JSON body of
+ * { roomName, sessionId, displayName, status: "present" | "leave" }.
+ * Only rooms someone created and their breakout rooms are tracked, and only
+ * for people who may join the (main) room; each room holds a limited number
+ * of sessions.
+ */
+export const action = async ({ request, context }) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = parsePresenceHeartbeat(body);
+  if ("error" in parsed) {
+    return json({ error: parsed.error }, { status: 400 });
+  }
+
+  const { heartbeat } = parsed;
+  const mainRoom = await findBreakoutMainRoom(context, heartbeat.roomName);
+  const room = await getRoomStore(context).get(mainRoom ?? heartbeat.roomName);
+  if (!room) {
+    return json({ error: "Unknown room" }, { status: 404 });
+  }
+  if (!(await canJoinRoom(context, request.headers.get("Cookie"), room))) {
+    return json({ error: "Please join the meeting first" }, { status: 403 });
+  }
+
+  if (!recordPresenceHeartbeat(heartbeat)) {
+    return json({ error: "This room is full" }, { status: 429 });
+  }
+  if (heartbeat.status === "present") {
+    touchMeetingSession(heartbeat.roomName, heartbeat.sessionId);
+  }
+  return new Response(null, { status: 204 });
+};
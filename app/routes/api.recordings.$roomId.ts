@@ -0,0 +1,68 @@
+// app/routes/api.recordings.$roomId.ts
+import { json } from "@remix-run/node";
+import { requireFeature } from "~/lib/config.server";
+import { canJoinRoom } from "~/lib/lobby.server";
+import { getRecordingStore } from "~/lib/recordings.server";
+import { validateRoomName } from "~/lib/room-names";
+import { getRoomStore, isRoomHost } from "~/lib/rooms.server";
+
+const MAX_DISPLAY_NAME_LENGTH = 100;
+
+/**
+ * Resource route that lists a room's recordings as JSON
+ * Only the host and guests who may join the meeting can see them
+ */
+export const loader = async ({ request, params, context }) => {
+  requireFeature(context, "recording");
+  if (validateRoomName(params.roomId)) {
+    return json({ error: "Invalid room name" }, { status: 404 });
+  }
+  const room = await getRoomStore(context).get(params.roomId);
+  if (!(await canJoinRoom(context, request.headers.get("Cookie"), room))) {
+    return json({ error: "Please join the meeting first" }, { status: 403 });
+  }
+
+  return json(await getRecordingStore(context).listByRoom(params.roomId), {
+    headers: { "Cache-Control": "no-store" },
+  });
+};
+
+/**
+ * Resource route that records when the host starts or stops a recording
+ *
+ * Expects a POST with a JSON body of { mode, on, displayName }, sent by the
+ * host's browser when Jitsi reports a recording status change.
+ * Responds with the catalog entry.
+ */
+export const action = async ({ request, params, context }) => {
+  requireFeature(context, "recording");
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+  const roomNameError = validateRoomName(params.roomId);
+  if (roomNameError) {
+    return json({ error: roomNameError }, { status: 400 });
+  }
+
+  const room = await getRoomStore(context).get(params.roomId);
+  if (!(await isRoomHost(context, request.headers.get("Cookie"), room))) {
+    return json({ error: "Only the host can record" }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const mode = body?.mode;
+  if (mode !== "file" && mode !== "stream") {
+    return json({ error: "mode must be file or stream" }, { status: 400 });
+  }
+  const displayName =
+    typeof body?.displayName === "string"
+      ? body.displayName.trim().slice(0, MAX_DISPLAY_NAME_LENGTH)
+      : "";
+
+  const store = getRecordingStore(context);
+  const recording =
+    body?.on === true
+      ? await store.start(params.roomId, mode, displayName || "Host")
+      : await store.stop(params.roomId, mode);
+  return json({ recording });
+};
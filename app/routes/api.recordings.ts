@@ -0,0 +1,49 @@
+// app/routes/api.recordings.ts
+import { json } from "@remix-run/node";
+import { requireFeature } from "~/lib/config.server";
+import {
+  getRecordingStore,
+  isRecordingServiceRequest,
+} from "~/lib/recordings.server";
+import { validateRoomName } from "~/lib/room-names";
+
+/**
+ * Resource route the recording service calls when a file is ready, e.g.
+ * from Jibri's finalize script
+ *
+ * Expects a POST with `Authorization: Bearer <RECORDING_SERVICE_SECRET>` and
+ * a JSON body of { roomName, fileUrl }. The file is added to the room's
+ * newest file recording that doesn't have one yet.
+ * Responds with the catalog entry.
+ */
+export const action = async ({ request, context }) => {
+  requireFeature(context, "recording");
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+  if (!isRecordingServiceRequest(context, request)) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const roomName =
+    typeof body?.roomName === "string" ? body.roomName.trim() : "";
+  const roomNameError = validateRoomName(roomName);
+  if (roomNameError) {
+    return json({ error: roomNameError }, { status: 400 });
+  }
+
+  const fileUrl = typeof body?.fileUrl === "string" ? body.fileUrl.trim() : "";
+  let protocol = "";
+  try {
+    protocol = new URL(fileUrl).protocol;
+  } catch {
+    // Reported below
+  }
+  if (protocol !== "https:" && protocol !== "http:") {
+    return json({ error: "fileUrl must be an http(s) URL" }, { status: 400 });
+  }
+
+  const recording = await getRecordingStore(context).addFile(roomName, fileUrl);
+  return json({ recording }, { status: 201 });
+};
@@ -0,0 +1,104 @@
+// app/routes/api.rooms.$roomId.ts
+import { json } from "@remix-run/node";
+import { BREAKOUT_ROOM_NAME_ERROR, isBreakoutRoomName } from "~/lib/breakout";
+import { admitEveryone } from "~/lib/lobby.server";
+import { validateRoomName } from "~/lib/room-names";
+import { validatePasscode } from "~/lib/room-passcodes";
+import {
+  getJitsiRoomPassword,
+  hashPasscode,
+} from "~/lib/room-passcodes.server";
+import {
+  addHostKey,
+  getRoomStore,
+  isRoomHost,
+  type RoomSettings,
+} from "~/lib/rooms.server";
+import { getSessionUserId } from "~/lib/sessions.server";
+
+const toResponse = (room: RoomSettings, isHost: boolean) => ({
+  waitingRoom: room.waitingRoom,
+  hasPasscode: Boolean(room.passcodeHash),
+  lockJitsiRoom: room.lockJitsiRoom ?? false,
+  isHost,
+  // Only the host locks the Jitsi room
+  jitsiPassword: isHost ? getJitsiRoomPassword(room) : null,
+});
+
+/**
+ * Resource route that claims a room or changes its settings
+ *
+ * Expects a POST with a JSON body of { waitingRoom, passcode, lockJitsiRoom }.
+ * The first
+ * caller creates the room and becomes its host (remembered in a cookie, and
+ * on their account when signed in); later calls only change settings when
+ * they come from the host. Names of breakout rooms can't be claimed.
+ * An empty passcode removes it, and any setting left out stays unchanged.
+ * Responds with { waitingRoom, hasPasscode, lockJitsiRoom, isHost,
+ * jitsiPassword }, the password being for the host to lock the Jitsi room.
+ */
+export const action = async ({ request, params, context }) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+  const roomNameError = validateRoomName(params.roomId);
+  if (roomNameError) {
+    return json({ error: roomNameError }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const waitingRoom =
+    typeof body?.waitingRoom === "boolean" ? body.waitingRoom : undefined;
+  const passcode =
+    typeof body?.passcode === "string" ? body.passcode : undefined;
+  const lockJitsiRoom =
+    typeof body?.lockJitsiRoom === "boolean" ? body.lockJitsiRoom : undefined;
+  const passcodeError = passcode ? validatePasscode(passcode) : null;
+  if (passcodeError) {
+    return json({ error: passcodeError }, { status: 400 });
+  }
+
+  const cookieHeader = request.headers.get("Cookie");
+  const store = getRoomStore(context);
+  const existing = await store.get(params.roomId);
+
+  if (!existing) {
+    if (isBreakoutRoomName(params.roomId)) {
+      return json({ error: BREAKOUT_ROOM_NAME_ERROR }, { status: 400 });
+    }
+    const { room, hostKey } = await store.create(
+      params.roomId,
+      {
+        waitingRoom: waitingRoom ?? false,
+        passcodeHash: passcode ? await hashPasscode(passcode) : null,
+        lockJitsiRoom: lockJitsiRoom ?? false,
+      },
+      await getSessionUserId(context, cookieHeader)
+    );
+    // Someone else claimed the room in the meantime
+    if (!hostKey) {
+      return json(
+        toResponse(room, await isRoomHost(context, cookieHeader, room))
+      );
+    }
+    return json(toResponse(room, true), {
+      headers: {
+        "Set-Cookie": await addHostKey(cookieHeader, room.name, hostKey),
+      },
+    });
+  }
+
+  if (!(await isRoomHost(context, cookieHeader, existing))) {
+    return json(toResponse(existing, false));
+  }
+
+  const updated = await store.update(existing.name, {
+    ...(waitingRoom !== undefined && { waitingRoom }),
+    ...(passcode !== undefined && {
+      passcodeHash: passcode ? await hashPasscode(passcode) : null,
+    }),
+    ...(lockJitsiRoom !== undefined && { lockJitsiRoom }),
+  });
+  if (!updated.waitingRoom) admitEveryone(updated.name);
+  return json(toResponse(updated, true));
+};
@@ -0,0 +1,67 @@
+// app/routes/api.transcripts.$roomId.ts
+import { json } from "@remix-run/node";
+import { requireFeature } from "~/lib/config.server";
+import { canJoinRoom } from "~/lib/lobby.server";
+import { getMeetingStore } from "~/lib/meetings.server";
+import { validateRoomName } from "~/lib/room-names";
+import { getRoomStore } from "~/lib/rooms.server";
+import {
+  formatTranscriptMarkdown,
+  formatTranscriptSrt,
+  getTranscriptStore,
+} from "~/lib/transcripts.server";
+
+const CONTENT_TYPES = {
+  md: "text/markdown; charset=utf-8",
+  srt: "application/x-subrip; charset=utf-8",
+};
+
+/**
+ * Resource route that exports one of a room's transcripts
+ *
+ * ?id= picks the transcript; ?format=md|srt|json picks the file format
+ * (default: md)
+ * Only the host and guests who may join the meeting can export, as
+ * transcripts include the chat
+ */
+export const loader = async ({ request, params, context }) => {
+  requireFeature(context, "transcripts");
+  if (validateRoomName(params.roomId)) {
+    return json({ error: "Invalid room name" }, { status: 404 });
+  }
+  const room = await getRoomStore(context).get(params.roomId);
+  if (!(await canJoinRoom(context, request.headers.get("Cookie"), room))) {
+    return json({ error: "Please join the meeting first" }, { status: 403 });
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const transcript = await getTranscriptStore(context).get(
+    params.roomId,
+    searchParams.get("id") ?? ""
+  );
+  if (!transcript || transcript.roomName !== params.roomId) {
+    return json({ error: "Transcript not found" }, { status: 404 });
+  }
+
+  const format = ["srt", "json"].includes(searchParams.get("format"))
+    ? searchParams.get("format")
+    : "md";
+  const headers = {
+    "Cache-Control": "no-store",
+    "Content-Disposition": `attachment; filename="${
+      params.roomId
+    }-transcript-${transcript.startedAt.slice(0, 10)}.${format}"`,
+  };
+
+  if (format === "json") {
+    return json(transcript, { headers });
+  }
+
+  const meeting = await getMeetingStore(context).get(params.roomId);
+  return new Response(
+    format === "srt"
+      ? formatTranscriptSrt(transcript)
+      : formatTranscriptMarkdown(meeting?.title ?? params.roomId, transcript),
+    { headers: { ...headers, "Content-Type": CONTENT_TYPES[format] } }
+  );
+};
@@ -0,0 +1,59 @@
+// app/routes/api.transcripts.ts
+import { json } from "@remix-run/node";
+import { requireFeature } from "~/lib/config.server";
+import { canJoinRoom } from "~/lib/lobby.server";
+import { getRoomStore } from "~/lib/rooms.server";
+import {
+  getTranscriptStore,
+  readTranscriptBatch,
+  reserveTranscriptBatch,
+} from "~/lib/transcripts.server";
+
+/**
+ * Resource route that saves transcript entries sent by `JitsiMeetComponent`
+ *
+ * Expects a POST with a JSON body of { roomName, sessionId, entries }.
+ * Entries from every participant's browser are merged into one transcript
+ * per meeting. Only rooms someone created are transcribed, and only by
+ * people who may join them (see canJoinRoom). Each client address may post
+ * a limited number of batches per room, each transcript holds a limited
+ * number of entries and each room starts a limited number of transcripts a
+ * day.
+ */
+export const action = async ({ request, context }) => {
+  requireFeature(context, "transcripts");
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const parsed = await readTranscriptBatch(request);
+  if ("error" in parsed) {
+    return json({ error: parsed.error }, { status: parsed.status });
+  }
+
+  const { batch } = parsed;
+  const room = await getRoomStore(context).get(batch.roomName);
+  if (!room) {
+    return json({ error: "Unknown room" }, { status: 404 });
+  }
+  if (!(await canJoinRoom(context, request.headers.get("Cookie"), room))) {
+    return json({ error: "Please join the meeting first" }, { status: 403 });
+  }
+
+  const reservation = reserveTranscriptBatch(context, batch);
+  if (reservation.ok === false) {
+    return json(
+      { error: "Too many transcript batches. Please try again later." },
+      {
+        status: 429,
+        headers: { "Retry-After": String(reservation.retryAfterSeconds) },
+      }
+    );
+  }
+
+  const result = await getTranscriptStore(context).append(batch);
+  if (result.ok === false) {
+    return json({ error: result.error }, { status: result.status });
+  }
+  return new Response(null, { status: 204 });
+};
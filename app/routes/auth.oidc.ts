@@ -0,0 +1,46 @@
+// app/routes/auth.oidc.ts
+import { redirect } from "@remix-run/node";
+import {
+  getOidcRedirectUri,
+  getOidcSettings,
+  startOidcSignIn,
+} from "~/lib/oidc.server";
+import { getSessionStorage, safeRedirectPath } from "~/lib/sessions.server";
+
+/**
+ * Resource route that sends the visitor to the OIDC provider to sign in
+ * ?redirectTo= is where they end up afterwards
+ */
+export const loader = async ({ request, context }) => {
+  const settings = getOidcSettings(context);
+  if (!settings) {
+    throw new Response("Not found", { status: 404 });
+  }
+
+  const redirectTo = safeRedirectPath(
+    new URL(request.url).searchParams.get("redirectTo")
+  );
+  let started: Awaited<ReturnType<typeof startOidcSignIn>>;
+  try {
+    started = await startOidcSignIn(
+      settings,
+      getOidcRedirectUri(request),
+      redirectTo
+    );
+  } catch (error) {
+    console.error("Failed to start the OIDC sign-in:", error);
+    return redirect(
+      `/login?${new URLSearchParams({
+        redirectTo,
+        error: "The sign-in provider could not be reached",
+      })}`
+    );
+  }
+
+  const storage = getSessionStorage(context);
+  const session = await storage.getSession(request.headers.get("Cookie"));
+  session.flash("oidcSignIn", started.signIn);
+  return redirect(started.url, {
+    headers: { "Set-Cookie": await storage.commitSession(session) },
+  });
+};
@@ -0,0 +1,117 @@
+// app/routes/auth.oidc_.callback.ts
+import { redirect } from "@remix-run/node";
+import {
+  finishOidcSignIn,
+  getOidcRedirectUri,
+  getOidcSettings,
+  type OidcIdentity,
+  type OidcSignInState,
+} from "~/lib/oidc.server";
+import { getSessionStorage } from "~/lib/sessions.server";
+import { validateAvatarUrl } from "~/lib/users";
+import { createDefaultProfile, getUserStore } from "~/lib/users.server";
+
+/**
+ * Finds the account for a provider identity, linking or creating one
+ * Existing accounts are only linked by email when the provider verified it.
+ * A password set at sign-up without proving the email is dropped then, and
+ * its sessions signed out, so whoever registered the address first can't
+ * keep a way in.
+ *
+ * @returns The account, or an error message for the sign-in page
+ */
+const findOrCreateUser = async (context, identity: OidcIdentity) => {
+  const store = getUserStore(context);
+  const linked = await store.findByOidcSubject(identity.subject);
+  if (linked) return { user: linked };
+
+  if (!identity.email) {
+    return { error: "The sign-in provider didn't share an email address" };
+  }
+
+  if (identity.emailVerified) {
+    const existing = await store.findByEmail(identity.email);
+    const updated =
+      existing &&
+      (await store.update(existing.id, {
+        oidcSubject: identity.subject,
+        emailVerified: true,
+        ...(existing.emailVerified
+          ? {}
+          : {
+              passwordHash: null,
+              sessionVersion: existing.sessionVersion + 1,
+            }),
+      }));
+    if (updated) return { user: updated };
+  }
+
+  const created = await store.create({
+    email: identity.email,
+    passwordHash: null,
+    oidcSubject: identity.subject,
+    emailVerified: identity.emailVerified,
+    profile: createDefaultProfile(
+      identity.email,
+      identity.name,
+      identity.picture && !validateAvatarUrl(identity.picture)
+        ? identity.picture
+        : null
+    ),
+  });
+  return created
+    ? { user: created }
+    : { error: "An account with this email exists; sign in with its password" };
+};
+
+/**
+ * Resource route the OIDC provider sends the visitor back to
+ * Checks the state, fetches the identity and signs the matching account in
+ */
+export const loader = async ({ request, context }) => {
+  const settings = getOidcSettings(context);
+  if (!settings) {
+    throw new Response("Not found", { status: 404 });
+  }
+
+  const storage = getSessionStorage(context);
+  const session = await storage.getSession(request.headers.get("Cookie"));
+  const signIn: OidcSignInState | undefined = session.get("oidcSignIn");
+  const params = new URL(request.url).searchParams;
+  const redirectTo = signIn?.redirectTo ?? "/";
+
+  const fail = async (error: string) =>
+    redirect(`/login?${new URLSearchParams({ redirectTo, error })}`, {
+      headers: { "Set-Cookie": await storage.commitSession(session) },
+    });
+
+  if (params.get("error")) {
+    return fail(params.get("error_description") || "Sign-in was cancelled");
+  }
+  const code = params.get("code");
+  if (!signIn || !code || params.get("state") !== signIn.state) {
+    return fail("The sign-in expired. Please try again.");
+  }
+
+  let identity: OidcIdentity;
+  try {
+    identity = await finishOidcSignIn(
+      settings,
+      getOidcRedirectUri(request),
+      code,
+      signIn
+    );
+  } catch (error) {
+    console.error("OIDC sign-in failed:", error);
+    return fail("The sign-in provider could not confirm who you are");
+  }
+
+  const result = await findOrCreateUser(context, identity);
+  if ("error" in result) return fail(result.error);
+
+  session.set("userId", result.user.id);
+  session.set("sessionVersion", result.user.sessionVersion);
+  return redirect(redirectTo, {
+    headers: { "Set-Cookie": await storage.commitSession(session) },
+  });
+};
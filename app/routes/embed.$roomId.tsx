@@ -0,0 +1,273 @@
+// app/routes/embed.$roomId.tsx
+import { json } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+import { useEffect, useRef, useState } from "react";
+import JitsiMeetComponent from "~/components/JitsiMeetComponent";
+import { useJitsiEvent } from "~/hooks/useJitsiEvent";
+import { getAppConfig } from "~/lib/config.server";
+import {
+  createEmbedEvent,
+  isEmbedMessage,
+  type EmbedCommand,
+  type EmbedEventMap,
+  type EmbedEventName,
+} from "~/lib/embed";
+import {
+  getEmbedFrameAncestors,
+  isEmbedOriginAllowed,
+} from "~/lib/embed.server";
+import { fetchJitsiToken } from "~/lib/jitsi-token";
+import { getMeetingStore } from "~/lib/meetings.server";
+import { getMeetingPhase } from "~/lib/meetings";
+import { normalizeRoomName, validateRoomName } from "~/lib/room-names";
+import { hasRoomPass } from "~/lib/room-passcodes.server";
+import { getRoomStore, isRoomHost } from "~/lib/rooms.server";
+import type { JitsiMeetHandle } from "~/types/jitsi";
+
+// Used when neither the URL nor the join command names the participant
+const FALLBACK_DISPLAY_NAME = "Guest";
+
+/**
+ * Only the pages in EMBED_ALLOWED_ORIGINS may frame this route
+ */
+export const headers = ({ loaderHeaders }) => loaderHeaders;
+
+/**
+ * Loader for the chromeless meeting that the embed SDK mounts in an iframe
+ * Reads ?parentOrigin= (the embedding page, which must be allowed), ?name=,
+ * ?theme=light|dark and ?autojoin=1
+ * Rooms that need a passcode or host admission can't be joined from an
+ * embed, since that needs the full room page; the page reports why instead
+ */
+export const loader = async ({ request, params, context }) => {
+  const roomId = normalizeRoomName(params.roomId);
+  if (validateRoomName(roomId)) {
+    throw new Response("Invalid room name", { status: 404 });
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const parentOrigin = searchParams.get("parentOrigin") ?? "";
+  const originAllowed =
+    parentOrigin !== "" && isEmbedOriginAllowed(context, request, parentOrigin);
+
+  const [meeting, room] = await Promise.all([
+    getMeetingStore(context).get(roomId),
+    getRoomStore(context).get(roomId),
+  ]);
+  const cookieHeader = request.headers.get("Cookie");
+  const isHost = await isRoomHost(context, cookieHeader, room);
+  const phase = meeting ? getMeetingPhase(meeting) : "open";
+
+  let blockedReason: string | null = null;
+  if (!originAllowed) {
+    blockedReason = "This page isn't allowed to embed meetings";
+  } else if (phase !== "open") {
+    blockedReason =
+      phase === "upcoming"
+        ? "This meeting hasn't started yet"
+        : "This meeting has ended";
+  } else if (!isHost && !(await hasRoomPass(cookieHeader, room))) {
+    blockedReason = "This room needs a passcode; open it in the app to join";
+  } else if (!isHost && room?.waitingRoom) {
+    blockedReason = "This room has a waiting room; open it in the app to join";
+  }
+
+  return json(
+    {
+      config: getAppConfig(context),
+      roomId,
+      title: meeting?.title ?? roomId,
+      preset: meeting?.preset ?? null,
+      isHost,
+      parentOrigin: originAllowed ? parentOrigin : null,
+      displayName: searchParams.get("name")?.trim() || null,
+      theme: searchParams.get("theme") === "dark" ? "dark" : "light",
+      autoJoin: searchParams.get("autojoin") === "1",
+      blockedReason,
+    },
+    { headers: { "Content-Security-Policy": getEmbedFrameAncestors(context) } }
+  );
+};
+
+/**
+ * Embed component - The meeting without any of the app's chrome, driven by
+ * the embedding page over the postMessage protocol in ~/lib/embed
+ * Commands are only accepted from the parent window on the allowed origin,
+ * and events are only posted to that origin
+ */
+export default function Embed() {
+  const {
+    config,
+    roomId,
+    title,
+    preset,
+    isHost,
+    parentOrigin,
+    displayName: initialDisplayName,
+    theme,
+    autoJoin,
+    blockedReason,
+  } = useLoaderData<typeof loader>();
+  const [displayName, setDisplayName] = useState(
+    initialDisplayName ?? FALLBACK_DISPLAY_NAME
+  );
+  const [hasJoined, setHasJoined] = useState(false);
+  const [isJoining, setIsJoining] = useState(false);
+  const [jwt, setJwt] = useState<string | null>(null);
+  const [jitsi, setJitsi] = useState<JitsiMeetHandle | null>(null);
+  const isDark = theme === "dark";
+
+  /**
+   * Sends an event to the embedding page
+   */
+  const postEvent = <K extends EmbedEventName>(
+    event: K,
+    payload: EmbedEventMap[K]
+  ) => {
+    if (!parentOrigin || window.parent === window) return;
+    window.parent.postMessage(createEmbedEvent(event, payload), parentOrigin);
+  };
+
+  /**
+   * Fetches a token and mounts the meeting
+   */
+  const joinMeeting = async (name?: string) => {
+    if (blockedReason) {
+      postEvent("error", { message: blockedReason });
+      return;
+    }
+    if (hasJoined || isJoining) return;
+
+    const joinAs = name?.trim() || displayName;
+    setDisplayName(joinAs);
+    setIsJoining(true);
+    try {
+      setJwt((await fetchJitsiToken(roomId, joinAs)).jwt);
+      setHasJoined(true);
+    } catch (error) {
+      postEvent("error", { message: error.message });
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  /**
+   * Runs a command from the embedding page
+   */
+  const handleCommand = async (command: EmbedCommand) => {
+    switch (command.command) {
+      case "join":
+        await joinMeeting(command.displayName);
+        break;
+      case "leave":
+        // The left event comes from Jitsi once the hangup goes through
+        await jitsi?.hangup();
+        setHasJoined(false);
+        break;
+      case "mute": {
+        if (!hasJoined || !jitsi) {
+          postEvent("error", { message: "Not in the meeting yet" });
+          break;
+        }
+        // Jitsi only offers toggles, so check the current state first
+        const muted =
+          command.media === "audio"
+            ? await jitsi.isAudioMuted()
+            : await jitsi.isVideoMuted();
+        if (muted !== command.muted) {
+          if (command.media === "audio") jitsi.toggleAudio();
+          else jitsi.toggleVideo();
+        }
+        break;
+      }
+    }
+  };
+
+  // Keep the latest handler so the listener below sees current state
+  const commandHandlerRef = useRef(handleCommand);
+  commandHandlerRef.current = handleCommand;
+
+  useEffect(() => {
+    // Without an allowed parent there's nobody to talk to
+    if (!parentOrigin) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent || event.origin !== parentOrigin) {
+        return;
+      }
+      const message = event.data;
+      if (!isEmbedMessage(message) || message.kind !== "command") return;
+      commandHandlerRef.current(message);
+    };
+
+    window.addEventListener("message", handleMessage);
+    postEvent("ready", { roomName: roomId });
+    if (blockedReason) {
+      postEvent("error", { message: blockedReason });
+    } else if (autoJoin) {
+      joinMeeting();
+    }
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
+
+  useJitsiEvent(jitsi, "videoConferenceJoined", ({ id }) =>
+    postEvent("joined", { roomName: roomId, participantId: id, displayName })
+  );
+  useJitsiEvent(jitsi, "videoConferenceLeft", () =>
+    postEvent("left", { roomName: roomId })
+  );
+  // The participant left from Jitsi's own toolbar
+  useJitsiEvent(jitsi, "readyToClose", () => setHasJoined(false));
+  useJitsiEvent(jitsi, "participantJoined", ({ id, displayName }) =>
+    postEvent("participantJoined", { participantId: id, displayName })
+  );
+  useJitsiEvent(jitsi, "participantLeft", ({ id }) =>
+    postEvent("participantLeft", { participantId: id })
+  );
+  useJitsiEvent(jitsi, "audioMuteStatusChanged", ({ muted }) =>
+    postEvent("muteChanged", { media: "audio", muted })
+  );
+  useJitsiEvent(jitsi, "videoMuteStatusChanged", ({ muted }) =>
+    postEvent("muteChanged", { media: "video", muted })
+  );
+
+  return (
+    <div
+      className={isDark ? "bg-gray-900 text-white" : "bg-white text-gray-900"}
+      style={{ height: "100vh" }}
+    >
+      {hasJoined ? (
+        <JitsiMeetComponent
+          ref={setJitsi}
+          roomName={roomId}
+          displayName={displayName}
+          domain={config.jitsiDomain}
+          startWithAudioMuted={config.defaults.startWithAudioMuted ?? undefined}
+          startWithVideoMuted={config.defaults.startWithVideoMuted ?? undefined}
+          preset={preset ?? config.preset}
+          interfaceConfigOverwrite={{
+            DEFAULT_BACKGROUND: isDark ? "#111827" : "#f3f4f6",
+          }}
+          jwt={jwt ?? undefined}
+          reportAttendance
+          reportPresence
+        />
+      ) : (
+        <div className="h-full flex flex-col items-center justify-center p-4 text-center">
+          <h2 className="text-xl font-semibold mb-2">{title}</h2>
+          {blockedReason ? (
+            <p className="text-sm text-red-500">{blockedReason}.</p>
+          ) : (
+            <button
+              onClick={() => joinMeeting()}
+              disabled={isJoining}
+              className="py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isJoining ? "Joining..." : `Join as ${displayName}`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
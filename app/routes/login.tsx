@@ -0,0 +1,156 @@
+// app/routes/login.tsx
+import { json, redirect } from "@remix-run/node";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "@remix-run/react";
+import { getOidcSettings } from "~/lib/oidc.server";
+import {
+  createUserSession,
+  getSessionUserId,
+  safeRedirectPath,
+} from "~/lib/sessions.server";
+import { checkSignIn } from "~/lib/users.server";
+
+/**
+ * Loader for the sign-in page
+ * Signed-in visitors go straight on to ?redirectTo=
+ */
+export const loader = async ({ request, context }) => {
+  const url = new URL(request.url);
+  const redirectTo = safeRedirectPath(url.searchParams.get("redirectTo"));
+  if (await getSessionUserId(context, request.headers.get("Cookie"))) {
+    return redirect(redirectTo);
+  }
+
+  return json({
+    redirectTo,
+    oidcLabel: getOidcSettings(context)?.label ?? null,
+    // Set by /auth/oidc/callback when the provider sign-in failed
+    oidcError: url.searchParams.get("error"),
+  });
+};
+
+/**
+ * Action that signs in with email and password
+ * Wrong attempts are rate limited per email and visitor
+ */
+export const action = async ({ request, context }) => {
+  const formData = await request.formData();
+  const email = String(formData.get("email") ?? "");
+  const password = String(formData.get("password") ?? "");
+
+  const check = await checkSignIn(context, email, password);
+  if (check.ok === false) {
+    return json(
+      { error: check.error },
+      check.retryAfterSeconds
+        ? {
+            status: 429,
+            headers: { "Retry-After": String(check.retryAfterSeconds) },
+          }
+        : { status: 401 }
+    );
+  }
+
+  return createUserSession(
+    context,
+    request,
+    check.user,
+    String(formData.get("redirectTo") ?? "/")
+  );
+};
+
+/**
+ * Sign-in page: email and password, or the configured OIDC provider
+ */
+export default function Login() {
+  const { redirectTo, oidcLabel, oidcError } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const query = new URLSearchParams({ redirectTo }).toString();
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="max-w-md mx-auto bg-white rounded-lg overflow-hidden shadow-lg p-6 mt-10">
+        <h1 className="text-xl font-semibold mb-4">Sign in</h1>
+
+        <Form method="post" className="space-y-4">
+          <input type="hidden" name="redirectTo" value={redirectTo} />
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium mb-1">
+              Email
+            </label>
+            <input
+              type="email"
+              id="email"
+              name="email"
+              autoComplete="email"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              required
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="password"
+              className="block text-sm font-medium mb-1"
+            >
+              Password
+            </label>
+            <input
+              type="password"
+              id="password"
+              name="password"
+              autoComplete="current-password"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              required
+            />
+          </div>
+
+          {actionData?.error && (
+            <p className="text-sm text-red-600">{actionData.error}</p>
+          )}
+
+          <button
+            type="submit"
+            disabled={navigation.state === "submitting"}
+            className="w-full py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Sign in
+          </button>
+        </Form>
+
+        {oidcLabel && (
+          <div className="mt-4 pt-4 border-t border-gray-200">
+            {oidcError && (
+              <p className="text-sm text-red-600 mb-2">{oidcError}</p>
+            )}
+            <a
+              href={`/auth/oidc?${query}`}
+              className="block w-full text-center py-2 px-4 bg-gray-600 text-white font-semibold rounded-md hover:bg-gray-700"
+            >
+              {oidcLabel}
+            </a>
+          </div>
+        )}
+
+        <p className="text-sm text-gray-600 mt-4">
+          No account yet?{" "}
+          <Link
+            to={`/signup?${query}`}
+            className="text-blue-600 hover:underline"
+          >
+            Create one
+          </Link>{" "}
+          or{" "}
+          <Link to={redirectTo} className="text-blue-600 hover:underline">
+            continue as a guest
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+// app/routes/logout.tsx
+import { redirect } from "@remix-run/node";
+import { destroyUserSession } from "~/lib/sessions.server";
+
+/**
+ * Signing out only happens through the POST action, so links can't do it
+ */
+export const loader = () => redirect("/");
+
+/**
+ * Action that signs the user out and goes to the home page
+ */
+export const action = ({ request, context }) =>
+  destroyUserSession(context, request);
@@ -0,0 +1,127 @@
+// app/routes/meetings.$meetingId.tsx
+import { json, redirect } from "@remix-run/node";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "@remix-run/react";
+import MeetingForm from "~/components/MeetingForm";
+import { requireFeature } from "~/lib/config.server";
+import { admitEveryone } from "~/lib/lobby.server";
+import {
+  getMeetingStore,
+  parseMeetingForm,
+  requireMeetingHost,
+} from "~/lib/meetings.server";
+import { getRoomStore } from "~/lib/rooms.server";
+
+/**
+ * Loader that provides the meeting being edited, for its host only
+ */
+export const loader = async ({ request, params, context }) => {
+  requireFeature(context, "scheduling");
+  const meeting = await getMeetingStore(context).get(params.meetingId);
+  if (!meeting) {
+    throw new Response("Meeting not found", { status: 404 });
+  }
+  const room = await requireMeetingHost(context, request, meeting.id);
+  return json({ meeting, waitingRoom: room.waitingRoom });
+};
+
+/**
+ * Action that updates or deletes the meeting (host only)
+ */
+export const action = async ({ request, params, context }) => {
+  requireFeature(context, "scheduling");
+  await requireMeetingHost(context, request, params.meetingId);
+  const formData = await request.formData();
+  const store = getMeetingStore(context);
+
+  if (formData.get("intent") === "delete") {
+    await store.delete(params.meetingId);
+    return redirect("/meetings");
+  }
+
+  const { values, errors } = parseMeetingForm(formData);
+  if (Object.keys(errors).length > 0) {
+    return json({ errors, saved: false }, { status: 400 });
+  }
+
+  const meeting = await store.update(params.meetingId, values);
+  if (!meeting) {
+    throw new Response("Meeting not found", { status: 404 });
+  }
+
+  const waitingRoom = formData.get("waitingRoom") === "on";
+  await getRoomStore(context).update(meeting.id, { waitingRoom });
+  if (!waitingRoom) admitEveryone(meeting.id);
+  return json({ errors: {}, saved: true });
+};
+
+/**
+ * Page for editing a registered meeting
+ */
+export default function EditMeeting() {
+  const { meeting, waitingRoom } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="max-w-md mx-auto">
+        <div className="mb-4 flex justify-between items-center">
+          <Link to="/meetings" className="text-blue-600 hover:underline">
+            All meetings
+          </Link>
+          <div className="space-x-4">
+            <a
+              href={`/api/invite/${meeting.id}`}
+              download
+              className="text-blue-600 hover:underline"
+            >
+              Calendar invite
+            </a>
+            <Link
+              to={`/room/${meeting.id}/attendance`}
+              className="text-blue-600 hover:underline"
+            >
+              Attendance
+            </Link>
+            <Link
+              to={`/room/${meeting.id}`}
+              className="text-blue-600 hover:underline"
+            >
+              Open room
+            </Link>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg overflow-hidden shadow-lg p-6">
+          <h2 className="text-xl font-semibold mb-4">Edit Meeting</h2>
+          {actionData?.saved && (
+            <p className="text-sm text-green-600 mb-4">Changes saved.</p>
+          )}
+          <MeetingForm
+            meeting={meeting}
+            errors={actionData?.errors}
+            waitingRoom={waitingRoom}
+            submitLabel="Save Changes"
+            isSubmitting={navigation.state === "submitting"}
+          />
+
+          <Form method="post" className="mt-4">
+            <input type="hidden" name="intent" value="delete" />
+            <button
+              type="submit"
+              className="w-full py-2 px-4 border border-red-600 text-red-600 font-semibold rounded-md hover:bg-red-50"
+            >
+              Delete Meeting
+            </button>
+          </Form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+// app/routes/meetings._index.tsx
+import { json, redirect } from "@remix-run/node";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "@remix-run/react";
+import LocalTime from "~/components/LocalTime";
+import MeetingForm from "~/components/MeetingForm";
+import { getMeetingPhase, type Meeting } from "~/lib/meetings";
+import { requireFeature } from "~/lib/config.server";
+import {
+  getMeetingStore,
+  parseMeetingForm,
+  requireMeetingHost,
+} from "~/lib/meetings.server";
+import { addHostKey, getRoomStore, isRoomHost } from "~/lib/rooms.server";
+import { getSessionUserId } from "~/lib/sessions.server";
+
+/**
+ * Loader that lists the registered meetings this visitor hosts
+ */
+export const loader = async ({ request, context }) => {
+  requireFeature(context, "scheduling");
+  const cookieHeader = request.headers.get("Cookie");
+  const [allMeetings, rooms] = await Promise.all([
+    getMeetingStore(context).list(),
+    getRoomStore(context).list(),
+  ]);
+  const hosted = await Promise.all(
+    allMeetings.map((meeting) =>
+      isRoomHost(
+        context,
+        cookieHeader,
+        rooms.find((room) => room.name === meeting.id) ?? null
+      )
+    )
+  );
+  const meetings = allMeetings.filter((_meeting, index) => hosted[index]);
+  return json({
+    meetings: meetings.map((meeting) => ({
+      ...meeting,
+      phase: getMeetingPhase(meeting),
+    })),
+  });
+};
+
+/**
+ * Action that creates or deletes a meeting
+ * Creating a meeting also makes this browser the host of its room; only
+ * that host may delete it
+ */
+export const action = async ({ request, context }) => {
+  requireFeature(context, "scheduling");
+  const formData = await request.formData();
+  const store = getMeetingStore(context);
+
+  switch (formData.get("intent")) {
+    case "create": {
+      const { values, errors } = parseMeetingForm(formData);
+      if (Object.keys(errors).length > 0) {
+        return json({ errors }, { status: 400 });
+      }
+      const meeting = await store.create(values);
+      const { hostKey } = await getRoomStore(context).create(
+        meeting.id,
+        {
+          waitingRoom: formData.get("waitingRoom") === "on",
+          passcodeHash: null,
+        },
+        await getSessionUserId(context, request.headers.get("Cookie"))
+      );
+      if (!hostKey) return redirect(`/meetings/${meeting.id}`);
+      return redirect(`/meetings/${meeting.id}`, {
+        headers: {
+          "Set-Cookie": await addHostKey(
+            request.headers.get("Cookie"),
+            meeting.id,
+            hostKey
+          ),
+        },
+      });
+    }
+    case "delete": {
+      const id = String(formData.get("id"));
+      await requireMeetingHost(context, request, id);
+      await store.delete(id);
+      return json({ errors: {} });
+    }
+    default:
+      return json({ errors: {} }, { status: 400 });
+  }
+};
+
+const PHASE_LABELS = {
+  upcoming: "Upcoming",
+  open: "Open",
+  ended: "Ended",
+};
+
+/**
+ * Page for scheduling meetings and managing the registered ones
+ */
+export default function Meetings() {
+  const { meetings } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="mb-8 flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Meetings</h1>
+        <Link to="/" className="text-blue-600 hover:underline">
+          Back to quick join
+        </Link>
+      </div>
+
+      <div className="grid gap-8 md:grid-cols-2">
+        <div>
+          <h2 className="text-xl font-semibold mb-4">Your meetings</h2>
+          {meetings.length === 0 ? (
+            <p className="text-gray-600">
+              You aren&apos;t hosting any meetings yet.
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {meetings.map((meeting: Meeting & { phase: string }) => (
+                <li
+                  key={meeting.id}
+                  className="bg-white rounded-lg shadow p-4 flex justify-between items-start"
+                >
+                  <div>
+                    <Link
+                      to={`/meetings/${meeting.id}`}
+                      className="font-semibold text-blue-600 hover:underline"
+                    >
+                      {meeting.title}
+                    </Link>
+                    <p className="text-sm text-gray-600">
+                      Hosted by {meeting.host}
+                      {meeting.scheduledStart && (
+                        <>
+                          {" · "}
+                          <LocalTime value={meeting.scheduledStart} />
+                        </>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {PHASE_LABELS[meeting.phase]} ·{" "}
+                      <Link
+                        to={`/room/${meeting.id}`}
+                        className="hover:underline"
+                      >
+                        /room/{meeting.id}
+                      </Link>
+                      {" · "}
+                      <Link
+                        to={`/room/${meeting.id}/attendance`}
+                        className="hover:underline"
+                      >
+                        Attendance
+                      </Link>
+                    </p>
+                  </div>
+                  <Form method="post">
+                    <input type="hidden" name="intent" value="delete" />
+                    <input type="hidden" name="id" value={meeting.id} />
+                    <button
+                      type="submit"
+                      className="text-sm text-red-600 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </Form>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg overflow-hidden shadow-lg p-6">
+          <h2 className="text-xl font-semibold mb-4">Schedule a meeting</h2>
+          <MeetingForm
+            errors={actionData?.errors}
+            waitingRoom={false}
+            submitLabel="Create Meeting"
+            isSubmitting={navigation.state === "submitting"}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
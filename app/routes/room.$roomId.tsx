@@ -1,7 +1,136 @@
 // app/routes/room.$roomId.jsx
-import { useParams } from "@remix-run/react";
+import { json, redirect } from "@remix-run/node";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+  useParams,
+} from "@remix-run/react";
 import { useState, useEffect } from "react";
+import BreakoutBanner from "~/components/BreakoutBanner";
+import BreakoutPanel from "~/components/BreakoutPanel";
+import ChatPanel from "~/components/ChatPanel";
+import InviteMenu from "~/components/InviteMenu";
 import JitsiMeetComponent from "~/components/JitsiMeetComponent";
+import LobbyRequests from "~/components/LobbyRequests";
+import LocalTime from "~/components/LocalTime";
+import NotesPanel from "~/components/NotesPanel";
+import ParticipantsPanel from "~/components/ParticipantsPanel";
+import PollsPanel from "~/components/PollsPanel";
+import PreJoinLobby from "~/components/PreJoinLobby";
+import RecordingIndicator from "~/components/RecordingIndicator";
+import RecordingMenu from "~/components/RecordingMenu";
+import { useBreakout } from "~/hooks/useBreakout";
+import { useJitsiEvent } from "~/hooks/useJitsiEvent";
+import { useLobbyGuest, useLobbyHost } from "~/hooks/useLobby";
+import { useParticipants } from "~/hooks/useParticipants";
+import { usePolls } from "~/hooks/usePolls";
+import { useRecording } from "~/hooks/useRecording";
+import { getAppConfig } from "~/lib/config.server";
+import { checkDomainAllowed } from "~/lib/jitsi-domains.server";
+import { fetchJitsiToken } from "~/lib/jitsi-token";
+import { normalizeDomain } from "~/lib/jitsi-domains";
+import { getMeetingPhase } from "~/lib/meetings";
+import { normalizeRoomName, validateRoomName } from "~/lib/room-names";
+import { MAX_PASSCODE_LENGTH } from "~/lib/room-passcodes";
+import {
+  addRoomPass,
+  checkRoomPasscode,
+  hasRoomPass,
+} from "~/lib/room-passcodes.server";
+import { getMeetingStore } from "~/lib/meetings.server";
+import { saveRoomSettings } from "~/lib/room-settings";
+import { getRoomStore, isRoomHost } from "~/lib/rooms.server";
+import { getSessionUser } from "~/lib/sessions.server";
+import type { JitsiDeviceSelection, JitsiMeetHandle } from "~/types/jitsi";
+
+/**
+ * Loader that provides the registered meeting for this room, if there is one
+ * Rooms without a meeting are ad-hoc and can always be joined
+ * Non-canonical room names are redirected to their canonical form
+ * A ?server= query parameter picks another approved Jitsi server
+ * Also tells the page whether guests must wait for the host or enter a
+ * passcode, whether this browser is the host, and who is signed in
+ */
+export const loader = async ({ request, params, context }) => {
+  const roomId = normalizeRoomName(params.roomId);
+  if (validateRoomName(roomId)) {
+    throw new Response("Invalid room name", { status: 404 });
+  }
+  if (roomId !== params.roomId) {
+    const { search } = new URL(request.url);
+    return redirect(`/room/${roomId}${search}`, { status: 301 });
+  }
+
+  const config = getAppConfig(context);
+  const server = new URL(request.url).searchParams.get("server");
+  // Fall back to the default server when the override isn't allowed
+  const serverError =
+    server && config.features.customServer
+      ? checkDomainAllowed(context, server)
+      : null;
+  const domain =
+    server && config.features.customServer && !serverError
+      ? normalizeDomain(server)
+      : config.jitsiDomain;
+
+  const [meeting, room] = await Promise.all([
+    getMeetingStore(context).get(params.roomId),
+    getRoomStore(context).get(params.roomId),
+  ]);
+  const cookieHeader = request.headers.get("Cookie");
+  const isHost = await isRoomHost(context, cookieHeader, room);
+  const passcodeRequired = !isHost && !(await hasRoomPass(cookieHeader, room));
+  return json({
+    config,
+    domain,
+    serverError,
+    meeting,
+    waitingRoomEnabled: room?.waitingRoom ?? false,
+    passcodeRequired,
+    isHost,
+    phase: meeting ? getMeetingPhase(meeting) : "open",
+    user: await getSessionUser(context, cookieHeader),
+  });
+};
+
+/**
+ * Action that checks the room passcode
+ * A correct passcode sets a cookie that lets this browser into the room;
+ * wrong attempts are rate limited per visitor
+ */
+export const action = async ({ request, params, context }) => {
+  const room = await getRoomStore(context).get(params.roomId);
+  if (!room?.passcodeHash) {
+    return json({ error: null });
+  }
+
+  const formData = await request.formData();
+  const check = await checkRoomPasscode(
+    context,
+    room,
+    String(formData.get("passcode") ?? "")
+  );
+  if (check.ok === false) {
+    return json(
+      { error: check.error },
+      check.retryAfterSeconds
+        ? {
+            status: 429,
+            headers: { "Retry-After": String(check.retryAfterSeconds) },
+          }
+        : { status: 401 }
+    );
+  }
+
+  const cookieHeader = request.headers.get("Cookie");
+  return json(
+    { error: null },
+    { headers: { "Set-Cookie": await addRoomPass(cookieHeader, room) } }
+  );
+};
 
 /**
  * Room component that provides direct access to a specific Jitsi meeting room
@@ -9,44 +138,326 @@ import JitsiMeetComponent from "~/components/JitsiMeetComponent";
  */
 export default function Room() {
   const { roomId } = useParams();
-  const [displayName, setDisplayName] = useState("");
+  const {
+    config,
+    domain,
+    serverError,
+    meeting,
+    waitingRoomEnabled,
+    passcodeRequired,
+    isHost,
+    phase,
+    user,
+  } = useLoaderData<typeof loader>();
+  const passcodeResult = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const [passcode, setPasscode] = useState("");
+  // Signed-in users start from their profile name
+  const [displayName, setDisplayName] = useState(
+    user?.profile.displayName ?? ""
+  );
   const [hasJoined, setHasJoined] = useState(false);
+  const [jwt, setJwt] = useState<string | null>(null);
+  // Comes with the token, so only those let in learn it
+  const [jitsiPassword, setJitsiPassword] = useState<string | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+  const [joinError, setJoinError] = useState("");
+  // Devices picked in the pre-join lobby
+  const [devices, setDevices] = useState<JitsiDeviceSelection>({});
+  // Controller for the embedded meeting, set once it mounts
+  const [jitsi, setJitsi] = useState<JitsiMeetHandle | null>(null);
+  const [showParticipants, setShowParticipants] = useState(true);
+  const [showChat, setShowChat] = useState(true);
+  const [showNotes, setShowNotes] = useState(false);
+  const roster = useParticipants(jitsi);
+  const canRecord = isHost && config.features.recording;
+  const [showPolls, setShowPolls] = useState(false);
+  const polls = usePolls(jitsi, roomId, roster, displayName, isHost);
+  const recording = useRecording(jitsi, roomId, displayName, canRecord);
+  // Guests of rooms with a waiting room knock before the meeting is mounted
+  const [waitingRoom, setWaitingRoom] = useState(waitingRoomEnabled);
+  const [isKnocking, setIsKnocking] = useState(false);
+  const lobby = useLobbyGuest(roomId, displayName.trim(), isKnocking);
+  const lobbyHost = useLobbyHost(roomId, hasJoined && isHost);
+  // The breakout room we're in, or null while in the main room
+  const [breakoutRoom, setBreakoutRoom] = useState<string | null>(null);
+  const [switchError, setSwitchError] = useState<string | null>(null);
+  const [showBreakout, setShowBreakout] = useState(false);
+  const breakout = useBreakout(
+    roomId,
+    displayName.trim(),
+    breakoutRoom ? null : roster.localParticipant?.id ?? null,
+    hasJoined
+  );
 
   // When the component loads, check if there's a stored name
   useEffect(() => {
+    if (user) return;
     const storedName = localStorage.getItem("jitsi-display-name");
     if (storedName) {
       setDisplayName(storedName);
     }
   }, []);
 
+  // The host locks the Jitsi room once they're in; everyone else answers
+  // Jitsi's prompt with the same password
+  useJitsiEvent(jitsi, "videoConferenceJoined", () => {
+    if (isHost && jitsiPassword)
+      jitsi.executeCommand("password", jitsiPassword);
+  });
+  useJitsiEvent(jitsi, "passwordRequired", () => {
+    if (jitsiPassword) jitsi.executeCommand("password", jitsiPassword);
+  });
+
+  // Join as soon as the host lets us in
+  useEffect(() => {
+    if (lobby.status === "admitted" && lobby.ticket) {
+      setIsKnocking(false);
+      joinMeeting(lobby.ticket);
+    }
+  }, [lobby.status, lobby.ticket]);
+
+  // Follow the host's breakout assignments, and come back when they end
+  useEffect(() => {
+    if (hasJoined && breakout.assignedRoom !== breakoutRoom) {
+      switchRoom(breakout.assignedRoom);
+    }
+  }, [breakout.assignedRoom, hasJoined]);
+
+  /**
+   * Moves the meeting to a breakout room, or back to the main room with null
+   * Tokens are per room, so a new one is fetched first; guests of rooms with
+   * a waiting room get back in with the admission cookie from joining
+   */
+  const switchRoom = async (targetRoom: string | null) => {
+    setSwitchError(null);
+    try {
+      const token = await fetchJitsiToken(targetRoom ?? roomId, displayName);
+      setJwt(domain === config.jitsiDomain ? token.jwt : null);
+      setJitsiPassword(token.jitsiPassword);
+      setBreakoutRoom(targetRoom);
+    } catch (error) {
+      console.error("Failed to switch rooms:", error);
+      setSwitchError(
+        `${
+          targetRoom
+            ? "Could not join your breakout room"
+            : "Could not return to the main room"
+        }: ${error.message}`
+      );
+    }
+  };
+
   /**
    * Handles joining the meeting with the provided display name
+   * Guests knock first when the room has a waiting room
    */
-  const handleJoinMeeting = (e) => {
+  const handleJoinMeeting = async (e) => {
     e.preventDefault();
     if (displayName.trim() === "") {
       alert("Please enter your name");
       return;
     }
 
-    // Store the display name for future use
-    localStorage.setItem("jitsi-display-name", displayName);
-    setHasJoined(true);
+    // Store the display name for future use; accounts keep theirs in the profile
+    if (!user) localStorage.setItem("jitsi-display-name", displayName);
+
+    if (waitingRoom && !isHost) {
+      setJoinError("");
+      setIsKnocking(true);
+      return;
+    }
+    await joinMeeting();
+  };
+
+  /**
+   * Fetches a token so the component mounts already authenticated, then
+   * mounts the meeting
+   *
+   * @param admissionTicket Proof the host let us in, for rooms with a waiting room
+   */
+  const joinMeeting = async (admissionTicket?: string) => {
+    setIsJoining(true);
+    setJoinError("");
+    try {
+      // Tokens only work on the configured server, but asking for one also
+      // lets admitted guests into the chat and notes, and brings the
+      // password of a locked Jitsi room
+      const token = await fetchJitsiToken(roomId, displayName, admissionTicket);
+      setJwt(domain === config.jitsiDomain ? token.jwt : null);
+      setJitsiPassword(token.jitsiPassword);
+      setHasJoined(true);
+    } catch (error) {
+      console.error("Failed to get meeting token:", error);
+      setJoinError("Could not get a meeting token. Please try again.");
+    } finally {
+      setIsJoining(false);
+    }
   };
 
   /**
    * Handles leaving the current meeting
+   * Hangs up properly so other participants see us leave before the iframe goes away
    */
-  const handleLeaveMeeting = () => {
+  const handleLeaveMeeting = async () => {
+    await jitsi?.hangup();
     setHasJoined(false);
+    setBreakoutRoom(null);
+    setSwitchError(null);
+  };
+
+  /**
+   * Turns the waiting room on or off (host only)
+   * Turning it off lets everyone who is waiting in
+   */
+  const handleToggleWaitingRoom = async () => {
+    try {
+      const settings = await saveRoomSettings(roomId, {
+        waitingRoom: !waitingRoom,
+      });
+      setWaitingRoom(settings.waitingRoom);
+    } catch (error) {
+      console.error("Failed to change the waiting room:", error);
+    }
   };
 
+  // Scheduled meetings can only be joined around their scheduled time
+  if (phase !== "open") {
+    return (
+      <div className="container mx-auto p-4">
+        <div className="max-w-md mx-auto bg-white rounded-lg overflow-hidden shadow-lg p-6 mt-10 text-center">
+          <h2 className="text-xl font-semibold mb-2">{meeting.title}</h2>
+          {phase === "upcoming" ? (
+            <>
+              <p className="mb-2">This meeting hasn&apos;t started yet.</p>
+              <p className="text-sm text-gray-600 mb-4">
+                Starts <LocalTime value={meeting.scheduledStart} />. You can
+                join a few minutes before.
+              </p>
+              <Link
+                to="."
+                reloadDocument
+                className="inline-block py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700"
+              >
+                Check Again
+              </Link>
+            </>
+          ) : (
+            <p className="mb-2">
+              This meeting ended <LocalTime value={meeting.scheduledEnd} />.
+            </p>
+          )}
+          {meeting.description && (
+            <p className="text-sm text-gray-600 mt-4 whitespace-pre-line">
+              {meeting.description}
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  // The meeting isn't mounted until the passcode has been checked
+  if (passcodeRequired) {
+    return (
+      <div className="container mx-auto p-4">
+        <div className="max-w-md mx-auto bg-white rounded-lg overflow-hidden shadow-lg p-6 mt-10">
+          <h2 className="text-xl font-semibold mb-2">
+            {meeting?.title ?? roomId}
+          </h2>
+          <p className="text-sm text-gray-600 mb-4">
+            This room is protected with a passcode.
+          </p>
+          <Form method="post" className="space-y-4">
+            <div>
+              <label
+                htmlFor="passcode"
+                className="block text-sm font-medium mb-1"
+              >
+                Passcode
+              </label>
+              <input
+                type="password"
+                id="passcode"
+                name="passcode"
+                value={passcode}
+                onChange={(e) => setPasscode(e.target.value)}
+                maxLength={MAX_PASSCODE_LENGTH}
+                autoComplete="off"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                required
+              />
+            </div>
+            {passcodeResult?.error && (
+              <p className="text-sm text-red-600">{passcodeResult.error}</p>
+            )}
+            <button
+              type="submit"
+              disabled={navigation.state === "submitting"}
+              className="w-full py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {navigation.state === "submitting" ? "Checking..." : "Continue"}
+            </button>
+          </Form>
+        </div>
+      </div>
+    );
+  }
+
+  // Guests wait here until the host decides; the meeting isn't mounted yet
+  if (isKnocking) {
+    return (
+      <div className="container mx-auto p-4">
+        <div className="max-w-md mx-auto bg-white rounded-lg overflow-hidden shadow-lg p-6 mt-10 text-center">
+          <h2 className="text-xl font-semibold mb-2">
+            {meeting?.title ?? roomId}
+          </h2>
+          {lobby.status === "denied" ? (
+            <p className="mb-4">The host didn&apos;t let you in.</p>
+          ) : lobby.status === "error" ? (
+            <p className="mb-4 text-red-600">{lobby.error}</p>
+          ) : (
+            <>
+              <p className="mb-2">Waiting for the host to let you in...</p>
+              <p className="text-sm text-gray-600 mb-4">
+                {lobby.status === "connecting"
+                  ? "Connecting to the waiting room..."
+                  : lobby.hostPresent
+                  ? "The host knows you're here."
+                  : "The host hasn't joined yet."}
+              </p>
+            </>
+          )}
+          <button
+            onClick={() => setIsKnocking(false)}
+            className="py-2 px-4 bg-gray-200 font-semibold rounded-md hover:bg-gray-300"
+          >
+            {lobby.status === "denied" || lobby.status === "error"
+              ? "Back"
+              : "Cancel"}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="container mx-auto p-4">
       {!hasJoined ? (
         <div className="max-w-md mx-auto bg-white rounded-lg overflow-hidden shadow-lg p-6 mt-10">
-          <h2 className="text-xl font-semibold mb-4">Join Meeting: {roomId}</h2>
+          <h2 className="text-xl font-semibold mb-4">
+            Join Meeting: {meeting?.title ?? roomId}
+          </h2>
+          {meeting && (
+            <p className="text-sm text-gray-600 mb-4">
+              Hosted by {meeting.host}
+              {meeting.description && (
+                <span className="block mt-1 whitespace-pre-line">
+                  {meeting.description}
+                </span>
+              )}
+            </p>
+          )}
 
           <form onSubmit={handleJoinMeeting} className="space-y-4">
             <div>
@@ -64,13 +475,53 @@ export default function Room() {
                 className="w-full px-3 py-2 border border-gray-300 rounded-md"
                 required
               />
+              <p className="text-xs text-gray-500 mt-1">
+                {user ? (
+                  <>
+                    Signed in as {user.email}.{" "}
+                    <Link
+                      to="/account"
+                      className="text-blue-600 hover:underline"
+                    >
+                      Edit profile
+                    </Link>
+                  </>
+                ) : (
+                  <>
+                    Joining as a guest.{" "}
+                    <Link
+                      to={`/login?${new URLSearchParams({
+                        redirectTo: `/room/${roomId}`,
+                      })}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      Sign in
+                    </Link>
+                  </>
+                )}
+              </p>
             </div>
 
+            <PreJoinLobby
+              value={devices}
+              onChange={setDevices}
+              preferred={user?.profile.devices}
+            />
+
+            {serverError && (
+              <p className="text-sm text-red-600">
+                {serverError}. Using {domain} instead.
+              </p>
+            )}
+
+            {joinError && <p className="text-sm text-red-600">{joinError}</p>}
+
             <button
               type="submit"
-              className="w-full py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700"
+              disabled={isJoining}
+              className="w-full py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50"
             >
-              Join Meeting
+              {isJoining ? "Joining..." : "Join Meeting"}
             </button>
           </form>
         </div>
@@ -78,23 +529,133 @@ export default function Room() {
         <div className="conference-container">
           <div className="bg-gray-800 text-white p-4 flex justify-between items-center mb-2">
             <div>
-              <h2 className="text-xl font-semibold">Room: {roomId}</h2>
-              <p className="text-sm text-gray-300">Joined as: {displayName}</p>
+              <h2 className="text-xl font-semibold">
+                Room: {meeting?.title ?? roomId}
+              </h2>
+              <p className="text-sm text-gray-300">
+                Joined as: {displayName} | Server: {domain}
+                <RecordingIndicator active={recording.active} />
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              <InviteMenu
+                roomName={roomId}
+                title={meeting?.title ?? roomId}
+                meeting={meeting}
+                dialIn={config.dialIn}
+              />
+              {canRecord && (
+                <RecordingMenu roomName={roomId} recording={recording} />
+              )}
+              {isHost && (
+                <button
+                  onClick={handleToggleWaitingRoom}
+                  className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded"
+                >
+                  Waiting Room: {waitingRoom ? "On" : "Off"}
+                </button>
+              )}
+              <button
+                onClick={() => setShowParticipants(!showParticipants)}
+                className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded"
+              >
+                Participants ({roster.participants.length})
+              </button>
+              <button
+                onClick={() => setShowChat(!showChat)}
+                className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded"
+              >
+                Chat
+              </button>
+              <button
+                onClick={() => setShowNotes(!showNotes)}
+                className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded"
+              >
+                Notes
+              </button>
+              <button
+                onClick={() => setShowPolls(!showPolls)}
+                className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded"
+              >
+                Polls
+              </button>
+              {isHost && (
+                <button
+                  onClick={() => setShowBreakout(!showBreakout)}
+                  className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded"
+                >
+                  Breakout Rooms
+                </button>
+              )}
+              <button
+                onClick={handleLeaveMeeting}
+                className="bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded"
+              >
+                Leave Meeting
+              </button>
             </div>
-            <button
-              onClick={handleLeaveMeeting}
-              className="bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded"
-            >
-              Leave Meeting
-            </button>
           </div>
 
-          <div className="conference-wrapper" style={{ height: "80vh" }}>
-            <JitsiMeetComponent
-              roomName={roomId}
-              displayName={displayName}
-              domain="meet.jit.si"
-            />
+          <LobbyRequests
+            requests={lobbyHost.requests}
+            onAdmit={lobbyHost.admit}
+            onDeny={lobbyHost.deny}
+          />
+
+          <BreakoutBanner
+            session={breakout.session}
+            assignedRoom={breakout.assignedRoom}
+            switchError={switchError}
+            onRetry={() => switchRoom(breakout.assignedRoom)}
+          />
+
+          <div className="conference-wrapper flex" style={{ height: "80vh" }}>
+            <div className="flex-1 min-w-0">
+              <JitsiMeetComponent
+                ref={setJitsi}
+                roomName={breakoutRoom ?? roomId}
+                displayName={displayName}
+                email={user?.email}
+                avatarUrl={user?.profile.avatarUrl ?? undefined}
+                domain={domain}
+                startWithAudioMuted={
+                  config.defaults.startWithAudioMuted ?? undefined
+                }
+                startWithVideoMuted={
+                  config.defaults.startWithVideoMuted ?? undefined
+                }
+                preset={meeting?.preset ?? config.preset}
+                jwt={jwt ?? undefined}
+                devices={devices}
+                reportAttendance
+                reportPresence
+                enableRecording={canRecord}
+                collectTranscript={config.features.transcripts}
+              />
+            </div>
+            {showParticipants && (
+              <ParticipantsPanel jitsi={jitsi} roster={roster} />
+            )}
+            {showPolls && (
+              <PollsPanel
+                polls={polls}
+                localParticipantId={roster.localParticipant?.id ?? null}
+                isHost={isHost}
+              />
+            )}
+            {isHost && showBreakout && (
+              <BreakoutPanel
+                participants={roster.participants}
+                session={breakout.session}
+                error={breakout.error}
+                onStart={breakout.start}
+                onEnd={breakout.end}
+              />
+            )}
+            {showNotes && <NotesPanel roomName={roomId} />}
+            {showChat && (
+              <ChatPanel roomName={roomId} displayName={displayName} />
+            )}
           </div>
         </div>
       )}
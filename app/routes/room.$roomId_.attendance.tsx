@@ -0,0 +1,135 @@
+// app/routes/room.$roomId_.attendance.tsx
+import { json } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import LocalTime from "~/components/LocalTime";
+import {
+  buildAttendanceReport,
+  getAttendanceStore,
+} from "~/lib/attendance.server";
+import { getMeetingStore } from "~/lib/meetings.server";
+import { canJoinRoom } from "~/lib/lobby.server";
+import { validateRoomName } from "~/lib/room-names";
+import { getRoomStore } from "~/lib/rooms.server";
+
+/**
+ * Loader that builds the attendance report for a room
+ * Only the host and guests who may join the meeting can see it
+ */
+export const loader = async ({ request, params, context }) => {
+  if (validateRoomName(params.roomId)) {
+    throw new Response("Invalid room name", { status: 404 });
+  }
+  const room = await getRoomStore(context).get(params.roomId);
+  if (!(await canJoinRoom(context, request.headers.get("Cookie"), room))) {
+    throw new Response("Please join the meeting first", { status: 403 });
+  }
+
+  const [events, meeting] = await Promise.all([
+    getAttendanceStore(context).listByRoom(params.roomId),
+    getMeetingStore(context).get(params.roomId),
+  ]);
+  return json({
+    roomId: params.roomId,
+    title: meeting?.title ?? params.roomId,
+    report: buildAttendanceReport(events),
+    eventCount: events.length,
+  });
+};
+
+/**
+ * Page showing who attended a room, and for how long
+ */
+export default function RoomAttendance() {
+  const { roomId, title, report, eventCount } = useLoaderData<typeof loader>();
+  const exportUrl = (format: string, data = "report") =>
+    `/api/attendance/${roomId}?format=${format}&data=${data}`;
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="mb-8 flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Attendance: {title}</h1>
+        <Link to={`/room/${roomId}`} className="text-blue-600 hover:underline">
+          Open room
+        </Link>
+      </div>
+
+      {report.length === 0 ? (
+        <p className="text-gray-600">Nobody has joined this room yet.</p>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-4 py-2">Participant</th>
+                <th className="px-4 py-2">First joined</th>
+                <th className="px-4 py-2">Last left</th>
+                <th className="px-4 py-2 text-right">Minutes</th>
+                <th className="px-4 py-2 text-right">Sessions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {report.map((record) => (
+                <tr key={record.displayName}>
+                  <td className="px-4 py-2">{record.displayName}</td>
+                  <td className="px-4 py-2">
+                    <LocalTime value={record.firstJoin} />
+                  </td>
+                  <td className="px-4 py-2">
+                    <LocalTime value={record.lastLeave} />
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {record.totalMinutes}
+                  </td>
+                  <td className="px-4 py-2 text-right">{record.sessions}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p className="mt-4 text-sm text-gray-600">
+        Export report as{" "}
+        <a href={exportUrl("csv")} className="text-blue-600 hover:underline">
+          CSV
+        </a>{" "}
+        or{" "}
+        <a href={exportUrl("json")} className="text-blue-600 hover:underline">
+          JSON
+        </a>
+        . Download the full event log ({eventCount} events) as{" "}
+        <a
+          href={exportUrl("csv", "events")}
+          className="text-blue-600 hover:underline"
+        >
+          CSV
+        </a>{" "}
+        or{" "}
+        <a
+          href={exportUrl("json", "events")}
+          className="text-blue-600 hover:underline"
+        >
+          JSON
+        </a>
+        .
+      </p>
+      <p className="mt-2 text-sm text-gray-600">
+        Download the chat transcript as{" "}
+        <a
+          href={`/api/chat/${roomId}?format=txt`}
+          className="text-blue-600 hover:underline"
+        >
+          text
+        </a>{" "}
+        or{" "}
+        <a
+          href={`/api/chat/${roomId}?format=json`}
+          className="text-blue-600 hover:underline"
+        >
+          JSON
+        </a>
+        .
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+// app/routes/rooms.$roomId.recordings.tsx
+import { json } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import LocalTime from "~/components/LocalTime";
+import { requireFeature } from "~/lib/config.server";
+import { canJoinRoom } from "~/lib/lobby.server";
+import { getMeetingStore } from "~/lib/meetings.server";
+import { RECORDING_MODE_LABELS } from "~/lib/recordings";
+import { getRecordingStore } from "~/lib/recordings.server";
+import { validateRoomName } from "~/lib/room-names";
+import { getRoomStore } from "~/lib/rooms.server";
+
+/**
+ * Loader for a room's recordings catalog, newest first
+ * Only the host and guests who may join the meeting can see it
+ */
+export const loader = async ({ request, params, context }) => {
+  requireFeature(context, "recording");
+  if (validateRoomName(params.roomId)) {
+    throw new Response("Invalid room name", { status: 404 });
+  }
+  const room = await getRoomStore(context).get(params.roomId);
+  if (!(await canJoinRoom(context, request.headers.get("Cookie"), room))) {
+    throw new Response("Please join the meeting first", { status: 403 });
+  }
+
+  const [recordings, meeting] = await Promise.all([
+    getRecordingStore(context).listByRoom(params.roomId),
+    getMeetingStore(context).get(params.roomId),
+  ]);
+  return json({
+    roomId: params.roomId,
+    title: meeting?.title ?? params.roomId,
+    recordings: recordings.reverse(),
+  });
+};
+
+/**
+ * Page listing a room's recordings and live streams
+ */
+export default function RoomRecordings() {
+  const { roomId, title, recordings } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="mb-8 flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Recordings: {title}</h1>
+        <Link to={`/room/${roomId}`} className="text-blue-600 hover:underline">
+          Open room
+        </Link>
+      </div>
+
+      {recordings.length === 0 ? (
+        <p className="text-gray-600">
+          This room hasn&apos;t been recorded yet.
+        </p>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-4 py-2">Type</th>
+                <th className="px-4 py-2">Started</th>
+                <th className="px-4 py-2">Ended</th>
+                <th className="px-4 py-2">Started by</th>
+                <th className="px-4 py-2">File</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {recordings.map((recording) => (
+                <tr key={recording.id}>
+                  <td className="px-4 py-2">
+                    {RECORDING_MODE_LABELS[recording.mode]}
+                  </td>
+                  <td className="px-4 py-2">
+                    <LocalTime value={recording.startedAt} />
+                  </td>
+                  <td className="px-4 py-2">
+                    {recording.endedAt ? (
+                      <LocalTime value={recording.endedAt} />
+                    ) : (
+                      <span className="text-red-600 font-semibold">
+                        In progress
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">{recording.startedBy}</td>
+                  <td className="px-4 py-2">
+                    {recording.fileUrl ? (
+                      <a
+                        href={recording.fileUrl}
+                        className="text-blue-600 hover:underline"
+                      >
+                        Download
+                      </a>
+                    ) : recording.mode === "file" ? (
+                      <span className="text-gray-500">Processing</span>
+                    ) : (
+                      <span className="text-gray-500">Not saved</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+// app/routes/rooms.$roomId.transcripts.tsx
+import { json } from "@remix-run/node";
+import { Form, Link, useLoaderData } from "@remix-run/react";
+import HighlightedText from "~/components/HighlightedText";
+import LocalTime from "~/components/LocalTime";
+import { requireFeature } from "~/lib/config.server";
+import { canJoinRoom } from "~/lib/lobby.server";
+import { getMeetingStore } from "~/lib/meetings.server";
+import { validateRoomName } from "~/lib/room-names";
+import { getRoomStore } from "~/lib/rooms.server";
+import {
+  getTranscriptSpeakers,
+  getTranscriptStore,
+  searchTranscript,
+} from "~/lib/transcripts.server";
+
+// Matches shown per transcript; the full transcript has the rest
+const MAX_MATCHES_SHOWN = 20;
+
+/**
+ * Loader for a room's transcript archive, newest first
+ * ?q= searches every transcript's text and speakers and only keeps the
+ * transcripts that match
+ * Only the host and guests who may join the meeting can see it, as it
+ * includes the chat
+ */
+export const loader = async ({ request, params, context }) => {
+  requireFeature(context, "transcripts");
+  if (validateRoomName(params.roomId)) {
+    throw new Response("Invalid room name", { status: 404 });
+  }
+  const room = await getRoomStore(context).get(params.roomId);
+  if (!(await canJoinRoom(context, request.headers.get("Cookie"), room))) {
+    throw new Response("Please join the meeting first", { status: 403 });
+  }
+
+  const query = new URL(request.url).searchParams.get("q")?.trim() ?? "";
+  const [transcripts, meeting] = await Promise.all([
+    getTranscriptStore(context).listByRoom(params.roomId),
+    getMeetingStore(context).get(params.roomId),
+  ]);
+
+  const results = transcripts
+    .reverse()
+    .map((transcript) => {
+      const matches = query ? searchTranscript(transcript, query) : [];
+      return {
+        id: transcript.id,
+        startedAt: transcript.startedAt,
+        endedAt: transcript.endedAt,
+        speakers: getTranscriptSpeakers(transcript),
+        entryCount: transcript.entries.length,
+        matchCount: matches.length,
+        matches: matches.slice(0, MAX_MATCHES_SHOWN),
+      };
+    })
+    .filter((result) => !query || result.matchCount > 0);
+
+  return json({
+    roomId: params.roomId,
+    title: meeting?.title ?? params.roomId,
+    query,
+    transcripts: results,
+  });
+};
+
+/**
+ * Page listing a room's meeting transcripts, with full-text search and
+ * downloads as Markdown, SRT or JSON
+ */
+export default function RoomTranscripts() {
+  const { roomId, title, query, transcripts } = useLoaderData<typeof loader>();
+  const exportUrl = (id: string, format: string) =>
+    `/api/transcripts/${roomId}?id=${id}&format=${format}`;
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="mb-8 flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Transcripts: {title}</h1>
+        <Link to={`/room/${roomId}`} className="text-blue-600 hover:underline">
+          Open room
+        </Link>
+      </div>
+
+      <Form method="get" className="flex space-x-2 mb-6">
+        <input
+          type="search"
+          name="q"
+          defaultValue={query}
+          placeholder="Search what was said"
+          aria-label="Search transcripts"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+        />
+        <button
+          type="submit"
+          className="py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700"
+        >
+          Search
+        </button>
+      </Form>
+
+      {transcripts.length === 0 ? (
+        <p className="text-gray-600">
+          {query
+            ? `Nothing in this room's transcripts matches "${query}".`
+            : "This room doesn't have any transcripts yet."}
+        </p>
+      ) : (
+        <ul className="space-y-4">
+          {transcripts.map((transcript) => (
+            <li
+              key={transcript.id}
+              className="bg-white rounded-lg shadow p-4 space-y-2"
+            >
+              <div className="flex justify-between items-start">
+                <div>
+                  <Link
+                    to={`/rooms/${roomId}/transcripts/${transcript.id}`}
+                    className="font-semibold text-blue-600 hover:underline"
+                  >
+                    <LocalTime value={transcript.startedAt} />
+                  </Link>
+                  <p className="text-sm text-gray-600">
+                    {transcript.entryCount} entries,{" "}
+                    {transcript.speakers.join(", ")}
+                  </p>
+                </div>
+                <p className="text-sm text-gray-600">
+                  Download as{" "}
+                  <a
+                    href={exportUrl(transcript.id, "md")}
+                    className="text-blue-600 hover:underline"
+                  >
+                    Markdown
+                  </a>
+                  ,{" "}
+                  <a
+                    href={exportUrl(transcript.id, "srt")}
+                    className="text-blue-600 hover:underline"
+                  >
+                    SRT
+                  </a>{" "}
+                  or{" "}
+                  <a
+                    href={exportUrl(transcript.id, "json")}
+                    className="text-blue-600 hover:underline"
+                  >
+                    JSON
+                  </a>
+                </p>
+              </div>
+
+              {transcript.matches.length > 0 && (
+                <ul className="text-sm space-y-1 border-t border-gray-100 pt-2">
+                  {transcript.matches.map((entry) => (
+                    <li key={`${entry.at}-${entry.speaker}-${entry.text}`}>
+                      <span className="text-gray-500 mr-2">
+                        {entry.at.slice(11, 19)}
+                      </span>
+                      <span className="font-medium">
+                        <HighlightedText text={entry.speaker} query={query} />:
+                      </span>{" "}
+                      <HighlightedText text={entry.text} query={query} />
+                    </li>
+                  ))}
+                  {transcript.matchCount > transcript.matches.length && (
+                    <li className="text-gray-500">
+                      and {transcript.matchCount - transcript.matches.length}{" "}
+                      more
+                    </li>
+                  )}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
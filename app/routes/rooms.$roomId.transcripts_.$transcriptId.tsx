@@ -0,0 +1,79 @@
+// app/routes/rooms.$roomId.transcripts_.$transcriptId.tsx
+import { json } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import LocalTime from "~/components/LocalTime";
+import { requireFeature } from "~/lib/config.server";
+import { canJoinRoom } from "~/lib/lobby.server";
+import { getMeetingStore } from "~/lib/meetings.server";
+import { validateRoomName } from "~/lib/room-names";
+import { getRoomStore } from "~/lib/rooms.server";
+import { getTranscriptStore } from "~/lib/transcripts.server";
+
+/**
+ * Loader for one meeting transcript
+ * Only the host and guests who may join the meeting can see it, as it
+ * includes the chat
+ */
+export const loader = async ({ request, params, context }) => {
+  requireFeature(context, "transcripts");
+  if (validateRoomName(params.roomId)) {
+    throw new Response("Invalid room name", { status: 404 });
+  }
+  const room = await getRoomStore(context).get(params.roomId);
+  if (!(await canJoinRoom(context, request.headers.get("Cookie"), room))) {
+    throw new Response("Please join the meeting first", { status: 403 });
+  }
+
+  const [transcript, meeting] = await Promise.all([
+    getTranscriptStore(context).get(params.roomId, params.transcriptId),
+    getMeetingStore(context).get(params.roomId),
+  ]);
+  if (!transcript || transcript.roomName !== params.roomId) {
+    throw new Response("Transcript not found", { status: 404 });
+  }
+
+  return json({
+    roomId: params.roomId,
+    title: meeting?.title ?? params.roomId,
+    transcript,
+  });
+};
+
+/**
+ * Page showing a whole meeting transcript
+ */
+export default function RoomTranscript() {
+  const { roomId, title, transcript } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Transcript: {title}</h1>
+          <p className="text-gray-600">
+            <LocalTime value={transcript.startedAt} />
+          </p>
+        </div>
+        <Link
+          to={`/rooms/${roomId}/transcripts`}
+          className="text-blue-600 hover:underline"
+        >
+          All transcripts
+        </Link>
+      </div>
+
+      <ul className="bg-white rounded-lg shadow p-4 space-y-1 text-sm">
+        {transcript.entries.map((entry, index) => (
+          <li key={index}>
+            <span className="text-gray-500 mr-2">{entry.at.slice(11, 19)}</span>
+            <span className="font-medium">{entry.speaker}</span>
+            {entry.kind !== "speech" && (
+              <span className="text-gray-500"> ({entry.kind})</span>
+            )}
+            : {entry.text}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+// app/routes/rooms._index.tsx
+import { json } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import { useEffect, useState } from "react";
+import { useRoomOccupancy } from "~/hooks/useRoomOccupancy";
+import { getAppConfig } from "~/lib/config.server";
+import { canListRoom } from "~/lib/lobby.server";
+import { getMeetingStore } from "~/lib/meetings.server";
+import { getVisibleOccupancy } from "~/lib/presence.server";
+import { getRoomStore } from "~/lib/rooms.server";
+
+/**
+ * Loader that lists the rooms the visitor hosts or proved access to (see
+ * canListRoom), with meeting titles, together with who is in each one
+ * right now
+ * Also says which per-room archives (recordings, transcripts) are turned on
+ */
+export const loader = async ({ request, context }) => {
+  const cookieHeader = request.headers.get("Cookie");
+  const [meetings, rooms] = await Promise.all([
+    getMeetingStore(context).list(),
+    getRoomStore(context).list(),
+  ]);
+  const listed = await Promise.all(
+    rooms.map((room) => canListRoom(context, cookieHeader, room))
+  );
+
+  const titles = new Map<string, string | null>();
+  rooms
+    .filter((_room, index) => listed[index])
+    .forEach((room) => titles.set(room.name, null));
+  meetings
+    .filter((meeting) => titles.has(meeting.id))
+    .forEach((meeting) => titles.set(meeting.id, meeting.title));
+
+  return json({
+    knownRooms: Array.from(titles, ([roomName, title]) => ({
+      roomName,
+      title,
+    })),
+    occupancy: await getVisibleOccupancy(context, cookieHeader),
+    features: getAppConfig(context).features,
+  });
+};
+
+/**
+ * Formats how long a meeting has been running, e.g. "5 min" or "1 h 20 min"
+ */
+const formatDuration = (ms: number) => {
+  const minutes = Math.max(0, Math.floor(ms / 60000));
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+/**
+ * Dashboard of the visitor's rooms with live participant counts
+ */
+export default function Rooms() {
+  const {
+    knownRooms,
+    occupancy: initialOccupancy,
+    features,
+  } = useLoaderData<typeof loader>();
+  const { occupancy, isLive } = useRoomOccupancy(initialOccupancy);
+  // Ticks so meeting durations keep counting between updates
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const titles = new Map(
+    knownRooms.map(({ roomName, title }) => [roomName, title])
+  );
+  const activeNames = new Set(occupancy.map((room) => room.roomName));
+  const idleRooms = knownRooms
+    .filter((room) => !activeNames.has(room.roomName))
+    .sort((a, b) =>
+      (a.title ?? a.roomName).localeCompare(b.title ?? b.roomName)
+    );
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Rooms</h1>
+          <p className="text-sm text-gray-600">
+            {isLive ? "Live" : "Connecting to live updates..."}
+          </p>
+        </div>
+        <Link to="/" className="text-blue-600 hover:underline">
+          Back to quick join
+        </Link>
+      </div>
+
+      <h2 className="text-xl font-semibold mb-4">
+        Active now ({occupancy.length})
+      </h2>
+      {occupancy.length === 0 ? (
+        <p className="text-gray-600 mb-8">Nobody is in a meeting.</p>
+      ) : (
+        <ul className="grid gap-4 md:grid-cols-2 mb-8">
+          {occupancy.map((room) => (
+            <li key={room.roomName} className="bg-white rounded-lg shadow p-4">
+              <div className="flex justify-between items-start">
+                <div>
+                  <Link
+                    to={`/room/${room.roomName}`}
+                    className="font-semibold text-blue-600 hover:underline"
+                  >
+                    {titles.get(room.roomName) ?? room.roomName}
+                  </Link>
+                  <p className="text-xs text-gray-500">
+                    Running for{" "}
+                    {formatDuration(now - new Date(room.startedAt).getTime())}
+                  </p>
+                </div>
+                <span className="text-sm font-semibold bg-green-100 text-green-800 rounded-full px-3 py-1">
+                  {room.participantCount}
+                </span>
+              </div>
+              <ul className="mt-2 text-sm text-gray-700">
+                {room.participants.map((participant, index) => (
+                  <li key={index}>{participant.displayName}</li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h2 className="text-xl font-semibold mb-4">Other rooms</h2>
+      {idleRooms.length === 0 ? (
+        <p className="text-gray-600">No other rooms yet.</p>
+      ) : (
+        <ul className="bg-white rounded-lg shadow divide-y">
+          {idleRooms.map((room) => (
+            <li
+              key={room.roomName}
+              className="p-4 flex justify-between items-center"
+            >
+              <div>
+                <Link
+                  to={`/room/${room.roomName}`}
+                  className="text-blue-600 hover:underline"
+                >
+                  {room.title ?? room.roomName}
+                </Link>
+                {room.title && (
+                  <p className="text-xs text-gray-500">/room/{room.roomName}</p>
+                )}
+              </div>
+              <div className="text-sm text-gray-500 space-x-3">
+                {features.recording && (
+                  <Link
+                    to={`/rooms/${room.roomName}/recordings`}
+                    className="text-blue-600 hover:underline"
+                  >
+                    Recordings
+                  </Link>
+                )}
+                {features.transcripts && (
+                  <Link
+                    to={`/rooms/${room.roomName}/transcripts`}
+                    className="text-blue-600 hover:underline"
+                  >
+                    Transcripts
+                  </Link>
+                )}
+                <a
+                  href={`/api/notes/${room.roomName}?format=md`}
+                  className="text-blue-600 hover:underline"
+                >
+                  Notes
+                </a>
+                <span>Empty</span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+// app/routes/signup.tsx
+import { json, redirect } from "@remix-run/node";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "@remix-run/react";
+import {
+  createUserSession,
+  getSessionUserId,
+  safeRedirectPath,
+} from "~/lib/sessions.server";
+import {
+  normalizeEmail,
+  validateDisplayName,
+  validateEmail,
+  validatePassword,
+} from "~/lib/users";
+import {
+  createDefaultProfile,
+  getUserStore,
+  hashPassword,
+} from "~/lib/users.server";
+
+/**
+ * Loader for the sign-up page
+ * Signed-in visitors go straight on to ?redirectTo=
+ */
+export const loader = async ({ request, context }) => {
+  const redirectTo = safeRedirectPath(
+    new URL(request.url).searchParams.get("redirectTo")
+  );
+  if (await getSessionUserId(context, request.headers.get("Cookie"))) {
+    return redirect(redirectTo);
+  }
+  return json({ redirectTo });
+};
+
+/**
+ * Action that creates an account with email and password and signs in
+ */
+export const action = async ({ request, context }) => {
+  const formData = await request.formData();
+  const email = normalizeEmail(String(formData.get("email") ?? ""));
+  const password = String(formData.get("password") ?? "");
+  const displayName = String(formData.get("displayName") ?? "").trim();
+
+  const errors: Record<string, string> = {};
+  const emailError = validateEmail(email);
+  if (emailError) errors.email = emailError;
+  const passwordError = validatePassword(password);
+  if (passwordError) errors.password = passwordError;
+  const displayNameError = validateDisplayName(displayName);
+  if (displayNameError) errors.displayName = displayNameError;
+  if (Object.keys(errors).length > 0) {
+    return json({ errors }, { status: 400 });
+  }
+
+  const user = await getUserStore(context).create({
+    email,
+    passwordHash: await hashPassword(password),
+    oidcSubject: null,
+    emailVerified: false,
+    profile: createDefaultProfile(email, displayName),
+  });
+  if (!user) {
+    return json(
+      { errors: { email: "An account with this email already exists" } },
+      { status: 409 }
+    );
+  }
+
+  return createUserSession(
+    context,
+    request,
+    user,
+    String(formData.get("redirectTo") ?? "/")
+  );
+};
+
+const FIELDS = [
+  {
+    name: "displayName",
+    label: "Display name",
+    type: "text",
+    autoComplete: "name",
+  },
+  { name: "email", label: "Email", type: "email", autoComplete: "email" },
+  {
+    name: "password",
+    label: "Password",
+    type: "password",
+    autoComplete: "new-password",
+  },
+];
+
+/**
+ * Sign-up page for local accounts
+ */
+export default function Signup() {
+  const { redirectTo } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const errors: Record<string, string> = actionData?.errors ?? {};
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="max-w-md mx-auto bg-white rounded-lg overflow-hidden shadow-lg p-6 mt-10">
+        <h1 className="text-xl font-semibold mb-4">Create an account</h1>
+
+        <Form method="post" className="space-y-4">
+          <input type="hidden" name="redirectTo" value={redirectTo} />
+          {FIELDS.map((field) => (
+            <div key={field.name}>
+              <label
+                htmlFor={field.name}
+                className="block text-sm font-medium mb-1"
+              >
+                {field.label}
+              </label>
+              <input
+                type={field.type}
+                id={field.name}
+                name={field.name}
+                autoComplete={field.autoComplete}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                required
+              />
+              {errors[field.name] && (
+                <p className="text-sm text-red-600 mt-1">
+                  {errors[field.name]}
+                </p>
+              )}
+            </div>
+          ))}
+
+          <button
+            type="submit"
+            disabled={navigation.state === "submitting"}
+            className="w-full py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Create Account
+          </button>
+        </Form>
+
+        <p className="text-sm text-gray-600 mt-4">
+          Already have an account?{" "}
+          <Link
+            to={`/login?${new URLSearchParams({ redirectTo })}`}
+            className="text-blue-600 hover:underline"
+          >
+            Sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+// app/routes/webhooks.tsx
+import { json } from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData } from "@remix-run/react";
+import LocalTime from "~/components/LocalTime";
+import {
+  dispatchWebhook,
+  getWebhookSettings,
+  listWebhookDeliveries,
+  maskWebhookUrl,
+} from "~/lib/webhooks.server";
+import { requireAdmin } from "~/lib/sessions.server";
+
+/**
+ * Loader that provides the configured targets and the delivery log
+ * Target URLs often embed credentials, so only their hosts are shown
+ * Administrators only (ADMIN_EMAILS)
+ */
+export const loader = async ({ request, context }) => {
+  await requireAdmin(context, request);
+  const settings = getWebhookSettings(context);
+  const deliveries = await listWebhookDeliveries(context);
+  return json({
+    targets: settings?.urls.map(maskWebhookUrl) ?? [],
+    signed: !!settings?.secret,
+    deliveries: deliveries.map((delivery) => ({
+      ...delivery,
+      url: maskWebhookUrl(delivery.url),
+    })),
+  });
+};
+
+/**
+ * Action that sends a test event to every target
+ */
+export const action = async ({ request, context }) => {
+  await requireAdmin(context, request);
+  const payload = dispatchWebhook(context, "webhook.test", {
+    message: "Test event from the webhooks page",
+  });
+  return json({ sent: !!payload });
+};
+
+const STATUS_CLASSES = {
+  pending: "text-yellow-700",
+  delivered: "text-green-700",
+  failed: "text-red-700",
+};
+
+/**
+ * Page showing webhook targets and recent deliveries
+ */
+export default function Webhooks() {
+  const { targets, signed, deliveries } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="mb-8 flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Webhooks</h1>
+        <Link to="/" className="text-blue-600 hover:underline">
+          Back to quick join
+        </Link>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-8">
+        {targets.length === 0 ? (
+          <p className="text-gray-600">
+            No webhook targets configured. Set WEBHOOK_URLS (and WEBHOOK_SECRET)
+            to receive meeting events.
+          </p>
+        ) : (
+          <>
+            <h2 className="text-xl font-semibold mb-2">Targets</h2>
+            <ul className="list-disc list-inside text-sm mb-2">
+              {targets.map((target, index) => (
+                <li key={index}>{target}</li>
+              ))}
+            </ul>
+            <p className="text-sm text-gray-600 mb-4">
+              {signed
+                ? "Payloads are signed with WEBHOOK_SECRET (X-Webhook-Signature)."
+                : "WEBHOOK_SECRET is not set, so payloads are not signed."}
+            </p>
+            <Form method="post">
+              <button
+                type="submit"
+                className="py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700"
+              >
+                Send Test Event
+              </button>
+            </Form>
+            {actionData?.sent && (
+              <p className="text-sm text-green-600 mt-2">
+                Test event sent. Refresh to see the result.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
+      <h2 className="text-xl font-semibold mb-4">Recent deliveries</h2>
+      {deliveries.length === 0 ? (
+        <p className="text-gray-600">Nothing has been sent yet.</p>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-4 py-2">Event</th>
+                <th className="px-4 py-2">Target</th>
+                <th className="px-4 py-2">Status</th>
+                <th className="px-4 py-2 text-right">Attempts</th>
+                <th className="px-4 py-2">Last result</th>
+                <th className="px-4 py-2">Updated</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {deliveries.map((delivery) => (
+                <tr key={delivery.id}>
+                  <td className="px-4 py-2">{delivery.eventType}</td>
+                  <td className="px-4 py-2">{delivery.url}</td>
+                  <td
+                    className={`px-4 py-2 ${STATUS_CLASSES[delivery.status]}`}
+                  >
+                    {delivery.status}
+                  </td>
+                  <td className="px-4 py-2 text-right">{delivery.attempts}</td>
+                  <td className="px-4 py-2">
+                    {delivery.error ?? delivery.responseStatus}
+                  </td>
+                  <td className="px-4 py-2">
+                    <LocalTime value={delivery.updatedAt} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
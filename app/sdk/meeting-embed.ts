@@ -0,0 +1,139 @@
+import {
+  createEmbedCommand,
+  isEmbedMessage,
+  type EmbedCommand,
+  type EmbedEventMap,
+  type EmbedEventName,
+  type EmbedTheme,
+} from "~/lib/embed";
+
+/**
+ * Client SDK for embedding a meeting in another app's page
+ * Built on its own into /sdk/meeting-embed.js (see vite.sdk.config.ts):
+ *
+ *   import { createMeetingEmbed } from "https://meet.example.com/sdk/meeting-embed.js";
+ *   const meeting = createMeetingEmbed({
+ *     appUrl: "https://meet.example.com",
+ *     roomName: "quiet-otter-sings-4k7m2x9p",
+ *     parentNode: document.getElementById("meeting"),
+ *     displayName: "Ada",
+ *   });
+ *   meeting.on("joined", ({ participantId }) => ...);
+ *   meeting.join();
+ */
+
+export type { EmbedEventMap, EmbedEventName, EmbedTheme } from "~/lib/embed";
+
+export interface MeetingEmbedOptions {
+  // Where the meeting app runs, e.g. "https://meet.example.com"
+  appUrl: string;
+  roomName: string;
+  parentNode: HTMLElement;
+  displayName?: string;
+  theme?: EmbedTheme;
+  // Join as soon as the meeting has loaded instead of waiting for join()
+  autoJoin?: boolean;
+  width?: string;
+  height?: string;
+}
+
+export interface MeetingEmbed {
+  join(displayName?: string): void;
+  leave(): void;
+  setAudioMuted(muted: boolean): void;
+  setVideoMuted(muted: boolean): void;
+  /**
+   * Subscribes to a meeting event; returns a function that unsubscribes
+   */
+  on<K extends EmbedEventName>(
+    event: K,
+    handler: (payload: EmbedEventMap[K]) => void
+  ): () => void;
+  /**
+   * Removes the iframe and stops listening for messages
+   */
+  destroy(): void;
+  iframe: HTMLIFrameElement;
+}
+
+/**
+ * Mounts a meeting in an iframe and returns its controller
+ * Commands sent before the meeting has loaded are queued until it is ready
+ */
+export const createMeetingEmbed = ({
+  appUrl,
+  roomName,
+  parentNode,
+  displayName,
+  theme = "light",
+  autoJoin = false,
+  width = "100%",
+  height = "100%",
+}: MeetingEmbedOptions): MeetingEmbed => {
+  const appOrigin = new URL(appUrl).origin;
+  const url = new URL(`/embed/${encodeURIComponent(roomName)}`, appOrigin);
+  url.searchParams.set("parentOrigin", window.location.origin);
+  url.searchParams.set("theme", theme);
+  if (displayName) url.searchParams.set("name", displayName);
+  if (autoJoin) url.searchParams.set("autojoin", "1");
+
+  const iframe = document.createElement("iframe");
+  iframe.src = url.toString();
+  iframe.allow = "camera; microphone; display-capture; autoplay; fullscreen";
+  iframe.style.border = "0";
+  iframe.style.width = width;
+  iframe.style.height = height;
+  parentNode.appendChild(iframe);
+
+  const handlers = new Map<EmbedEventName, Set<(payload: unknown) => void>>();
+  let ready = false;
+  let queue: EmbedCommand[] = [];
+
+  const post = (command: EmbedCommand) => {
+    if (!ready) {
+      queue.push(command);
+      return;
+    }
+    iframe.contentWindow?.postMessage(createEmbedCommand(command), appOrigin);
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    // Only trust our own iframe, served from the app's origin
+    if (event.source !== iframe.contentWindow || event.origin !== appOrigin) {
+      return;
+    }
+    const message = event.data;
+    if (!isEmbedMessage(message) || message.kind !== "event") return;
+
+    if (message.event === "ready" && !ready) {
+      ready = true;
+      const pending = queue;
+      queue = [];
+      pending.forEach(post);
+    }
+    handlers.get(message.event)?.forEach((handler) => handler(message.payload));
+  };
+
+  window.addEventListener("message", handleMessage);
+
+  return {
+    iframe,
+    join: (name) => post({ command: "join", displayName: name }),
+    leave: () => post({ command: "leave" }),
+    setAudioMuted: (muted) => post({ command: "mute", media: "audio", muted }),
+    setVideoMuted: (muted) => post({ command: "mute", media: "video", muted }),
+    on(event, handler) {
+      if (!handlers.has(event)) handlers.set(event, new Set());
+      const set = handlers.get(event);
+      set.add(handler);
+      return () => {
+        set.delete(handler);
+      };
+    },
+    destroy() {
+      window.removeEventListener("message", handleMessage);
+      handlers.clear();
+      iframe.remove();
+    },
+  };
+};
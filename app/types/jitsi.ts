@@ -0,0 +1,353 @@
+/**
+ * Type definitions for the Jitsi Meet External API (external_api.js)
+ * Only the parts of the API used by this app are declared here
+ */
+
+export interface JitsiParticipantInfo {
+  participantId: string;
+  displayName?: string;
+  formattedDisplayName?: string;
+  avatarURL?: string;
+  role?: string;
+}
+
+export interface JitsiMediaDevice {
+  deviceId: string;
+  groupId: string;
+  kind: "audioinput" | "audiooutput" | "videoinput";
+  label: string;
+}
+
+export interface JitsiAvailableDevices {
+  audioInput: JitsiMediaDevice[];
+  audioOutput: JitsiMediaDevice[];
+  videoInput: JitsiMediaDevice[];
+}
+
+export type JitsiDeviceKind = "audioInput" | "audioOutput" | "videoInput";
+
+export interface JitsiSelectedDevice {
+  deviceId: string;
+  label: string;
+}
+
+/**
+ * Devices chosen before joining; unset kinds use the browser default
+ */
+export type JitsiDeviceSelection = Partial<
+  Record<JitsiDeviceKind, JitsiSelectedDevice>
+>;
+
+/**
+ * Maps every External API event we use to the payload its listeners receive
+ */
+export interface JitsiEventMap {
+  audioMuteStatusChanged: { muted: boolean };
+  connectionEstablished: Record<string, never>;
+  connectionFailed: Record<string, never>;
+  displayNameChange: { id: string; displayname: string };
+  dominantSpeakerChanged: { id: string };
+  endpointTextMessageReceived: {
+    senderInfo: { jid: string; id: string };
+    eventData: { name: string; text: string };
+  };
+  errorOccurred: {
+    details?: Record<string, unknown>;
+    message?: string;
+    name: string;
+    type: "CONFIG" | "CONNECTION" | "CONFERENCE";
+    isFatal: boolean;
+    error?: string;
+  };
+  incomingMessage: {
+    from: string;
+    nick: string;
+    message: string;
+    privateMessage: boolean;
+    stamp?: string;
+  };
+  // Our own chat message, sent from Jitsi's chat
+  outgoingMessage: { message: string; privateMessage: boolean };
+  participantJoined: { id: string; displayName: string };
+  participantKickedOut: {
+    kicked: { id: string; local: boolean };
+    kicker: { id: string };
+  };
+  participantLeft: { id: string };
+  participantMuted: {
+    id: string;
+    isMuted: boolean;
+    mediaType: "audio" | "video" | "desktop";
+  };
+  participantRoleChanged: { id: string; role: string };
+  // The Jitsi room is locked and Jitsi is about to ask for its password
+  passwordRequired: Record<string, never>;
+  raiseHandUpdated: { id: string; handRaised: number };
+  readyToClose: Record<string, never>;
+  recordingStatusChanged: {
+    on: boolean;
+    mode: JitsiRecordingMode;
+    error?: string;
+  };
+  screenSharingStatusChanged: {
+    on: boolean;
+    details?: { sourceType?: string };
+  };
+  suspendDetected: Record<string, never>;
+  tileViewChanged: { enabled: boolean };
+  // Subtitles from the server's transcriber; "final" is set once a phrase is done
+  transcriptionChunkReceived: {
+    data: {
+      messageID: string;
+      language?: string;
+      participant: { id: string; name?: string };
+      final?: string;
+      stable?: string;
+      unstable?: string;
+    };
+  };
+  videoConferenceJoined: {
+    roomName: string;
+    id: string;
+    displayName: string;
+    avatarURL?: string;
+  };
+  videoConferenceLeft: { roomName: string };
+  videoMuteStatusChanged: { muted: boolean };
+}
+
+export type JitsiEventName = keyof JitsiEventMap;
+
+export type JitsiEventHandler<K extends JitsiEventName> = (
+  payload: JitsiEventMap[K]
+) => void;
+
+/**
+ * A set of handlers keyed by event name, as accepted by `addEventListeners`
+ */
+export type JitsiEventHandlers = {
+  [K in JitsiEventName]?: JitsiEventHandler<K>;
+};
+
+export type JitsiRecordingMode = "file" | "stream";
+
+/**
+ * Options for the `startRecording` command
+ * File recordings and RTMP streams go through the deployment's Jibri
+ */
+export interface JitsiRecordingOptions {
+  mode: JitsiRecordingMode;
+  // RTMP stream key (YouTube or any other RTMP service), for mode "stream"
+  rtmpStreamKey?: string;
+  rtmpBroadcastID?: string;
+}
+
+/**
+ * Maps every `executeCommand` command we use to the arguments it takes
+ */
+export interface JitsiCommandMap {
+  avatarUrl: [url: string];
+  displayName: [name: string];
+  hangup: [];
+  kickParticipant: [participantId: string];
+  muteEveryone: [mediaType?: "audio" | "video"];
+  muteParticipant: [participantId: string, mediaType?: "audio" | "video"];
+  // Locks the Jitsi room as a moderator, or unlocks a locked room as a guest
+  password: [password: string];
+  pinParticipant: [participantId: string | null];
+  sendEndpointTextMessage: [participantId: string, text: string];
+  setTileView: [enabled: boolean];
+  startRecording: [options: JitsiRecordingOptions];
+  stopRecording: [mode: JitsiRecordingMode];
+  toggleAudio: [];
+  toggleRaiseHand: [];
+  toggleShareScreen: [];
+  toggleTileView: [];
+  toggleVideo: [];
+}
+
+export type JitsiCommand = keyof JitsiCommandMap;
+
+/**
+ * Toolbar buttons understood by Jitsi Meet
+ */
+export type JitsiToolbarButton =
+  | "camera"
+  | "chat"
+  | "closedcaptions"
+  | "desktop"
+  | "download"
+  | "embedmeeting"
+  | "etherpad"
+  | "feedback"
+  | "filmstrip"
+  | "fodeviceselection"
+  | "fullscreen"
+  | "hangup"
+  | "help"
+  | "highlight"
+  | "invite"
+  | "livestreaming"
+  | "microphone"
+  | "noisesuppression"
+  | "participants-pane"
+  | "profile"
+  | "raisehand"
+  | "reactions"
+  | "recording"
+  | "security"
+  | "select-background"
+  | "settings"
+  | "shareaudio"
+  | "sharedvideo"
+  | "shortcuts"
+  | "stats"
+  | "tileview"
+  | "toggle-camera"
+  | "videoquality"
+  | "whiteboard";
+
+/**
+ * The `configOverwrite` options we set (see Jitsi's config.js)
+ * Typed so a misspelled option fails to compile
+ */
+export interface JitsiConfigOverwrite {
+  prejoinPageEnabled?: boolean;
+  startWithAudioMuted?: boolean;
+  startWithVideoMuted?: boolean;
+  startAudioOnly?: boolean;
+  startSilent?: boolean;
+  disableThirdPartyRequests?: boolean;
+  disableDeepLinking?: boolean;
+  startBitrate?: number;
+  disableAudioLevels?: boolean;
+  enableLayerSuspension?: boolean;
+  fileRecordingsEnabled?: boolean;
+  liveStreamingEnabled?: boolean;
+  disableSimulcast?: boolean;
+  resolution?: number;
+  channelLastN?: number;
+  constraints?: {
+    video?: {
+      height?: { ideal?: number; max?: number; min?: number };
+    };
+  };
+  toolbarButtons?: JitsiToolbarButton[];
+  disableReactions?: boolean;
+  disablePolls?: boolean;
+  hideConferenceSubject?: boolean;
+  subject?: string;
+  disableTileView?: boolean;
+  notifications?: string[];
+  transcription?: { enabled?: boolean };
+}
+
+/**
+ * The `interfaceConfigOverwrite` options we set (see Jitsi's interface_config.js)
+ */
+export interface JitsiInterfaceConfigOverwrite {
+  SHOW_JITSI_WATERMARK?: boolean;
+  SHOW_WATERMARK_FOR_GUESTS?: boolean;
+  TOOLBAR_BUTTONS?: JitsiToolbarButton[];
+  FILM_STRIP_ONLY?: boolean;
+  HIDE_INVITE_MORE_HEADER?: boolean;
+  DISABLE_JOIN_LEAVE_NOTIFICATIONS?: boolean;
+  DISABLE_DOMINANT_SPEAKER_INDICATOR?: boolean;
+  TILE_VIEW_MAX_COLUMNS?: number;
+  VIDEO_QUALITY_LABEL_DISABLED?: boolean;
+  DEFAULT_BACKGROUND?: string;
+}
+
+export interface JitsiMeetAPIOptions {
+  roomName: string;
+  width: string | number;
+  height: string | number;
+  parentNode: HTMLElement;
+  jwt?: string;
+  // Device labels the meeting should start on
+  devices?: Partial<Record<JitsiDeviceKind, string>>;
+  userInfo?: {
+    displayName?: string;
+    email?: string;
+  };
+  configOverwrite?: JitsiConfigOverwrite;
+  interfaceConfigOverwrite?: JitsiInterfaceConfigOverwrite;
+}
+
+/**
+ * An instance of `JitsiMeetExternalAPI`
+ */
+export interface IJitsiMeetAPI {
+  dispose(): void;
+  getNumberOfParticipants(): number;
+  getParticipantsInfo(): JitsiParticipantInfo[];
+  isAudioMuted(): Promise<boolean>;
+  isVideoMuted(): Promise<boolean>;
+  getAvailableDevices(): Promise<JitsiAvailableDevices>;
+  executeCommand<K extends JitsiCommand>(
+    command: K,
+    ...args: JitsiCommandMap[K]
+  ): void;
+  addEventListeners(listeners: JitsiEventHandlers): void;
+  addListener<K extends JitsiEventName>(
+    event: K,
+    listener: JitsiEventHandler<K>
+  ): void;
+  removeListener<K extends JitsiEventName>(
+    event: K,
+    listener: JitsiEventHandler<K>
+  ): void;
+}
+
+export interface IJitsiMeetAPIConstructor {
+  new (domain: string, options: JitsiMeetAPIOptions): IJitsiMeetAPI;
+}
+
+declare global {
+  interface Window {
+    JitsiMeetExternalAPI: IJitsiMeetAPIConstructor;
+  }
+}
+
+/**
+ * Imperative handle exposed by `JitsiMeetComponent` through its ref
+ * Lets the surrounding page drive the meeting from its own UI
+ */
+export interface JitsiMeetHandle {
+  /**
+   * Runs an External API command. Returns false when no meeting is loaded.
+   */
+  executeCommand<K extends JitsiCommand>(
+    command: K,
+    ...args: JitsiCommandMap[K]
+  ): boolean;
+  toggleAudio(): boolean;
+  toggleVideo(): boolean;
+  toggleShareScreen(): boolean;
+  setTileView(enabled: boolean): boolean;
+  startRecording(options: JitsiRecordingOptions): boolean;
+  stopRecording(mode: JitsiRecordingMode): boolean;
+  kickParticipant(participantId: string): boolean;
+  muteParticipant(participantId: string): boolean;
+  /**
+   * Pins a participant to the large video, or unpins with null
+   */
+  pinParticipant(participantId: string | null): boolean;
+  sendEndpointTextMessage(participantId: string, text: string): boolean;
+  /**
+   * Leaves the conference and resolves once Jitsi reports that we left
+   */
+  hangup(): Promise<void>;
+  getParticipantsInfo(): Promise<JitsiParticipantInfo[]>;
+  isAudioMuted(): Promise<boolean>;
+  isVideoMuted(): Promise<boolean>;
+  getAvailableDevices(): Promise<JitsiAvailableDevices>;
+  /**
+   * Subscribes to a meeting event. The subscription survives reconnects.
+   * Returns a function that removes the handler again.
+   */
+  on<K extends JitsiEventName>(
+    event: K,
+    handler: JitsiEventHandler<K>
+  ): () => void;
+}
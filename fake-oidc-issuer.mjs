@@ -0,0 +1,174 @@
+// fake-oidc-issuer.mjs
+// A stand-in OpenID Connect provider for trying single sign-on locally.
+// It signs in whoever types an email on its page; never expose it.
+//
+//   npm run oidc:fake
+//   OIDC_ISSUER=http://localhost:4010 OIDC_CLIENT_ID=jitsi-wrapper npm run dev
+import { createHash, randomBytes } from "node:crypto";
+import { createServer } from "node:http";
+
+const port = Number(process.env.FAKE_OIDC_PORT) || 4010;
+const issuer = `http://localhost:${port}`;
+
+// Codes and tokens only live in memory, like the rest of this provider
+const codes = new Map();
+const accessTokens = new Map();
+
+const escapeHtml = (value) =>
+  String(value).replace(
+    /[&<>"']/g,
+    (char) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&#39;",
+      }[char])
+  );
+
+const sendJson = (response, status, body) => {
+  response.writeHead(status, {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store",
+  });
+  response.end(JSON.stringify(body));
+};
+
+const readForm = async (request) => {
+  let body = "";
+  for await (const chunk of request) body += chunk;
+  return new URLSearchParams(body);
+};
+
+const renderSignInPage = (params) => `<!DOCTYPE html>
+<html>
+  <head><title>Fake OIDC sign-in</title></head>
+  <body style="font-family: sans-serif; max-width: 24rem; margin: 4rem auto">
+    <h1>Fake OIDC sign-in</h1>
+    <p>Any email signs in. For local development only.</p>
+    <form method="post">
+      ${[...params]
+        .map(
+          ([name, value]) =>
+            `<input type="hidden" name="${escapeHtml(
+              name
+            )}" value="${escapeHtml(value)}">`
+        )
+        .join("\n      ")}
+      <p><label>Email <input type="email" name="email" required></label></p>
+      <p><label>Name <input type="text" name="name"></label></p>
+      <button type="submit">Sign in</button>
+    </form>
+  </body>
+</html>`;
+
+const handleAuthorize = async (request, response, url) => {
+  if (request.method === "GET") {
+    response.writeHead(200, { "Content-Type": "text/html" });
+    response.end(renderSignInPage(url.searchParams));
+    return;
+  }
+
+  const form = await readForm(request);
+  const redirectUri = form.get("redirect_uri");
+  const email = form.get("email")?.trim().toLowerCase();
+  if (!redirectUri || !email || form.get("response_type") !== "code") {
+    sendJson(response, 400, { error: "invalid_request" });
+    return;
+  }
+
+  const code = randomBytes(16).toString("base64url");
+  codes.set(code, {
+    clientId: form.get("client_id"),
+    redirectUri,
+    codeChallenge: form.get("code_challenge"),
+    user: {
+      sub: createHash("sha256").update(email).digest("hex").slice(0, 16),
+      email,
+      email_verified: true,
+      name: form.get("name")?.trim() || email.split("@")[0],
+      picture: `https://www.gravatar.com/avatar/${createHash("md5")
+        .update(email)
+        .digest("hex")}?d=identicon`,
+    },
+  });
+
+  const target = new URL(redirectUri);
+  target.searchParams.set("code", code);
+  if (form.get("state")) target.searchParams.set("state", form.get("state"));
+  response.writeHead(302, { Location: target.toString() });
+  response.end();
+};
+
+const handleToken = async (request, response) => {
+  const form = await readForm(request);
+  const grant = codes.get(form.get("code"));
+  codes.delete(form.get("code"));
+
+  const verifier = form.get("code_verifier") ?? "";
+  const challenge = createHash("sha256").update(verifier).digest("base64url");
+  if (
+    !grant ||
+    grant.clientId !== form.get("client_id") ||
+    grant.redirectUri !== form.get("redirect_uri") ||
+    grant.codeChallenge !== challenge
+  ) {
+    sendJson(response, 400, { error: "invalid_grant" });
+    return;
+  }
+
+  const accessToken = randomBytes(24).toString("base64url");
+  accessTokens.set(accessToken, grant.user);
+  sendJson(response, 200, {
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: 3600,
+  });
+};
+
+const handleUserInfo = (request, response) => {
+  const token = request.headers.authorization?.replace(/^Bearer /, "");
+  const user = accessTokens.get(token);
+  if (!user) {
+    sendJson(response, 401, { error: "invalid_token" });
+    return;
+  }
+  sendJson(response, 200, user);
+};
+
+const server = createServer(async (request, response) => {
+  const url = new URL(request.url, issuer);
+  try {
+    switch (url.pathname) {
+      case "/.well-known/openid-configuration":
+        sendJson(response, 200, {
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          userinfo_endpoint: `${issuer}/userinfo`,
+          response_types_supported: ["code"],
+          code_challenge_methods_supported: ["S256"],
+        });
+        return;
+      case "/authorize":
+        await handleAuthorize(request, response, url);
+        return;
+      case "/token":
+        await handleToken(request, response);
+        return;
+      case "/userinfo":
+        handleUserInfo(request, response);
+        return;
+      default:
+        sendJson(response, 404, { error: "not_found" });
+    }
+  } catch (error) {
+    console.error(error);
+    sendJson(response, 500, { error: "server_error" });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Fake OIDC issuer listening on ${issuer}`);
+});
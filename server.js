@@ -1,44 +1,126 @@
 // server.js
-const path = require("path");
-const express = require("express");
-const { createRequestHandler } = require("@remix-run/express");
-const compression = require("compression");
-require("dotenv").config();
+import { createServer } from "node:http";
+import { createRequestHandler } from "@remix-run/express";
+import compression from "compression";
+import "dotenv/config";
+import express from "express";
 
-const BUILD_DIR = path.join(process.cwd(), "build");
+// In development Vite compiles the app on the fly; in production we serve the build
+const viteDevServer =
+  process.env.NODE_ENV === "production"
+    ? undefined
+    : await import("vite").then((vite) =>
+        vite.createServer({ server: { middlewareMode: true } })
+      );
 
-const app = express();
+const getBuild = () =>
+  viteDevServer
+    ? viteDevServer.ssrLoadModule("virtual:remix/server-build")
+    : import("./build/server/index.js");
 
-// Add request size limit to handle large API calls
-app.use(express.json({ limit: "50mb" }));
-app.use(compression());
+/**
+ * Values handed to every loader and action, and to WebSocket handlers
+ */
+const getLoadContext = (request) => ({
+  // Used to rate limit per visitor, e.g. wrong room passcodes
+  clientAddress: request.socket.remoteAddress,
+  env: {
+    JITSI_DOMAIN: process.env.JITSI_DOMAIN || "meet.jit.si",
+    APP_NAME: process.env.APP_NAME || "Jitsi Wrapper",
+    // Comma separated servers users may pick with "Use Custom Jitsi Server"
+    JITSI_ALLOWED_DOMAINS: process.env.JITSI_ALLOWED_DOMAINS || "",
+    // Meeting defaults and feature flags (see app/lib/config.server.ts)
+    START_WITH_AUDIO_MUTED: process.env.START_WITH_AUDIO_MUTED,
+    START_WITH_VIDEO_MUTED: process.env.START_WITH_VIDEO_MUTED,
+    JITSI_MEETING_PRESET: process.env.JITSI_MEETING_PRESET,
+    // Phone dial-in instructions included in meeting invites
+    JITSI_DIAL_IN: process.env.JITSI_DIAL_IN,
+    FEATURE_CUSTOM_SERVER: process.env.FEATURE_CUSTOM_SERVER,
+    FEATURE_SCHEDULING: process.env.FEATURE_SCHEDULING,
+    FEATURE_RECORDING: process.env.FEATURE_RECORDING,
+    FEATURE_TRANSCRIPTS: process.env.FEATURE_TRANSCRIPTS,
+    // Shared with the recording service that reports finished files
+    RECORDING_SERVICE_SECRET: process.env.RECORDING_SERVICE_SECRET,
+    // Comma separated origins allowed to embed meetings via /embed/:roomId
+    EMBED_ALLOWED_ORIGINS: process.env.EMBED_ALLOWED_ORIGINS,
+    // Token auth for self-hosted deployments (leave unset for meet.jit.si)
+    JITSI_JWT_APP_ID: process.env.JITSI_JWT_APP_ID,
+    JITSI_JWT_APP_SECRET: process.env.JITSI_JWT_APP_SECRET,
+    JITSI_JWT_TTL_SECONDS: process.env.JITSI_JWT_TTL_SECONDS,
+    // Meeting lifecycle webhooks (comma separated target URLs)
+    WEBHOOK_URLS: process.env.WEBHOOK_URLS,
+    WEBHOOK_SECRET: process.env.WEBHOOK_SECRET,
+    WEBHOOK_MAX_ATTEMPTS: process.env.WEBHOOK_MAX_ATTEMPTS,
+    // Public origin used for room links in webhook payloads
+    APP_ORIGIN: process.env.APP_ORIGIN,
+    // Comma separated account emails allowed on admin pages (e.g. /webhooks)
+    ADMIN_EMAILS: process.env.ADMIN_EMAILS,
+    // Signs the account session cookie; set it so sign-ins survive restarts
+    SESSION_SECRET: process.env.SESSION_SECRET,
+    // Optional single sign-on through an OpenID Connect provider
+    OIDC_ISSUER: process.env.OIDC_ISSUER,
+    OIDC_CLIENT_ID: process.env.OIDC_CLIENT_ID,
+    OIDC_CLIENT_SECRET: process.env.OIDC_CLIENT_SECRET,
+    OIDC_LABEL: process.env.OIDC_LABEL,
+    // Where meetings and other server-side data are stored
+    DATA_DIR: process.env.DATA_DIR || "data",
+  },
+});
 
-// Handle asset requests
+const app = express();
+
+// Remix reads request bodies itself, so no body parsers here
 app.use(
-  "/build",
-  express.static("public/build", { immutable: true, maxAge: "1y" })
+  compression({
+    // Compressing would buffer server-sent events (see /api/presence)
+    filter: (req, res) =>
+      !String(res.getHeader("Content-Type")).startsWith("text/event-stream") &&
+      compression.filter(req, res),
+  })
 );
+
+// Handle asset requests
+if (viteDevServer) {
+  app.use(viteDevServer.middlewares);
+} else {
+  app.use(
+    "/assets",
+    express.static("build/client/assets", { immutable: true, maxAge: "1y" })
+  );
+  app.use(express.static("build/client", { maxAge: "1h" }));
+}
 app.use(express.static("public", { maxAge: "1h" }));
 
 // Handle Remix requests
 app.all(
   "*",
   createRequestHandler({
-    build: require(BUILD_DIR),
+    build: getBuild,
     mode: process.env.NODE_ENV,
-    getLoadContext(req, res) {
-      return {
-        env: {
-          JITSI_DOMAIN: process.env.JITSI_DOMAIN || "meet.jit.si",
-          APP_NAME: process.env.APP_NAME || "Jitsi Wrapper",
-        },
-      };
-    },
+    getLoadContext,
   })
 );
 
+const server = createServer(app);
+
+// WebSocket endpoints (chat, ...) live in the app; see app/lib/sockets.server.ts
+server.on("upgrade", async (request, socket, head) => {
+  try {
+    const build = await getBuild();
+    build.entry.module.handleUpgrade(
+      request,
+      socket,
+      head,
+      getLoadContext(request)
+    );
+  } catch (error) {
+    console.error("WebSocket upgrade failed:", error);
+    socket.destroy();
+  }
+});
+
 const port = process.env.PORT || 3000;
 
-app.listen(port, () => {
+server.listen(port, () => {
   console.log(`Express server listening on port ${port}`);
 });
@@ -0,0 +1,26 @@
+import { defineConfig } from "vite";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+/**
+ * Builds the embed SDK (app/sdk/meeting-embed.ts) on its own, so other apps
+ * can load it from /sdk/meeting-embed.js (ES module) or
+ * /sdk/meeting-embed.umd.js (global MeetingEmbed)
+ * Runs after the Remix build and writes next to its client assets
+ */
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  // The app's public files are already copied by the Remix build
+  publicDir: false,
+  build: {
+    outDir: "build/client/sdk",
+    emptyOutDir: true,
+    lib: {
+      entry: "app/sdk/meeting-embed.ts",
+      name: "MeetingEmbed",
+      // .js for both, so the UMD build is served as JavaScript
+      fileName: (format) =>
+        format === "es" ? "meeting-embed.js" : `meeting-embed.${format}.js`,
+      formats: ["es", "umd"],
+    },
+  },
+});
@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+/**
+ * Unit tests run on their own config, without the Remix plugin
+ * Test files sit next to the module they cover as *.test.ts
+ */
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  test: {
+    include: ["app/**/*.test.ts"],
+    environment: "node",
+  },
+});